@@ -3,20 +3,22 @@ class AEMDashboard {
         this.methods = [];
         this.currentMethod = null;
         this.currentCategory = 'all';
+        this.auth = { type: 'none' };
         this.init();
     }
 
     async init() {
+        await this.checkHealth();
+        this.setupAuth();
         await this.loadMethods();
         this.setupEventListeners();
-        this.checkHealth();
         // Check health every 30 seconds
         setInterval(() => this.checkHealth(), 30000);
     }
 
     async loadMethods() {
         try {
-            const response = await fetch('/api/methods');
+            const response = await fetch('/api/methods', { headers: this.authHeaders() });
             const data = await response.json();
             
             if (data.success) {
@@ -31,6 +33,43 @@ class AEMDashboard {
         }
     }
 
+    // Credentials are entered per browser tab and kept in sessionStorage, never in the page source
+    setupAuth() {
+        const input = document.getElementById('authCredential');
+        const placeholders = {
+            basic: 'username:password',
+            jwt: 'Bearer token',
+            'api-key': 'API key'
+        };
+
+        if (this.auth.type === 'none') {
+            input.style.display = 'none';
+            return;
+        }
+        input.placeholder = placeholders[this.auth.type];
+        input.value = sessionStorage.getItem('aemMcpCredential') || '';
+        input.addEventListener('change', () => {
+            sessionStorage.setItem('aemMcpCredential', input.value.trim());
+            this.loadMethods();
+        });
+    }
+
+    authHeaders() {
+        const credential = sessionStorage.getItem('aemMcpCredential');
+        if (!credential) return {};
+
+        switch (this.auth.type) {
+            case 'basic':
+                return { 'Authorization': 'Basic ' + btoa(credential) };
+            case 'jwt':
+                return { 'Authorization': 'Bearer ' + credential };
+            case 'api-key':
+                return { [this.auth.header]: credential };
+            default:
+                return {};
+        }
+    }
+
     flattenMethods(categorizedMethods) {
         const methods = [];
         for (const [category, categoryMethods] of Object.entries(categorizedMethods)) {
@@ -172,7 +211,9 @@ class AEMDashboard {
         // Update method details
         document.getElementById('methodName').textContent = this.currentMethod.name;
         document.getElementById('methodCategory').textContent = this.formatCategoryName(this.currentMethod.category);
-        document.getElementById('methodDescription').textContent = this.currentMethod.description;
+        document.getElementById('methodDescription').textContent = this.currentMethod.implementationStatus && this.currentMethod.implementationStatus !== 'complete'
+            ? `${this.currentMethod.description} (${this.currentMethod.implementationStatus}${this.currentMethod.notes ? ': ' + this.currentMethod.notes : ''})`
+            : this.currentMethod.description;
 
         // Render parameters
         this.renderParameters();
@@ -222,6 +263,7 @@ class AEMDashboard {
             const textarea = document.createElement('textarea');
             textarea.className = 'parameter-input textarea';
             textarea.dataset.param = input.dataset.param;
+            textarea.dataset.type = 'object';
             textarea.placeholder = input.placeholder;
             textarea.value = '{}';
             input.parentNode.replaceChild(textarea, input);
@@ -255,21 +297,22 @@ class AEMDashboard {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'Authorization': 'Basic ' + btoa('admin:admin')
+                    ...this.authHeaders()
                 },
-                body: JSON.stringify({ path: parentPath })
+                body: JSON.stringify({ parentPath })
             });
 
             const result = await response.json();
             loadingOverlay.style.display = 'none';
+            const templates = result.data && result.data.data && result.data.data.availableTemplates;
             
-            if (!result.success || !result.data || !result.data.templates || result.data.templates.length === 0) {
+            if (!result.success || !templates || templates.length === 0) {
                 alert('No templates available for this path. Please check the path or try another location.');
                 return;
             }
 
             // Show template selection dialog
-            this.displayTemplateSelector(result.data.templates);
+            this.displayTemplateSelector(templates);
             
         } catch (error) {
             loadingOverlay.style.display = 'none';
@@ -328,13 +371,25 @@ class AEMDashboard {
         });
     }
 
+    getParameterSchema(param) {
+        const schema = this.currentMethod && this.currentMethod.inputSchema;
+        return schema && schema.properties ? schema.properties[param] : undefined;
+    }
+
     isRequiredParameter(param) {
+        if (this.currentMethod && this.currentMethod.requiredParameters) {
+            return this.currentMethod.requiredParameters.includes(param);
+        }
         // Basic heuristics for required parameters
         const requiredParams = ['pagePath', 'componentPath', 'parentPath', 'title', 'template', 'assetPath', 'query'];
         return requiredParams.includes(param);
     }
 
     getParameterDescription(param) {
+        const schema = this.getParameterSchema(param);
+        if (schema && schema.description) {
+            return schema.description;
+        }
         const descriptions = {
             'pagePath': 'Full path to the AEM page (e.g., /content/mysite/en/home)',
             'componentPath': 'Full path to the component (e.g., /content/mysite/en/home/jcr:content/root/container/text)',
@@ -383,6 +438,10 @@ class AEMDashboard {
     }
 
     isObjectParameter(param) {
+        const schema = this.getParameterSchema(param);
+        if (schema && schema.type) {
+            return schema.type === 'object' || schema.type === 'array';
+        }
         return ['properties', 'metadata'].includes(param);
     }
 
@@ -399,7 +458,7 @@ class AEMDashboard {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'Authorization': 'Basic ' + btoa('admin:admin') // Default credentials
+                    ...this.authHeaders()
                 },
                 body: JSON.stringify(parameters)
             });
@@ -436,6 +495,8 @@ class AEMDashboard {
                     } catch (e) {
                         // Keep as string if JSON parsing fails
                     }
+                } else if ((this.getParameterSchema(param) || {}).type === 'boolean') {
+                    value = value.toLowerCase() === 'true';
                 } else if (!isNaN(value) && value !== '') {
                     // Convert numeric strings to numbers
                     const numValue = Number(value);
@@ -470,7 +531,8 @@ class AEMDashboard {
         // cURL example
         const curlContainer = document.getElementById('curlExample');
         const curlCommand = this.generateCurlCommand(parameters);
-        curlContainer.innerHTML = `<pre><code class="language-bash">${curlCommand}</code></pre>`;
+        curlContainer.innerHTML = '<pre><code class="language-bash"></code></pre>';
+        curlContainer.querySelector('code').textContent = curlCommand;
 
         // Trigger syntax highlighting
         if (window.Prism) {
@@ -487,15 +549,21 @@ class AEMDashboard {
             params: parameters
         };
 
+        // Placeholders only: the entered credential is not copied into the example
+        const authOptions = {
+            basic: "-u '<username>:<password>' \\\n  ",
+            jwt: "-H 'Authorization: Bearer <token>' \\\n  ",
+            'api-key': `-H '${this.auth.header}: <api-key>' \\\n  `
+        };
+        const auth = authOptions[this.auth.type] || '';
+
         return `# JSON-RPC API
-curl -u admin:admin \\
-  -X POST ${baseUrl}/mcp \\
+curl ${auth}-X POST ${baseUrl}/mcp \\
   -H 'Content-Type: application/json' \\
   -d '${JSON.stringify(jsonrpcPayload, null, 2)}'
 
 # REST API
-curl -u admin:admin \\
-  -X POST ${baseUrl}/api/methods/${this.currentMethod.name} \\
+curl ${auth}-X POST ${baseUrl}/api/methods/${this.currentMethod.name} \\
   -H 'Content-Type: application/json' \\
   -d '${JSON.stringify(parameters, null, 2)}'`;
     }
@@ -521,6 +589,9 @@ curl -u admin:admin \\
         try {
             const response = await fetch('/health');
             const health = await response.json();
+            if (health.auth) {
+                this.auth = health.auth;
+            }
             
             const indicator = document.getElementById('healthIndicator');
             const statusDot = indicator.querySelector('.status-dot');
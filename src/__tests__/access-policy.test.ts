@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the role-based access policy
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccessPolicy } from '../access-policy.js';
+import { ToolDefinition } from '../tool-registry.js';
+import { AccessPolicyDocument, AuthIdentity } from '../interfaces/index.js';
+
+const tool = (name: string, category: ToolDefinition['category'], mutating = false): ToolDefinition => ({
+  name,
+  description: name,
+  category,
+  implementationStatus: 'complete',
+  inputSchema: { type: 'object', properties: {} },
+  mutating,
+  handler: async () => ({}),
+});
+
+const getPageContent = tool('getPageContent', 'page');
+const updateComponent = tool('updateComponent', 'component', true);
+const deletePage = tool('deletePage', 'page', true);
+const activatePage = tool('activatePage', 'replication', true);
+const undoChanges: ToolDefinition = { ...tool('undoChanges', 'utility'), audited: true };
+
+const caller = (subject: string, roles?: string[]): AuthIdentity => ({ subject, authType: 'jwt', scopes: ['*'], ...(roles ? { roles } : {}) });
+
+const POLICY: AccessPolicyDocument = {
+  defaultRoles: ['viewer'],
+  subjects: { alice: ['author'], anonymous: [] },
+  roles: {
+    viewer: { tools: ['@read'], paths: ['/content'] },
+    author: { inherits: ['viewer'], tools: ['@write'], paths: ['/content/site'], deny: [{ tools: ['activatePage'] }] },
+    admin: { tools: ['*'] },
+  },
+  deny: [{ tools: ['deletePage'], paths: ['/content/site/en'] }],
+};
+
+describe('AccessPolicy', () => {
+  let dir: string;
+  let file: string;
+  let policy: AccessPolicy;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-policy-'));
+    file = path.join(dir, 'policy.json');
+    await fs.writeFile(file, JSON.stringify(POLICY));
+    policy = new AccessPolicy(file);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should resolve roles from the credential, the subject map, inheritance and the default', () => {
+    expect(policy.rolesOf(caller('alice')).sort()).toEqual(['author', 'viewer']);
+    expect(policy.rolesOf(caller('bob', ['admin']))).toEqual(['admin']);
+    expect(policy.rolesOf(caller('carol'))).toEqual(['viewer']);
+    expect(policy.rolesOf(undefined)).toEqual(['viewer']);
+  });
+
+  it('should grant tools only on the role paths', () => {
+    expect(() => policy.authorize(caller('carol'), getPageContent, ['/content/other/en'])).not.toThrow();
+    expect(() => policy.authorize(caller('carol'), updateComponent, ['/content/site/en/jcr:content/text'])).toThrow('may not run updateComponent');
+    expect(() => policy.authorize(caller('alice'), updateComponent, ['/content/site/en/jcr:content/text'])).not.toThrow();
+    expect(() => policy.authorize(caller('alice'), updateComponent, ['/content/other/en'])).toThrow("may not run updateComponent on /content/other/en");
+    expect(() => policy.authorize(caller('alice'), updateComponent, ['/content/site/../other/en'])).toThrow('on /content/other/en');
+    expect(() => policy.authorize(caller('alice'), updateComponent, ['/content/sitemap'])).toThrow();
+  });
+
+  it('should count audited tools as writes', () => {
+    expect(() => policy.authorize(caller('carol'), undoChanges, ['/content/site/en'])).toThrow('may not run undoChanges');
+    expect(() => policy.authorize(caller('alice'), undoChanges, ['/content/site/en'])).not.toThrow();
+    expect(policy.canList(caller('carol'), undoChanges)).toBe(false);
+  });
+
+  it('should let deny rules win over grants', () => {
+    expect(() => policy.authorize(caller('bob', ['admin']), deletePage, ['/content/site/en/news'])).toThrow('deletePage is denied under /content/site/en/news');
+    expect(() => policy.authorize(caller('bob', ['admin']), deletePage, ['/content/site/fr/news'])).not.toThrow();
+    expect(() => policy.authorize(caller('alice'), activatePage, ['/content/site/fr'])).toThrow('activatePage is denied');
+  });
+
+  it('should fail closed on calls that name no path', () => {
+    expect(() => policy.authorize(caller('carol'), getPageContent, [])).toThrow("may run getPageContent only on /content, and the call names no path");
+    expect(() => policy.authorize(caller('bob', ['admin']), deletePage, [])).toThrow('deletePage is denied under /content/site/en');
+    expect(() => policy.authorize(caller('bob', ['admin']), getPageContent, [])).not.toThrow();
+  });
+
+  it('should hide tools that are not granted or denied outright', () => {
+    expect(policy.canList(caller('carol'), getPageContent)).toBe(true);
+    expect(policy.canList(caller('carol'), updateComponent)).toBe(false);
+    expect(policy.canList(caller('alice'), deletePage)).toBe(true);
+    expect(policy.canList(caller('alice'), activatePage)).toBe(false);
+  });
+
+  it('should pick up policy changes and fail closed on a broken file', async () => {
+    await fs.writeFile(file, JSON.stringify({ ...POLICY, defaultRoles: ['admin'] }));
+    await fs.utimes(file, new Date(), new Date(Date.now() + 5000));
+    expect(policy.rolesOf(caller('carol'))).toEqual(['admin']);
+
+    await fs.writeFile(file, '{ not json');
+    await fs.utimes(file, new Date(), new Date(Date.now() + 10000));
+    expect(() => policy.authorize(caller('carol'), getPageContent, [])).toThrow('is not valid JSON');
+  });
+});
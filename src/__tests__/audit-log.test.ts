@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the hash-chained audit log
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLog, GENESIS_HASH } from '../audit-log.js';
+import { AuditRecord } from '../interfaces/index.js';
+
+const record = (overrides: Partial<AuditRecord> = {}): AuditRecord => ({
+  requestId: 'req-1',
+  user: 'alice',
+  authType: 'jwt',
+  tool: 'updateComponent',
+  category: 'component',
+  paths: ['/content/site/en/jcr:content/text'],
+  params: { componentPath: '/content/site/en/jcr:content/text', properties: { text: 'Hi' } },
+  outcome: 'success',
+  result: { success: true },
+  ...overrides,
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+  let file: string;
+  let audit: AuditLog;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-audit-'));
+    file = path.join(dir, 'audit.log');
+    audit = new AuditLog(file);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should chain entries in order, including across instances', async () => {
+    const [first, second] = await Promise.all([audit.record(record()), audit.record(record({ tool: 'deletePage' }))]);
+    const third = await new AuditLog(file).record(record({ user: 'bob' }));
+
+    expect(first).toMatchObject({ seq: 1, prevHash: GENESIS_HASH });
+    expect(second).toMatchObject({ seq: 2, prevHash: first.hash, tool: 'deletePage' });
+    expect(third).toMatchObject({ seq: 3, prevHash: second.hash });
+    await expect(audit.verify()).resolves.toEqual({ valid: true, checked: 3 });
+  });
+
+  it('should filter by user, path, tool and time range, newest first', async () => {
+    await audit.record(record());
+    await audit.record(record({ user: 'bob', paths: ['/content/site/fr'], tool: 'deletePage' }));
+    await audit.record(record({ paths: ['/content/site/en/news'], outcome: 'failure', error: { code: 'UPDATE_FAILED', message: 'boom' } }));
+
+    const byUserAndPath = await audit.query({ user: 'alice', path: '/content/site/en/' });
+    expect(byUserAndPath.data.entries.map(entry => entry.seq)).toEqual([3, 1]);
+    expect(byUserAndPath.data).toMatchObject({ total: 2, integrity: { valid: true, checked: 3 } });
+
+    expect((await audit.query({ tool: 'deletePage' })).data.entries.map(entry => entry.user)).toEqual(['bob']);
+    expect((await audit.query({ outcome: 'failure', limit: 1 })).data.entries[0].error).toEqual({ code: 'UPDATE_FAILED', message: 'boom' });
+    expect((await audit.query({ to: '2000-01-01T00:00:00Z' })).data.total).toBe(0);
+    await expect(audit.query({ from: 'yesterday' })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+  });
+
+  it('should detect edited and removed entries', async () => {
+    await audit.record(record());
+    await audit.record(record({ user: 'bob' }));
+    await audit.record(record({ user: 'carol' }));
+    const lines = (await fs.readFile(file, 'utf8')).trim().split('\n');
+
+    await fs.writeFile(file, [lines[0], lines[1].replace('"bob"', '"mallory"'), lines[2]].join('\n') + '\n');
+    await expect(audit.verify()).resolves.toEqual({ valid: false, checked: 3, brokenAt: 2 });
+
+    await fs.writeFile(file, [lines[0], lines[2]].join('\n') + '\n');
+    await expect(audit.verify()).resolves.toEqual({ valid: false, checked: 2, brokenAt: 3 });
+  });
+
+  it('should shorten bulk values without breaking the chain', async () => {
+    const entry = await audit.record(record({ tool: 'uploadAsset', params: { file: 'A'.repeat(5000) } }));
+
+    expect(entry.params.file).toBe(`${'A'.repeat(200)}... [5000 chars]`);
+    await expect(audit.verify()).resolves.toMatchObject({ valid: true });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for gateway authentication
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ApiKeyAuthenticator,
+  BasicAuthenticator,
+  JwtAuthenticator,
+  createAuthMiddleware,
+  getCallerIdentity
+} from '../auth.js';
+import { ApiKeyStore } from '../api-key-store.js';
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+function hs256(payload: object, secret = 'test-secret'): string {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
+
+const request = (headers: Record<string, string>) => ({ headers, originalUrl: '/api/methods/listPages' }) as any;
+
+describe('auth', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-auth-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('BasicAuthenticator', () => {
+    it('should accept only the configured credentials', async () => {
+      const authenticator = new BasicAuthenticator('mcp', 's3cret:with-colon');
+      const basic = (credentials: string) => request({ authorization: `Basic ${Buffer.from(credentials).toString('base64')}` });
+
+      await expect(authenticator.authenticate(basic('mcp:s3cret:with-colon'))).resolves.toEqual({ subject: 'mcp', authType: 'basic', scopes: ['*'] });
+      await expect(authenticator.authenticate(basic('mcp:wrong'))).rejects.toMatchObject({ code: 'AUTHENTICATION_FAILED' });
+      await expect(authenticator.authenticate(request({}))).rejects.toMatchObject({ code: 'AUTHENTICATION_FAILED' });
+    });
+  });
+
+  describe('JwtAuthenticator', () => {
+    const authenticator = new JwtAuthenticator({ secret: 'test-secret', issuer: 'https://idp.example.com', audience: 'aem-mcp' });
+    const claims = { sub: 'alice', iss: 'https://idp.example.com', aud: 'aem-mcp', scope: 'page search' };
+
+    it('should verify HS256 tokens and read scopes', async () => {
+      const identity = await authenticator.authenticate(request({ authorization: `Bearer ${hs256({ ...claims, exp: nowSec() + 60 })}` }));
+
+      expect(identity).toEqual({ subject: 'alice', authType: 'jwt', scopes: ['page', 'search'] });
+    });
+
+    it('should reject bad signatures, expired tokens and unexpected audiences', () => {
+      expect(() => authenticator.verifyToken(hs256(claims, 'other-secret'))).toThrow('Invalid token signature');
+      expect(() => authenticator.verifyToken(hs256({ ...claims, exp: nowSec() - 120 }))).toThrow('Token expired');
+      expect(() => authenticator.verifyToken(hs256({ ...claims, aud: 'someone-else' }))).toThrow('Unexpected token audience');
+    });
+
+    it('should reject unsigned tokens', () => {
+      const unsigned = `${encode({ alg: 'none' })}.${encode(claims)}.`;
+
+      expect(() => authenticator.verifyToken(unsigned)).toThrow('Unsupported token algorithm: none');
+    });
+
+    it('should verify RS256 tokens against a local JWKS file', async () => {
+      const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const jwksFile = path.join(dir, 'jwks.json');
+      await fs.writeFile(jwksFile, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1', use: 'sig' }] }));
+      const rs256 = new JwtAuthenticator({ jwksFile });
+
+      const input = `${encode({ alg: 'RS256', kid: 'k1' })}.${encode({ sub: 'ci-bot', scp: ['search'] })}`;
+      const token = `${input}.${sign('RSA-SHA256', Buffer.from(input), privateKey).toString('base64url')}`;
+
+      await expect(rs256.authenticate(request({ authorization: `Bearer ${token}` }))).resolves.toMatchObject({ subject: 'ci-bot', scopes: ['search'] });
+      expect(() => rs256.verifyToken(hs256({ sub: 'ci-bot' }))).toThrow('Unsupported token algorithm: HS256');
+    });
+  });
+
+  describe('ApiKeyStore', () => {
+    it('should verify keys until they are revoked', async () => {
+      const store = new ApiKeyStore(path.join(dir, 'keys.json'));
+      const { key, record } = await store.create({ name: 'ci', scopes: ['search'] });
+
+      expect(JSON.stringify(await store.list())).not.toContain(key.split('.')[1]);
+      await expect(store.verify(key)).resolves.toMatchObject({ id: record.id, name: 'ci' });
+      await expect(store.verify(`${key.slice(0, -1)}x`)).resolves.toBeUndefined();
+
+      expect(await store.revoke(record.id)).toBe(true);
+      await expect(store.verify(key)).resolves.toBeUndefined();
+    });
+
+    it('should reject expired keys', async () => {
+      const store = new ApiKeyStore(path.join(dir, 'keys.json'));
+      const { key } = await store.create({ name: 'temp', scopes: ['*'], expiresAt: new Date(Date.now() + 1000) });
+
+      await expect(store.verify(key, new Date(Date.now() + 2000))).resolves.toBeUndefined();
+    });
+
+    it('should authenticate callers by the configured header', async () => {
+      const store = new ApiKeyStore(path.join(dir, 'keys.json'));
+      const { key, record } = await store.create({ name: 'ci', scopes: ['search'] });
+      const authenticator = new ApiKeyAuthenticator(store, 'X-AEM-Key');
+
+      await expect(authenticator.authenticate(request({ 'x-aem-key': key }))).resolves.toEqual({
+        subject: 'ci', authType: 'api-key', scopes: ['search'], keyId: record.id,
+      });
+    });
+  });
+
+  describe('createAuthMiddleware', () => {
+    const log = { security: jest.fn(), setCorrelation: jest.fn() } as any;
+    const response = () => {
+      const res: any = {};
+      res.status = jest.fn(() => res);
+      res.set = jest.fn(() => res);
+      res.json = jest.fn(() => res);
+      return res;
+    };
+
+    it('should answer 401 with a challenge when authentication fails', async () => {
+      const res = response();
+      const next = jest.fn();
+
+      await createAuthMiddleware(new BasicAuthenticator('mcp', 'secret'), log)(request({}), res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.set).toHaveBeenCalledWith('WWW-Authenticate', 'Basic realm="aem-mcp"');
+      expect(log.security).toHaveBeenCalled();
+    });
+
+    it('should attach the caller to the request, the log correlation and the call context', async () => {
+      const req = { ...request({ authorization: `Basic ${Buffer.from('mcp:secret').toString('base64')}` }), requestId: 'req-1' };
+      let caller;
+
+      await createAuthMiddleware(new BasicAuthenticator('mcp', 'secret'), log)(req, response(), () => { caller = getCallerIdentity(); });
+
+      expect(req.identity).toMatchObject({ subject: 'mcp' });
+      expect(caller).toMatchObject({ subject: 'mcp' });
+      expect(log.setCorrelation).toHaveBeenCalledWith('req-1', 'mcp');
+      expect(getCallerIdentity()).toBeUndefined();
+    });
+  });
+});
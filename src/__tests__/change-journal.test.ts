@@ -0,0 +1,63 @@
+/**
+ * Unit tests for ChangeJournal
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ChangeJournal } from '../change-journal.js';
+import { JournalEntry } from '../interfaces/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ChangeJournal', () => {
+  let dir: string;
+  let journal: ChangeJournal;
+
+  const buildEntry = (overrides: Partial<JournalEntry> = {}): JournalEntry => ({
+    jobId: journal.newJobId(),
+    tool: 'updateComponent',
+    args: { componentPath: '/content/site/en/jcr:content/text' },
+    createdAt: new Date().toISOString(),
+    status: 'applied',
+    paths: ['/content/site/en/jcr:content/text'],
+    snapshots: [{ path: '/content/site/en/jcr:content/text', existed: true, content: { text: 'Hello' } }],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-journal-'));
+    journal = new ChangeJournal(dir, DAY_MS);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read back a saved entry and its updates', async () => {
+    const entry = buildEntry({ status: 'pending' });
+    await journal.save(entry);
+    await journal.save({ ...entry, status: 'applied' });
+
+    expect(await journal.get(entry.jobId)).toEqual({ ...entry, status: 'applied' });
+    expect(await fs.readdir(dir)).toEqual([`${entry.jobId}.json`]);
+  });
+
+  it('should treat unknown and path-like job IDs as missing', async () => {
+    expect(await journal.get('does-not-exist')).toBeUndefined();
+    expect(await journal.get('../../etc/passwd')).toBeUndefined();
+  });
+
+  it('should expire and prune entries past the retention window', async () => {
+    const old = buildEntry({ createdAt: new Date(Date.now() - 2 * DAY_MS).toISOString() });
+    const recent = buildEntry();
+    // The first save runs the hourly prune, so the old entry is written after it
+    await journal.save(recent);
+    await journal.save(old);
+
+    expect(await journal.get(old.jobId)).toBeUndefined();
+    expect(await journal.prune()).toBe(1);
+    expect(await fs.readdir(dir)).toEqual([`${recent.jobId}.json`]);
+  });
+});
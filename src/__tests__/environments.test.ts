@@ -0,0 +1,157 @@
+/**
+ * Unit tests for environment profiles
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import mockedAxios from 'axios';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { EnvironmentProfiles, getCurrentEnvironment, installEnvironment, requireEnvironment, runInEnvironment } from '../environments.js';
+import { SearchOperations } from '../operations/search-operations.js';
+import { recordPlan } from '../plan-mode.js';
+import { DEFAULT_AEM_CONFIG } from '../aem-config.js';
+
+// setup.ts mocks axios; interceptor tests need the real one
+const axios = jest.requireActual<typeof import('axios')>('axios').default;
+
+const ENVIRONMENTS = {
+  default: 'dev',
+  environments: {
+    dev: { author: 'http://localhost:4502', serviceUser: { username: 'admin', password: 'admin' } },
+    prod: {
+      description: 'Production',
+      author: 'https://author.example.com',
+      publish: 'https://publish.example.com',
+      serviceUser: { username: 'svc-mcp', password: '${AEM_TEST_PROD_PASSWORD}' },
+      contentPaths: { sitesRoot: '/content/brand' },
+      readOnly: true,
+    },
+  },
+};
+
+describe('EnvironmentProfiles', () => {
+  let dir: string;
+  let file: string;
+
+  const writeFile = async (document: unknown) => {
+    await fs.writeFile(file, JSON.stringify(document));
+    return file;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-environments-'));
+    file = path.join(dir, 'environments.json');
+    process.env.AEM_TEST_PROD_PASSWORD = 'prod-secret';
+  });
+
+  afterEach(async () => {
+    delete process.env.AEM_TEST_PROD_PASSWORD;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load profiles with variables resolved and defaults merged', async () => {
+    const environments = new EnvironmentProfiles(await writeFile(ENVIRONMENTS));
+    const prod = environments.get('prod');
+
+    expect(environments.names()).toEqual(['dev', 'prod']);
+    expect(environments.get().name).toBe('dev');
+    expect(prod).toMatchObject({ readOnly: true, description: 'Production' });
+    expect(prod.config).toMatchObject({
+      host: 'https://author.example.com',
+      serviceUser: { username: 'svc-mcp', password: 'prod-secret' },
+      contentPaths: { sitesRoot: '/content/brand', assetsRoot: DEFAULT_AEM_CONFIG.contentPaths.assetsRoot },
+      replication: { publisherUrls: ['https://publish.example.com'] },
+    });
+    expect(() => environments.get('qa')).toThrow("Unknown environment 'qa'");
+    expect(new EnvironmentProfiles(undefined).names()).toEqual(['default']);
+  });
+
+  it('should refuse files with unset variables, bad URLs or an undefined default', async () => {
+    delete process.env.AEM_TEST_PROD_PASSWORD;
+    expect(() => new EnvironmentProfiles(file)).toThrow('cannot be read');
+
+    await writeFile(ENVIRONMENTS);
+    expect(() => new EnvironmentProfiles(file)).toThrow('unset variable AEM_TEST_PROD_PASSWORD');
+
+    await writeFile({ environments: { dev: { ...ENVIRONMENTS.environments.dev, author: 'localhost:4502' } } });
+    expect(() => new EnvironmentProfiles(file)).toThrow("Environment 'dev'");
+
+    await writeFile({ ...ENVIRONMENTS, default: 'stage', environments: { dev: ENVIRONMENTS.environments.dev } });
+    expect(() => new EnvironmentProfiles(file)).toThrow("names 'stage' as default");
+  });
+
+  it('should send requests to the current profile and refuse writes to read-only ones', async () => {
+    const environments = new EnvironmentProfiles(await writeFile(ENVIRONMENTS));
+    const calls: InternalAxiosRequestConfig[] = [];
+    const adapter: AxiosAdapter = async (config) => {
+      calls.push(config);
+      return { data: {}, status: 200, statusText: 'OK', headers: {}, config };
+    };
+    const http = installEnvironment(axios.create({ baseURL: 'http://localhost:4502', adapter }));
+
+    await runInEnvironment(environments.get('prod'), () => http.get('/content/brand.json'));
+    await expect(runInEnvironment(environments.get('prod'), () => http.post('/content/brand/en', 'a=b'))).rejects.toMatchObject({
+      code: 'INSUFFICIENT_PERMISSIONS',
+      message: "Environment 'prod' is read-only",
+    });
+    await runInEnvironment(environments.get('prod'), () => recordPlan(() => http.post('/content/brand/en', 'a=b')));
+
+    expect(calls.map(call => [call.baseURL, call.auth?.username, call.method])).toEqual([
+      ['https://author.example.com', 'svc-mcp', 'get'],
+      ['https://author.example.com', 'svc-mcp', 'post'],
+    ]);
+    await expect(environments.run('prod', true, async () => 'written')).rejects.toMatchObject({ code: 'INSUFFICIENT_PERMISSIONS' });
+    await expect(environments.run(undefined, true, async () => 'written')).resolves.toBe('written');
+  });
+
+  it('should give operations the content roots of the profile a call runs against', async () => {
+    const environments = new EnvironmentProfiles(await writeFile({
+      environments: {
+        dev: { author: 'http://localhost:4502', serviceUser: { username: 'admin', password: 'admin' } },
+        brand: { author: 'https://brand.example.com', serviceUser: { username: 'svc-mcp', password: 'secret' }, contentPaths: { sitesRoot: '/brands/b' } },
+      },
+    }), DEFAULT_AEM_CONFIG);
+    // As the connector builds them: once, reading the settings of the current call
+    const searchOps = new SearchOperations(axios.create(), console as any, () => (getCurrentEnvironment() ?? environments.get()).config);
+    const query = (root: string) => ({ query: `SELECT * FROM [cq:Page] AS p WHERE ISDESCENDANTNODE(p, '${root}')` });
+
+    expect(searchOps.getJCRQueryTargets(query('/content/site/en'))).toEqual(['/content/site/en']);
+    expect(() => searchOps.getJCRQueryTargets(query('/brands/b/en'))).toThrow();
+    await environments.run('brand', false, async () => {
+      expect(searchOps.getJCRQueryTargets(query('/brands/b/en'))).toEqual(['/brands/b/en']);
+      expect(() => searchOps.getJCRQueryTargets(query('/content/site/en'))).toThrow();
+    });
+  });
+
+  it('should keep undo and apply in the environment a change was made in', async () => {
+    const environments = new EnvironmentProfiles(await writeFile(ENVIRONMENTS));
+
+    expect(() => runInEnvironment(environments.get('prod'), () => requireEnvironment('dev', 'Job j1', { jobId: 'j1' })))
+      .toThrow("Job j1 was made in environment 'dev'; call again with environment 'dev'");
+    expect(() => runInEnvironment(environments.get('dev'), () => requireEnvironment('dev', 'Job j1', {}))).not.toThrow();
+    expect(() => requireEnvironment(undefined, 'Job j1', {})).not.toThrow();
+  });
+
+  it('should report author and publish connectivity for every profile', async () => {
+    const environments = new EnvironmentProfiles(await writeFile(ENVIRONMENTS));
+    jest.mocked(mockedAxios.create).mockImplementation(((config: { baseURL: string }) => ({
+      get: jest.fn(async (url: string) => {
+        if (config.baseURL.includes('localhost')) throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+        return url.endsWith('currentuser.json') ? { status: 200, data: { authorizableId: 'svc-mcp' } } : { status: 302, data: '' };
+      }),
+    })) as any);
+
+    const { data } = await environments.listEnvironments();
+
+    expect(data.default).toBe('dev');
+    expect(data.environments[0]).toMatchObject({ name: 'dev', default: true, author: { url: 'http://localhost:4502', reachable: false, error: 'ECONNREFUSED' } });
+    expect(data.environments[1]).toMatchObject({
+      name: 'prod',
+      readOnly: true,
+      author: { reachable: true, statusCode: 200, authenticated: true },
+      publish: { url: 'https://publish.example.com', reachable: true, statusCode: 302 },
+    });
+  });
+});
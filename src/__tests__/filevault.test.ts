@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the FileVault docview format and the zip archive it is stored in
+ */
+
+import {
+  formatProperty,
+  fromPlatformName,
+  fromSlingJson,
+  parseProperty,
+  readContentPackage,
+  readContentPackageRoots,
+  toIsoDate,
+  toPlatformName,
+  writeContentPackage
+} from '../filevault.js';
+import { readZip, writeZip } from '../zip-archive.js';
+
+describe('FileVault docview', () => {
+  it('should format and parse typed and multi-value properties', () => {
+    const cases: Array<[string, ReturnType<typeof parseProperty>, string]> = [
+      ['title', { type: 'String', values: ['Hello, world'], multiple: false }, 'Hello, world'],
+      ['count', { type: 'Long', values: ['42'], multiple: false }, '{Long}42'],
+      ['hidden', { type: 'Boolean', values: ['true'], multiple: false }, '{Boolean}true'],
+      ['tags', { type: 'String', values: ['a,b', 'c\\d'], multiple: true }, '[a\\,b,c\\\\d]'],
+      ['empty', { type: 'Long', values: [], multiple: true }, '{Long}[]'],
+      ['literal', { type: 'String', values: ['[not a list]'], multiple: false }, '\\[not a list]'],
+      ['jcr:mixinTypes', { type: 'Name', values: ['mix:versionable'], multiple: true }, '[mix:versionable]'],
+    ];
+
+    for (const [name, property, formatted] of cases) {
+      expect(formatProperty(name, property)).toBe(formatted);
+      expect(parseProperty(name, formatted)).toEqual(property);
+    }
+  });
+
+  it('should infer types from the Sling JSON rendering', () => {
+    const omittedBinaries: string[] = [];
+    const node = fromSlingJson({
+      'jcr:primaryType': 'nt:unstructured',
+      onTime: 'Tue Jun 04 2024 10:00:00 GMT+0200',
+      ratio: 0.5,
+      sizes: [1, 2],
+      ':file': 1024,
+    }, '/content/mysite', omittedBinaries);
+
+    expect(node.properties).toEqual({
+      'jcr:primaryType': { type: 'Name', values: ['nt:unstructured'], multiple: false },
+      onTime: { type: 'Date', values: ['2024-06-04T10:00:00.000+02:00'], multiple: false },
+      ratio: { type: 'Double', values: ['0.5'], multiple: false },
+      sizes: { type: 'Long', values: ['1', '2'], multiple: true },
+    });
+    expect(omittedBinaries).toEqual(['/content/mysite/file']);
+    expect(toIsoDate('not a date')).toBe('not a date');
+  });
+
+  it('should map node names to FileVault file names and back', () => {
+    const names: Array<[string, string]> = [
+      ['jcr:content', '_jcr_content'],
+      ['_a_b', '__a_b'],
+      ['_private', '_private'],
+      ['a_b:c', 'a_b%3ac'],
+      ['what?', 'what%3f'],
+    ];
+
+    for (const [name, platformName] of names) {
+      expect(toPlatformName(name)).toBe(platformName);
+      expect(fromPlatformName(platformName)).toBe(name);
+    }
+  });
+
+  it('should give pages their own folder and read the package back in order', () => {
+    const page = (title: string) => fromSlingJson({
+      'jcr:primaryType': 'cq:Page',
+      'jcr:content': { 'jcr:primaryType': 'cq:PageContent', 'jcr:title': title, '1 column': { 'jcr:primaryType': 'nt:unstructured' } },
+    }, '/content/mysite/en', []);
+    const root = page('English');
+    root.children.push({ name: 'zeta', node: page('Zeta') }, { name: 'alpha', node: page('Alpha') });
+
+    const entries = readZip(writeZip(writeContentPackage(root, '/content/mysite/en', { name: 'en', group: 'my_packages' })));
+
+    expect(entries.map(entry => entry.name)).toEqual([
+      'META-INF/vault/filter.xml',
+      'META-INF/vault/properties.xml',
+      'jcr_root/content/mysite/en/.content.xml',
+      'jcr_root/content/mysite/en/zeta/.content.xml',
+      'jcr_root/content/mysite/en/alpha/.content.xml',
+    ]);
+    const xml = entries[2].data.toString('utf8');
+    expect(xml).toContain('<jcr:content');
+    expect(xml).toContain('<_x0031__x0020_column');
+    expect(xml).toContain('xmlns:cq="http://www.day.com/jcr/cq/1.0"');
+
+    const { roots } = readContentPackage(entries);
+    expect(roots).toEqual([{ path: '/content/mysite/en', node: root, hasRules: false }]);
+  });
+
+  it('should refuse names and filter roots that climb out of the node they are read under', () => {
+    const entry = (name: string, xml: string) => ({ name, data: Buffer.from(xml, 'utf8') });
+    const filter = (root: string) => entry('META-INF/vault/filter.xml', `<workspaceFilter version="1.0"><filter root="${root}"/></workspaceFilter>`);
+    const node = (children = '') => `<jcr:root xmlns:jcr="http://www.jcp.org/jcr/1.0" jcr:primaryType="nt:unstructured">${children}</jcr:root>`;
+
+    expect(readContentPackage([filter('/content/site'), entry('jcr_root/content/site/.content.xml', node())]).roots[0].node).toBeDefined();
+    expect(() => readContentPackage([filter('/content/site'), entry('jcr_root/content/site/../../apps/x/.content.xml', node())]))
+      .toThrow("Invalid node name '..' in jcr_root/content/site/../../apps/x/.content.xml");
+    expect(() => readContentPackage([filter('/content/site'), entry('jcr_root/content/site/./x/.content.xml', node())])).toThrow("Invalid node name '.'");
+    expect(() => readContentPackage([filter('/content/site'), entry('jcr_root/content//site/.content.xml', node())])).toThrow("Invalid node name ''");
+    expect(() => readContentPackage([filter('/content/site'), entry('jcr_root/content/a%2fb/.content.xml', node())])).toThrow("Invalid node name 'a/b'");
+    expect(() => readContentPackage([filter('/content/site'), entry('jcr_root/content/site/.content.xml', node('<_x002e__x002e_ jcr:primaryType="nt:unstructured"/>'))]))
+      .toThrow("Invalid node name '..' in jcr_root/content/site/.content.xml");
+    expect(() => readContentPackageRoots([filter('/content/site/../../apps')])).toThrow("Invalid node name '..' in filter root /content/site/../../apps");
+    expect(() => readContentPackageRoots([filter('content/site')])).toThrow('Filter root must be an absolute path');
+  });
+
+  it('should refuse archives that are not zips', () => {
+    expect(() => readZip(Buffer.from('not a zip'))).toThrow('Not a zip archive');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for HTTP retries and circuit breaking
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { CircuitBreaker, getCircuitStatuses, installResilience, ResilienceOptions } from '../http-resilience.js';
+import { isRetryHandled, safeExecute } from '../error-handler.js';
+
+// setup.ts mocks axios; these tests need real interceptors
+const axios = jest.requireActual<typeof import('axios')>('axios').default;
+
+const OPTIONS: ResilienceOptions = {
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  maxRetryAfterMs: 50,
+  failureThreshold: 3,
+  resetTimeoutMs: 60000,
+};
+
+type Reply = number | 'ECONNRESET' | { status: number; headers: Record<string, string> };
+
+let hostCount = 0;
+
+/**
+ * Client for a fresh host whose adapter answers with the given replies in turn
+ */
+function client(replies: Reply[], options: ResilienceOptions = OPTIONS) {
+  const calls: InternalAxiosRequestConfig[] = [];
+  const adapter: AxiosAdapter = async (config) => {
+    calls.push(config);
+    const reply = replies[Math.min(calls.length - 1, replies.length - 1)];
+    if (reply === 'ECONNRESET') {
+      throw new axios.AxiosError('socket hang up', 'ECONNRESET', config);
+    }
+    const { status, headers } = typeof reply === 'number' ? { status: reply, headers: {} } : reply;
+    const response = { data: {}, status, statusText: String(status), headers, config };
+    if (status >= 400) {
+      throw new axios.AxiosError(`HTTP ${status}`, 'ERR_BAD_RESPONSE', config, undefined, response);
+    }
+    return response;
+  };
+  const host = `http://aem-${++hostCount}.test:4502`;
+  return { http: installResilience(axios.create({ baseURL: host, adapter }), options), calls, host };
+}
+
+describe('installResilience', () => {
+  it('should retry idempotent requests after transient failures', async () => {
+    const { http, calls } = client(['ECONNRESET', 503, 200]);
+
+    await expect(http.get('/content/site.json')).resolves.toMatchObject({ status: 200 });
+    expect(calls).toHaveLength(3);
+  });
+
+  it('should retry POSTs only when marked safe', async () => {
+    const unsafe = client([503, 200]);
+    await expect(unsafe.http.post('/content/site/en', 'a=b')).rejects.toMatchObject({ response: { status: 503 } });
+    expect(unsafe.calls).toHaveLength(1);
+
+    const safe = client([503, 200]);
+    await expect(safe.http.post('/content/site/en', 'a=b', { retrySafe: true })).resolves.toMatchObject({ status: 200 });
+    expect(safe.calls).toHaveLength(2);
+  });
+
+  it('should not retry client errors and should give up after maxRetries', async () => {
+    const notFound = client([404]);
+    await expect(notFound.http.get('/content/missing.json')).rejects.toMatchObject({ response: { status: 404 } });
+    expect(notFound.calls).toHaveLength(1);
+
+    const down = client([502]);
+    await expect(down.http.get('/content/site.json')).rejects.toMatchObject({ response: { status: 502 } });
+    expect(down.calls).toHaveLength(3);
+  });
+
+  it('should honour Retry-After unless it exceeds the longest wait', async () => {
+    const short = client([{ status: 429, headers: { 'retry-after': '0.02' } }, 200]);
+    const started = Date.now();
+    await expect(short.http.get('/bin/querybuilder.json')).resolves.toMatchObject({ status: 200 });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+
+    const long = client([{ status: 503, headers: { 'retry-after': '120' } }, 200]);
+    await expect(long.http.get('/content/site.json')).rejects.toMatchObject({ response: { status: 503 } });
+    expect(long.calls).toHaveLength(1);
+  });
+
+  it('should open the host circuit after repeated failures and fail fast', async () => {
+    const { http, calls, host } = client(['ECONNRESET'], { ...OPTIONS, maxRetries: 0 });
+    for (let i = 0; i < 3; i++) {
+      await expect(http.get('/content/site.json')).rejects.toMatchObject({ code: 'ECONNRESET' });
+    }
+
+    const error = await http.get('/content/site.json').catch(caught => caught);
+    expect(error).toMatchObject({ code: 'CONNECTION_FAILED', details: { host, circuit: 'open' } });
+    expect(calls).toHaveLength(3);
+    expect(getCircuitStatuses().find(status => status.host === host)).toMatchObject({ state: 'open', consecutiveFailures: 3, lastFailure: 'ECONNRESET' });
+  });
+
+  it('should keep safeExecute from re-running operations the client already handled', async () => {
+    const { http, calls } = client([503]);
+    const operation = jest.fn(() => http.get('/content/site.json'));
+
+    const error = await safeExecute(operation, 'getPageContent').catch(caught => caught);
+
+    expect(error).toMatchObject({ code: 'SYSTEM_ERROR', recoverable: true });
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(calls).toHaveLength(3);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should let one probe through after the cool-down and close on success', () => {
+    const breaker = new CircuitBreaker('http://aem.test', 1, 1000);
+    breaker.onFailure('HTTP 503', 0);
+
+    let refusal: unknown;
+    try {
+      breaker.acquire(500);
+    } catch (caught) {
+      refusal = caught;
+    }
+    expect(refusal).toMatchObject({ code: 'CONNECTION_FAILED', retryAfter: 500 });
+    expect(isRetryHandled(refusal)).toBe(true);
+
+    expect(() => breaker.acquire(1000)).not.toThrow();
+    expect(breaker.status().state).toBe('half-open');
+    expect(() => breaker.acquire(1001)).toThrow('failing fast');
+
+    breaker.onSuccess();
+    expect(breaker.status()).toEqual({ host: 'http://aem.test', state: 'closed', consecutiveFailures: 0, lastFailure: 'HTTP 503' });
+  });
+
+  it('should reopen when the probe fails', () => {
+    const breaker = new CircuitBreaker('http://aem.test', 1, 1000);
+    breaker.onFailure('HTTP 503', 0);
+    breaker.acquire(1000);
+    breaker.onFailure('ECONNREFUSED', 1000);
+
+    expect(breaker.status()).toMatchObject({ state: 'open', retryAt: new Date(2000).toISOString() });
+    expect(() => breaker.acquire(1500)).toThrow('failing fast');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Integration tests for the Streamable HTTP and SSE MCP transports, driven over a real HTTP listener
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { AEMConnector } from '../aem-connector.js';
+import { MCPHttpTransport } from '../mcp-http-transport.js';
+import { MCP_SERVER_INFO } from '../mcp-server-factory.js';
+import { ToolRegistry } from '../tool-registry.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'transport-test', version: '1.0.0' } },
+};
+const STREAM_HEADERS = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+/**
+ * JSON-RPC messages carried in the data lines of an SSE body (the SSE endpoint event carries a plain URL)
+ */
+function sseMessages(body: string): any[] {
+  return body.split('\n').filter(line => line.startsWith('data: {')).map(line => JSON.parse(line.substring(6)));
+}
+
+describe('MCPHttpTransport', () => {
+  let transport: MCPHttpTransport;
+  let http: HttpServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    transport = new MCPHttpTransport({} as AEMConnector, new ToolRegistry(), '/mcp');
+    const app = express();
+    app.use(express.json());
+    app.use('/mcp', transport.createRouter());
+    http = await new Promise<HttpServer>(resolve => {
+      const server = app.listen(0, '127.0.0.1', () => resolve(server));
+    });
+    baseUrl = `http://127.0.0.1:${(http.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await transport.closeAll();
+    await new Promise(resolve => http.close(resolve));
+  });
+
+  const initialize = async () => {
+    const response = await fetch(`${baseUrl}/stream`, { method: 'POST', headers: STREAM_HEADERS, body: JSON.stringify(INITIALIZE) });
+    return { response, messages: sseMessages(await response.text()) };
+  };
+
+  describe('Streamable HTTP', () => {
+    it('should open a session on initialize and route later requests by its id', async () => {
+      const { response, messages } = await initialize();
+      const sessionId = response.headers.get('mcp-session-id');
+
+      expect(response.status).toBe(200);
+      expect(sessionId).toBeTruthy();
+      expect(messages[0].result.serverInfo).toEqual(MCP_SERVER_INFO);
+      expect(transport.getStats()).toMatchObject({ active: 1, byTransport: { 'streamable-http': 1, sse: 0 } });
+
+      const listed = await fetch(`${baseUrl}/stream`, {
+        method: 'POST',
+        headers: { ...STREAM_HEADERS, 'mcp-session-id': sessionId!, 'mcp-protocol-version': '2025-03-26' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'prompts/list' }),
+      });
+      expect(listed.status).toBe(200);
+      expect(sseMessages(await listed.text())[0]).toMatchObject({ id: 2, result: { prompts: expect.any(Array) } });
+
+      const deleted = await fetch(`${baseUrl}/stream`, { method: 'DELETE', headers: { 'mcp-session-id': sessionId!, 'mcp-protocol-version': '2025-03-26' } });
+      expect(deleted.status).toBe(200);
+      expect(transport.getStats().active).toBe(0);
+
+      const afterDelete = await fetch(`${baseUrl}/stream`, {
+        method: 'POST',
+        headers: { ...STREAM_HEADERS, 'mcp-session-id': sessionId! },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/list' }),
+      });
+      expect(afterDelete.status).toBe(404);
+    });
+
+    it('should refuse requests without a session that are not initialize', async () => {
+      const response = await fetch(`${baseUrl}/stream`, {
+        method: 'POST',
+        headers: STREAM_HEADERS,
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ jsonrpc: '2.0', error: { code: -32000 }, id: null });
+    });
+
+    it('should answer 404 for unknown session ids and 400 when the header is missing', async () => {
+      const unknown = await fetch(`${baseUrl}/stream`, {
+        method: 'POST',
+        headers: { ...STREAM_HEADERS, 'mcp-session-id': 'no-such-session' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+      expect(unknown.status).toBe(404);
+      expect((await unknown.json()).error.message).toBe('Session not found: no-such-session');
+
+      expect((await fetch(`${baseUrl}/stream`, { headers: { 'mcp-session-id': 'no-such-session' } })).status).toBe(404);
+      expect((await fetch(`${baseUrl}/stream`, { method: 'DELETE' })).status).toBe(400);
+    });
+  });
+
+  describe('SSE', () => {
+    it('should route posted messages to the stream of their sessionId', async () => {
+      const abort = new AbortController();
+      const stream = await fetch(`${baseUrl}/sse`, { headers: { Accept: 'text/event-stream' }, signal: abort.signal });
+      const reader = stream.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = '';
+      const readUntil = async (text: string) => {
+        while (!received.includes(text)) {
+          const { value, done } = await reader.read();
+          if (done) throw new Error(`Stream ended before ${text}`);
+          received += decoder.decode(value, { stream: true });
+        }
+      };
+
+      await readUntil('sessionId=');
+      await readUntil('\n\n');
+      const endpoint = /data: (\S+)/.exec(received)![1];
+      expect(endpoint).toMatch(/^\/mcp\/messages\?sessionId=/);
+      expect(transport.getStats().byTransport.sse).toBe(1);
+
+      const sessionId = new URL(endpoint, baseUrl).searchParams.get('sessionId')!;
+      const posted = await fetch(`${baseUrl}/messages?sessionId=${sessionId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(INITIALIZE),
+      });
+      expect(posted.status).toBe(202);
+
+      await readUntil('"serverInfo"');
+      expect(sseMessages(received).find(message => message.id === 1).result.serverInfo).toEqual(MCP_SERVER_INFO);
+
+      abort.abort();
+      await reader.cancel().catch(() => undefined);
+      for (let i = 0; i < 50 && transport.getStats().byTransport.sse > 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      expect(transport.getStats().byTransport.sse).toBe(0);
+    });
+
+    it('should answer 400 without a sessionId and 404 for unknown ones', async () => {
+      const message = { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(INITIALIZE) };
+
+      expect((await fetch(`${baseUrl}/messages`, message)).status).toBe(400);
+      expect((await fetch(`${baseUrl}/messages?sessionId=no-such-session`, message)).status).toBe(404);
+    });
+  });
+});
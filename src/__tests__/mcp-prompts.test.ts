@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the MCP prompt catalog
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  BUILT_IN_PROMPTS,
+  PromptDefinition,
+  PromptProvider,
+  loadPromptsFromDirectory,
+  renderPromptTemplate,
+  resolvePromptArguments,
+  validatePromptDefinition
+} from '../mcp-prompts.js';
+
+const PUBLISH_PROMPT: PromptDefinition = {
+  name: 'publish-section',
+  description: 'Publish a section',
+  arguments: [
+    { name: 'rootPath', type: 'path', required: true, description: 'Section root' },
+    { name: 'depth', type: 'number', default: '2', description: 'Levels to publish' },
+    { name: 'dryRun', type: 'boolean', default: 'true', description: 'Only list the pages' },
+    { name: 'locales', type: 'list', description: 'Locales' },
+  ],
+  template: 'Publish {{ rootPath }} to depth {{depth}} (dry run: {{dryRun}}) for {{locales}}{{unknown}}.',
+};
+
+describe('PromptProvider', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-prompts-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('arguments', () => {
+    it('should fill defaults, normalise values and substitute placeholders', () => {
+      const values = resolvePromptArguments(PUBLISH_PROMPT, { rootPath: '/content/site/en', dryRun: 'FALSE', locales: ' de, fr ,,es ' });
+
+      expect(values).toEqual({ rootPath: '/content/site/en', depth: '2', dryRun: 'false', locales: 'de, fr, es' });
+      expect(renderPromptTemplate(PUBLISH_PROMPT.template, values)).toBe('Publish /content/site/en to depth 2 (dry run: false) for de, fr, es.');
+    });
+
+    it('should report every invalid argument at once', () => {
+      expect(() => resolvePromptArguments(PUBLISH_PROMPT, { depth: 'deep', dryRun: 'maybe' })).toThrow(expect.objectContaining({
+        code: 'INVALID_PARAMETERS',
+        details: expect.objectContaining({
+          errors: [
+            { argument: 'rootPath', message: 'is required' },
+            { argument: 'depth', message: 'must be a number' },
+            { argument: 'dryRun', message: 'must be true or false' },
+          ],
+        }),
+      }));
+      expect(() => resolvePromptArguments(PUBLISH_PROMPT, { rootPath: 'content/site' })).toThrow('rootPath must be an absolute JCR path');
+    });
+  });
+
+  describe('prompt files', () => {
+    it('should load YAML and JSON files holding one prompt, a list or a prompts key', async () => {
+      await fs.writeFile(path.join(dir, 'a.yaml'), 'name: one\ndescription: First\narguments:\n  - name: pagePath\n    type: path\n    required: true\ntemplate: Check {{pagePath}}\n');
+      await fs.writeFile(path.join(dir, 'b.yml'), 'prompts:\n  - name: two\n    template: Second\n  - name: three\n    template: Third\n');
+      await fs.writeFile(path.join(dir, 'c.json'), JSON.stringify([{ name: 'four', template: 'Fourth', arguments: [{ name: 'limit', default: 5 }] }]));
+      await fs.writeFile(path.join(dir, 'notes.txt'), 'not a prompt');
+
+      const prompts = loadPromptsFromDirectory(dir);
+
+      expect(prompts.map(prompt => prompt.name)).toEqual(['one', 'two', 'three', 'four']);
+      expect(prompts[0]).toMatchObject({ description: 'First', arguments: [{ name: 'pagePath', type: 'path', required: true }], source: path.join(dir, 'a.yaml') });
+      expect(prompts[3].arguments[0]).toEqual({ name: 'limit', description: '', type: 'string', required: false, default: '5' });
+      expect(loadPromptsFromDirectory(path.join(dir, 'missing'))).toEqual([]);
+    });
+
+    it('should reject definitions without a valid name or template', () => {
+      expect(() => validatePromptDefinition({ name: 'bad name', template: 'x' }, 'p.yaml')).toThrow('needs a name');
+      expect(() => validatePromptDefinition({ name: 'empty', template: '  ' }, 'p.yaml')).toThrow("Prompt 'empty' in p.yaml needs a template");
+      expect(() => validatePromptDefinition({ name: 'args', template: 'x', arguments: [{ type: 'path' }] }, 'p.yaml')).toThrow('argument without a name');
+      expect(() => validatePromptDefinition({ name: 'typed', template: 'x', arguments: [{ name: 'when', type: 'date' }] }, 'p.yaml'))
+        .toThrow("Prompt 'typed' in p.yaml gives argument 'when' the unknown type 'date'; use string, number, boolean, path, list");
+      expect(() => validatePromptDefinition('text', 'p.yaml')).toThrow('must be an object');
+    });
+
+    it('should log and skip files that do not parse or hold invalid prompts', async () => {
+      await fs.writeFile(path.join(dir, 'a.yaml'), 'name: good\ntemplate: Good\n');
+      await fs.writeFile(path.join(dir, 'b.json'), '{ "name": "broken", ');
+      await fs.writeFile(path.join(dir, 'c.yaml'), 'name: [unclosed\n');
+      await fs.writeFile(path.join(dir, 'd.yml'), 'prompts:\n  - name: fine\n    template: Fine\n  - name: typed\n    template: x\n    arguments:\n      - name: when\n        type: date\n');
+      const log = { warn: jest.fn() };
+
+      const provider = new PromptProvider(dir, log as any);
+
+      expect(provider.listPrompts().map(prompt => prompt.name)).toEqual([...BUILT_IN_PROMPTS.map(prompt => prompt.name), 'good']);
+      expect(log.warn.mock.calls.map(([, context]: any) => context.metadata.file)).toEqual(['b.json', 'c.yaml', 'd.yml'].map(file => path.join(dir, file)));
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining(`Skipping prompt file ${path.join(dir, 'd.yml')}: Prompt 'typed'`), expect.anything());
+    });
+  });
+
+  describe('catalog', () => {
+    it('should list the built-in prompts with argument types in their descriptions', () => {
+      const prompts = new PromptProvider(undefined).listPrompts();
+
+      expect(prompts.map(prompt => prompt.name)).toEqual(BUILT_IN_PROMPTS.map(prompt => prompt.name));
+      expect(prompts.find(prompt => prompt.name === 'localize-page')!.arguments).toContainEqual({
+        name: 'pagePath',
+        description: 'Source page path, e.g. /content/site/en/home (path)',
+        required: true,
+      });
+    });
+
+    it('should let directory prompts override built-ins of the same name', async () => {
+      await fs.writeFile(path.join(dir, 'localize.yaml'), 'name: localize-page\ndescription: Team recipe\ntemplate: Use the translation project for {{pagePath}}\narguments:\n  - name: pagePath\n    required: true\n');
+      await fs.writeFile(path.join(dir, 'extra.json'), JSON.stringify({ name: 'team-check', template: 'Team check' }));
+
+      const provider = new PromptProvider(dir);
+      const result = provider.getPrompt('localize-page', { pagePath: '/content/site/en' });
+
+      expect(result.description).toBe('Team recipe');
+      expect(result.messages).toEqual([{ role: 'user', content: { type: 'text', text: 'Use the translation project for /content/site/en' } }]);
+      expect(provider.listPrompts().map(prompt => prompt.name)).toEqual([...BUILT_IN_PROMPTS.map(prompt => prompt.name), 'team-check']);
+    });
+
+    it('should render built-in recipes with their arguments', () => {
+      const text = new PromptProvider(undefined).getPrompt('localize-page', { pagePath: '/content/site/en/home', locales: 'de,fr' }).messages[0].content.text as string;
+
+      expect(text).toContain('Localize the AEM page /content/site/en/home into these locales: de, fr.');
+      expect(text).toContain('`copyPage` using pagePath=/content/site/en/home');
+      expect(text).toContain('Publish requested: false.');
+    });
+
+    it('should reject unknown prompts and missing required arguments', () => {
+      const provider = new PromptProvider(undefined);
+
+      expect(() => provider.getPrompt('missing')).toThrow(expect.objectContaining({ code: 'INVALID_PARAMETERS', message: 'Unknown prompt: missing' }));
+      expect(() => provider.getPrompt('localize-page', { locales: 'de' })).toThrow("Invalid arguments for prompt 'localize-page': pagePath is required");
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Unit tests for the MCP resource provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import nodePath from 'path';
+import { AccessPolicy } from '../access-policy.js';
+import { AEMConnector } from '../aem-connector.js';
+import { runAsCaller } from '../auth.js';
+import { AuthIdentity } from '../interfaces/index.js';
+import { Logger } from '../logger.js';
+import { ResourceProvider, RESOURCE_PAGE_SIZE, buildResourceUri, parseResourceUri, resolveResourceKind } from '../mcp-resources.js';
+import { createToolRegistry } from '../mcp-tools.js';
+import { ToolRegistry } from '../tool-registry.js';
+
+const child = (path: string, primaryType = 'cq:Page') => ({ name: path.split('/').pop()!, path, primaryType, title: path.split('/').pop()! });
+const children = (root: string, count: number) => Array.from({ length: count }, (_, i) => child(`${root}/child-${i}`));
+
+const aemConfig = {
+  contentPaths: { sitesRoot: '/content', assetsRoot: '/content/dam', templatesRoot: '/conf' },
+  validation: { maxDepth: 10 },
+};
+
+describe('ResourceProvider', () => {
+  let tree: Record<string, ReturnType<typeof child>[]>;
+  let primaryTypes: Record<string, string>;
+  let lastModified: Record<string, string | undefined>;
+  let connector: Record<string, jest.Mock<(...args: any[]) => Promise<any>>>;
+  let log: { warn: jest.Mock };
+  let aemConnector: AEMConnector;
+  let provider: ResourceProvider;
+
+  beforeEach(() => {
+    tree = {
+      '/content': children('/content', 30),
+      '/content/dam': children('/content/dam', 30),
+      '/conf': [],
+    };
+    primaryTypes = {
+      '/content/site/en': 'cq:Page',
+      '/content/dam/site/hero.jpg': 'dam:Asset',
+      '/conf/site/settings/wcm/templates/article': 'cq:Template',
+      '/var/workflow/models/request_for_activation': 'cq:WorkflowModel',
+      '/content/site/en/jcr:content': 'nt:unstructured',
+    };
+    lastModified = { '/content/site/en': '2024-06-01T10:00:00.000Z' };
+    connector = {
+      listChildren: jest.fn(async (path: string) => {
+        if (!(path in tree)) throw new Error(`Not found: ${path}`);
+        return tree[path];
+      }),
+      getNodeContent: jest.fn(async (path: string, depth: number) => ({ path, depth, content: { 'jcr:primaryType': primaryTypes[path] } })),
+      getPageContent: jest.fn(async (path: string) => ({ view: 'page', path })),
+      getAssetMetadata: jest.fn(async (path: string) => ({ view: 'asset', path })),
+      getTemplateStructure: jest.fn(async (path: string) => ({ view: 'template', path })),
+      getPageProperties: jest.fn(async (path: string) => {
+        if (!(path in lastModified)) throw new Error(`Not found: ${path}`);
+        return { data: { properties: { lastModified: lastModified[path] } } };
+      }),
+    };
+    log = { warn: jest.fn() };
+    aemConnector = { ...connector, aemConfig } as unknown as AEMConnector;
+    provider = new ResourceProvider(aemConnector, createToolRegistry(aemConnector), log as unknown as Logger, 1000);
+  });
+
+  afterEach(() => {
+    provider.getSubscriptions().forEach(uri => provider.unsubscribe(uri));
+    jest.useRealTimers();
+  });
+
+  const readJson = async (uri: string) => JSON.parse((await provider.readResource(uri)).contents[0].text);
+
+  describe('resource URIs', () => {
+    it('should parse instance, path and listing options', () => {
+      expect(parseResourceUri('aem://author/content/site/en/')).toEqual({ instance: 'author', path: '/content/site/en', children: false, cursor: 0 });
+      expect(parseResourceUri('aem://author/content/dam/my%20site?children&cursor=50')).toEqual({ instance: 'author', path: '/content/dam/my site', children: true, cursor: 50 });
+      expect(parseResourceUri('aem://author/content?children&cursor=-3').cursor).toBe(0);
+      expect(parseResourceUri('aem://author').path).toBe('/');
+    });
+
+    it('should reject other schemes, unknown instances and malformed URIs', () => {
+      expect(() => parseResourceUri('http://author/content')).toThrow(expect.objectContaining({ code: 'INVALID_PARAMETERS' }));
+      expect(() => parseResourceUri('aem://publish/content')).toThrow('Unknown AEM instance');
+      expect(() => parseResourceUri('not a uri')).toThrow('Invalid resource URI');
+    });
+
+    it('should build URIs that parse back to the same path', () => {
+      const uri = buildResourceUri('/content/dam/my site/hero.jpg');
+      expect(uri).toBe('aem://author/content/dam/my%20site/hero.jpg');
+      expect(parseResourceUri(uri).path).toBe('/content/dam/my site/hero.jpg');
+      expect(buildResourceUri('/content', 'author', { children: true, cursor: 50 })).toBe('aem://author/content?children&cursor=50');
+    });
+
+    it('should classify nodes by primary type and location', () => {
+      const config = aemConfig as unknown as AEMConnector['aemConfig'];
+      expect(resolveResourceKind('/content/site/en', 'cq:Page', config)).toBe('page');
+      expect(resolveResourceKind('/content/dam/site/hero.jpg', undefined, config)).toBe('asset');
+      expect(resolveResourceKind('/content/dam/site', 'sling:Folder', config)).toBe('node');
+      expect(resolveResourceKind('/conf/site/settings/wcm/templates/article', undefined, config)).toBe('template');
+      expect(resolveResourceKind('/var/workflow/models/request_for_activation', undefined, config)).toBe('workflowModel');
+    });
+  });
+
+  describe('listResources', () => {
+    it('should page across roots with a root:offset cursor', async () => {
+      const first = await provider.listResources();
+      expect(first.resources).toHaveLength(RESOURCE_PAGE_SIZE);
+      expect(first.resources[0]).toMatchObject({ uri: 'aem://author/content/child-0', name: 'child-0', mimeType: 'application/json' });
+      expect(first.nextCursor).toBe('1:20');
+
+      const second = await provider.listResources(first.nextCursor);
+      expect(second.resources.map(resource => resource.uri)).toEqual(tree['/content/dam'].slice(20).map(node => buildResourceUri(node.path)));
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should skip roots that cannot be listed and reject malformed cursors', async () => {
+      delete tree['/content/dam'];
+
+      const listing = await provider.listResources('0:25');
+
+      expect(listing.resources).toHaveLength(5);
+      expect(listing.nextCursor).toBeUndefined();
+      await expect(provider.listResources('abc')).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+    });
+  });
+
+  describe('readResource', () => {
+    it('should read each kind of node through its own view', async () => {
+      expect(await readJson('aem://author/content/site/en')).toEqual({ kind: 'page', path: '/content/site/en', content: { view: 'page', path: '/content/site/en' } });
+      expect((await readJson('aem://author/content/dam/site/hero.jpg')).content).toEqual({ view: 'asset', path: '/content/dam/site/hero.jpg' });
+      expect((await readJson('aem://author/conf/site/settings/wcm/templates/article')).kind).toBe('template');
+
+      const model = await readJson('aem://author/var/workflow/models/request_for_activation');
+      expect(model).toMatchObject({ kind: 'workflowModel', content: { depth: 10 } });
+
+      const node = await readJson('aem://author/content/site/en/jcr:content');
+      expect(node).toMatchObject({ kind: 'node', content: { depth: 1 } });
+    });
+
+    it('should return paged child listings with a cursor URI for the next page', async () => {
+      tree['/content'] = children('/content', RESOURCE_PAGE_SIZE + 5);
+
+      const first = await readJson('aem://author/content?children');
+      expect(first).toMatchObject({ path: '/content', offset: 0, total: RESOURCE_PAGE_SIZE + 5, nextCursor: `aem://author/content?children&cursor=${RESOURCE_PAGE_SIZE}` });
+      expect(first.children[0]).toMatchObject({ path: '/content/child-0', uri: 'aem://author/content/child-0' });
+
+      const last = await readJson(first.nextCursor);
+      expect(last.children).toHaveLength(5);
+      expect(last.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('subscriptions', () => {
+    let server: { sendResourceUpdated: jest.Mock<(params: { uri: string }) => Promise<void>>; setRequestHandler: jest.Mock; onclose?: () => void };
+
+    beforeEach(() => {
+      server = { sendResourceUpdated: jest.fn(async () => undefined), setRequestHandler: jest.fn() };
+      provider.register(server as unknown as Server);
+    });
+
+    it('should notify subscribers when cq:lastModified changes, including deletion', async () => {
+      const uri = 'aem://author/content/site/en';
+      await provider.subscribe(uri);
+
+      expect(await provider.checkSubscriptions()).toEqual([]);
+
+      lastModified['/content/site/en'] = '2024-06-02T10:00:00.000Z';
+      expect(await provider.checkSubscriptions()).toEqual([uri]);
+      expect(server.sendResourceUpdated).toHaveBeenCalledWith({ uri });
+
+      delete lastModified['/content/site/en'];
+      expect(await provider.checkSubscriptions()).toEqual([uri]);
+      expect(await provider.checkSubscriptions()).toEqual([]);
+    });
+
+    it('should poll while there are subscriptions and stop after the last unsubscribe', async () => {
+      jest.useFakeTimers();
+      const uri = 'aem://author/content/site/en';
+      await provider.subscribe(uri);
+      lastModified['/content/site/en'] = '2024-06-02T10:00:00.000Z';
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+
+      provider.unsubscribe(uri);
+      lastModified['/content/site/en'] = '2024-06-03T10:00:00.000Z';
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+      expect(provider.getSubscriptions()).toEqual([]);
+    });
+
+    it('should log failed polls through the injected logger and keep polling', async () => {
+      jest.useFakeTimers();
+      await provider.subscribe('aem://author/content/site/en');
+      server.sendResourceUpdated.mockRejectedValueOnce(new Error('Connection closed'));
+      lastModified['/content/site/en'] = '2024-06-02T10:00:00.000Z';
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(log.warn).toHaveBeenCalledWith('Resource subscription poll failed', { error: expect.objectContaining({ message: 'Connection closed' }) });
+      lastModified['/content/site/en'] = '2024-06-03T10:00:00.000Z';
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(server.sendResourceUpdated).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop polling when the server closes', async () => {
+      jest.useFakeTimers();
+      await provider.subscribe('aem://author/content/site/en');
+      server.onclose!();
+      lastModified['/content/site/en'] = '2024-06-02T10:00:00.000Z';
+
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(server.sendResourceUpdated).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('access policy', () => {
+    let dir: string;
+    const viewer: AuthIdentity = { subject: 'carol', authType: 'jwt', scopes: ['*'], roles: ['viewer'] };
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'aem-resources-'));
+      const file = nodePath.join(dir, 'policy.json');
+      await fs.writeFile(file, JSON.stringify({
+        roles: { viewer: { tools: ['@read'], paths: ['/content/site/en'] } },
+        deny: [{ tools: ['*'], paths: ['/content/site/en/jcr:content'] }],
+      }));
+      const registry = new ToolRegistry({ access: new AccessPolicy(file) }).registerAll(createToolRegistry(aemConnector).list());
+      provider = new ResourceProvider(aemConnector, registry, log as unknown as Logger, 1000);
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should check every read against the caller\'s path grants and deny rules before calling AEM', async () => {
+      await runAsCaller(viewer, async () => {
+        expect((await readJson('aem://author/content/site/en')).kind).toBe('page');
+        await expect(provider.readResource('aem://author/content/dam/site/hero.jpg')).rejects.toMatchObject({ code: 'INSUFFICIENT_PERMISSIONS' });
+        await expect(provider.readResource('aem://author/content/site/en/jcr:content')).rejects.toThrow('is denied under');
+        await expect(provider.readResource('aem://author/conf?children')).rejects.toMatchObject({ code: 'INSUFFICIENT_PERMISSIONS' });
+      });
+
+      expect(connector.getNodeContent.mock.calls.map(call => call[0])).toEqual(['/content/site/en']);
+      expect(connector.getAssetMetadata).not.toHaveBeenCalled();
+      expect(connector.listChildren).not.toHaveBeenCalled();
+    });
+
+    it('should list only the roots the caller may read and refuse subscriptions outside its grants', async () => {
+      await runAsCaller(viewer, async () => {
+        expect((await provider.listResources()).resources).toEqual([]);
+        await expect(provider.subscribe('aem://author/content/dam/site/hero.jpg')).rejects.toMatchObject({ code: 'INSUFFICIENT_PERMISSIONS' });
+        await provider.subscribe('aem://author/content/site/en');
+      });
+
+      expect(connector.listChildren).not.toHaveBeenCalled();
+      expect(connector.getPageProperties.mock.calls.map(call => call[0])).toEqual(['/content/site/en']);
+      expect(provider.getSubscriptions()).toEqual(['aem://author/content/site/en']);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for the AEM metadata CSV format
+ */
+
+import { formatCsv, parseCell, parseColumn, parseCsv, readMetadataCsv, writeMetadataCsv } from '../metadata-csv.js';
+
+describe('Metadata CSV', () => {
+  it('should parse quoted fields, line breaks and a byte order mark', () => {
+    const records = [['assetPath', 'dc:title'], ['/content/dam/a.png', 'Say "hi", twice'], ['/content/dam/b.png', 'two\nlines']];
+    const text = formatCsv(records);
+
+    expect(text).toBe('assetPath,dc:title\r\n/content/dam/a.png,"Say ""hi"", twice"\r\n/content/dam/b.png,"two\nlines"\r\n');
+    expect(parseCsv(`\uFEFF${text}`)).toEqual(records);
+    expect(parseCsv('a;b\n1;2', ';')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(() => parseCsv('a,"b')).toThrow('ends inside a quoted field');
+  });
+
+  it('should read typed column headers', () => {
+    expect(parseColumn('dc:title')).toEqual({ name: 'dc:title', type: 'String', multiple: false });
+    expect(parseColumn('dc:subject {{ String : multi }}')).toEqual({ name: 'dc:subject', type: 'String', multiple: true });
+    expect(parseColumn('tiff:ImageWidth{{long}}')).toEqual({ name: 'tiff:ImageWidth', type: 'Long', multiple: false });
+    expect(() => parseColumn('dam:size {{ Binary }}')).toThrow('Unsupported column header');
+  });
+
+  it('should convert cells to the values of the column type', () => {
+    expect(parseCell(parseColumn('dc:subject {{ String : multi }}'), 'summer| beach ||')).toEqual(['summer', ' beach ']);
+    expect(parseCell(parseColumn('count {{ Long }}'), ' +0042 ')).toEqual(['42']);
+    expect(parseCell(parseColumn('approved {{ Boolean }}'), 'TRUE')).toEqual(['true']);
+    expect(parseCell(parseColumn('expires {{ Date }}'), 'Tue Jun 04 2024 10:00:00 GMT+0200')).toEqual(['2024-06-04T10:00:00.000+02:00']);
+    expect(parseCell(parseColumn('count {{ Long }}'), '')).toEqual([]);
+    expect(() => parseCell(parseColumn('count {{ Long }}'), '4.5')).toThrow('count: 4.5 is not a Long');
+    expect(() => parseCell(parseColumn('expires {{ Date }}'), 'soon')).toThrow('is not a Date');
+  });
+
+  it('should keep the assetPath column wherever it is and number rows by line', () => {
+    const csv = writeMetadataCsv(
+      [{ name: 'dc:subject', type: 'String', multiple: true }],
+      [{ assetPath: '/content/dam/a.png', values: [['x', 'y']] }],
+    );
+    expect(readMetadataCsv(csv).rows).toEqual([{ line: 2, assetPath: '/content/dam/a.png', cells: ['x|y'] }]);
+
+    const moved = readMetadataCsv('dc:title,assetPath\n\nTitle,/content/dam/b.png\n');
+    expect(moved.columns.map(column => column.name)).toEqual(['dc:title']);
+    expect(moved.rows).toEqual([{ line: 3, assetPath: '/content/dam/b.png', cells: ['Title'] }]);
+    expect(() => readMetadataCsv('dc:title\nTitle')).toThrow('no assetPath column');
+  });
+});
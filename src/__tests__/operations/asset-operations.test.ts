@@ -0,0 +1,497 @@
+/**
+ * Unit tests for AssetOperations uploads, folders, metadata CSVs, renditions and references
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { AssetOperations } from '../../operations/asset-operations.js';
+import { ProgressUpdate, runWithProgress } from '../../progress.js';
+import { AxiosInstance } from 'axios';
+import { ILogger, AEMConfig } from '../../interfaces/index.js';
+
+// Mock dependencies
+const mockHttpClient: jest.Mocked<AxiosInstance> = {
+  get: jest.fn(),
+  post: jest.fn(),
+  delete: jest.fn(),
+  defaults: {} as any,
+  interceptors: {} as any,
+} as any;
+
+const mockUploadClient: jest.Mocked<AxiosInstance> = {
+  post: jest.fn(),
+  defaults: {} as any,
+  interceptors: {} as any,
+} as any;
+
+const mockLogger: jest.Mocked<ILogger> = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+} as any;
+
+const onPremiseConfig = { host: 'http://localhost:4502', serviceUser: { username: 'admin', password: 'admin' } } as AEMConfig;
+const cloudConfig = { host: 'https://author-p1-e2.adobeaemcloud.com', serviceUser: { username: 'admin', password: 'admin' } } as AEMConfig;
+
+const CONTENT = Buffer.from(Array.from({ length: 3000 }, (_, i) => i % 251));
+const SHA1 = createHash('sha1').update(CONTENT).digest('hex');
+
+describe('AssetOperations uploads', () => {
+  let dir: string;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-uploads-'));
+    mockHttpClient.get.mockImplementation(async (url: string) => url.endsWith('/metadata.json')
+      ? { data: { 'dam:sha1': SHA1 } }
+      : { data: { 'jcr:primaryType': 'dam:Asset' } });
+    mockHttpClient.post.mockResolvedValue({ data: {} });
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, status: 201 } as Response);
+  });
+
+  afterEach(async () => {
+    fetchMock.mockRestore();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should stream base64 content to createasset.html as multipart form data', async () => {
+    let body = Buffer.alloc(0);
+    mockUploadClient.post.mockImplementation(async (_url: string, data: any) => {
+      for await (const chunk of data as Readable) body = Buffer.concat([body, chunk]);
+      return { data: 'created' };
+    });
+    const assetOps = new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient, dir);
+
+    const result = await assetOps.uploadAsset({
+      parentPath: '/content/dam/mysite',
+      fileName: 'hero.png',
+      fileContent: `data:image/png;base64,${CONTENT.toString('base64')}`,
+      metadata: { 'dc:title': 'Hero', 'dc:subject': ['a', 'b'] },
+    });
+
+    expect(result.data).toMatchObject({ assetPath: '/content/dam/mysite/hero.png', uploadMode: 'multipart', size: 3000, sha1: SHA1, mimeType: 'image/png' });
+    const [url, , config] = mockUploadClient.post.mock.calls[0] as any[];
+    expect(url).toBe('/content/dam/mysite.createasset.html');
+    const boundary = /boundary=(.+)$/.exec(config.headers['Content-Type'])![1];
+    expect(Number(config.headers['Content-Length'])).toBe(body.length);
+    expect(body.includes(CONTENT)).toBe(true);
+    expect(body.toString('latin1')).toContain(`name="file"; filename="hero.png"\r\nContent-Type: image/png`);
+    expect(body.toString('latin1').endsWith(`--${boundary}--\r\n`)).toBe(true);
+
+    const [metadataUrl, metadataForm] = mockHttpClient.post.mock.calls[0] as any[];
+    expect(metadataUrl).toBe('/content/dam/mysite/hero.png/jcr:content/metadata');
+    expect(metadataForm.getAll('dc:subject')).toEqual(['a', 'b']);
+  });
+
+  it('should upload a local file in parts with direct binary upload on cloud hosts', async () => {
+    await fs.writeFile(path.join(dir, 'video.mp4'), CONTENT);
+    mockUploadClient.post.mockImplementation(async (url: string) => url.endsWith('.initiateUpload.json')
+      ? { data: {
+        completeURI: '/content/dam/mysite.completeUpload.json',
+        files: [{ fileName: 'video.mp4', uploadToken: 'token', uploadURIs: ['https://blob.test/1', 'https://blob.test/2'], minPartSize: 1024, maxPartSize: 2048 }],
+      } }
+      : { data: { ok: true } });
+    // Not extracted yet: the original rendition is hashed instead
+    mockHttpClient.get.mockImplementation(async (url: string) => {
+      if (url.endsWith('/metadata.json')) throw Object.assign(new Error('Not Found'), { response: { status: 404 } });
+      if (url.endsWith('/renditions/original')) return { data: Readable.from([CONTENT.subarray(0, 100), CONTENT.subarray(100)]) };
+      return { data: {} };
+    });
+    const assetOps = new AssetOperations(mockHttpClient, mockLogger, () => cloudConfig, mockUploadClient, dir);
+    const updates: ProgressUpdate[] = [];
+
+    const result = await runWithProgress(update => updates.push(update), () => assetOps.uploadAsset({
+      parentPath: '/content/dam/mysite',
+      fileName: 'video.mp4',
+      localFile: 'video.mp4',
+    }));
+
+    expect(result.data).toMatchObject({ uploadMode: 'direct', sha1: SHA1, mimeType: 'video/mp4' });
+    expect(fetchMock.mock.calls.map(([uri, init]) => [uri, (init.body as Buffer).length])).toEqual([['https://blob.test/1', 1500], ['https://blob.test/2', 1500]]);
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({ 'Content-Type': 'video/mp4' });
+    const [completeUrl, completeForm] = mockUploadClient.post.mock.calls[1] as any[];
+    expect(completeUrl).toBe('/content/dam/mysite.completeUpload.json');
+    expect(Object.fromEntries(completeForm)).toMatchObject({ fileName: 'video.mp4', uploadToken: 'token', fileSize: '3000', mimeType: 'video/mp4' });
+    expect(updates.map(update => update.progress)).toEqual([1500, 3000]);
+  });
+
+  it('should fail when AEM stored different content', async () => {
+    mockUploadClient.post.mockImplementation(async (_url: string, data: any) => {
+      for await (const _chunk of data as Readable);
+      return { data: {} };
+    });
+    mockHttpClient.get.mockResolvedValue({ data: { 'dam:sha1': '0000' } });
+    const assetOps = new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient, dir);
+
+    await expect(assetOps.uploadAsset({ parentPath: '/content/dam/mysite', fileName: 'a.txt', fileContent: CONTENT.toString('base64') }))
+      .rejects.toMatchObject({ code: 'UPDATE_FAILED', message: expect.stringContaining(SHA1) });
+  });
+
+  it('should refuse missing content and files outside the uploads directory', async () => {
+    const assetOps = new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient, dir);
+
+    await expect(assetOps.uploadAsset({ parentPath: '/content/dam/mysite', fileName: 'a.txt' }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+    await expect(assetOps.uploadAsset({ parentPath: '/content/dam/mysite', fileName: 'a.txt', localFile: '../secrets.txt' }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+    await expect(assetOps.uploadAsset({ parentPath: '/content/dam/mysite', fileName: 'a.txt', localFile: 'missing.txt' }))
+      .rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+    expect(mockUploadClient.post).not.toHaveBeenCalled();
+  });
+});
+
+describe('AssetOperations folders', () => {
+  const notFound = () => Object.assign(new Error('Not Found'), { response: { status: 404 } });
+  let dir: string;
+  let nodes: Record<string, any>;
+  let assetOps: AssetOperations;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-uploads-'));
+    nodes = {
+      '/content/dam/mysite': { 'jcr:primaryType': 'sling:OrderedFolder', 'jcr:content': {}, 'hero.png': { 'jcr:primaryType': 'dam:Asset' } },
+      '/content/dam/empty': { 'jcr:primaryType': 'sling:Folder', 'jcr:content': {} },
+    };
+    mockHttpClient.get.mockImplementation(async (url: string) => {
+      const node = nodes[url.replace(/\.1\.json$/, '')];
+      if (!node) throw notFound();
+      return { data: node };
+    });
+    mockHttpClient.post.mockResolvedValue({ data: {} });
+    assetOps = new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient, dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should create titled folders below the assets root only', async () => {
+    const result = await assetOps.createAssetFolder({ parentPath: '/content/dam/mysite', name: 'summer', title: 'Summer 2026' });
+
+    expect(result.data).toMatchObject({ folderPath: '/content/dam/mysite/summer', title: 'Summer 2026' });
+    const [url, form] = mockHttpClient.post.mock.calls[0] as any[];
+    expect(url).toBe('/content/dam/mysite/summer');
+    expect(Object.fromEntries(form)).toEqual({
+      'jcr:primaryType': 'sling:OrderedFolder',
+      'jcr:content/jcr:primaryType': 'nt:unstructured',
+      'jcr:content/jcr:title': 'Summer 2026',
+    });
+
+    await expect(assetOps.createAssetFolder({ parentPath: '/content/dam', name: 'mysite' })).rejects.toMatchObject({ code: 'CONFLICT' });
+    await expect(assetOps.createAssetFolder({ parentPath: '/content/mysite', name: 'assets' })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+    await expect(assetOps.createAssetFolder({ parentPath: '/content/dam', name: 'a:b' })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+  });
+
+  it('should rename, move and delete folders with the Sling POST servlet', async () => {
+    await assetOps.renameAssetFolder({ folderPath: '/content/dam/mysite', newName: 'brand', newTitle: 'Brand' });
+    await assetOps.moveAssetFolder({ folderPath: '/content/dam/empty', destParentPath: '/content/dam/mysite' });
+
+    expect(mockHttpClient.post.mock.calls.map(([url, form]) => [url, Object.fromEntries(form as URLSearchParams)])).toEqual([
+      ['/content/dam/mysite', { ':operation': 'move', ':dest': '/content/dam/brand' }],
+      ['/content/dam/brand/jcr:content', { 'jcr:title': 'Brand' }],
+      ['/content/dam/empty', { ':operation': 'move', ':dest': '/content/dam/mysite/empty' }],
+    ]);
+    await expect(assetOps.moveAssetFolder({ folderPath: '/content/dam/mysite', destParentPath: '/content/dam/mysite' }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+
+    mockHttpClient.post.mockClear();
+    await expect(assetOps.deleteAssetFolder({ folderPath: '/content/dam/mysite' })).rejects.toMatchObject({ code: 'CONFLICT' });
+    expect(mockHttpClient.post).not.toHaveBeenCalled();
+    const result = await assetOps.deleteAssetFolder({ folderPath: '/content/dam/mysite', force: true });
+    expect(result.data.deletedItems).toBe(1);
+    expect(Object.fromEntries(mockHttpClient.post.mock.calls[0][1] as URLSearchParams)).toEqual({ ':operation': 'delete' });
+  });
+
+  it('should upload a directory tree, skip unchanged files and write a report', async () => {
+    await fs.mkdir(path.join(dir, 'campaign', 'banners'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'campaign', 'hero.png'), CONTENT);
+    await fs.writeFile(path.join(dir, 'campaign', 'banners', 'wide.png'), 'wide');
+    await fs.writeFile(path.join(dir, 'campaign', 'banners', 'tall.png'), 'tall');
+    await fs.writeFile(path.join(dir, 'campaign', '.DS_Store'), 'hidden');
+    const sha1 = (data: string | Buffer) => createHash('sha1').update(data).digest('hex');
+    mockHttpClient.get.mockImplementation(async (url: string) => {
+      if (url === '/content/dam/mysite/hero.png/jcr:content/metadata.json') return { data: { 'dam:sha1': SHA1 } };
+      if (url === '/content/dam/mysite/banners/wide.png/jcr:content/metadata.json') return { data: { 'dam:sha1': sha1('wide') } };
+      if (url === '/content/dam/mysite/banners/tall.png/jcr:content/metadata.json') throw notFound();
+      if (url.endsWith('.1.json')) {
+        const node = nodes[url.replace(/\.1\.json$/, '')];
+        if (!node) throw notFound();
+        return { data: node };
+      }
+      return { data: {} };
+    });
+    mockUploadClient.post.mockImplementation(async (_url: string, data: any) => {
+      for await (const _chunk of data as Readable);
+      // Stored checksum after the upload of tall.png
+      mockHttpClient.get.mockImplementationOnce(async () => { throw new Error('AEM unavailable'); });
+      return { data: {} };
+    });
+    const updates: ProgressUpdate[] = [];
+
+    const result = await runWithProgress(update => updates.push(update), () => assetOps.uploadFolder({
+      localDir: 'campaign',
+      parentPath: '/content/dam/mysite',
+    }));
+
+    expect(result.data).toMatchObject({ createdFolders: ['/content/dam/mysite/banners'], uploaded: 0, skipped: 2, failed: 1 });
+    expect(result.data.files.map(file => [file.file, file.status])).toEqual([
+      ['banners/tall.png', 'failed'],
+      ['banners/wide.png', 'skipped'],
+      ['hero.png', 'skipped'],
+    ]);
+    expect(mockUploadClient.post).toHaveBeenCalledTimes(1);
+    expect(mockUploadClient.post.mock.calls[0][0]).toBe('/content/dam/mysite/banners.createasset.html');
+    expect(updates.map(update => update.progress)).toEqual([0, 1, 2, 3]);
+    const report = JSON.parse(await fs.readFile(result.data.reportFile, 'utf8'));
+    expect(path.dirname(result.data.reportFile)).toBe(path.join(dir, '.reports'));
+    expect(report.files).toHaveLength(3);
+  });
+
+  it('should refuse directories outside the uploads directory', async () => {
+    await expect(assetOps.uploadFolder({ localDir: '..', parentPath: '/content/dam/mysite' })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+    await expect(assetOps.uploadFolder({ localDir: 'missing', parentPath: '/content/dam/mysite' })).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+    await expect(assetOps.uploadFolder({ localDir: '.', parentPath: '/content/dam/mysite', concurrency: 0 })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+  });
+});
+
+describe('AssetOperations metadata CSV', () => {
+  const notFound = () => Object.assign(new Error('Not Found'), { response: { status: 404 } });
+  let dir: string;
+  let metadata: Record<string, any>;
+  let assetOps: AssetOperations;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-uploads-'));
+    metadata = {
+      '/content/dam/mysite/a.png': {
+        'jcr:primaryType': 'nt:unstructured',
+        'dc:title': 'A',
+        'dc:subject': ['summer', 'beach'],
+        'tiff:ImageWidth': 800,
+        'prism:expirationDate': 'Tue Jun 04 2024 10:00:00 GMT+0200',
+      },
+      '/content/dam/mysite/sub/b.png': { 'jcr:primaryType': 'nt:unstructured', 'dc:title': 'B, with comma' },
+    };
+    mockHttpClient.get.mockImplementation(async (url: string, config?: any) => {
+      if (url === '/bin/querybuilder.json') {
+        return { data: { hits: Object.keys(metadata).filter(assetPath => assetPath.startsWith(`${config.params.path}/`)).map(assetPath => ({ 'jcr:path': assetPath })) } };
+      }
+      const stored = metadata[url.replace(/\/jcr:content\/metadata\.json$/, '')];
+      if (!stored) throw notFound();
+      return { data: stored };
+    });
+    mockHttpClient.post.mockResolvedValue({ data: {} });
+    assetOps = new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient, dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should export one row per asset with typed columns', async () => {
+    const result = await assetOps.exportAssetMetadata({ folderPath: '/content/dam/mysite', fileName: 'metadata.csv' });
+
+    expect(result.data.columns).toEqual([
+      'dc:subject {{ String : multi }}',
+      'dc:title {{ String }}',
+      'prism:expirationDate {{ Date }}',
+      'tiff:ImageWidth {{ Long }}',
+    ]);
+    expect(result.data.csv.split('\r\n')).toEqual([
+      'assetPath,dc:subject {{ String : multi }},dc:title {{ String }},prism:expirationDate {{ Date }},tiff:ImageWidth {{ Long }}',
+      '/content/dam/mysite/a.png,summer|beach,A,2024-06-04T10:00:00.000+02:00,800',
+      '/content/dam/mysite/sub/b.png,,"B, with comma",,',
+      '',
+    ]);
+    expect(await fs.readFile(path.join(dir, 'metadata.csv'), 'utf8')).toBe(result.data.csv);
+    expect(mockHttpClient.get.mock.calls[0][1]).toMatchObject({ params: { path: '/content/dam/mysite', type: 'dam:Asset', 'p.limit': -1 } });
+  });
+
+  it('should write only changed properties with type hints and report failed rows', async () => {
+    const csv = [
+      'assetPath,dc:title,dc:subject {{ String : multi }},tiff:ImageWidth {{ Long }},prism:expirationDate {{ Date }}',
+      '/content/dam/mysite/a.png,A,summer|beach|sale,800,2024-06-04T08:00:00Z',
+      '/content/dam/mysite/sub/b.png,"B, with comma",,,',
+      '/content/dam/mysite/c.png,C,,,',
+      '/content/dam/mysite/sub/b.png,B,,wide,',
+      '/content/other/d.png,D,,,',
+    ].join('\n');
+
+    const result = await assetOps.importAssetMetadata({ csv });
+
+    expect(result.data).toMatchObject({ rows: 5, updated: 1, unchanged: 1, failed: 3 });
+    expect(result.data.results).toEqual([
+      { line: 2, assetPath: '/content/dam/mysite/a.png', status: 'updated', changed: ['dc:subject'] },
+      { line: 3, assetPath: '/content/dam/mysite/sub/b.png', status: 'unchanged' },
+      { line: 4, assetPath: '/content/dam/mysite/c.png', status: 'failed', error: 'Asset not found: /content/dam/mysite/c.png' },
+      { line: 5, assetPath: '/content/dam/mysite/sub/b.png', status: 'failed', error: 'tiff:ImageWidth: wide is not a Long' },
+      { line: 6, assetPath: '/content/other/d.png', status: 'failed', error: expect.stringContaining('below /content/dam') },
+    ]);
+    expect(mockHttpClient.post).toHaveBeenCalledTimes(1);
+    const [url, form] = mockHttpClient.post.mock.calls[0] as any[];
+    expect(url).toBe('/content/dam/mysite/a.png/jcr:content/metadata');
+    expect([...form]).toEqual([['dc:subject@TypeHint', 'String[]'], ['dc:subject', 'summer'], ['dc:subject', 'beach'], ['dc:subject', 'sale']]);
+  });
+
+  it('should read CSV files from the uploads directory and list journal targets', async () => {
+    await fs.writeFile(path.join(dir, 'metadata.csv'), 'assetPath;dc:title\n/content/dam/mysite/a.png;Renamed\n');
+
+    expect(assetOps.getAssetMetadataTargets({ localFile: 'metadata.csv', separator: ';' })).toEqual(['/content/dam/mysite/a.png/jcr:content/metadata']);
+    expect(assetOps.getAssetMetadataTargets({ csv: 'assetPath,dc:title\n/content/dam/b.png,B\n/content/site/en,X\n/content/dam/../conf/c,Y\n' }))
+      .toEqual(['/content/dam/b.png/jcr:content/metadata']);
+    const result = await assetOps.importAssetMetadata({ localFile: 'metadata.csv', separator: ';' });
+    expect(result.data.updated).toBe(1);
+
+    await expect(assetOps.importAssetMetadata({ csv: 'dc:title\nA' })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+    await expect(assetOps.importAssetMetadata({ localFile: 'missing.csv' })).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+    await expect(assetOps.importAssetMetadata({})).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+  });
+});
+
+describe('AssetOperations renditions', () => {
+  const ASSET = '/content/dam/mysite/hero.png';
+  const CONTENT_JSON = {
+    'jcr:primaryType': 'dam:AssetContent',
+    metadata: { 'tiff:ImageWidth': 2400, 'tiff:ImageLength': 1600 },
+    renditions: {
+      'jcr:primaryType': 'nt:folder',
+      original: { 'jcr:primaryType': 'nt:file', 'jcr:content': { 'jcr:mimeType': 'image/png', ':jcr:data': 3000, 'jcr:lastModified': 'Tue Jun 04 2024 10:00:00 GMT+0200' } },
+      'cq5dam.web.1280.1280.jpeg': { 'jcr:primaryType': 'nt:file', 'jcr:content': { 'jcr:mimeType': 'image/jpeg', ':jcr:data': 900 } },
+      'custom.webp': { 'jcr:primaryType': 'nt:file', 'jcr:content': { 'jcr:mimeType': 'image/webp', ':jcr:data': 400 } },
+    },
+  };
+  let dir: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-uploads-'));
+    mockHttpClient.get.mockImplementation(async (url: string) => {
+      if (url === `${ASSET}/jcr:content.3.json`) return { data: CONTENT_JSON };
+      if (url === `${ASSET}.1.json`) return { data: { 'jcr:primaryType': 'dam:Asset' } };
+      if (url === `${ASSET}/jcr:content/renditions/custom.webp`) return { data: Readable.from([CONTENT.subarray(0, 1000), CONTENT.subarray(1000)]), headers: { 'content-type': 'image/webp', 'content-length': '3000' } };
+      throw Object.assign(new Error('Not Found'), { response: { status: 404 } });
+    });
+    mockHttpClient.post.mockResolvedValue({ data: {}, headers: { location: '/var/workflow/instances/server0/2024-06-04/update_asset_7' } });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should list renditions with sizes and dimensions and delete all but the original', async () => {
+    const assetOps = new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient, dir);
+
+    const result = await assetOps.listRenditions(ASSET);
+
+    expect(result.data.renditions).toEqual([
+      { name: 'original', path: `${ASSET}/jcr:content/renditions/original`, mimeType: 'image/png', size: 3000, width: 2400, height: 1600, lastModified: '2024-06-04T10:00:00.000+02:00' },
+      { name: 'cq5dam.web.1280.1280.jpeg', path: `${ASSET}/jcr:content/renditions/cq5dam.web.1280.1280.jpeg`, mimeType: 'image/jpeg', size: 900, width: 1280, height: 1280 },
+      { name: 'custom.webp', path: `${ASSET}/jcr:content/renditions/custom.webp`, mimeType: 'image/webp', size: 400 },
+    ]);
+
+    await expect(assetOps.deleteRenditions({ assetPath: ASSET, renditions: ['original'] })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+    await expect(assetOps.deleteRenditions({ assetPath: ASSET, renditions: ['missing.png'] })).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+    await assetOps.deleteRenditions({ assetPath: ASSET, renditions: ['cq5dam.web.1280.1280.jpeg', 'custom.webp'] });
+    const [url, form] = mockHttpClient.post.mock.calls[0] as any[];
+    expect(url).toBe(`${ASSET}/jcr:content/renditions`);
+    expect(form.getAll(':applyTo')).toEqual([`${ASSET}/jcr:content/renditions/cq5dam.web.1280.1280.jpeg`, `${ASSET}/jcr:content/renditions/custom.webp`]);
+  });
+
+  it('should upload a custom rendition as an nt:file and download it to the uploads directory', async () => {
+    let body = Buffer.alloc(0);
+    mockUploadClient.post.mockImplementation(async (_url: string, data: any) => {
+      for await (const chunk of data as Readable) body = Buffer.concat([body, chunk]);
+      return { data: {} };
+    });
+    const assetOps = new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient, dir);
+
+    const uploaded = await assetOps.uploadRendition({ assetPath: ASSET, rendition: 'custom.webp', fileContent: CONTENT.toString('base64') });
+
+    expect(uploaded.data).toMatchObject({ renditionPath: `${ASSET}/jcr:content/renditions/custom.webp`, mimeType: 'image/webp', size: 3000, sha1: SHA1 });
+    expect(mockUploadClient.post.mock.calls[0][0]).toBe(`${ASSET}/jcr:content/renditions`);
+    expect(body.toString('latin1')).toContain('name="custom.webp@TypeHint"\r\n\r\nnt:file');
+    expect(body.toString('latin1')).toContain('name="custom.webp"; filename="custom.webp"\r\nContent-Type: image/webp');
+    await expect(assetOps.uploadRendition({ assetPath: ASSET, rendition: 'original', fileContent: 'AA==' })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+
+    const downloaded = await assetOps.downloadRendition({ assetPath: ASSET, rendition: 'custom.webp' });
+    expect(downloaded.data).toMatchObject({ localFile: path.join(dir, 'hero-custom.webp'), size: 3000, sha1: SHA1, mimeType: 'image/webp' });
+    expect(await fs.readFile(downloaded.data.localFile)).toEqual(CONTENT);
+    await expect(assetOps.downloadRendition({ assetPath: ASSET, rendition: 'missing.png' })).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+  });
+
+  it('should reprocess with the DAM Update Asset workflow or a processing profile by host', async () => {
+    const onPremise = await new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient, dir).reprocessAsset({ assetPath: ASSET });
+    const cloud = await new AssetOperations(mockHttpClient, mockLogger, () => cloudConfig, mockUploadClient, dir).reprocessAsset({ assetPath: ASSET });
+
+    expect(onPremise.data).toMatchObject({ mode: 'workflow', workflowId: 'update_asset_7' });
+    expect(cloud.data).toMatchObject({ mode: 'processingProfile', profile: 'full-process' });
+    const [[workflowUrl, workflowForm], [commandUrl, commandForm]] = mockHttpClient.post.mock.calls as any[];
+    expect(workflowUrl).toBe('/etc/workflow/instances');
+    expect(Object.fromEntries(workflowForm)).toEqual({ model: '/var/workflow/models/dam/update_asset', payloadType: 'JCR_PATH', payload: `${ASSET}/jcr:content/renditions/original` });
+    expect(commandUrl).toBe('/bin/asynccommand');
+    expect(Object.fromEntries(commandForm)).toMatchObject({ optype: 'REPROCESS', operation: 'PROCESS', 'profile-select': 'full-process', path: ASSET });
+    await expect(new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient, dir).reprocessAsset({ assetPath: '/content/dam/mysite/missing.png' }))
+      .rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+  });
+});
+
+describe('AssetOperations references', () => {
+  const HERO = '/content/dam/mysite/hero.png';
+  let assetOps: AssetOperations;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const nodes: Record<string, any> = {
+      '/content/mysite/en/jcr:content/root/image': { fileReference: HERO },
+      '/content/mysite/en/jcr:content/root/text': { text: `<p><img src="${HERO}/jcr:content/renditions/cq5dam.web.1280.1280.jpeg"></p>` },
+      '/content/mysite/de/jcr:content/root/teaser': { fileReference: '/content/dam/mysite/hero.png.bak', links: ['/content/dam/mysite/logo.svg'] },
+    };
+    mockHttpClient.get.mockImplementation(async (url: string, config?: any) => {
+      if (url === '/bin/wcm/references.json') {
+        return { data: { pages: [
+          { path: '/content/mysite/en', title: 'English', published: true, references: ['/content/mysite/en/jcr:content/root/image/fileReference', '/content/mysite/en/jcr:content/root/text/text'] },
+          { path: '/content/mysite/de', published: false, references: ['/content/mysite/de/jcr:content/root/teaser/fileReference', '/content/mysite/de/jcr:content/root/teaser/links'] },
+        ].filter(page => config.params.path === '/content/dam/mysite' || page.path === '/content/mysite/en') } };
+      }
+      if (url === '/bin/querybuilder.json') {
+        return { data: { hits: [HERO, '/content/dam/mysite/hero.png.bak', '/content/dam/mysite/logo.svg', '/content/dam/mysite/old.jpg'].map(assetPath => ({ 'jcr:path': assetPath })) } };
+      }
+      const node = nodes[url.replace(/\.1\.json$/, '')];
+      if (!node) throw Object.assign(new Error('Not Found'), { response: { status: 404 } });
+      return { data: node };
+    });
+    mockHttpClient.delete.mockResolvedValue({ data: {} });
+    assetOps = new AssetOperations(mockHttpClient, mockLogger, () => onPremiseConfig, mockUploadClient);
+  });
+
+  it('should find file references and rich text that use an asset or its renditions', async () => {
+    const result = await assetOps.findAssetReferences(HERO);
+
+    expect(result.data.pages).toEqual(['/content/mysite/en']);
+    expect(result.data.references).toEqual([
+      { pagePath: '/content/mysite/en', pageTitle: 'English', published: true, componentPath: '/content/mysite/en/jcr:content/root/image', property: 'fileReference', kind: 'fileReference' },
+      { pagePath: '/content/mysite/en', pageTitle: 'English', published: true, componentPath: '/content/mysite/en/jcr:content/root/text', property: 'text', kind: 'richText' },
+    ]);
+  });
+
+  it('should refuse to delete referenced assets unless forced', async () => {
+    await expect(assetOps.deleteAsset({ assetPath: HERO })).rejects.toMatchObject({ code: 'CONFLICT', details: { pages: ['/content/mysite/en'] } });
+    expect(mockHttpClient.delete).not.toHaveBeenCalled();
+
+    await assetOps.deleteAsset({ assetPath: HERO, force: true });
+    expect(mockHttpClient.delete).toHaveBeenCalledWith(HERO);
+  });
+
+  it('should report assets no page references', async () => {
+    const result = await assetOps.findUnusedAssets({ folderPath: '/content/dam/mysite' });
+
+    expect(result.data).toEqual({ folderPath: '/content/dam/mysite', assets: 4, referenced: 3, unused: ['/content/dam/mysite/old.jpg'] });
+  });
+});
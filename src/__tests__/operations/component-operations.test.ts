@@ -10,7 +10,7 @@ describe('ComponentOperations', () => {
   let componentOps: ComponentOperations;
 
   beforeEach(() => {
-    componentOps = new ComponentOperations(mockHttpClient as any, mockLogger as any, mockConfig.aem);
+    componentOps = new ComponentOperations(mockHttpClient as any, mockLogger as any, () => mockConfig.aem);
     jest.clearAllMocks();
   });
 
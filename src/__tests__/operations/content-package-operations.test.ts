@@ -0,0 +1,146 @@
+/**
+ * Unit tests for ContentPackageOperations
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentPackageOperations } from '../../operations/content-package-operations.js';
+import { ProgressUpdate, runWithProgress } from '../../progress.js';
+import { readZip, writeZip } from '../../zip-archive.js';
+import { AxiosInstance } from 'axios';
+import { ILogger, AEMConfig } from '../../interfaces/index.js';
+
+// Mock dependencies
+const mockHttpClient: jest.Mocked<AxiosInstance> = {
+  get: jest.fn(),
+  post: jest.fn(),
+  defaults: {} as any,
+  interceptors: {} as any,
+} as any;
+
+const mockLogger: jest.Mocked<ILogger> = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+} as any;
+
+const mockAEMConfig = {
+  host: 'http://localhost:4502',
+  serviceUser: { username: 'admin', password: 'admin' },
+} as AEMConfig;
+
+const TREE = {
+  'jcr:primaryType': 'cq:Page',
+  'jcr:created': 'Mon Jun 03 2024 09:00:00 GMT+0000',
+  'jcr:content': {
+    'jcr:primaryType': 'cq:PageContent',
+    'jcr:mixinTypes': ['mix:versionable'],
+    'jcr:title': 'Products, all of them',
+    onTime: 'Tue Jun 04 2024 10:00:00 GMT+0200',
+    priority: 3,
+    weight: 0.75,
+    hideInNav: true,
+    'cq:tags': ['mysite:products', 'mysite:sale'],
+    ':thumbnail': 2048,
+  },
+  shoes: {
+    'jcr:primaryType': 'cq:Page',
+    'jcr:content': { 'jcr:primaryType': 'cq:PageContent', 'jcr:title': 'Shoes' },
+  },
+};
+
+// Form posted for each node, keyed by path
+function postedForms(): Map<string, URLSearchParams> {
+  return new Map(mockHttpClient.post.mock.calls.map(([url, form]) => [url as string, form as URLSearchParams]));
+}
+
+describe('ContentPackageOperations', () => {
+  let dir: string;
+  let contentPackageOps: ContentPackageOperations;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-content-packages-'));
+    mockHttpClient.get.mockResolvedValue({ data: TREE });
+    mockHttpClient.post.mockResolvedValue({ data: {} });
+    contentPackageOps = new ContentPackageOperations(mockHttpClient, mockLogger, () => mockAEMConfig, dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should export a subtree with a folder per page', async () => {
+    const result = await contentPackageOps.exportContentPackage({ path: '/content/mysite/products', version: '1.0' });
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith('/content/mysite/products.infinity.json', { cache: false });
+    expect(result.data).toMatchObject({
+      localPath: path.join(dir, 'products-1.0.zip'),
+      nodes: 4,
+      files: 2,
+      omittedBinaries: ['/content/mysite/products/jcr:content/thumbnail'],
+      unknownNamespaces: [],
+    });
+    const entries = readZip(await fs.readFile(result.data.localPath));
+    expect(entries.map(entry => entry.name)).toContain('jcr_root/content/mysite/products/shoes/.content.xml');
+    const filter = entries.find(entry => entry.name === 'META-INF/vault/filter.xml')!.data.toString('utf8');
+    expect(filter).toContain('<filter root="/content/mysite/products"/>');
+  });
+
+  it('should import an exported package with the property types it was exported with', async () => {
+    await contentPackageOps.exportContentPackage({ path: '/content/mysite/products', fileName: 'products.zip' });
+    mockHttpClient.post.mockClear();
+    const updates: ProgressUpdate[] = [];
+
+    const result = await runWithProgress(update => updates.push(update), () => contentPackageOps.importContentPackage({ fileName: 'products.zip' }));
+
+    expect(result.data).toMatchObject({ roots: ['/content/mysite/products'], nodes: 4, deleted: [] });
+    expect(mockHttpClient.post.mock.calls.map(([url]) => url)).toEqual([
+      '/content/mysite/products',
+      '/content/mysite/products',
+      '/content/mysite/products/jcr:content',
+      '/content/mysite/products/shoes',
+      '/content/mysite/products/shoes/jcr:content',
+    ]);
+    expect((mockHttpClient.post.mock.calls[0][1] as URLSearchParams).get(':operation')).toBe('delete');
+
+    const content = postedForms().get('/content/mysite/products/jcr:content')!;
+    expect(content.get('jcr:title')).toBe('Products, all of them');
+    expect(content.getAll('jcr:mixinTypes')).toEqual(['mix:versionable']);
+    expect(content.has('jcr:mixinTypes@TypeHint')).toBe(false);
+    expect([content.get('onTime@TypeHint'), content.get('onTime')]).toEqual(['Date', '2024-06-04T10:00:00.000+02:00']);
+    expect([content.get('priority@TypeHint'), content.get('priority')]).toEqual(['Long', '3']);
+    expect([content.get('weight@TypeHint'), content.get('weight')]).toEqual(['Double', '0.75']);
+    expect([content.get('hideInNav@TypeHint'), content.get('hideInNav')]).toEqual(['Boolean', 'true']);
+    expect(content.get('cq:tags@TypeHint')).toBe('String[]');
+    expect(content.getAll('cq:tags')).toEqual(['mysite:products', 'mysite:sale']);
+    expect(updates.at(-1)).toMatchObject({ progress: 4, total: 4 });
+  });
+
+  it('should only merge packages whose filters have rules', async () => {
+    const archive = readZip(await fs.readFile((await contentPackageOps.exportContentPackage({ path: '/content/mysite/products' })).data.localPath));
+    const filter = archive.find(entry => entry.name === 'META-INF/vault/filter.xml')!;
+    filter.data = Buffer.from('<workspaceFilter version="1.0"><filter root="/content/mysite/products"><exclude pattern=".*/shoes"/></filter></workspaceFilter>');
+    await fs.writeFile(path.join(dir, 'ruled.zip'), writeZip(archive));
+    mockHttpClient.post.mockClear();
+
+    await expect(contentPackageOps.importContentPackage({ fileName: 'ruled.zip' })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+    expect(mockHttpClient.post).not.toHaveBeenCalled();
+
+    await contentPackageOps.importContentPackage({ fileName: 'ruled.zip', mode: 'merge' });
+    expect(postedForms().has('/content/mysite/products')).toBe(true);
+    expect(mockHttpClient.post.mock.calls.some(([, form]) => (form as URLSearchParams).get(':operation') === 'delete')).toBe(false);
+  });
+
+  it('should read filter roots for the journal and refuse unreadable files', async () => {
+    await contentPackageOps.exportContentPackage({ path: '/content/mysite/products', fileName: 'products.zip' });
+    await fs.writeFile(path.join(dir, 'broken.zip'), 'not a zip');
+
+    expect(contentPackageOps.getContentPackageRoots('products.zip')).toEqual(['/content/mysite/products']);
+    expect(() => contentPackageOps.getContentPackageRoots('broken.zip')).toThrow(expect.objectContaining({ code: 'INVALID_PARAMETERS' }));
+    expect(() => contentPackageOps.getContentPackageRoots('missing.zip')).toThrow(expect.objectContaining({ code: 'RESOURCE_NOT_FOUND' }));
+    expect(() => contentPackageOps.getContentPackageRoots('../products.zip')).toThrow(expect.objectContaining({ code: 'INVALID_PARAMETERS' }));
+  });
+});
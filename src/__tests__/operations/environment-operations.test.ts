@@ -0,0 +1,161 @@
+/**
+ * Unit tests for EnvironmentOperations
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { EnvironmentOperations } from '../../operations/environment-operations.js';
+import { EnvironmentProfiles, getCurrentEnvironment } from '../../environments.js';
+import { recordPlan } from '../../plan-mode.js';
+import { AxiosInstance } from 'axios';
+import { ILogger, AEMConfig } from '../../interfaces/index.js';
+
+// Mock dependencies
+const mockHttpClient: jest.Mocked<AxiosInstance> = {
+  get: jest.fn(),
+  post: jest.fn(),
+  defaults: {} as any,
+  interceptors: {} as any,
+} as any;
+
+const mockLogger: jest.Mocked<ILogger> = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+} as any;
+
+const mockAEMConfig = {
+  host: 'http://localhost:4502',
+  serviceUser: { username: 'admin', password: 'admin' },
+} as AEMConfig;
+
+const notFound = () => Object.assign(new Error('Not Found'), { response: { status: 404 } });
+
+describe('EnvironmentOperations', () => {
+  let dir: string;
+  let environments: EnvironmentProfiles;
+  let environmentOps: EnvironmentOperations;
+  // Subtree at /content/site/en on each instance, keyed by the host the request is sent to
+  let trees: Record<string, Record<string, any>>;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-environment-ops-'));
+    const file = path.join(dir, 'environments.json');
+    await fs.writeFile(file, JSON.stringify({
+      environments: {
+        stage: { author: 'https://stage-author.test', publish: 'https://stage-publish.test', serviceUser: { username: 'svc', password: 'stage' } },
+        prod: { author: 'https://prod-author.test', serviceUser: { username: 'svc', password: 'prod' } },
+      },
+    }));
+    environments = new EnvironmentProfiles(file);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const page = { 'jcr:primaryType': 'cq:Page', 'jcr:content': { 'jcr:title': 'English', 'cq:lastModified': 'Mon' } };
+    trees = {
+      'https://stage-author.test': {
+        ...page,
+        'jcr:content': { 'jcr:title': 'English (new)', 'cq:lastModified': 'Tue', hideInNav: true, tags: ['a', 'b'] },
+        about: { 'jcr:primaryType': 'cq:Page', 'jcr:content': { 'jcr:title': 'About' } },
+      },
+      'https://stage-publish.test': page,
+      'https://prod-author.test': {
+        ...page,
+        'jcr:content': { ...page['jcr:content'], subtitle: 'Old' },
+        legacy: { 'jcr:primaryType': 'cq:Page' },
+      },
+    };
+    mockHttpClient.get.mockImplementation(async (url: string) => {
+      const tree = trees[getCurrentEnvironment()!.config.host];
+      const names = url.replace(/^\/content\/site\/en/, '').replace(/\.(infinity|1)\.json$/, '').split('/').filter(Boolean);
+      const node = names.reduce<any>((current, name) => current?.[name], tree);
+      if (!node) throw notFound();
+      return { data: JSON.parse(JSON.stringify(node)) };
+    });
+    mockHttpClient.post.mockResolvedValue({ data: {} });
+    environmentOps = new EnvironmentOperations(mockHttpClient, mockLogger, () => mockAEMConfig, environments);
+  });
+
+  describe('diffEnvironments', () => {
+    it('should report added, removed and modified nodes without volatile properties', async () => {
+      const result = await environmentOps.diffEnvironments({ path: '/content/site/en', source: 'stage', target: 'prod' });
+
+      expect(result.data.differences).toEqual([
+        {
+          path: '/content/site/en/jcr:content',
+          type: 'modified',
+          properties: [
+            { property: 'jcr:title', type: 'modified', oldValue: 'English', newValue: 'English (new)' },
+            { property: 'hideInNav', type: 'added', newValue: true },
+            { property: 'tags', type: 'added', newValue: ['a', 'b'] },
+            { property: 'subtitle', type: 'removed', oldValue: 'Old' },
+          ],
+        },
+        { path: '/content/site/en/about', type: 'added' },
+        { path: '/content/site/en/legacy', type: 'removed' },
+      ]);
+      expect(result.data.summary).toEqual({ added: 1, removed: 1, modified: 1, properties: 4 });
+    });
+
+    it('should compare an environment\'s author with its publish instance', async () => {
+      const result = await environments.run('stage', false, () => environmentOps.diffEnvironments({ path: '/content/site/en', sourceTier: 'author', targetTier: 'publish' }));
+
+      expect(result.data.target).toEqual({ environment: 'stage', tier: 'publish' });
+      expect(result.data.differences.map(difference => difference.path)).toEqual(['/content/site/en/jcr:content', '/content/site/en/about']);
+      await expect(environmentOps.diffEnvironments({ path: '/content/site/en', source: 'stage', target: 'stage' }))
+        .rejects.toMatchObject({ code: 'INVALID_PARAMETERS', message: 'Source and target are the same instance' });
+    });
+  });
+
+  describe('promoteContent', () => {
+    const promote = (request: Record<string, any>) => environments.run('prod', true, () => environmentOps.promoteContent({ path: '/content/site/en', source: 'stage', ...request }));
+
+    it('should refuse to write without confirm but allow a dry run', async () => {
+      await expect(promote({})).rejects.toMatchObject({ code: 'INVALID_PARAMETERS', message: expect.stringContaining('confirm: true') });
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+
+      let result: any;
+      await recordPlan(async () => {
+        result = await promote({});
+      });
+      expect(result.data.promoted).toHaveLength(2);
+    });
+
+    it('should import added nodes, set typed properties and keep removals unless asked', async () => {
+      const result = await promote({ confirm: true });
+
+      expect(result.data.skippedRemovals).toEqual(['/content/site/en/legacy']);
+      expect(mockHttpClient.post).toHaveBeenCalledTimes(2);
+      const [[contentPath, properties], [parentPath, importForm]] = mockHttpClient.post.mock.calls as [string, URLSearchParams][];
+      expect(contentPath).toBe('/content/site/en/jcr:content');
+      expect([...properties.entries()]).toEqual([
+        ['jcr:title', 'English (new)'],
+        ['hideInNav@TypeHint', 'Boolean'],
+        ['hideInNav', 'true'],
+        ['tags@TypeHint', 'String[]'],
+        ['tags', 'a'],
+        ['tags', 'b'],
+        ['subtitle@Delete', ''],
+      ]);
+      expect(parentPath).toBe('/content/site/en');
+      expect(importForm.get(':name')).toBe('about');
+      expect(JSON.parse(importForm.get(':content')!)).toEqual(trees['https://stage-author.test'].about);
+    });
+
+    it('should promote only the selected paths and delete removals when included', async () => {
+      const result = await promote({ confirm: true, paths: ['/content/site/en/legacy'], includeRemovals: true });
+
+      expect(result.data.promoted).toEqual([{ path: '/content/site/en/legacy', type: 'removed' }]);
+      expect(mockHttpClient.post).toHaveBeenCalledTimes(1);
+      expect(mockHttpClient.post.mock.calls[0][0]).toBe('/content/site/en/legacy');
+      expect((mockHttpClient.post.mock.calls[0][1] as URLSearchParams).get(':operation')).toBe('delete');
+    });
+  });
+});
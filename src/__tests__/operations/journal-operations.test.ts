@@ -0,0 +1,172 @@
+/**
+ * Unit tests for JournalOperations
+ */
+
+import { JournalOperations } from '../../operations/journal-operations.js';
+import { ChangeJournal } from '../../change-journal.js';
+import { runAsCaller } from '../../auth.js';
+import { AxiosInstance } from 'axios';
+import { ILogger, AEMConfig, JournalEntry } from '../../interfaces/index.js';
+
+// Mock dependencies
+const mockHttpClient: jest.Mocked<AxiosInstance> = {
+  get: jest.fn(),
+  post: jest.fn(),
+  defaults: {} as any,
+  interceptors: {} as any,
+} as any;
+
+const mockLogger: jest.Mocked<ILogger> = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+} as any;
+
+const mockAEMConfig = {
+  host: 'http://localhost:4502',
+  serviceUser: { username: 'admin', password: 'admin' },
+} as AEMConfig;
+
+// In-memory journal so the tests do not touch the disk
+class MemoryJournal extends ChangeJournal {
+  entries = new Map<string, JournalEntry>();
+  private counter = 0;
+
+  newJobId(): string {
+    return `job-${++this.counter}`;
+  }
+
+  async save(entry: JournalEntry): Promise<void> {
+    this.entries.set(entry.jobId, JSON.parse(JSON.stringify(entry)));
+  }
+
+  async get(jobId: string): Promise<JournalEntry | undefined> {
+    const entry = this.entries.get(jobId);
+    return entry && JSON.parse(JSON.stringify(entry));
+  }
+}
+
+const notFound = () => Object.assign(new Error('Not Found'), { response: { status: 404 } });
+
+describe('JournalOperations', () => {
+  const componentPath = '/content/site/en/jcr:content/root/text';
+  let repository: Record<string, any>;
+  let journal: MemoryJournal;
+  let journalOps: JournalOperations;
+
+  // Serve .infinity.json and .1.json reads from the in-memory repository
+  const serveRepository = () => {
+    mockHttpClient.get.mockImplementation(async (url: string) => {
+      const path = url.replace(/\.(infinity|1)\.json$/, '');
+      if (!(path in repository)) throw notFound();
+      return { data: JSON.parse(JSON.stringify(repository[path])) };
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = {
+      [componentPath]: { 'jcr:primaryType': 'nt:unstructured', 'jcr:created': 'x', text: 'Hello' },
+      '/content/site/en/jcr:content/root': { text: {}, image: {} },
+    };
+    serveRepository();
+    mockHttpClient.post.mockResolvedValue({ data: {} });
+    journal = new MemoryJournal();
+    journalOps = new JournalOperations(mockHttpClient, mockLogger, () => mockAEMConfig, journal);
+  });
+
+  const updateText = (text: string) => journalOps.recordChange(
+    'updateComponent',
+    { componentPath, properties: { text } },
+    { paths: (args) => [args.componentPath] },
+    async () => {
+      repository[componentPath] = { ...repository[componentPath], text };
+      return { success: true, data: { componentPath } };
+    }
+  ) as Promise<{ jobId: string }>;
+
+  it('should snapshot before the change and restore it on undo', async () => {
+    const { jobId } = await updateText('Changed');
+
+    const entry = journal.entries.get(jobId)!;
+    expect(entry.status).toBe('applied');
+    expect(entry.snapshots[0]).toMatchObject({ path: componentPath, existed: true, orderBefore: 'image' });
+    expect(entry.snapshots[0].content).toMatchObject({ text: 'Hello' });
+
+    const result = await journalOps.undoChanges({ jobId });
+
+    expect(result.data).toMatchObject({ restored: [componentPath], conflicts: [], complete: true });
+    const form = mockHttpClient.post.mock.calls[0][1] as URLSearchParams;
+    expect(mockHttpClient.post.mock.calls[0][0]).toBe('/content/site/en/jcr:content/root');
+    expect(form.get(':operation')).toBe('import');
+    expect(form.get(':name')).toBe('text');
+    expect(JSON.parse(form.get(':content')!)).toEqual({ 'jcr:primaryType': 'nt:unstructured', text: 'Hello' });
+    expect((mockHttpClient.post.mock.calls[1][1] as URLSearchParams).get(':order')).toBe('before image');
+    expect(journal.entries.get(jobId)!.status).toBe('undone');
+  });
+
+  it('should report a conflict when the node changed after the job', async () => {
+    const { jobId } = await updateText('Changed');
+    repository[componentPath] = { ...repository[componentPath], text: 'Edited by an author' };
+
+    const result = await journalOps.undoChanges({ jobId });
+
+    expect(result.data.complete).toBe(false);
+    expect(result.data.conflicts).toEqual([{ path: componentPath, reason: 'Content changed after the job ran' }]);
+    expect(mockHttpClient.post).not.toHaveBeenCalled();
+
+    const forced = await journalOps.undoChanges({ jobId, force: true });
+    expect(forced.data.restored).toEqual([componentPath]);
+  });
+
+  it('should delete nodes the job created', async () => {
+    const createdPath = '/content/site/en/jcr:content/root/teaser';
+    const { jobId } = await journalOps.recordChange(
+      'createComponent',
+      { pagePath: '/content/site/en' },
+      { paths: () => [], created: (_args, result) => [result.data.componentPath] },
+      async () => {
+        repository[createdPath] = { text: 'New' };
+        return { success: true, data: { componentPath: createdPath } };
+      }
+    ) as { jobId: string };
+
+    const result = await journalOps.undoChanges({ jobId });
+
+    expect(result.data.restored).toEqual([createdPath]);
+    expect(mockHttpClient.post).toHaveBeenCalledWith(createdPath, expect.any(URLSearchParams), expect.any(Object));
+    expect((mockHttpClient.post.mock.calls[0][1] as URLSearchParams).get(':operation')).toBe('delete');
+  });
+
+  it('should mark the entry failed and rethrow when the change fails', async () => {
+    await expect(journalOps.recordChange(
+      'deleteComponent',
+      { componentPath },
+      { paths: (args) => [args.componentPath] },
+      async () => { throw new Error('boom'); }
+    )).rejects.toThrow('boom');
+
+    const [entry] = journal.entries.values();
+    expect(entry).toMatchObject({ status: 'failed', error: 'boom' });
+  });
+
+  it('should reject unknown and already undone jobs', async () => {
+    await expect(journalOps.undoChanges({ jobId: 'missing' })).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+
+    const { jobId } = await updateText('Changed');
+    await journalOps.undoChanges({ jobId });
+    await expect(journalOps.undoChanges({ jobId })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+  });
+
+  it('should let only the caller that made a change undo it', async () => {
+    const alice = { subject: 'alice', authType: 'jwt' as const, scopes: ['*'] };
+    const { jobId } = await runAsCaller(alice, () => updateText('Changed'));
+
+    expect(journal.entries.get(jobId)!.createdBy).toBe('alice');
+    await expect(journalOps.getJobTargets(jobId)).resolves.toEqual([componentPath]);
+    await expect(runAsCaller({ ...alice, subject: 'bob' }, () => journalOps.undoChanges({ jobId }))).rejects.toMatchObject({ code: 'INSUFFICIENT_PERMISSIONS' });
+    await expect(journalOps.undoChanges({ jobId })).rejects.toMatchObject({ code: 'INSUFFICIENT_PERMISSIONS' });
+    await expect(runAsCaller(alice, () => journalOps.undoChanges({ jobId }))).resolves.toMatchObject({ data: { complete: true } });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for PackageOperations
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { PackageOperations } from '../../operations/package-operations.js';
+import { ProgressUpdate, runWithProgress } from '../../progress.js';
+import { AxiosInstance } from 'axios';
+import { ILogger, AEMConfig } from '../../interfaces/index.js';
+
+// Mock dependencies
+const mockHttpClient: jest.Mocked<AxiosInstance> = {
+  get: jest.fn(),
+  post: jest.fn(),
+  defaults: {} as any,
+  interceptors: {} as any,
+} as any;
+
+const mockLogger: jest.Mocked<ILogger> = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+} as any;
+
+const mockAEMConfig = {
+  host: 'http://localhost:4502',
+  serviceUser: { username: 'admin', password: 'admin' },
+  queries: { maxLimit: 100, defaultLimit: 20, timeoutMs: 30000 },
+} as AEMConfig;
+
+const PACKAGE_PATH = '/etc/packages/my_packages/site-content-1.0.zip';
+
+const LISTED_PACKAGE = {
+  path: PACKAGE_PATH,
+  name: 'site-content',
+  group: 'my_packages',
+  version: '1.0',
+  downloadName: 'site-content-1.0.zip',
+  size: 2048,
+  lastWrapped: 1717200000000,
+  filter: [{ root: '/content/mysite', rules: [{ modifier: 'exclude', pattern: '.*/archive' }] }],
+};
+
+describe('PackageOperations', () => {
+  let dir: string;
+  let packageOps: PackageOperations;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aem-packages-'));
+    mockHttpClient.get.mockResolvedValue({ data: { results: [LISTED_PACKAGE], total: 1 } });
+    mockHttpClient.post.mockResolvedValue({ data: { success: true, msg: 'OK', path: PACKAGE_PATH } });
+    packageOps = new PackageOperations(mockHttpClient, mockLogger, () => mockAEMConfig, dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should list packages with their filters and build state', async () => {
+    const result = await packageOps.listPackages({ group: 'my_packages' });
+
+    expect(result.data.packages).toEqual([{
+      path: PACKAGE_PATH,
+      name: 'site-content',
+      group: 'my_packages',
+      version: '1.0',
+      downloadName: 'site-content-1.0.zip',
+      size: 2048,
+      lastWrapped: '2024-06-01T00:00:00.000Z',
+      filters: [{ path: '/content/mysite', rules: [{ modifier: 'exclude', pattern: '.*/archive' }] }],
+    }]);
+    expect((await packageOps.listPackages({ group: 'other' })).data.total).toBe(0);
+  });
+
+  it('should create a package and set its filter rules', async () => {
+    const result = await packageOps.createPackage({
+      packageName: 'site-content',
+      version: '1.0',
+      filters: [{ path: '/content/mysite', rules: [{ modifier: 'exclude', pattern: '.*/archive' }] }],
+    });
+
+    expect(result.data).toMatchObject({ packagePath: PACKAGE_PATH, package: { name: 'site-content' } });
+    const [[createUrl, createForm, createConfig], [updateUrl, updateForm]] = mockHttpClient.post.mock.calls as any[];
+    expect(createUrl).toBe(`/crx/packmgr/service/.json${PACKAGE_PATH}`);
+    expect(createConfig.params).toEqual({ cmd: 'create' });
+    expect(Object.fromEntries(createForm)).toEqual({ packageName: 'site-content', groupName: 'my_packages', packageVersion: '1.0' });
+    expect(updateUrl).toBe('/crx/packmgr/update.jsp');
+    expect(JSON.parse(updateForm.get('filter'))).toEqual([{ root: '/content/mysite', rules: [{ modifier: 'exclude', pattern: '.*/archive' }] }]);
+
+    await expect(packageOps.createPackage({ packageName: '../site', filters: [{ path: '/content' }] }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+  });
+
+  it('should fail when the package manager reports an unsuccessful command', async () => {
+    mockHttpClient.post.mockResolvedValue({ data: { success: false, msg: 'Package has no filters' } });
+
+    await expect(packageOps.buildPackage({ packagePath: PACKAGE_PATH })).rejects.toMatchObject({
+      code: 'UPDATE_FAILED',
+      message: expect.stringContaining('Package has no filters'),
+    });
+    expect(mockHttpClient.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should install with the requested access control handling', async () => {
+    await packageOps.installPackage({ packagePath: PACKAGE_PATH, acHandling: 'merge_preserve' });
+
+    const [url, form, config] = mockHttpClient.post.mock.calls[0] as any[];
+    expect(url).toBe(`/crx/packmgr/service/.json${PACKAGE_PATH}`);
+    expect(config.params).toEqual({ cmd: 'install' });
+    expect(form.get('acHandling')).toBe('merge_preserve');
+    await expect(packageOps.installPackage({ packagePath: '/content/mysite.zip' })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+  });
+
+  it('should read the filter roots an install writes from the package manager', async () => {
+    await expect(packageOps.getPackageTargets(PACKAGE_PATH)).resolves.toEqual(['/content/mysite']);
+    await expect(packageOps.getPackageTargets('/etc/packages/my_packages/missing.zip')).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+    await expect(packageOps.getPackageTargets('/content/mysite.zip')).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+  });
+
+  it('should download into the packages directory and report the bytes received', async () => {
+    mockHttpClient.get.mockResolvedValueOnce({
+      data: Readable.from([Buffer.alloc(1024), Buffer.alloc(1024)]),
+      headers: { 'content-length': '2048' },
+    });
+    const updates: ProgressUpdate[] = [];
+
+    const result = await runWithProgress(update => updates.push(update), () => packageOps.downloadPackage({ packagePath: PACKAGE_PATH }));
+
+    expect(result.data.localPath).toBe(path.join(dir, 'site-content-1.0.zip'));
+    expect((await fs.stat(result.data.localPath!)).size).toBe(2048);
+    expect(updates.map(update => [update.progress, update.total])).toEqual([[1024, 2048], [2048, 2048]]);
+    await expect(packageOps.downloadPackage({ packagePath: PACKAGE_PATH, fileName: '../escape.zip' }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+  });
+
+  it('should upload only zips that exist in the packages directory', async () => {
+    await fs.writeFile(path.join(dir, 'site-content-1.0.zip'), Buffer.alloc(16));
+
+    const result = await packageOps.uploadPackage({ fileName: 'site-content-1.0.zip', force: true });
+
+    expect(result.data.packagePath).toBe(PACKAGE_PATH);
+    const [url, form] = mockHttpClient.post.mock.calls[0] as any[];
+    expect(url).toBe('/crx/packmgr/service/.json/?cmd=upload');
+    expect(form.get('force')).toBe('true');
+    expect((form.get('package') as File).size).toBe(16);
+    await expect(packageOps.uploadPackage({ fileName: 'missing.zip' })).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+  });
+});
@@ -10,7 +10,7 @@ describe('PageOperations', () => {
   let pageOps: PageOperations;
 
   beforeEach(() => {
-    pageOps = new PageOperations(mockHttpClient as any, mockLogger as any, mockConfig.aem);
+    pageOps = new PageOperations(mockHttpClient as any, mockLogger as any, () => mockConfig.aem);
     jest.clearAllMocks();
   });
 
@@ -229,7 +229,8 @@ describe('PageOperations', () => {
       expect(mockHttpClient.post).toHaveBeenCalledWith('/bin/replicate.json', expect.any(URLSearchParams), {
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded'
-        }
+        },
+        retrySafe: true
       });
     });
 
@@ -330,4 +331,102 @@ describe('PageOperations', () => {
       expect(result.data.images[1].src).toBe('/content/dam/test/image2.jpg');
     });
   });
+
+  describe('movePage', () => {
+    const pagePath = '/content/test/en/news';
+
+    const mockAEM = (existing: string[] = []) => {
+      mockHttpClient.get.mockImplementation(async (url: any) => {
+        if (url === `${pagePath}/jcr:content.json`) {
+          return createMockResponse({ 'jcr:title': 'News', 'sling:resourceType': 'test/components/page' });
+        }
+        if (url === '/bin/querybuilder.json') {
+          return createMockResponse({ hits: [{ 'jcr:path': `${pagePath}/item` }] });
+        }
+        if (url === '/bin/wcm/references.json') {
+          return createMockResponse({
+            pages: [
+              { path: '/content/test/en/home', title: 'Home', references: ['/content/test/en/home/jcr:content/nav'], published: true },
+              { path: '/content/test/en/draft', references: ['/content/test/en/draft/jcr:content/link'], published: false },
+              { path: '/conf/test/templates/page', references: [], published: false },
+            ],
+          });
+        }
+        if (existing.includes(url)) {
+          return createMockResponse({});
+        }
+        throw createMockError('Not found', 404);
+      });
+      mockHttpClient.post.mockResolvedValue(createMockResponse('<div id="Status">200</div>') as never);
+    };
+
+    it('should send adjust and publish lists to the WCM command, create the redirect and report every page touched', async () => {
+      mockAEM();
+
+      const result = await pageOps.movePage({
+        pagePath,
+        destParentPath: '/content/test/en/archive',
+        createRedirect: true,
+        republishReferences: true,
+      });
+
+      const [url, form] = mockHttpClient.post.mock.calls[0] as [string, URLSearchParams];
+      expect(url).toBe('/bin/wcmcommand');
+      expect(form.get('cmd')).toBe('movePage');
+      expect(form.getAll('adjust')).toEqual(['/content/test/en/home', '/content/test/en/draft']);
+      expect(form.getAll('publish')).toEqual(['/content/test/en/home']);
+
+      const [redirectUrl, redirectForm] = mockHttpClient.post.mock.calls[1] as [string, URLSearchParams];
+      expect(redirectUrl).toBe(pagePath);
+      expect(redirectForm.get('jcr:content/cq:redirectTarget')).toBe('/content/test/en/archive/news');
+      expect(redirectForm.get('jcr:content/sling:resourceType')).toBe('test/components/page');
+
+      expect(result.data).toMatchObject({
+        destinationPath: '/content/test/en/archive/news',
+        movedPages: ['/content/test/en/archive/news', '/content/test/en/archive/news/item'],
+        adjustedPages: ['/content/test/en/home', '/content/test/en/draft'],
+        republishedPages: ['/content/test/en/home'],
+        redirect: { path: pagePath, target: '/content/test/en/archive/news' },
+      });
+      expect(result.data.skippedReferences.map(ref => ref.path)).toEqual(['/conf/test/templates/page']);
+    });
+
+    it('should fail when the WCM command reports an error in its status page', async () => {
+      mockAEM();
+      mockHttpClient.post.mockResolvedValue(createMockResponse('<div id="Status">409</div><div id="Message">Page is locked</div>') as never);
+
+      await expect(pageOps.renamePage({ pagePath, newName: 'updates' }))
+        .rejects.toMatchObject({ code: 'UPDATE_FAILED', message: 'renamePage failed: Page is locked' });
+    });
+
+    it('should refuse an existing destination or a move into its own subtree', async () => {
+      mockAEM(['/content/test/en/archive/news.json']);
+
+      await expect(pageOps.movePage({ pagePath, destParentPath: '/content/test/en/archive' }))
+        .rejects.toThrow('Destination already exists');
+      await expect(pageOps.movePage({ pagePath, destParentPath: `${pagePath}/item` }))
+        .rejects.toThrow('Cannot movePage');
+    });
+  });
+
+  describe('copyPage', () => {
+    it('should copy a single page when shallow', async () => {
+      mockHttpClient.get.mockImplementation(async (url: any) => {
+        if (url === '/content/test/en/campaign/jcr:content.json') return createMockResponse({});
+        throw createMockError('Not found', 404);
+      });
+      mockHttpClient.post.mockResolvedValue(createMockResponse('<div id="Status">200</div>') as never);
+
+      const result = await pageOps.copyPage({
+        pagePath: '/content/test/en/campaign',
+        destParentPath: '/content/test/de',
+        shallow: true,
+      });
+
+      const form = mockHttpClient.post.mock.calls[0][1] as URLSearchParams;
+      expect(form.get('cmd')).toBe('copyPage');
+      expect(form.get('shallow')).toBe('true');
+      expect(result.data.copiedPages).toEqual(['/content/test/de/campaign']);
+    });
+  });
 });
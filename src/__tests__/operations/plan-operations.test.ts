@@ -0,0 +1,128 @@
+/**
+ * Unit tests for PlanOperations
+ */
+
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { PlanOperations } from '../../operations/plan-operations.js';
+import { installPlanInterceptor } from '../../plan-mode.js';
+import { runAsCaller } from '../../auth.js';
+import { ILogger, AEMConfig } from '../../interfaces/index.js';
+
+// The shared setup mocks axios; plans are recorded by the real request pipeline
+const axios = jest.requireActual<typeof import('axios')>('axios').default;
+
+const mockLogger: jest.Mocked<ILogger> = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+} as any;
+
+const mockAEMConfig = {
+  host: 'http://localhost:4502',
+  serviceUser: { username: 'admin', password: 'admin' },
+} as AEMConfig;
+
+describe('PlanOperations', () => {
+  const componentPath = '/content/site/en/jcr:content/root/text';
+  let repository: Record<string, any>;
+  let sent: Array<{ method?: string; url?: string }>;
+  let client: AxiosInstance;
+  let planOps: PlanOperations;
+
+  // Instrumented client over an in-memory repository that records the writes actually sent
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = {
+      [componentPath]: { 'jcr:primaryType': 'nt:unstructured', text: 'Hello', count: 2 },
+    };
+    sent = [];
+    const adapter = async (config: InternalAxiosRequestConfig) => {
+      if (config.method === 'get') {
+        const path = (config.url || '').replace(/(\.(\d+|infinity))?\.json$/, '');
+        if (!(path in repository)) throw Object.assign(new Error('Not Found'), { response: { status: 404 } });
+        return { data: repository[path], status: 200, statusText: 'OK', headers: {}, config };
+      }
+      sent.push({ method: config.method, url: config.url });
+      return { data: {}, status: 200, statusText: 'OK', headers: {}, config };
+    };
+    client = installPlanInterceptor(axios.create({ adapter }));
+    planOps = new PlanOperations(client, mockLogger, () => mockAEMConfig);
+  });
+
+  const planUpdate = () => planOps.planChange(
+    'updateComponent',
+    { componentPath, properties: { text: 'Changed', count: 2 } },
+    async () => {
+      await client.post(componentPath, new URLSearchParams({ text: 'Changed', count: '2', 'jcr:content/title': 'New' }));
+      return client.get(`${componentPath}.json`);
+    }
+  );
+
+  it('should return a property diff without sending writes', async () => {
+    const plan = await planUpdate();
+
+    expect(sent).toEqual([]);
+    expect(plan.data).toMatchObject({
+      tool: 'updateComponent',
+      dryRun: true,
+      affectedPaths: [componentPath],
+      requests: [{ method: 'POST', url: componentPath }],
+      changes: [
+        { path: componentPath, change: 'update', properties: [{ name: 'text', before: 'Hello', after: 'Changed' }] },
+        { path: `${componentPath}/jcr:content`, change: 'create', properties: [{ name: 'title', after: 'New' }] },
+      ],
+    });
+    expect(planOps.getPlanTargets(plan.data.planId)).toEqual([componentPath]);
+  });
+
+  it('should describe deletions and servlet commands', async () => {
+    const plan = await planOps.planChange('deletePage', { pagePath: componentPath }, async () => {
+      await client.post('/bin/replicate.json', new URLSearchParams({ cmd: 'Deactivate', path: componentPath }));
+      await client.delete(componentPath);
+    });
+
+    expect(plan.data.changes).toEqual([
+      { path: componentPath, change: 'command', command: '/bin/replicate.json Deactivate', properties: [] },
+      {
+        path: componentPath,
+        change: 'delete',
+        properties: [
+          { name: 'jcr:primaryType', before: 'nt:unstructured', after: undefined },
+          { name: 'text', before: 'Hello', after: undefined },
+          { name: 'count', before: 2, after: undefined },
+        ],
+      },
+    ]);
+  });
+
+  it('should apply a plan once when its targets are unchanged', async () => {
+    const plan = await planUpdate();
+
+    const result = await planOps.applyPlan({ planId: plan.data.planId });
+
+    expect(result.data).toMatchObject({ executed: 1, affectedPaths: [componentPath] });
+    expect(sent).toEqual([{ method: 'post', url: componentPath }]);
+    await expect(planOps.applyPlan({ planId: plan.data.planId })).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' });
+  });
+
+  it('should refuse a stale plan', async () => {
+    const plan = await planUpdate();
+    repository[componentPath] = { ...repository[componentPath], text: 'Edited by an author' };
+
+    await expect(planOps.applyPlan({ planId: plan.data.planId })).rejects.toMatchObject({
+      code: 'CONFLICT',
+      details: { changed: [componentPath] },
+    });
+    expect(sent).toEqual([]);
+  });
+
+  it('should apply a plan only for the caller that made it', async () => {
+    const alice = { subject: 'alice', authType: 'jwt' as const, scopes: ['*'] };
+    const plan = await runAsCaller(alice, planUpdate);
+
+    await expect(runAsCaller({ ...alice, subject: 'bob' }, () => planOps.applyPlan({ planId: plan.data.planId }))).rejects.toMatchObject({ code: 'INSUFFICIENT_PERMISSIONS' });
+    expect(sent).toEqual([]);
+    await expect(runAsCaller(alice, () => planOps.applyPlan({ planId: plan.data.planId }))).resolves.toMatchObject({ data: { executed: 1 } });
+  });
+});
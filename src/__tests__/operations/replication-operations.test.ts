@@ -82,7 +82,7 @@ describe('ReplicationOperations', () => {
   let replicationOps: ReplicationOperations;
 
   beforeEach(() => {
-    replicationOps = new ReplicationOperations(mockHttpClient, mockLogger, mockAEMConfig);
+    replicationOps = new ReplicationOperations(mockHttpClient, mockLogger, () => mockAEMConfig);
     jest.clearAllMocks();
   });
 
@@ -361,7 +361,7 @@ describe('ReplicationOperations', () => {
     it('should handle strict replication with rollback', async () => {
       // Create config with strict replication enabled
       const strictConfig = { ...mockAEMConfig, strictReplication: true };
-      const strictReplicationOps = new ReplicationOperations(mockHttpClient, mockLogger, strictConfig);
+      const strictReplicationOps = new ReplicationOperations(mockHttpClient, mockLogger, () => strictConfig);
 
       mockHttpClient.get
         .mockResolvedValueOnce({
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for SearchOperations
+ */
+
+import { SearchOperations } from '../../operations/search-operations.js';
+import { AxiosInstance } from 'axios';
+import { ILogger, AEMConfig } from '../../interfaces/index.js';
+
+// Mock dependencies
+const mockHttpClient: jest.Mocked<AxiosInstance> = {
+  get: jest.fn(),
+  post: jest.fn(),
+  defaults: {} as any,
+  interceptors: {} as any,
+} as any;
+
+const mockLogger: jest.Mocked<ILogger> = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+} as any;
+
+const mockAEMConfig: AEMConfig = {
+  host: 'http://localhost:4502',
+  author: 'http://localhost:4502',
+  publish: 'http://localhost:4503',
+  serviceUser: {
+    username: 'admin',
+    password: 'admin',
+  },
+  endpoints: {
+    content: '/content',
+    dam: '/content/dam',
+    query: '/bin/querybuilder.json',
+    crxde: '/crx/de',
+    jcr: '',
+    replicate: '/bin/replicate.json',
+    wcmcommand: '/bin/wcmcommand',
+  },
+  contentPaths: {
+    sitesRoot: '/content',
+    assetsRoot: '/content/dam',
+    templatesRoot: '/conf',
+    experienceFragmentsRoot: '/content/experience-fragments',
+  },
+  replication: {
+    publisherUrls: ['http://localhost:4503'],
+    defaultReplicationAgent: 'publish',
+  },
+  components: {
+    allowedTypes: ['text', 'image', 'teaser'],
+    defaultProperties: {},
+  },
+  queries: {
+    maxLimit: 2,
+    defaultLimit: 1,
+    timeoutMs: 5000,
+  },
+  validation: {
+    maxDepth: 10,
+    allowedLocales: ['en'],
+  },
+};
+
+describe('SearchOperations', () => {
+  let searchOps: SearchOperations;
+
+  beforeEach(() => {
+    searchOps = new SearchOperations(mockHttpClient, mockLogger, () => mockAEMConfig);
+    jest.clearAllMocks();
+  });
+
+  describe('queryBuilder', () => {
+    const request = { predicates: [{ predicate: 'type' as const, nodeType: 'cq:Page' }], limit: 2 };
+
+    it('should return a cursor that fetches the next page', async () => {
+      mockHttpClient.get.mockResolvedValue({
+        data: { hits: [{ path: '/content/a' }, { path: '/content/b' }], total: 5, more: false },
+      });
+
+      const first = await searchOps.queryBuilder(request);
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith('/bin/querybuilder.json', expect.objectContaining({
+        params: { '1_type': 'cq:Page', 'p.limit': '2', 'p.offset': '0' },
+      }));
+      expect(first.data).toMatchObject({ total: 5, hasMore: true, offset: 0 });
+
+      await searchOps.queryBuilder({ cursor: first.data.nextCursor });
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith('/bin/querybuilder.json', expect.objectContaining({
+        params: { '1_type': 'cq:Page', 'p.limit': '2', 'p.offset': '2' },
+      }));
+    });
+
+    it('should resolve the searched paths of a request or a cursor alone', async () => {
+      const scoped = {
+        predicates: [
+          { predicate: 'path' as const, path: '/content/mysite' },
+          { predicate: 'group' as const, or: true, predicates: [{ predicate: 'path' as const, path: '/content/dam/mysite' }, { predicate: 'type' as const, nodeType: 'dam:Asset' }] },
+        ],
+        orderBy: [{ property: 'path' }],
+      };
+      mockHttpClient.get.mockResolvedValue({ data: { hits: [{ path: '/content/a' }], total: 5 } });
+      const first = await searchOps.queryBuilder(scoped);
+
+      expect(searchOps.getQueryBuilderTargets(scoped)).toEqual(['/content/mysite', '/content/dam/mysite']);
+      expect(searchOps.getQueryBuilderTargets({ cursor: first.data.nextCursor })).toEqual(['/content/mysite', '/content/dam/mysite']);
+      expect(searchOps.getQueryBuilderTargets(request)).toEqual([]);
+    });
+
+    it('should omit the cursor on the last page', async () => {
+      mockHttpClient.get.mockResolvedValue({ data: { hits: [{ path: '/content/e' }], total: 1 } });
+
+      const result = await searchOps.queryBuilder(request);
+
+      expect(result.data.hasMore).toBe(false);
+      expect(result.data.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('executeJCRQuery', () => {
+    const query = "SELECT [jcr:title] FROM [cq:PageContent] AS c WHERE ISDESCENDANTNODE(c, '/content/mysite')";
+
+    it('should run the statement through the query servlet with paging and columns', async () => {
+      mockHttpClient.get.mockResolvedValue({
+        data: [
+          { name: 'jcr:content', 'jcr:path': '/content/mysite/en/jcr:content', 'jcr:score': 1, 'jcr:title': 'English' },
+          { name: 'jcr:content', 'jcr:path': '/content/mysite/de/jcr:content', 'jcr:score': 1, 'jcr:title': 'Deutsch' },
+          { name: 'jcr:content', 'jcr:path': '/content/mysite/fr/jcr:content', 'jcr:score': 1 },
+        ],
+      });
+
+      const result = await searchOps.executeJCRQuery({ query, limit: 5, offset: 4, timeoutMs: 60000 });
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/content.query.json', expect.objectContaining({
+        params: {
+          statement: query,
+          queryType: 'JCR-SQL2',
+          offset: 4,
+          rows: 3,
+          property: ['jcr:title'],
+        },
+        timeout: 5000,
+      }));
+      expect(result.results).toEqual([
+        { path: '/content/mysite/en/jcr:content', score: 1, 'jcr:title': 'English' },
+        { path: '/content/mysite/de/jcr:content', score: 1, 'jcr:title': 'Deutsch' },
+      ]);
+      expect(result).toMatchObject({ count: 2, limit: 2, limitCapped: true, hasMore: true, nextOffset: 6 });
+    });
+
+    it('should resolve the paths a statement is scoped to', () => {
+      expect(searchOps.getJCRQueryTargets({ query })).toEqual(['/content/mysite']);
+      expect(searchOps.getJCRQueryTargets({ query: '/jcr:root/content/dam/mysite//element(*, dam:Asset)', language: 'xpath' })).toEqual(['/content/dam/mysite']);
+      expect(() => searchOps.getJCRQueryTargets({ query: 'SELECT * FROM [nt:base]' })).toThrow();
+    });
+
+    it('should reject unsafe statements without calling AEM', async () => {
+      await expect(searchOps.executeJCRQuery({ query: 'SELECT * FROM [nt:base]' }))
+        .rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+    });
+
+    it('should not retry a query that timed out', async () => {
+      mockHttpClient.get.mockRejectedValue(Object.assign(new Error('timeout of 5000ms exceeded'), { code: 'ECONNABORTED' }));
+
+      await expect(searchOps.executeJCRQuery({ query })).rejects.toMatchObject({ code: 'TIMEOUT' });
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+    });
+  });
+});
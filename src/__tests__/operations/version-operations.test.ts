@@ -80,7 +80,7 @@ describe('VersionOperations', () => {
   let versionOps: VersionOperations;
 
   beforeEach(() => {
-    versionOps = new VersionOperations(mockHttpClient, mockLogger, mockAEMConfig);
+    versionOps = new VersionOperations(mockHttpClient, mockLogger, () => mockAEMConfig);
     jest.clearAllMocks();
   });
 
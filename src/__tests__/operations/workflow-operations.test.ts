@@ -80,7 +80,7 @@ describe('WorkflowOperations', () => {
   let workflowOps: WorkflowOperations;
 
   beforeEach(() => {
-    workflowOps = new WorkflowOperations(mockHttpClient, mockLogger, mockAEMConfig);
+    workflowOps = new WorkflowOperations(mockHttpClient, mockLogger, () => mockAEMConfig);
     jest.clearAllMocks();
   });
 
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for plan mode request capture
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { installPlanInterceptor, recordPlan, nodePathOf } from '../plan-mode.js';
+
+// The shared setup mocks axios; the interceptor needs the real request pipeline
+const axios = jest.requireActual<typeof import('axios')>('axios').default;
+
+describe('plan mode', () => {
+  let adapter: jest.Mock<(config: InternalAxiosRequestConfig) => Promise<any>>;
+  let client: AxiosInstance;
+
+  beforeEach(() => {
+    adapter = jest.fn(async (config: InternalAxiosRequestConfig) => ({ data: { sent: config.url }, status: 200, statusText: 'OK', headers: {}, config }));
+    client = installPlanInterceptor(axios.create({ baseURL: 'http://localhost:4502', adapter }));
+  });
+
+  it('should capture writes and let unrelated reads through', async () => {
+    const requests = await recordPlan(async () => {
+      await client.get('/content/site/en.json');
+      const response = await client.post('/content/site/en/jcr:content/text', new URLSearchParams([['text', 'Hi'], ['tags', 'a'], ['tags', 'b']]));
+      expect(response.data).toEqual({});
+    });
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(requests.map(request => request.planned)).toEqual([{
+      method: 'POST',
+      url: '/content/site/en/jcr:content/text',
+      body: { text: 'Hi', tags: ['a', 'b'] },
+      affectedPaths: ['/content/site/en/jcr:content/text'],
+    }]);
+  });
+
+  it('should answer reads of planned nodes locally', async () => {
+    await recordPlan(async () => {
+      await client.delete('/content/site/en/old');
+      const verification = await client.get('/content/site/en/old/jcr:content.infinity.json');
+      expect(verification.data).toEqual({});
+    });
+
+    expect(adapter).not.toHaveBeenCalled();
+  });
+
+  it('should take affected paths of servlet commands from their parameters', async () => {
+    const requests = await recordPlan(async () => {
+      await client.post('/bin/wcmcommand', new URLSearchParams([
+        ['cmd', 'movePage'],
+        ['srcPath', '/content/site/en/news'],
+        ['destParentPath', '/content/site/en/archive'],
+        ['destName', 'news'],
+        ['adjust', '/content/site/en/home'],
+      ]));
+    });
+
+    expect(requests[0].planned.affectedPaths).toEqual(['/content/site/en/news', '/content/site/en/home', '/content/site/en/archive/news']);
+  });
+
+  it('should send requests normally outside a recording', async () => {
+    const response = await client.post('/content/site/en/jcr:content', { title: 'Home' });
+
+    expect(response.data).toEqual({ sent: '/content/site/en/jcr:content' });
+  });
+
+  it('should map request URLs to node paths', () => {
+    expect(nodePathOf('/content/site/en.infinity.json')).toBe('/content/site/en');
+    expect(nodePathOf('http://localhost:4502/content/site/en/jcr:content.1.json?x=1')).toBe('/content/site/en/jcr:content');
+    expect(nodePathOf('/api/assets/site/logo.png.json')).toBe('/content/dam/site/logo.png');
+    expect(nodePathOf('/content/dam/site/logo.png')).toBe('/content/dam/site/logo.png');
+    expect(nodePathOf('/content/dam/site/logo.png.json')).toBe('/content/dam/site/logo.png');
+    expect(nodePathOf('/content/dam/site.createasset.html')).toBe('/content/dam/site');
+    expect(nodePathOf('/content/dam/site.initiateUpload.json')).toBe('/content/dam/site');
+    expect(nodePathOf('/content/dam/site.completeUpload.json')).toBe('/content/dam/site');
+    expect(nodePathOf('/content/site/en.html')).toBe('/content/site/en');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the QueryBuilder predicate compiler
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  compileQueryBuilderRequest,
+  decodeQueryCursor,
+  encodeQueryCursor,
+  resolveQueryBuilderRequest
+} from '../query-builder.js';
+
+const limits = { defaultLimit: 20, maxLimit: 100 };
+
+describe('compileQueryBuilderRequest', () => {
+  it('should compile a predicate tree with nested groups to numbered parameters', () => {
+    const { params, limit } = compileQueryBuilderRequest({
+      predicates: [
+        { predicate: 'path', path: '/content/mysite' },
+        { predicate: 'type', nodeType: 'cq:Page' },
+        {
+          predicate: 'group',
+          or: true,
+          predicates: [
+            { predicate: 'tagid', tagIds: ['mysite:summer', 'mysite:beach'] },
+            { predicate: 'group', not: true, predicates: [{ predicate: 'fulltext', text: 'draft', relPath: 'jcr:content' }] },
+          ],
+        },
+        { predicate: 'property', property: 'jcr:content/status', values: ['live', 'review'] },
+        { predicate: 'daterange', property: 'jcr:content/cq:lastModified', lowerBound: '2024-01-01' },
+      ],
+      orderBy: [{ property: 'jcr:content/cq:lastModified', sort: 'desc' }, { property: 'path' }],
+      limit: 500,
+      guessTotal: 1000,
+      properties: ['jcr:path', 'jcr:created'],
+    }, limits);
+
+    expect(limit).toBe(100);
+    expect(params).toEqual({
+      '1_path': '/content/mysite',
+      '2_type': 'cq:Page',
+      '3_group.p.or': 'true',
+      '3_group.1_tagid.property': 'jcr:content/cq:tags',
+      '3_group.1_tagid.1_value': 'mysite:summer',
+      '3_group.1_tagid.2_value': 'mysite:beach',
+      '3_group.2_group.p.not': 'true',
+      '3_group.2_group.1_fulltext': 'draft',
+      '3_group.2_group.1_fulltext.relPath': 'jcr:content',
+      '4_property': 'jcr:content/status',
+      '4_property.1_value': 'live',
+      '4_property.2_value': 'review',
+      '5_daterange.property': 'jcr:content/cq:lastModified',
+      '5_daterange.lowerBound': '2024-01-01',
+      '5_daterange.lowerOperation': '>=',
+      '1_orderby': '@jcr:content/cq:lastModified',
+      '1_orderby.sort': 'desc',
+      '2_orderby': 'path',
+      'p.limit': '100',
+      'p.guessTotal': '1000',
+      'p.hits': 'selective',
+      'p.properties': 'jcr:path jcr:created',
+    });
+  });
+
+  it('should report every invalid predicate with its position in the tree', () => {
+    let thrown: any;
+    try {
+      compileQueryBuilderRequest({
+        predicates: [
+          { predicate: 'path', path: 'content' },
+          { predicate: 'group', predicates: [{ predicate: 'relativedaterange', property: 'jcr:created', lowerBound: 'last week' }] },
+          { predicate: 'property', property: 'status' },
+        ],
+        hits: 'selective',
+      }, limits);
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toMatchObject({ code: 'INVALID_PARAMETERS' });
+    expect(thrown.details.errors.map((e: any) => e.field)).toEqual([
+      'predicates[0].path',
+      'predicates[1].predicates[0].lowerBound',
+      'predicates[2].value',
+      'properties',
+    ]);
+  });
+
+  it('should reject groups nested too deeply', () => {
+    let predicate: any = { predicate: 'type', nodeType: 'cq:Page' };
+    for (let i = 0; i < 7; i++) {
+      predicate = { predicate: 'group', predicates: [predicate] };
+    }
+
+    expect(() => compileQueryBuilderRequest({ predicates: [predicate] }, limits)).toThrow(/nested too deeply/);
+  });
+});
+
+describe('query cursors', () => {
+  const request = { predicates: [{ predicate: 'type' as const, nodeType: 'dam:Asset' }], limit: 10 };
+
+  it('should continue a query from a cursor alone', () => {
+    const cursor = encodeQueryCursor(compileQueryBuilderRequest(request, limits), 10);
+
+    expect(resolveQueryBuilderRequest({ cursor }, limits)).toEqual({
+      params: { '1_type': 'dam:Asset', 'p.limit': '10' },
+      limit: 10,
+      offset: 10,
+    });
+  });
+
+  it('should reject cursors that are malformed or belong to another query', () => {
+    const cursor = encodeQueryCursor(compileQueryBuilderRequest(request, limits), 10);
+
+    expect(() => decodeQueryCursor('not-a-cursor')).toThrow(/Invalid cursor/);
+    expect(() => resolveQueryBuilderRequest({ cursor: 'a.b.c' }, limits)).toThrow(/Invalid cursor/);
+    expect(() => resolveQueryBuilderRequest({
+      predicates: [{ predicate: 'type', nodeType: 'cq:Page' }],
+      limit: 10,
+      cursor,
+    }, limits)).toThrow(/different query/);
+  });
+
+  it('should refuse cursors whose parameters or paging were changed', () => {
+    const cursor = encodeQueryCursor(compileQueryBuilderRequest(request, limits), 10);
+    const [payload, signature] = cursor.split('.');
+    const forged = Buffer.from(JSON.stringify({ v: 1, params: { path: '/', 'p.limit': '-1' }, limit: 100000, offset: 0 }), 'utf8').toString('base64url');
+
+    expect(() => decodeQueryCursor(`${forged}.${signature}`)).toThrow(/Invalid cursor/);
+    expect(() => decodeQueryCursor(forged)).toThrow(/Invalid cursor/);
+    expect(() => decodeQueryCursor(`${payload}.${signature.slice(1)}`)).toThrow(/Invalid cursor/);
+  });
+
+  it('should cap the page size of a cursor at the current maxLimit', () => {
+    const cursor = encodeQueryCursor(compileQueryBuilderRequest(request, limits), 10);
+
+    expect(resolveQueryBuilderRequest({ cursor }, { ...limits, maxLimit: 5 })).toMatchObject({
+      params: { '1_type': 'dam:Asset', 'p.limit': '5' },
+      limit: 5,
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the JCR query sandbox
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { isWithinRoots, parseJCRQuery } from '../query-sandbox.js';
+
+const roots = ['/content/mysite', '/content/dam'];
+
+function rejection(query: string, language: 'JCR-SQL2' | 'xpath' = 'JCR-SQL2'): any {
+  try {
+    parseJCRQuery(query, language, roots);
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`Expected query to be rejected: ${query}`);
+}
+
+describe('isWithinRoots', () => {
+  it('should match roots on segment boundaries only', () => {
+    expect(isWithinRoots('/content/mysite', roots)).toBe(true);
+    expect(isWithinRoots('/content/mysite/en', roots)).toBe(true);
+    expect(isWithinRoots('/content/mysite-other', roots)).toBe(false);
+    expect(isWithinRoots('/content/mysite/../other', roots)).toBe(false);
+  });
+});
+
+describe('parseJCRQuery (JCR-SQL2)', () => {
+  it('should accept a scoped SELECT and extract its columns', () => {
+    const parsed = parseJCRQuery(
+      "SELECT s.[jcr:title], [jcr:created] AS created FROM [cq:PageContent] AS s WHERE ISDESCENDANTNODE(s, '/content/mysite/en') AND s.[jcr:title] LIKE '%or%' ORDER BY [jcr:created]",
+      'JCR-SQL2',
+      roots
+    );
+
+    expect(parsed.scopePaths).toEqual(['/content/mysite/en']);
+    expect(parsed.columns).toEqual(['jcr:title', 'jcr:created']);
+  });
+
+  it('should return no columns for SELECT *', () => {
+    const parsed = parseJCRQuery('SELECT * FROM [dam:Asset] WHERE ISDESCENDANTNODE([/content/dam/mysite])', 'JCR-SQL2', roots);
+
+    expect(parsed.columns).toEqual([]);
+    expect(parsed.scopePaths).toEqual(['/content/dam/mysite']);
+  });
+
+  it('should accept a scope repeated in every branch of an OR', () => {
+    expect(() => parseJCRQuery(
+      "SELECT * FROM [cq:Page] AS p WHERE (ISDESCENDANTNODE(p, '/content/mysite/en') AND [a] = 1) OR ISCHILDNODE(p, '/content/mysite/de')",
+      'JCR-SQL2',
+      roots
+    )).not.toThrow();
+  });
+
+  it('should reject statements other than SELECT', () => {
+    expect(rejection("DELETE FROM [nt:base] WHERE ISDESCENDANTNODE('/content/mysite')")).toMatchObject({ code: 'INVALID_PARAMETERS' });
+    expect(rejection("SELECT * FROM [nt:base] WHERE ISDESCENDANTNODE('/content/mysite'); SELECT * FROM [nt:base]").message).toMatch(/Multiple statements/);
+  });
+
+  it('should not treat quoted text as keywords', () => {
+    expect(() => parseJCRQuery(
+      "SELECT * FROM [nt:base] AS n WHERE ISDESCENDANTNODE(n, '/content/mysite') AND n.[text] = 'delete; or drop'",
+      'JCR-SQL2',
+      roots
+    )).not.toThrow();
+  });
+
+  it('should reject unscoped queries and scopes that an OR bypasses', () => {
+    expect(rejection("SELECT * FROM [cq:Page] WHERE [jcr:title] = 'x'").message).toMatch(/scoped/);
+    expect(rejection("SELECT * FROM [cq:Page] AS p WHERE ISDESCENDANTNODE(p, '/content/mysite') OR [jcr:title] = 'x'").message).toMatch(/scoped/);
+    expect(rejection("SELECT * FROM [cq:Page] AS p WHERE NOT ISDESCENDANTNODE(p, '/content/mysite')").message).toMatch(/scoped/);
+  });
+
+  it('should require every joined selector to be scoped', () => {
+    const error = rejection(
+      "SELECT * FROM [cq:Page] AS p INNER JOIN [nt:base] AS c ON ISCHILDNODE(c, p) WHERE ISDESCENDANTNODE(p, '/content/mysite')"
+    );
+
+    expect(error.details.unscopedSelectors).toEqual(['c']);
+  });
+
+  it('should reject scopes outside the allowed roots with INVALID_PATH', () => {
+    expect(rejection("SELECT * FROM [rep:User] AS u WHERE ISDESCENDANTNODE(u, '/home/users')")).toMatchObject({
+      code: 'INVALID_PATH',
+      details: { path: '/home/users', allowedRoots: roots },
+    });
+  });
+});
+
+describe('parseJCRQuery (XPath)', () => {
+  it('should take the scope from the /jcr:root path and columns from the projection', () => {
+    const parsed = parseJCRQuery(
+      "/jcr:root/content/mysite/en//element(*, cq:Page)[jcr:contains(., 'news')]/(@jcr:title | @jcr:created) order by @jcr:created descending",
+      'xpath',
+      roots
+    );
+
+    expect(parsed.scopePaths).toEqual(['/content/mysite/en']);
+    expect(parsed.columns).toEqual(['jcr:title', 'jcr:created']);
+  });
+
+  it('should decode ISO 9075 encoded path steps', () => {
+    const parsed = parseJCRQuery('/jcr:root/content/dam/_x0032_024_x0020_campaign//*', 'xpath', roots);
+
+    expect(parsed.scopePaths).toEqual(['/content/dam/2024 campaign']);
+  });
+
+  it('should reject repository-wide, out-of-scope and escaping expressions', () => {
+    expect(rejection('//element(*, cq:Page)', 'xpath').message).toMatch(/must start with \/jcr:root/);
+    expect(rejection('/jcr:root//*', 'xpath')).toMatchObject({ code: 'INVALID_PATH' });
+    expect(rejection('/jcr:root/home//*', 'xpath')).toMatchObject({ code: 'INVALID_PATH' });
+    expect(rejection('/jcr:root/content/mysite//* | /jcr:root/home//*', 'xpath').message).toMatch(/Union/);
+    expect(rejection('/jcr:root/content/mysite/..//*', 'xpath').message).toMatch(/Parent/);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for tool call rate limiting
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { RateLimiter, createRateLimitMiddleware, getRateLimitStatus, rateLimitHeaders } from '../rate-limiter.js';
+import { ToolDefinition } from '../tool-registry.js';
+import { AuthIdentity } from '../interfaces/index.js';
+
+const tool = (name: string, category: ToolDefinition['category']): ToolDefinition => ({
+  name,
+  description: name,
+  category,
+  implementationStatus: 'complete',
+  inputSchema: { type: 'object', properties: {} },
+  handler: async () => ({}),
+});
+
+const getPageContent = tool('getPageContent', 'page');
+const activatePage = tool('activatePage', 'replication');
+const bulkUpdateComponents = tool('bulkUpdateComponents', 'component');
+
+const alice: AuthIdentity = { subject: 'alice', authType: 'jwt', scopes: ['*'] };
+const bob: AuthIdentity = { subject: 'bob', authType: 'jwt', scopes: ['*'] };
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    limiter = new RateLimiter({
+      enabled: true,
+      windowMs: 60000,
+      maxRequests: 5,
+      categories: { replication: 2 },
+      tools: { bulkUpdateComponents: 1 },
+    });
+  });
+
+  it('should keep separate budgets per caller and reset them with the window', () => {
+    for (let i = 0; i < 5; i++) limiter.consume(alice, getPageContent, 1000);
+
+    expect(() => limiter.consume(alice, getPageContent, 1000)).toThrow('Rate limit exceeded for tool calls');
+    expect(limiter.consume(bob, getPageContent, 1000)).toMatchObject({ bucket: 'all', remaining: 4 });
+    expect(limiter.consume(alice, getPageContent, 61000)).toMatchObject({ bucket: 'all', remaining: 4, resetAt: 121000 });
+  });
+
+  it('should apply tighter category and tool budgets and report the tightest', () => {
+    expect(limiter.consume(alice, activatePage, 1000)).toEqual({ bucket: 'category:replication', limit: 2, remaining: 1, resetAt: 61000 });
+    limiter.consume(alice, activatePage, 1000);
+    limiter.consume(alice, bulkUpdateComponents, 1000);
+
+    expect(() => limiter.consume(alice, bulkUpdateComponents, 1000)).toThrow('tool:bulkUpdateComponents');
+    expect(limiter.consume(alice, getPageContent, 1000)).toMatchObject({ bucket: 'all', remaining: 1 });
+  });
+
+  it('should raise RATE_LIMITED with retryAfter and charge nothing for refused calls', () => {
+    limiter.consume(alice, activatePage, 1000);
+    limiter.consume(alice, activatePage, 1000);
+
+    let error: any;
+    try {
+      limiter.consume(alice, activatePage, 31000);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 30000, details: { bucket: 'category:replication', remaining: 0 } });
+    expect(limiter.consume(alice, getPageContent, 31000)).toMatchObject({ bucket: 'all', remaining: 2 });
+  });
+
+  it('should report the quota to the request and key anonymous callers by address', () => {
+    const res: any = { headersSent: false, set: jest.fn() };
+    let status;
+
+    createRateLimitMiddleware()({ ip: '10.0.0.1' } as any, res, () => {
+      limiter.consume(undefined, getPageContent, 1000);
+      status = getRateLimitStatus();
+    });
+    createRateLimitMiddleware()({ ip: '10.0.0.2' } as any, res, () => limiter.consume(undefined, getPageContent, 1000));
+
+    expect(status).toMatchObject({ bucket: 'all', remaining: 4 });
+    expect(res.set).toHaveBeenLastCalledWith(expect.objectContaining({ 'RateLimit-Remaining': '4' }));
+    expect(rateLimitHeaders({ bucket: 'all', limit: 5, remaining: 4, resetAt: 61000 }, 1000)).toEqual({
+      'RateLimit-Limit': '5',
+      'RateLimit-Remaining': '4',
+      'RateLimit-Reset': '60',
+      'RateLimit-Policy': 'all',
+    });
+  });
+});
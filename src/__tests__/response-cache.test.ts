@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the shared response cache
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ResponseCache, installResponseCache } from '../response-cache.js';
+import { recordPlan } from '../plan-mode.js';
+
+// setup.ts mocks axios; these tests need real interceptors
+const axios = jest.requireActual<typeof import('axios')>('axios').default;
+
+describe('installResponseCache', () => {
+  let cache: ResponseCache;
+  let calls: InternalAxiosRequestConfig[];
+  let version: number;
+
+  /**
+   * Client whose AEM serves `{ path, version }` with an ETag that changes with the version
+   */
+  const client = (ttlMs: number = 60000, maxEntries: number = 100) => {
+    cache = new ResponseCache({ enabled: true, ttlMs, maxEntries, maxBytes: 1024 * 1024 });
+    const adapter: AxiosAdapter = async (config) => {
+      calls.push(config);
+      const etag = `"v${version}"`;
+      const response: AxiosResponse = {
+        data: { url: config.url, version },
+        status: 200,
+        statusText: 'OK',
+        headers: { etag },
+        config,
+      };
+      if (config.headers.get('If-None-Match') === etag) {
+        throw new axios.AxiosError('Not Modified', 'ERR_BAD_REQUEST', config, undefined, { ...response, data: '', status: 304 });
+      }
+      return response;
+    };
+    return installResponseCache(axios.create({ baseURL: 'http://aem.test:4502', adapter, auth: { username: 'admin', password: 'admin' } }), cache);
+  };
+
+  beforeEach(() => {
+    calls = [];
+    version = 1;
+  });
+
+  it('should serve repeated reads from the cache, keyed by URL and depth', async () => {
+    const http = client();
+
+    const first = await http.get('/content/site/en.infinity.json');
+    first.data.mutated = true;
+    const second = await http.get('/content/site/en.infinity.json');
+    await http.get('/content/site/en.2.json');
+
+    expect(second.data).toEqual({ url: '/content/site/en.infinity.json', version: 1 });
+    expect(calls.map(call => call.url)).toEqual(['/content/site/en.infinity.json', '/content/site/en.2.json']);
+    expect(cache.stats()).toMatchObject({ entries: 2, hits: 1, misses: 2, hitRate: 0.333 });
+  });
+
+  it('should revalidate stale entries with the ETag', async () => {
+    const http = client(0);
+
+    await http.get('/content/site/en.json');
+    const revalidated = await http.get('/content/site/en.json');
+    version = 2;
+    const changed = await http.get('/content/site/en.json');
+
+    expect(calls[1].headers.get('If-None-Match')).toBe('"v1"');
+    expect(revalidated).toMatchObject({ status: 200, data: { version: 1 } });
+    expect(changed.data.version).toBe(2);
+    expect(cache.stats()).toMatchObject({ hits: 1, revalidated: 1, misses: 2 });
+  });
+
+  it('should drop cached ancestors and descendants of written nodes', async () => {
+    const http = client();
+    await http.get('/content/site/en.infinity.json');
+    await http.get('/content/site/en/jcr:content/root/text/child.json');
+    await http.get('/content/site/fr.json');
+
+    await http.post('/content/site/en/jcr:content/root/text', new URLSearchParams({ text: 'Hi' }));
+    await http.post('/bin/replicate.json', new URLSearchParams({ cmd: 'Activate', path: '/content/site/fr' }));
+
+    expect(cache.stats()).toMatchObject({ entries: 0, invalidations: 3 });
+  });
+
+  it('should drop cached folders and assets on uploads through servlet selectors', async () => {
+    const http = client();
+    const read = async () => {
+      await http.get('/content/dam/site.1.json');
+      await http.get('/content/dam/site/logo.png.json');
+    };
+
+    await read();
+    await http.post('/content/dam/site.createasset.html', 'multipart body');
+    expect(cache.stats().entries).toBe(0);
+
+    await read();
+    await http.post('/content/dam/site.initiateUpload.json', new URLSearchParams({ fileName: 'logo.png' }));
+    expect(cache.stats().entries).toBe(0);
+
+    await read();
+    await http.post('/content/dam/site.completeUpload.json', new URLSearchParams({ fileName: 'logo.png' }));
+    expect(cache.stats().entries).toBe(0);
+
+    await read();
+    await http.post('/content/dam/site/logo.png/jcr:content/renditions', 'multipart body');
+    expect(cache.stats()).toMatchObject({ entries: 0, invalidations: 8 });
+  });
+
+  it('should drop every entry on Package Manager commands', async () => {
+    const http = client();
+    await http.get('/content/site/en.json');
+    await http.get('/conf/site.json');
+
+    await http.post('/crx/packmgr/service/.json/etc/packages/my_packages/site.zip', new URLSearchParams(), { params: { cmd: 'install' } });
+    expect(cache.stats().entries).toBe(0);
+
+    await http.get('/content/site/en.json');
+    await http.post('/crx/packmgr/service.jsp', new URLSearchParams({ cmd: 'inst', name: 'site' }));
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  it('should not cache servlets, opted-out reads or reads made while recording a plan', async () => {
+    const http = client();
+
+    await http.get('/bin/querybuilder.json', { params: { path: '/content' } });
+    await http.get('/bin/querybuilder.json', { params: { path: '/content' } });
+    await http.get('/content/site/en.json', { cache: false });
+    await recordPlan(async () => {
+      await http.get('/content/site/en.json');
+    });
+
+    expect(calls).toHaveLength(4);
+    expect(cache.stats()).toMatchObject({ entries: 0, hits: 0 });
+  });
+
+  it('should evict the least recently used entries beyond the size bound', async () => {
+    const http = client(60000, 2);
+    await http.get('/content/a.json');
+    await http.get('/content/b.json');
+    await http.get('/content/a.json');
+    await http.get('/content/c.json');
+
+    await http.get('/content/a.json');
+    await http.get('/content/b.json');
+
+    expect(calls.map(call => call.url)).toEqual(['/content/a.json', '/content/b.json', '/content/c.json', '/content/b.json']);
+    expect(cache.stats()).toMatchObject({ entries: 2, evictions: 2 });
+  });
+});
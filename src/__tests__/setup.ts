@@ -101,7 +101,9 @@ export const mockConfig = {
     rateLimit: {
       enabled: true,
       windowMs: 900000,
-      maxRequests: 100
+      maxRequests: 100,
+      categories: { replication: 20 },
+      tools: { bulkUpdateComponents: 10, getAllTextContent: 20 }
     }
   },
   security: {
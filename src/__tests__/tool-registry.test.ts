@@ -0,0 +1,272 @@
+/**
+ * Unit tests for ToolRegistry
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ToolRegistry, ToolDefinition, operationResultSchema } from '../tool-registry.js';
+import { runAsCaller } from '../auth.js';
+import { AEMConnector } from '../aem-connector.js';
+import { createToolRegistry } from '../mcp-tools.js';
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+  let handler: jest.Mock<(args: any) => Promise<unknown>>;
+
+  const buildTool = (overrides: Partial<ToolDefinition> = {}): ToolDefinition => ({
+    name: 'getPageContent',
+    description: 'Get all content from a page',
+    category: 'page',
+    implementationStatus: 'complete',
+    inputSchema: {
+      type: 'object',
+      properties: { pagePath: { type: 'string' } },
+      required: ['pagePath'],
+    },
+    outputSchema: operationResultSchema(),
+    handler,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    handler = jest.fn(async (args: any) => ({ success: true, data: args }));
+    registry = new ToolRegistry();
+  });
+
+  it('should call the registered handler with the given arguments', async () => {
+    registry.register(buildTool());
+
+    const result = await registry.call('getPageContent', { pagePath: '/content/test' });
+
+    expect(handler).toHaveBeenCalledWith({ pagePath: '/content/test' });
+    expect(result).toEqual({ success: true, data: { pagePath: '/content/test' } });
+  });
+
+  it('should reject unknown methods with METHOD_NOT_FOUND', async () => {
+    await expect(registry.call('missingTool')).rejects.toMatchObject({ code: 'METHOD_NOT_FOUND' });
+  });
+
+  it('should reject duplicate tool names', () => {
+    registry.register(buildTool());
+
+    expect(() => registry.register(buildTool())).toThrow("Tool 'getPageContent' is already registered");
+  });
+
+  it('should describe tools with parameters, category and status', () => {
+    registry.registerAll([
+      buildTool(),
+      buildTool({ name: 'createPage', implementationStatus: 'partial', notes: 'jcr:content is created separately' }),
+    ]);
+
+    const summaries = registry.describe();
+
+    expect(summaries[0]).toMatchObject({
+      name: 'getPageContent',
+      category: 'page',
+      parameters: ['pagePath'],
+      requiredParameters: ['pagePath'],
+      implementationStatus: 'complete',
+    });
+    expect(registry.getImplementationStatus()).toEqual({ complete: 1, partial: 1 });
+    expect(Object.keys(registry.describeByCategory())).toEqual(['page']);
+  });
+
+  it('should expose MCP tool definitions without handlers', () => {
+    registry.register(buildTool({ outputSchema: undefined }));
+
+    const [tool] = registry.toMCPTools();
+
+    expect(tool).toEqual({
+      name: 'getPageContent',
+      description: 'Get all content from a page',
+      inputSchema: buildTool().inputSchema,
+    });
+  });
+
+  it('should generate one OpenAPI path per tool', () => {
+    registry.register(buildTool());
+
+    const paths = registry.toOpenAPIPaths() as Record<string, any>;
+
+    expect(Object.keys(paths)).toEqual(['/api/methods/getPageContent']);
+    expect(paths['/api/methods/getPageContent'].post.tags).toEqual(['page']);
+    expect(paths['/api/methods/getPageContent'].post.requestBody.required).toBe(true);
+  });
+
+  it('should run journaled tools through the change recorder', async () => {
+    const recorder = {
+      recordChange: jest.fn(async (_tool: string, _args: Record<string, any>, _spec: unknown, run: () => Promise<unknown>) => ({ ...(await run() as object), jobId: 'job-1' })),
+    };
+    registry = new ToolRegistry({ recorder });
+    registry.register(buildTool({ name: 'deletePage', journal: { paths: (args) => [args.pagePath] } }));
+    registry.register(buildTool());
+
+    const journaled = await registry.call('deletePage', { pagePath: '/content/site/en/old' });
+    await registry.call('getPageContent', { pagePath: '/content/site/en' });
+
+    expect(journaled).toEqual({ success: true, data: { pagePath: '/content/site/en/old' }, jobId: 'job-1' });
+    expect(recorder.recordChange).toHaveBeenCalledTimes(1);
+    expect(recorder.recordChange.mock.calls[0][0]).toBe('deletePage');
+  });
+
+  it('should plan dry runs of mutating tools instead of running them', async () => {
+    const planner = { planChange: jest.fn(async (tool: string, args: Record<string, any>) => ({ planId: 'plan-1', tool, args })) };
+    registry = new ToolRegistry({ planner });
+    registry.register(buildTool({ name: 'deletePage', mutating: true }));
+
+    const plan = await registry.call('deletePage', { pagePath: '/content/site/en/old', dryRun: true });
+    await registry.call('deletePage', { pagePath: '/content/site/en/old', dryRun: false });
+
+    expect(plan).toEqual({ planId: 'plan-1', tool: 'deletePage', args: { pagePath: '/content/site/en/old' } });
+    expect(planner.planChange).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ pagePath: '/content/site/en/old' });
+    expect(registry.get('deletePage')!.inputSchema.properties.dryRun).toMatchObject({ type: 'boolean' });
+  });
+
+  it('should plan every mutating call when dry run is the default', async () => {
+    const planner = { planChange: jest.fn(async () => ({ planId: 'plan-1' })) };
+    registry = new ToolRegistry({ planner, dryRunByDefault: true });
+    registry.register(buildTool({ name: 'deletePage', mutating: true }));
+    registry.register(buildTool());
+
+    await registry.call('deletePage', { pagePath: '/content/site/en/old' });
+    await registry.call('getPageContent', { pagePath: '/content/site/en' });
+
+    expect(planner.planChange).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse tools outside the caller\'s scopes', async () => {
+    registry.register(buildTool());
+    registry.register(buildTool({ name: 'deletePage' }));
+    const caller = { subject: 'ci', authType: 'api-key' as const, scopes: ['getPageContent'] };
+
+    await expect(runAsCaller(caller, () => registry.call('getPageContent', { pagePath: '/content/site/en' }))).resolves.toBeDefined();
+    await expect(runAsCaller(caller, () => registry.call('deletePage', { pagePath: '/content/site/en' }))).rejects.toMatchObject({ code: 'INSUFFICIENT_PERMISSIONS' });
+    await expect(runAsCaller({ ...caller, scopes: ['page'] }, () => registry.call('deletePage', { pagePath: '/content/site/en' }))).resolves.toBeDefined();
+  });
+
+  it('should check the access policy with the call\'s target paths and filter listings', async () => {
+    const access = { authorize: jest.fn(), canList: jest.fn((caller: unknown, tool: ToolDefinition) => tool.name !== 'deletePage') };
+    registry = new ToolRegistry({ access });
+    registry.register(buildTool({ inputSchema: { type: 'object', properties: { pagePath: { type: 'string' }, updates: { type: 'array' } } } }));
+    registry.register(buildTool({ name: 'deletePage' }));
+
+    await registry.call('getPageContent', { pagePath: '/content/site/en', updates: [{ componentPath: '/content/site/fr/jcr:content', relPath: 'a/b' }] });
+
+    expect(access.authorize).toHaveBeenCalledWith(undefined, expect.objectContaining({ name: 'getPageContent' }), ['/content/site/en', '/content/site/fr/jcr:content']);
+    expect(registry.describe().map(tool => tool.name)).toEqual(['getPageContent']);
+    expect(registry.toMCPTools().map(tool => tool.name)).toEqual(['getPageContent']);
+  });
+
+  it('should check the nodes a journaled tool changes though no argument names them', async () => {
+    const access = { authorize: jest.fn(), canList: jest.fn(() => true) };
+    registry = new ToolRegistry({ access });
+    registry.register(buildTool({
+      name: 'importContentPackage',
+      inputSchema: { type: 'object', properties: { fileName: { type: 'string' } } },
+      mutating: true,
+      journal: { paths: () => ['/content/site/en', '/conf/site'] },
+    }));
+
+    await registry.call('importContentPackage', { fileName: 'site.zip' });
+
+    expect(access.authorize).toHaveBeenCalledWith(undefined, expect.objectContaining({ name: 'importContentPackage' }), ['/content/site/en', '/conf/site']);
+  });
+
+  it('should check the targets a tool resolves from stored state', async () => {
+    const access = { authorize: jest.fn(), canList: jest.fn(() => true) };
+    registry = new ToolRegistry({ access });
+    registry.register(buildTool({
+      name: 'undoChanges',
+      inputSchema: { type: 'object', properties: { jobId: { type: 'string' } } },
+      audited: true,
+      targets: async (args) => args.jobId === 'job-1' ? ['/content/site/fr'] : [],
+    }));
+
+    await registry.call('undoChanges', { jobId: 'job-1' });
+
+    expect(access.authorize).toHaveBeenCalledWith(undefined, expect.objectContaining({ name: 'undoChanges' }), ['/content/site/fr']);
+  });
+
+  it('should check the roots that listing and query tools search though no path argument names them', async () => {
+    const access = { authorize: jest.fn(), canList: jest.fn(() => true) };
+    const connector = {
+      listPages: jest.fn(async () => ({})),
+      executeJCRQuery: jest.fn(async () => ({})),
+      getJCRQueryTargets: jest.fn(() => ['/content/mysite']),
+      queryBuilder: jest.fn(async () => ({})),
+      getQueryBuilderTargets: jest.fn(() => ['/content/dam/mysite']),
+    };
+    registry = new ToolRegistry({ access }).registerAll(createToolRegistry(connector as unknown as AEMConnector).list());
+
+    await registry.call('listPages', {});
+    await registry.call('listPages', { siteRoot: '/content/mysite/en' });
+    await registry.call('executeJCRQuery', { query: "SELECT * FROM [cq:Page] AS p WHERE ISDESCENDANTNODE(p, '/content/mysite')" });
+    await registry.call('queryBuilder', { cursor: 'abc' });
+
+    expect(access.authorize.mock.calls.map(call => call[2])).toEqual([['/content'], ['/content/mysite/en'], ['/content/mysite'], ['/content/dam/mysite']]);
+    expect(connector.getQueryBuilderTargets).toHaveBeenCalledWith({ cursor: 'abc' });
+  });
+
+  it('should charge the call budget only for permitted calls', async () => {
+    const access = { authorize: jest.fn((caller: unknown, tool: ToolDefinition) => { if (tool.name === 'deletePage') throw new Error('denied'); }), canList: jest.fn(() => true) };
+    const limiter = { consume: jest.fn() };
+    registry = new ToolRegistry({ access, limiter });
+    registry.register(buildTool());
+    registry.register(buildTool({ name: 'deletePage' }));
+
+    await registry.call('getPageContent', { pagePath: '/content/site/en' });
+    await expect(registry.call('deletePage', { pagePath: '/content/site/en' })).rejects.toThrow('denied');
+
+    expect(limiter.consume).toHaveBeenCalledTimes(1);
+    expect(limiter.consume).toHaveBeenCalledWith(undefined, expect.objectContaining({ name: 'getPageContent' }));
+  });
+
+  it('should audit executed writes with their outcome but not reads or dry runs', async () => {
+    const audit = { record: jest.fn(async (record: unknown) => record) };
+    const planner = { planChange: jest.fn(async () => ({ planId: 'p1' })) };
+    registry = new ToolRegistry({ planner, audit });
+    registry.register(buildTool());
+    registry.register(buildTool({ name: 'deletePage', mutating: true }));
+    registry.register(buildTool({
+      name: 'startWorkflow',
+      category: 'workflow',
+      audited: true,
+      handler: jest.fn(async () => { throw Object.assign(new Error('no model'), { code: 'RESOURCE_NOT_FOUND' }); }),
+    }));
+
+    await registry.call('getPageContent', { pagePath: '/content/site/en' });
+    await registry.call('deletePage', { pagePath: '/content/site/en', dryRun: true });
+    await registry.call('deletePage', { pagePath: '/content/site/en' });
+    await expect(registry.call('startWorkflow', { pagePath: '/content/site/fr' })).rejects.toThrow('no model');
+
+    expect(audit.record).toHaveBeenCalledTimes(2);
+    expect(audit.record).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      user: 'anonymous', tool: 'deletePage', paths: ['/content/site/en'], params: { pagePath: '/content/site/en' }, outcome: 'success',
+    }));
+    expect(audit.record).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      tool: 'startWorkflow', outcome: 'failure', error: { code: 'RESOURCE_NOT_FOUND', message: 'no model' },
+    }));
+  });
+
+  it('should run calls in the environment they name and record it in the audit trail', async () => {
+    const audit = { record: jest.fn(async (record: unknown) => record) };
+    const environments = {
+      names: () => ['dev', 'prod'],
+      run: jest.fn(async (name: string | undefined, writes: boolean, fn: () => Promise<unknown>) => fn()),
+    };
+    registry = new ToolRegistry({ audit, environments });
+    registry.register(buildTool());
+    registry.register(buildTool({ name: 'deletePage', mutating: true }));
+
+    expect(registry.get('getPageContent')!.inputSchema.properties.environment).toMatchObject({ enum: ['dev', 'prod'] });
+    await registry.call('getPageContent', { pagePath: '/content/site/en', environment: 'prod' });
+    await registry.call('deletePage', { pagePath: '/content/site/en' });
+    await expect(registry.call('getPageContent', { pagePath: '/content/site/en', environment: 'qa' })).rejects.toMatchObject({ code: 'INVALID_PARAMETERS' });
+
+    expect(handler).toHaveBeenNthCalledWith(1, { pagePath: '/content/site/en' });
+    expect(environments.run.mock.calls.map(([name, writes]) => [name, writes])).toEqual([['prod', false], [undefined, true]]);
+    expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({ tool: 'deletePage', environment: 'dev' }));
+  });
+});
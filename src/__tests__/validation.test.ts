@@ -0,0 +1,84 @@
+/**
+ * Unit tests for tool argument validation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { validateAgainstSchema, validateToolArguments } from '../validation.js';
+import {
+  BulkUpdateComponentsRequestSchema,
+  CreatePageRequestSchema,
+  ListPagesParamsSchema
+} from '../interfaces/schemas.js';
+
+describe('validateAgainstSchema', () => {
+  it('should accept valid arguments', () => {
+    const issues = validateAgainstSchema(CreatePageRequestSchema, {
+      parentPath: '/content/test',
+      title: 'New Page',
+      template: '/conf/test/settings/wcm/templates/page',
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should report missing required fields with their expected type', () => {
+    const issues = validateAgainstSchema(CreatePageRequestSchema, { parentPath: '/content/test' });
+
+    expect(issues).toEqual([
+      { field: 'title', expected: 'string', received: 'undefined', message: 'title is required' },
+    ]);
+  });
+
+  it('should report wrongly typed fields', () => {
+    const issues = validateAgainstSchema(CreatePageRequestSchema, {
+      parentPath: '/content/test',
+      title: 42,
+      properties: 'not-an-object',
+    });
+
+    expect(issues.map(issue => [issue.field, issue.expected, issue.received])).toEqual([
+      ['title', 'string', 'integer'],
+      ['properties', 'object', 'string'],
+    ]);
+  });
+
+  it('should reject non-integer numbers for integer fields', () => {
+    const issues = validateAgainstSchema(ListPagesParamsSchema, { depth: 1.5, limit: 0 });
+
+    expect(issues.map(issue => issue.field)).toEqual(['depth', 'limit']);
+  });
+
+  it('should validate nested array items with indexed field names', () => {
+    const issues = validateAgainstSchema(BulkUpdateComponentsRequestSchema, {
+      updates: [
+        { componentPath: '/content/test/jcr:content/text', properties: { text: 'ok' } },
+        { componentPath: '/content/test/jcr:content/title' },
+      ],
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ field: 'updates[1].properties', expected: 'object', received: 'undefined' }),
+    ]);
+  });
+
+  it('should allow properties not described by the schema', () => {
+    const issues = validateAgainstSchema(ListPagesParamsSchema, { 'p.guessTotal': true });
+
+    expect(issues).toEqual([]);
+  });
+});
+
+describe('validateToolArguments', () => {
+  it('should throw INVALID_PARAMETERS listing every offending field', () => {
+    let thrown: any;
+    try {
+      validateToolArguments('createPage', CreatePageRequestSchema, { title: 7 });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toMatchObject({ code: 'INVALID_PARAMETERS' });
+    expect(thrown.details.method).toBe('createPage');
+    expect(thrown.details.errors.map((e: any) => e.field)).toEqual(['parentPath', 'title']);
+  });
+});
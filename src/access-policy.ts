@@ -0,0 +1,156 @@
+/**
+ * Access Policy Module
+ * Role-based access control read from a JSON policy file: roles grant tools on JCR path
+ * prefixes, and deny rules take precedence over grants. The tool registry consults it before
+ * any connector call and when listing tools.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { posix } from 'path';
+import { AccessPolicyDocument, AccessRule, AuthIdentity } from './interfaces/index.js';
+import { AEM_ERROR_CODES, createAEMError } from './error-handler.js';
+import { AccessController, ToolDefinition } from './tool-registry.js';
+
+/** Subject that callers without an identity (stdio, auth disabled) are looked up under */
+export const ANONYMOUS_SUBJECT = 'anonymous';
+
+export class AccessPolicy implements AccessController {
+  private document!: AccessPolicyDocument;
+  private loadedMtime = -1;
+
+  constructor(private file: string) {
+    this.load();
+  }
+
+  /**
+   * Roles a caller holds: those its credential asserts plus those the policy assigns to its
+   * subject, or the default roles when there are none; inherited roles are included
+   */
+  rolesOf(caller?: AuthIdentity): string[] {
+    const policy = this.load();
+    const assigned = [...(caller?.roles || []), ...(policy.subjects?.[caller?.subject ?? ANONYMOUS_SUBJECT] || [])];
+    const roles = new Set<string>();
+    const visit = (role: string) => {
+      if (roles.has(role) || !policy.roles[role]) return;
+      roles.add(role);
+      (policy.roles[role].inherits || []).forEach(visit);
+    };
+    (assigned.length > 0 ? assigned : policy.defaultRoles || []).forEach(visit);
+    return [...roles];
+  }
+
+  /**
+   * Whether the caller may run the tool on some path; tools denied outright are hidden
+   */
+  canList(caller: AuthIdentity | undefined, tool: ToolDefinition): boolean {
+    const { grants, denials } = this.rulesOf(this.rolesOf(caller));
+    return grants.some(rule => coversTool(rule, tool)) && !denials.some(rule => !rule.paths && coversTool(rule, tool));
+  }
+
+  /**
+   * Throw INSUFFICIENT_PERMISSIONS unless the caller may run the tool on every target path.
+   * Calls without a target path fail closed: they need a grant that is not limited to paths,
+   * and are refused by any deny rule limited to paths that covers the tool.
+   */
+  authorize(caller: AuthIdentity | undefined, tool: ToolDefinition, paths: string[]): void {
+    const roles = this.rolesOf(caller);
+    const { grants, denials } = this.rulesOf(roles);
+    const targets = paths.map(normalizePath);
+    const subject = caller?.subject ?? ANONYMOUS_SUBJECT;
+
+    for (const rule of denials.filter(candidate => coversTool(candidate, tool))) {
+      // A call that names no path may touch the denied one
+      const denied = rule.paths ? (targets.length === 0 ? rule.paths.join(', ') : targets.find(target => coversPath(rule, target))) : tool.name;
+      if (denied) {
+        throw createAEMError(
+          AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+          rule.paths ? `${tool.name} is denied under ${denied}` : `${tool.name} is denied`,
+          { method: tool.name, subject, roles, deniedBy: rule }
+        );
+      }
+    }
+
+    const usable = grants.filter(rule => coversTool(rule, tool));
+    if (usable.length === 0) {
+      throw createAEMError(
+        AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+        `Caller '${subject}' (roles: ${roles.join(', ') || 'none'}) may not run ${tool.name}`,
+        { method: tool.name, subject, roles }
+      );
+    }
+    if (targets.length === 0 && usable.every(rule => rule.paths)) {
+      throw createAEMError(
+        AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+        `Caller '${subject}' may run ${tool.name} only on ${usable.flatMap(rule => rule.paths!).join(', ')}, and the call names no path`,
+        { method: tool.name, subject, roles }
+      );
+    }
+    const outside = targets.filter(target => !usable.some(rule => coversPath(rule, target)));
+    if (outside.length > 0) {
+      throw createAEMError(
+        AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+        `Caller '${subject}' may not run ${tool.name} on ${outside.join(', ')}`,
+        { method: tool.name, subject, roles, paths: outside }
+      );
+    }
+  }
+
+  private rulesOf(roles: string[]): { grants: AccessRule[]; denials: AccessRule[] } {
+    const policy = this.document;
+    return {
+      grants: roles.map(role => ({ tools: policy.roles[role].tools, paths: policy.roles[role].paths })),
+      denials: [...(policy.deny || []), ...roles.flatMap(role => policy.roles[role].deny || [])],
+    };
+  }
+
+  // Reloaded whenever the file changes; a missing or malformed file fails every check
+  private load(): AccessPolicyDocument {
+    let mtime: number;
+    try {
+      mtime = statSync(this.file).mtimeMs;
+    } catch (error: any) {
+      throw createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, `Access policy ${this.file} cannot be read: ${error.message}`, { file: this.file });
+    }
+    if (mtime !== this.loadedMtime) {
+      let document: AccessPolicyDocument;
+      try {
+        document = JSON.parse(readFileSync(this.file, 'utf8'));
+      } catch (error: any) {
+        throw createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, `Access policy ${this.file} is not valid JSON: ${error.message}`, { file: this.file });
+      }
+      const invalid = !document || typeof document.roles !== 'object'
+        || Object.values(document.roles).some(role => !Array.isArray(role?.tools));
+      if (invalid) {
+        throw createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, `Access policy ${this.file} must define roles, each with a tools list`, { file: this.file });
+      }
+      this.document = document;
+      this.loadedMtime = mtime;
+    }
+    return this.document;
+  }
+}
+
+function coversTool(rule: AccessRule, tool: ToolDefinition): boolean {
+  return rule.tools.some(entry => entry === '*'
+    || entry === tool.name
+    || entry === tool.category
+    || (entry === '@read' && !writes(tool))
+    || (entry === '@write' && writes(tool)));
+}
+
+/** Both dry-run capable and audited tools write, whether or not the planner can preview them */
+function writes(tool: ToolDefinition): boolean {
+  return !!(tool.mutating || tool.audited);
+}
+
+function coversPath(rule: AccessRule, path: string): boolean {
+  return !rule.paths || rule.paths.some(prefix => {
+    const base = normalizePath(prefix);
+    return base === '/' || path === base || path.startsWith(`${base}/`);
+  });
+}
+
+// Resolves '..' so a path cannot climb out of a permitted prefix
+function normalizePath(path: string): string {
+  return posix.normalize(path).replace(/\/+$/, '') || '/';
+}
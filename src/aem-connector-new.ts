@@ -14,9 +14,13 @@ import { ReplicationOperations } from './operations/replication-operations.js';
 import { UtilityOperations } from './operations/utility-operations.js';
 import { WorkflowOperations } from './operations/workflow-operations.js';
 import { VersionOperations } from './operations/version-operations.js';
-import { createAxiosInstance } from './http-client.js';
+import { JournalOperations } from './operations/journal-operations.js';
+import { PlanOperations } from './operations/plan-operations.js';
+import { ChangeJournal } from './change-journal.js';
+import { ChangePlanner, ChangeRecorder, ToolJournalSpec } from './tool-registry.js';
+import { createAxiosInstance, createUploadAxiosInstance } from './http-client.js';
 
-export class AEMConnector implements IAEMConnector {
+export class AEMConnector implements IAEMConnector, ChangeRecorder, ChangePlanner {
   private httpClient: AxiosInstance;
   private pageOps: PageOperations;
   private componentOps: ComponentOperations;
@@ -27,6 +31,8 @@ export class AEMConnector implements IAEMConnector {
   private utilityOps: UtilityOperations;
   private workflowOps: WorkflowOperations;
   private versionOps: VersionOperations;
+  private journalOps: JournalOperations;
+  private planOps: PlanOperations;
 
   constructor(
     private config: IConfig,
@@ -36,15 +42,17 @@ export class AEMConnector implements IAEMConnector {
     this.httpClient = createAxiosInstance(config);
     
     // Initialize operation modules
-    this.pageOps = new PageOperations(this.httpClient, this.logger, config.aem);
-    this.componentOps = new ComponentOperations(this.httpClient, this.logger, config.aem);
-    this.assetOps = new AssetOperations(this.httpClient, this.logger, config.aem);
-    this.searchOps = new SearchOperations(this.httpClient, this.logger, config.aem);
-    this.templateOps = new TemplateOperations(this.httpClient, this.logger, config.aem);
-    this.replicationOps = new ReplicationOperations(this.httpClient, this.logger, config.aem);
-    this.utilityOps = new UtilityOperations(this.httpClient, this.logger, config.aem);
-    this.workflowOps = new WorkflowOperations(this.httpClient, this.logger, config.aem);
-    this.versionOps = new VersionOperations(this.httpClient, this.logger, config.aem);
+    this.pageOps = new PageOperations(this.httpClient, this.logger, () => config.aem);
+    this.componentOps = new ComponentOperations(this.httpClient, this.logger, () => config.aem);
+    this.assetOps = new AssetOperations(this.httpClient, this.logger, () => config.aem, createUploadAxiosInstance(config));
+    this.searchOps = new SearchOperations(this.httpClient, this.logger, () => config.aem);
+    this.templateOps = new TemplateOperations(this.httpClient, this.logger, () => config.aem);
+    this.replicationOps = new ReplicationOperations(this.httpClient, this.logger, () => config.aem);
+    this.utilityOps = new UtilityOperations(this.httpClient, this.logger, () => config.aem);
+    this.workflowOps = new WorkflowOperations(this.httpClient, this.logger, () => config.aem);
+    this.versionOps = new VersionOperations(this.httpClient, this.logger, () => config.aem);
+    this.journalOps = new JournalOperations(this.httpClient, this.logger, () => config.aem, new ChangeJournal());
+    this.planOps = new PlanOperations(this.httpClient, this.logger, () => config.aem);
   }
 
   /**
@@ -84,6 +92,18 @@ export class AEMConnector implements IAEMConnector {
     return this.pageOps.deletePage(request);
   }
 
+  async movePage(request: any) {
+    return this.pageOps.movePage(request);
+  }
+
+  async renamePage(request: any) {
+    return this.pageOps.renamePage(request);
+  }
+
+  async copyPage(request: any) {
+    return this.pageOps.copyPage(request);
+  }
+
   async listPages(siteRoot: string, depth?: number, limit?: number) {
     return this.pageOps.listPages(siteRoot, depth, limit);
   }
@@ -167,8 +187,20 @@ export class AEMConnector implements IAEMConnector {
     return this.searchOps.searchContent(params);
   }
 
-  async executeJCRQuery(query: string, limit?: number) {
-    return this.searchOps.executeJCRQuery(query, limit);
+  async executeJCRQuery(params: any) {
+    return this.searchOps.executeJCRQuery(params);
+  }
+
+  async queryBuilder(request: any) {
+    return this.searchOps.queryBuilder(request);
+  }
+
+  getJCRQueryTargets(params: any) {
+    return this.searchOps.getJCRQueryTargets(params);
+  }
+
+  getQueryBuilderTargets(request: any) {
+    return this.searchOps.getQueryBuilderTargets(request);
   }
 
   async enhancedPageSearch(params: any) {
@@ -290,7 +322,31 @@ export class AEMConnector implements IAEMConnector {
     return this.versionOps.deleteVersion(path, versionName);
   }
 
+  async recordChange(tool: string, args: Record<string, any>, spec: ToolJournalSpec, run: () => Promise<unknown>) {
+    return this.journalOps.recordChange(tool, args, spec, run);
+  }
+
+  async getJobTargets(jobId: string): Promise<string[]> {
+    return this.journalOps.getJobTargets(jobId);
+  }
+
   async undoChanges(request: any) {
-    return this.versionOps.undoChanges(request);
+    // A jobId with a path that is not a journaled job is a version name to restore
+    if (request.path && !(await this.journalOps.hasJob(request.jobId))) {
+      return this.versionOps.undoChanges(request);
+    }
+    return this.journalOps.undoChanges(request);
+  }
+
+  async planChange(tool: string, args: Record<string, any>, run: () => Promise<unknown>) {
+    return this.planOps.planChange(tool, args, run);
+  }
+
+  getPlanTargets(planId: string): string[] {
+    return this.planOps.getPlanTargets(planId);
+  }
+
+  async applyPlan(request: any) {
+    return this.planOps.applyPlan(request);
   }
 }
@@ -12,6 +12,21 @@ import {
 } from './error-handler.js';
 import { WorkflowOperations } from './operations/workflow-operations.js';
 import { VersionOperations } from './operations/version-operations.js';
+import { PageOperations } from './operations/page-operations.js';
+import { JournalOperations } from './operations/journal-operations.js';
+import { PlanOperations } from './operations/plan-operations.js';
+import { EnvironmentOperations } from './operations/environment-operations.js';
+import { PackageOperations } from './operations/package-operations.js';
+import { ContentPackageOperations } from './operations/content-package-operations.js';
+import { AssetOperations } from './operations/asset-operations.js';
+import { SearchOperations } from './operations/search-operations.js';
+import { ChangeJournal } from './change-journal.js';
+import { installPlanInterceptor } from './plan-mode.js';
+import { installResilience } from './http-resilience.js';
+import { installResponseCache } from './response-cache.js';
+import { EnvironmentProfiles, getCurrentEnvironment, installEnvironment } from './environments.js';
+import { ChangePlanner, ChangeRecorder, ToolJournalSpec } from './tool-registry.js';
+import { createUploadAxiosInstance } from './http-client.js';
 
 dotenv.config();
 
@@ -32,26 +47,40 @@ export interface AEMConnectorConfig {
   };
 }
 
-export class AEMConnector {
+export class AEMConnector implements ChangeRecorder, ChangePlanner {
   config: AEMConnectorConfig;
   auth: { username: string; password: string };
-  aemConfig: AEMConfig;
+  environments: EnvironmentProfiles;
   private workflowOps: WorkflowOperations;
   private versionOps: VersionOperations;
+  private pageOps: PageOperations;
+  private journalOps: JournalOperations;
+  private planOps: PlanOperations;
+  private environmentOps: EnvironmentOperations;
+  private packageOps: PackageOperations;
+  private contentPackageOps: ContentPackageOperations;
+  private assetOps: AssetOperations;
+  private searchOps: SearchOperations;
 
   constructor() {
     this.config = this.loadConfig();
-    this.aemConfig = getAEMConfig();
-    this.auth = {
-      username: process.env.AEM_SERVICE_USER || this.config.aem.serviceUser.username,
-      password: process.env.AEM_SERVICE_PASSWORD || this.config.aem.serviceUser.password,
-    };
-    if (process.env.AEM_HOST) {
-      this.config.aem.host = process.env.AEM_HOST;
-      this.config.aem.author = process.env.AEM_HOST;
-    }
-    this.workflowOps = new WorkflowOperations(this.createAxiosInstance(), console as any, this.aemConfig);
-    this.versionOps = new VersionOperations(this.createAxiosInstance(), console as any, this.aemConfig);
+    this.environments = new EnvironmentProfiles(process.env.AEM_ENVIRONMENTS_FILE, getAEMConfig());
+    // Requests made outside a tool call, such as health checks, go to the default environment
+    const defaults = this.environments.get().config;
+    this.auth = { ...defaults.serviceUser };
+    this.config.aem.host = defaults.host;
+    this.config.aem.author = defaults.host;
+    this.config.aem.publish = defaults.publish;
+    this.workflowOps = new WorkflowOperations(this.createAxiosInstance(), console as any, () => this.aemConfig);
+    this.versionOps = new VersionOperations(this.createAxiosInstance(), console as any, () => this.aemConfig);
+    this.pageOps = new PageOperations(this.createAxiosInstance(), console as any, () => this.aemConfig);
+    this.journalOps = new JournalOperations(this.createAxiosInstance(), console as any, () => this.aemConfig, new ChangeJournal());
+    this.planOps = new PlanOperations(this.createAxiosInstance(), console as any, () => this.aemConfig);
+    this.environmentOps = new EnvironmentOperations(this.createAxiosInstance(), console as any, () => this.aemConfig, this.environments);
+    this.packageOps = new PackageOperations(this.createAxiosInstance(), console as any, () => this.aemConfig);
+    this.contentPackageOps = new ContentPackageOperations(this.createAxiosInstance(), console as any, () => this.aemConfig);
+    this.assetOps = new AssetOperations(this.createAxiosInstance(), console as any, () => this.aemConfig, createUploadAxiosInstance({ aem: this.aemConfig }));
+    this.searchOps = new SearchOperations(this.createAxiosInstance(), console as any, () => this.aemConfig);
   }
 
   loadConfig(): AEMConnectorConfig {
@@ -79,8 +108,15 @@ export class AEMConnector {
     };
   }
 
+  /**
+   * Settings of the environment the current call runs against
+   */
+  get aemConfig(): AEMConfig {
+    return (getCurrentEnvironment() ?? this.environments.get()).config;
+  }
+
   createAxiosInstance(): AxiosInstance {
-    return axios.create({
+    return installEnvironment(installResponseCache(installResilience(installPlanInterceptor(axios.create({
       baseURL: this.config.aem.host,
       auth: this.auth,
       timeout: 30000,
@@ -88,7 +124,19 @@ export class AEMConnector {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
       },
-    });
+    })))));
+  }
+
+  async listEnvironments(): Promise<object> {
+    return this.environments.listEnvironments();
+  }
+
+  async diffEnvironments(request: any): Promise<object> {
+    return this.environmentOps.diffEnvironments(request);
+  }
+
+  async promoteContent(request: any): Promise<object> {
+    return this.environmentOps.promoteContent(request);
   }
 
   async testConnection(): Promise<boolean> {
@@ -209,6 +257,7 @@ export class AEMConnector {
         }
       });
       const response = await client.post(request.componentPath, formData, {
+        retrySafe: true,
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
           'Accept': 'application/json',
@@ -231,9 +280,78 @@ export class AEMConnector {
     }, 'updateComponent');
   }
 
+  async recordChange(tool: string, args: Record<string, any>, spec: ToolJournalSpec, run: () => Promise<unknown>): Promise<unknown> {
+    return this.journalOps.recordChange(tool, args, spec, run);
+  }
+
+  async getJobTargets(jobId: string): Promise<string[]> {
+    return this.journalOps.getJobTargets(jobId);
+  }
+
   async undoChanges(request: any): Promise<object> {
-    // Use the real version operations implementation
-    return this.versionOps.undoChanges(request);
+    // A jobId with a path that is not a journaled job is a version name to restore
+    if (request.path && !(await this.journalOps.hasJob(request.jobId))) {
+      return this.versionOps.undoChanges(request);
+    }
+    return this.journalOps.undoChanges(request);
+  }
+
+  // Dry runs and plans - Real implementations
+  async planChange(tool: string, args: Record<string, any>, run: () => Promise<unknown>): Promise<object> {
+    return this.planOps.planChange(tool, args, run);
+  }
+
+  getPlanTargets(planId: string): string[] {
+    return this.planOps.getPlanTargets(planId);
+  }
+
+  async applyPlan(request: any): Promise<object> {
+    return this.planOps.applyPlan(request);
+  }
+
+  // Package Manager Operations - Real implementations
+  async listPackages(request: any): Promise<object> {
+    return this.packageOps.listPackages(request);
+  }
+
+  async createPackage(request: any): Promise<object> {
+    return this.packageOps.createPackage(request);
+  }
+
+  async buildPackage(request: any): Promise<object> {
+    return this.packageOps.buildPackage(request);
+  }
+
+  async downloadPackage(request: any): Promise<object> {
+    return this.packageOps.downloadPackage(request);
+  }
+
+  async uploadPackage(request: any): Promise<object> {
+    return this.packageOps.uploadPackage(request);
+  }
+
+  async getPackageTargets(packagePath: string): Promise<string[]> {
+    return this.packageOps.getPackageTargets(packagePath);
+  }
+
+  async installPackage(request: any): Promise<object> {
+    return this.packageOps.installPackage(request);
+  }
+
+  async uninstallPackage(request: any): Promise<object> {
+    return this.packageOps.uninstallPackage(request);
+  }
+
+  async exportContentPackage(request: any): Promise<object> {
+    return this.contentPackageOps.exportContentPackage(request);
+  }
+
+  async importContentPackage(request: any): Promise<object> {
+    return this.contentPackageOps.importContentPackage(request);
+  }
+
+  getContentPackageRoots(fileName: string): string[] {
+    return this.contentPackageOps.getContentPackageRoots(fileName);
   }
 
   // Workflow Operations - Real implementations
@@ -291,13 +409,7 @@ export class AEMConnector {
   }
 
   async enhancedPageSearch(params: any): Promise<object> {
-    // Use the search operations for enhanced page search
-    const searchOps = new (await import('./operations/search-operations.js')).SearchOperations(
-      this.createAxiosInstance(), 
-      console as any, 
-      this.aemConfig
-    );
-    return searchOps.enhancedPageSearch(params);
+    return this.searchOps.enhancedPageSearch(params);
   }
 
   async scanPageComponents(pagePath: string): Promise<object> {
@@ -410,7 +522,7 @@ export class AEMConnector {
     const replicationOps = new (await import('./operations/replication-operations.js')).ReplicationOperations(
       this.createAxiosInstance(), 
       console as any, 
-      this.aemConfig
+      () => this.aemConfig
     );
     return replicationOps.replicateAndPublish(selectedLocales, componentData, localizedOverrides);
   }
@@ -680,36 +792,21 @@ export class AEMConnector {
     }, 'listPages');
   }
 
-  /**
-   * Execute a QueryBuilder fulltext search for cq:Page nodes, with security validation.
-   * Note: This is NOT a true JCR SQL2 executor. It wraps QueryBuilder and only supports fulltext queries.
-   */
-  async executeJCRQuery(query: string, limit: number = 20): Promise<object> {
-    return safeExecute<object>(async () => {
-      if (!query || typeof query !== 'string' || query.trim().length === 0) {
-        throw new Error('Query is required and must be a non-empty string. Note: Only QueryBuilder fulltext is supported, not JCR SQL2.');
-      }
-      // Basic security validation
-      const lower = query.toLowerCase();
-      if (/drop|delete|update|insert|exec|script|\.|<script/i.test(lower) || query.length > 1000) {
-        throw new Error('Query contains potentially unsafe patterns or is too long');
-      }
-      const client = this.createAxiosInstance();
-      const response = await client.get('/bin/querybuilder.json', {
-        params: {
-          path: '/content',
-          type: 'cq:Page',
-          fulltext: query,
-          'p.limit': limit
-        }
-      });
-      return {
-        query,
-        results: response.data.hits || [],
-        total: response.data.total || 0,
-        limit
-      };
-    }, 'executeJCRQuery');
+  async executeJCRQuery(params: any): Promise<object> {
+    // Sandboxed JCR-SQL2/XPath execution lives in SearchOperations
+    return this.searchOps.executeJCRQuery(params);
+  }
+
+  async queryBuilder(request: any): Promise<object> {
+    return this.searchOps.queryBuilder(request);
+  }
+
+  getJCRQueryTargets(params: any): string[] {
+    return this.searchOps.getJCRQueryTargets(params);
+  }
+
+  getQueryBuilderTargets(request: any): string[] {
+    return this.searchOps.getQueryBuilderTargets(request);
   }
 
   async getPageProperties(pagePath: string): Promise<object> {
@@ -811,6 +908,19 @@ export class AEMConnector {
     }, 'deletePage');
   }
 
+  // Page relocation - Real implementations
+  async movePage(request: any): Promise<object> {
+    return this.pageOps.movePage(request);
+  }
+
+  async renamePage(request: any): Promise<object> {
+    return this.pageOps.renamePage(request);
+  }
+
+  async copyPage(request: any): Promise<object> {
+    return this.pageOps.copyPage(request);
+  }
+
   async createComponent(request: any): Promise<object> {
     return safeExecute<object>(async () => {
       const { pagePath, componentType, resourceType, properties = {}, name } = request;
@@ -900,6 +1010,7 @@ export class AEMConnector {
           }
           
           const response = await client.post('/bin/replicate.json', formData, {
+            retrySafe: true,
             headers: {
               'Content-Type': 'application/x-www-form-urlencoded',
             },
@@ -951,6 +1062,7 @@ export class AEMConnector {
         }
         
         const response = await client.post('/bin/replicate.json', formData, {
+          retrySafe: true,
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
@@ -1011,6 +1123,7 @@ export class AEMConnector {
         }
         
         const response = await client.post('/bin/replicate.json', formData, {
+          retrySafe: true,
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
@@ -1050,87 +1163,59 @@ export class AEMConnector {
   }
 
   async uploadAsset(request: any): Promise<object> {
-    return safeExecute<object>(async () => {
-      const { parentPath, fileName, fileContent, mimeType, metadata = {} } = request;
-      if (!isValidContentPath(parentPath, this.aemConfig)) {
-        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid parent path: ${String(parentPath)}`, { parentPath });
-      }
-      
-      const client = this.createAxiosInstance();
-      const assetPath = `${parentPath}/${fileName}`;
-      
-      try {
-        // Use proper AEM DAM asset upload via Sling POST servlet
-        const formData = new URLSearchParams();
-        
-        // Set the file content (base64 or binary)
-        if (typeof fileContent === 'string') {
-          // Assume base64 encoded content
-          formData.append('file', fileContent);
-        } else {
-          formData.append('file', fileContent.toString());
-        }
-        
-        // Set required Sling POST parameters for asset creation
-        formData.append('fileName', fileName);
-        formData.append(':operation', 'import');
-        formData.append(':contentType', 'json');
-        formData.append(':replace', 'true');
-        formData.append('jcr:primaryType', 'dam:Asset');
-        
-        if (mimeType) {
-          formData.append('jcr:content/jcr:mimeType', mimeType);
-        }
-        
-        // Add metadata to jcr:content/metadata node
-        Object.entries(metadata).forEach(([key, value]) => {
-          formData.append(`jcr:content/metadata/${key}`, String(value));
-        });
-        
-        const response = await client.post(assetPath, formData, {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-        });
-        
-        // Verify the asset was created
-        const verificationResponse = await client.get(`${assetPath}.json`);
-        
-        return createSuccessResponse({
-          success: true,
-          assetPath,
-          fileName,
-          mimeType,
-          metadata,
-          uploadResponse: response.data,
-          assetData: verificationResponse.data,
-          timestamp: new Date().toISOString(),
-        }, 'uploadAsset');
-      } catch (error: any) {
-        // Fallback to alternative DAM API if available
-        try {
-          const damResponse = await client.post('/api/assets' + parentPath, {
-            fileName,
-            fileContent,
-            mimeType,
-            metadata
-          });
-          
-          return createSuccessResponse({
-            success: true,
-            assetPath,
-            fileName,
-            mimeType,
-            metadata,
-            uploadResponse: damResponse.data,
-            fallbackUsed: 'DAM API',
-            timestamp: new Date().toISOString(),
-          }, 'uploadAsset');
-        } catch (fallbackError: any) {
-          throw handleAEMHttpError(error, 'uploadAsset');
-        }
-      }
-    }, 'uploadAsset');
+    return this.assetOps.uploadAsset(request);
+  }
+
+  async createAssetFolder(request: any): Promise<object> {
+    return this.assetOps.createAssetFolder(request);
+  }
+
+  async moveAssetFolder(request: any): Promise<object> {
+    return this.assetOps.moveAssetFolder(request);
+  }
+
+  async renameAssetFolder(request: any): Promise<object> {
+    return this.assetOps.renameAssetFolder(request);
+  }
+
+  async deleteAssetFolder(request: any): Promise<object> {
+    return this.assetOps.deleteAssetFolder(request);
+  }
+
+  async uploadFolder(request: any): Promise<object> {
+    return this.assetOps.uploadFolder(request);
+  }
+
+  async exportAssetMetadata(request: any): Promise<object> {
+    return this.assetOps.exportAssetMetadata(request);
+  }
+
+  async importAssetMetadata(request: any): Promise<object> {
+    return this.assetOps.importAssetMetadata(request);
+  }
+
+  getAssetMetadataTargets(request: any): string[] {
+    return this.assetOps.getAssetMetadataTargets(request);
+  }
+
+  async listRenditions(assetPath: string): Promise<object> {
+    return this.assetOps.listRenditions(assetPath);
+  }
+
+  async downloadRendition(request: any): Promise<object> {
+    return this.assetOps.downloadRendition(request);
+  }
+
+  async uploadRendition(request: any): Promise<object> {
+    return this.assetOps.uploadRendition(request);
+  }
+
+  async deleteRenditions(request: any): Promise<object> {
+    return this.assetOps.deleteRenditions(request);
+  }
+
+  async reprocessAsset(request: any): Promise<object> {
+    return this.assetOps.reprocessAsset(request);
   }
 
   async updateAsset(request: any): Promise<object> {
@@ -1183,20 +1268,15 @@ export class AEMConnector {
   }
 
   async deleteAsset(request: any): Promise<object> {
-    return safeExecute<object>(async () => {
-      const { assetPath, force = false } = request;
-      if (!isValidContentPath(assetPath, this.aemConfig)) {
-        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid asset path: ${String(assetPath)}`, { assetPath });
-      }
-      const client = this.createAxiosInstance();
-      await client.delete(assetPath);
-      return createSuccessResponse({
-        success: true,
-        deletedPath: assetPath,
-        force,
-        timestamp: new Date().toISOString(),
-      }, 'deleteAsset');
-    }, 'deleteAsset');
+    return this.assetOps.deleteAsset(request);
+  }
+
+  async findAssetReferences(assetPath: string): Promise<object> {
+    return this.assetOps.findAssetReferences(assetPath);
+  }
+
+  async findUnusedAssets(request: any): Promise<object> {
+    return this.assetOps.findUnusedAssets(request);
   }
 
   async getTemplates(sitePath?: string): Promise<object> {
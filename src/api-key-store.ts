@@ -0,0 +1,112 @@
+/**
+ * API Key Store Module
+ * File-backed store of hashed API keys. Keys look like aemk_<id>.<secret>; only a SHA-256
+ * hash of the secret is kept, so a key is shown once, when it is created.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ApiKeyRecord } from './interfaces/index.js';
+
+const KEY_PREFIX = 'aemk_';
+const KEY_PATTERN = /^aemk_([0-9a-f]{16})\.([\w-]{43})$/;
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scopes: string[];
+  roles?: string[];
+  expiresAt?: Date;
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export class ApiKeyStore {
+  private records: ApiKeyRecord[] = [];
+  private loadedMtime = -1;
+
+  constructor(private file: string) {}
+
+  /**
+   * Create a key; the returned key is the only copy of its secret
+   */
+  async create(options: CreateApiKeyOptions): Promise<{ key: string; record: ApiKeyRecord }> {
+    await this.load();
+    const id = randomBytes(8).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+    const record: ApiKeyRecord = {
+      id,
+      name: options.name,
+      hash: hashSecret(secret),
+      scopes: options.scopes,
+      ...(options.roles?.length ? { roles: options.roles } : {}),
+      createdAt: new Date().toISOString(),
+      ...(options.expiresAt ? { expiresAt: options.expiresAt.toISOString() } : {}),
+    };
+    this.records.push(record);
+    await this.persist();
+    return { key: `${KEY_PREFIX}${id}.${secret}`, record };
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    await this.load();
+    const record = this.records.find(candidate => candidate.id === id);
+    if (!record || record.revokedAt) {
+      return false;
+    }
+    record.revokedAt = new Date().toISOString();
+    await this.persist();
+    return true;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    await this.load();
+    return this.records.map(record => ({ ...record }));
+  }
+
+  /**
+   * Record for a presented key, or undefined when the key is malformed, unknown, revoked or expired
+   */
+  async verify(key: string, now: Date = new Date()): Promise<ApiKeyRecord | undefined> {
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+      return undefined;
+    }
+    await this.load();
+    const record = this.records.find(candidate => candidate.id === match[1]);
+    if (!record || record.revokedAt || (record.expiresAt && Date.parse(record.expiresAt) <= now.getTime())) {
+      return undefined;
+    }
+    const presented = Buffer.from(hashSecret(match[2]), 'hex');
+    const stored = Buffer.from(record.hash, 'hex');
+    return presented.length === stored.length && timingSafeEqual(presented, stored) ? record : undefined;
+  }
+
+  // Reloaded whenever the file changes, so keys created or revoked by the CLI apply without a restart
+  private async load(): Promise<void> {
+    let mtime: number;
+    try {
+      mtime = (await fs.stat(this.file)).mtimeMs;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      this.records = [];
+      this.loadedMtime = -1;
+      return;
+    }
+    if (mtime !== this.loadedMtime) {
+      const contents = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      this.records = Array.isArray(contents.keys) ? contents.keys : [];
+      this.loadedMtime = mtime;
+    }
+  }
+
+  private async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify({ keys: this.records }, null, 2), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tmp, this.file);
+    this.loadedMtime = (await fs.stat(this.file)).mtimeMs;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * AEM MCP Server
+ * Copyright (C) 2025 Indra
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * For commercial licensing options, please contact: indrasish00@gmail.com
+ * See COMMERCIAL_LICENSE.md for details.
+ */
+
+/**
+ * API key management for AUTH_TYPE=api-key:
+ *   npm run api-keys -- create <name> [--scopes page,search] [--roles author] [--expires 2026-12-31]
+ *   npm run api-keys -- list
+ *   npm run api-keys -- revoke <id>
+ */
+
+import dotenv from 'dotenv';
+import { ApiKeyStore } from './api-key-store.js';
+
+dotenv.config();
+
+const store = new ApiKeyStore(process.env.API_KEYS_FILE || '.aem-mcp/api-keys.json');
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function list(value: string): string[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'create': {
+      const name = args[0];
+      if (!name || name.startsWith('--')) {
+        throw new Error('Usage: create <name> [--scopes a,b] [--roles a,b] [--expires YYYY-MM-DD]');
+      }
+      const expires = option(args, 'expires');
+      const expiresAt = expires ? new Date(expires) : undefined;
+      if (expiresAt && isNaN(expiresAt.getTime())) {
+        throw new Error(`Invalid --expires date: ${expires}`);
+      }
+      const scopes = list(option(args, 'scopes') || '*');
+      const roles = list(option(args, 'roles') || '');
+      const { key, record } = await store.create({ name, scopes, roles, expiresAt });
+      console.log(`Created key ${record.id} for ${name} (scopes: ${scopes.join(', ')}${roles.length ? `, roles: ${roles.join(', ')}` : ''}${record.expiresAt ? `, expires ${record.expiresAt}` : ''})`);
+      console.log('Store it now; it cannot be shown again:');
+      console.log(key);
+      break;
+    }
+    case 'list': {
+      const records = await store.list();
+      console.table(records.map(({ hash, ...record }) => record));
+      break;
+    }
+    case 'revoke': {
+      if (!args[0]) {
+        throw new Error('Usage: revoke <id>');
+      }
+      console.log(await store.revoke(args[0]) ? `Revoked ${args[0]}` : `No active key ${args[0]}`);
+      break;
+    }
+    default:
+      throw new Error('Commands: create <name> [--scopes a,b] [--roles a,b] [--expires YYYY-MM-DD] | list | revoke <id>');
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,185 @@
+/**
+ * Audit Log Module
+ * Append-only trail of every write made through the tool registry, one JSON entry per line.
+ * Each entry's hash covers its content and the previous entry's hash, so editing, removing or
+ * reordering entries breaks the chain from that point on. The file is never rotated or pruned.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+import {
+  AuditEntry,
+  AuditIntegrity,
+  AuditLogRequest,
+  AuditLogResponse,
+  AuditRecord
+} from './interfaces/index.js';
+import { AEM_ERROR_CODES, createAEMError, createSuccessResponse, safeExecute } from './error-handler.js';
+import { AuditTrail } from './tool-registry.js';
+
+export const DEFAULT_AUDIT_FILE = process.env.MCP_AUDIT_FILE || path.join(process.cwd(), '.aem-mcp', 'audit.log');
+export const GENESIS_HASH = '0'.repeat(64);
+
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_STRING_LENGTH = 2000;
+const MAX_ARRAY_LENGTH = 200;
+const TAIL_CHUNK_BYTES = 64 * 1024;
+
+export function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+export class AuditLog implements AuditTrail {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private file: string = DEFAULT_AUDIT_FILE) {}
+
+  /**
+   * Append an entry chained to the current last one; appends are serialised
+   */
+  record(record: AuditRecord): Promise<AuditEntry> {
+    const append = this.pending.then(() => this.append(record));
+    this.pending = append.catch(() => undefined);
+    return append;
+  }
+
+  /**
+   * Entries matching every given filter, newest first, with the integrity of the whole chain
+   */
+  async query(request: AuditLogRequest = {}): Promise<AuditLogResponse> {
+    return safeExecute<AuditLogResponse>(async () => {
+      const from = parseTime(request.from, 'from');
+      const to = parseTime(request.to, 'to');
+      const prefix = request.path?.replace(/\/+$/, '');
+      const limit = request.limit ?? DEFAULT_QUERY_LIMIT;
+
+      const entries: AuditEntry[] = [];
+      let total = 0;
+      const integrity = await this.scan((entry) => {
+        const time = Date.parse(entry.timestamp);
+        const matches = (!request.user || entry.user === request.user)
+          && (!request.tool || entry.tool === request.tool)
+          && (!request.outcome || entry.outcome === request.outcome)
+          && (from === undefined || time >= from)
+          && (to === undefined || time <= to)
+          && (prefix === undefined || entry.paths.some(entryPath => entryPath === prefix || entryPath.startsWith(`${prefix}/`)));
+        if (matches) {
+          total++;
+          entries.push(entry);
+          if (entries.length > limit) entries.shift();
+        }
+      });
+
+      return createSuccessResponse({ entries: entries.reverse(), total, integrity }, 'getAuditLog') as AuditLogResponse;
+    }, 'getAuditLog', 1);
+  }
+
+  /**
+   * Walk the chain and report the first entry that does not match its hash or predecessor
+   */
+  async verify(): Promise<AuditIntegrity> {
+    return this.scan(() => undefined);
+  }
+
+  private async append(record: AuditRecord): Promise<AuditEntry> {
+    // Read from disk each time, so processes sharing the file keep extending the same chain
+    const tail = await this.readTail();
+    const body: Omit<AuditEntry, 'hash'> = {
+      seq: tail.seq + 1,
+      timestamp: new Date().toISOString(),
+      ...record,
+      params: compact(record.params) as Record<string, unknown>,
+      result: compact(record.result),
+      prevHash: tail.hash,
+    };
+    const entry: AuditEntry = { ...body, hash: hashEntry(body) };
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.appendFile(this.file, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+    return entry;
+  }
+
+  private async readTail(): Promise<{ seq: number; hash: string }> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.file, 'r');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { seq: 0, hash: GENESIS_HASH };
+      throw error;
+    }
+    try {
+      const { size } = await handle.stat();
+      for (let chunk = TAIL_CHUNK_BYTES; ; chunk *= 2) {
+        const length = Math.min(size, chunk);
+        const buffer = Buffer.alloc(length);
+        await handle.read(buffer, 0, length, size - length);
+        const lines = buffer.toString('utf8').split('\n').filter(line => line.trim());
+        // The first line of a partial read may be cut off, so it only counts once the whole file is read
+        if (lines.length > (length < size ? 1 : 0)) {
+          const last = JSON.parse(lines[lines.length - 1]) as AuditEntry;
+          return { seq: last.seq, hash: last.hash };
+        }
+        if (length === size) return { seq: 0, hash: GENESIS_HASH };
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async scan(visit: (entry: AuditEntry) => void): Promise<AuditIntegrity> {
+    const integrity: AuditIntegrity = { valid: true, checked: 0 };
+    let previous = { seq: 0, hash: GENESIS_HASH };
+    let lines: AsyncIterable<string>;
+    try {
+      await fs.access(this.file);
+      lines = createInterface({ input: createReadStream(this.file, 'utf8'), crlfDelay: Infinity });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return integrity;
+      throw error;
+    }
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      integrity.checked++;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        if (integrity.valid) Object.assign(integrity, { valid: false, brokenAt: previous.seq + 1 });
+        continue;
+      }
+      const { hash, ...body } = entry;
+      if (integrity.valid && (entry.seq !== previous.seq + 1 || entry.prevHash !== previous.hash || hashEntry(body) !== hash)) {
+        Object.assign(integrity, { valid: false, brokenAt: entry.seq });
+      }
+      previous = { seq: entry.seq, hash };
+      visit(entry);
+    }
+    return integrity;
+  }
+}
+
+function parseTime(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `${name} must be an ISO date or timestamp`, { [name]: value });
+  }
+  return time;
+}
+
+// Keeps entries readable when a tool is given or returns bulk content such as base64 uploads
+function compact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, 200)}... [${value.length} chars]` : value;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_LENGTH).map(compact);
+    return value.length > MAX_ARRAY_LENGTH ? [...items, `... [${value.length - MAX_ARRAY_LENGTH} more]`] : items;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, compact(child)]));
+  }
+  return value;
+}
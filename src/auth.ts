@@ -0,0 +1,270 @@
+/**
+ * Authentication Module
+ * Pluggable authenticators for the gateway (basic, JWT, API key) and the middleware that
+ * enforces the configured one. The authenticated caller is attached to the request, to the
+ * log correlation, and to the async context that tool calls read it from.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHmac, createPublicKey, timingSafeEqual, verify, JsonWebKey, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+import { Request, Response, NextFunction } from 'express';
+import { AuthIdentity, SecurityConfig } from './interfaces/index.js';
+import { AEM_ERROR_CODES, AEMOperationError, createAEMError } from './error-handler.js';
+import { ApiKeyStore } from './api-key-store.js';
+import { Logger } from './logger.js';
+
+const CLOCK_TOLERANCE_SEC = 30;
+
+export interface Authenticator {
+  /** Value for the WWW-Authenticate header of 401 responses */
+  readonly challenge: string;
+  authenticate(req: Request): Promise<AuthIdentity>;
+}
+
+const callers = new AsyncLocalStorage<AuthIdentity>();
+
+/**
+ * Caller of the gateway request being handled; undefined outside authenticated requests
+ * (stdio MCP server, or auth disabled)
+ */
+export function getCallerIdentity(): AuthIdentity | undefined {
+  return callers.getStore();
+}
+
+export function runAsCaller<T>(identity: AuthIdentity, fn: () => T): T {
+  return callers.run(identity, fn);
+}
+
+/**
+ * Throw INSUFFICIENT_PERMISSIONS when a journaled job or plan made by one caller is acted on
+ * by another; jobs and plans made without an authenticated caller are open to anyone
+ */
+export function requireCreator(recorded: string | undefined, subject: string, details: Record<string, unknown>): void {
+  const current = callers.getStore()?.subject;
+  if (recorded && current !== recorded) {
+    throw createAEMError(
+      AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+      `${subject} was made by another caller`,
+      { ...details, createdBy: recorded, caller: current ?? 'anonymous' }
+    );
+  }
+}
+
+/**
+ * Whether the caller's scopes cover a tool, by name or by category
+ */
+export function hasScope(identity: AuthIdentity, toolName: string, category: string): boolean {
+  return identity.scopes.some(scope => scope === '*' || scope === toolName || scope === category);
+}
+
+function authFailure(message: string): AEMOperationError {
+  return createAEMError(AEM_ERROR_CODES.AUTHENTICATION_FAILED, message);
+}
+
+function constantTimeEquals(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function bearerToken(req: Request): string {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    throw authFailure('Bearer token required');
+  }
+  return header.slice(7).trim();
+}
+
+export class BasicAuthenticator implements Authenticator {
+  readonly challenge = 'Basic realm="aem-mcp"';
+
+  constructor(private username: string, private password: string) {}
+
+  async authenticate(req: Request): Promise<AuthIdentity> {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Basic ')) {
+      throw authFailure('Authentication required');
+    }
+    const credentials = Buffer.from(header.slice(6), 'base64').toString();
+    const separator = credentials.indexOf(':');
+    const username = credentials.substring(0, separator);
+    const password = credentials.substring(separator + 1);
+    // Evaluate both comparisons so the response time does not reveal which one failed
+    const valid = [constantTimeEquals(username, this.username), constantTimeEquals(password, this.password)];
+    if (separator < 0 || valid.includes(false)) {
+      throw authFailure('Invalid credentials');
+    }
+    return { subject: username, authType: 'basic', scopes: ['*'] };
+  }
+}
+
+export interface JwtOptions {
+  secret?: string;
+  jwksFile?: string;
+  issuer?: string;
+  audience?: string;
+}
+
+/**
+ * Verifies HS256 tokens against a shared secret and RS256 tokens against the keys of a local
+ * JWKS file. Scopes come from the scope (space separated) or scp claim; tokens without one get
+ * all scopes. A roles claim is passed on to the access policy.
+ */
+export class JwtAuthenticator implements Authenticator {
+  readonly challenge = 'Bearer realm="aem-mcp"';
+  private keys: Array<{ kid?: string; key: KeyObject }> = [];
+
+  constructor(private options: JwtOptions) {
+    if (options.jwksFile) {
+      const jwks = JSON.parse(readFileSync(options.jwksFile, 'utf8')) as { keys?: Array<JsonWebKey & { kid?: string; use?: string }> };
+      this.keys = (jwks.keys || [])
+        .filter(jwk => jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig'))
+        .map(jwk => ({ kid: jwk.kid, key: createPublicKey({ key: jwk, format: 'jwk' }) }));
+    }
+  }
+
+  async authenticate(req: Request): Promise<AuthIdentity> {
+    const claims = this.verifyToken(bearerToken(req));
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw authFailure('Token has no subject');
+    }
+    const scopes = typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean)
+      : Array.isArray(claims.scp) ? claims.scp.map(String)
+      : ['*'];
+    const roles = typeof claims.roles === 'string' ? claims.roles.split(' ').filter(Boolean)
+      : Array.isArray(claims.roles) ? claims.roles.map(String)
+      : undefined;
+    return { subject: claims.sub, authType: 'jwt', scopes, ...(roles ? { roles } : {}) };
+  }
+
+  /**
+   * Verify signature and registered claims; returns the payload
+   */
+  verifyToken(token: string, now: number = Date.now()): Record<string, any> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw authFailure('Malformed token');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    let header: Record<string, any>;
+    let payload: Record<string, any>;
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+    } catch {
+      throw authFailure('Malformed token');
+    }
+
+    const signingInput = `${encodedHeader}.${encodedPayload}`;
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (!this.verifySignature(header, signingInput, signature)) {
+      throw authFailure('Invalid token signature');
+    }
+
+    const nowSec = now / 1000;
+    if (typeof payload.exp === 'number' && payload.exp + CLOCK_TOLERANCE_SEC < nowSec) {
+      throw authFailure('Token expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_TOLERANCE_SEC > nowSec) {
+      throw authFailure('Token not yet valid');
+    }
+    if (this.options.issuer && payload.iss !== this.options.issuer) {
+      throw authFailure('Unexpected token issuer');
+    }
+    if (this.options.audience) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.includes(this.options.audience)) {
+        throw authFailure('Unexpected token audience');
+      }
+    }
+    return payload;
+  }
+
+  private verifySignature(header: Record<string, any>, signingInput: string, signature: Buffer): boolean {
+    // The algorithm is pinned per key type, so an RS256 public key is never used as an HMAC secret
+    if (header.alg === 'HS256' && this.options.secret) {
+      const expected = createHmac('sha256', this.options.secret).update(signingInput).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+    if (header.alg === 'RS256' && this.keys.length > 0) {
+      const candidates = header.kid ? this.keys.filter(key => key.kid === header.kid) : this.keys;
+      return candidates.some(({ key }) => verify('RSA-SHA256', Buffer.from(signingInput), key, signature));
+    }
+    throw authFailure(`Unsupported token algorithm: ${String(header.alg)}`);
+  }
+}
+
+export class ApiKeyAuthenticator implements Authenticator {
+  readonly challenge: string;
+
+  constructor(private store: ApiKeyStore, private header = 'x-api-key') {
+    this.challenge = `ApiKey header="${header}"`;
+  }
+
+  async authenticate(req: Request): Promise<AuthIdentity> {
+    const presented = req.headers[this.header.toLowerCase()];
+    if (typeof presented !== 'string' || !presented) {
+      throw authFailure(`API key required in the ${this.header} header`);
+    }
+    const record = await this.store.verify(presented);
+    if (!record) {
+      throw authFailure('Invalid, expired or revoked API key');
+    }
+    return { subject: record.name, authType: 'api-key', scopes: record.scopes, ...(record.roles ? { roles: record.roles } : {}), keyId: record.id };
+  }
+}
+
+/**
+ * Authenticator for the configured auth type; undefined when auth is disabled
+ */
+export function createAuthenticator(
+  auth: SecurityConfig['auth'],
+  credentials: { username?: string; password?: string }
+): Authenticator | undefined {
+  if (!auth.enabled) {
+    return undefined;
+  }
+  switch (auth.type) {
+    case 'jwt':
+      return new JwtAuthenticator({ secret: auth.jwtSecret, jwksFile: auth.jwksFile, issuer: auth.jwtIssuer, audience: auth.jwtAudience });
+    case 'api-key':
+      return new ApiKeyAuthenticator(new ApiKeyStore(auth.apiKeysFile || '.aem-mcp/api-keys.json'), auth.apiKeyHeader);
+    default:
+      return new BasicAuthenticator(credentials.username || '', credentials.password || '');
+  }
+}
+
+/**
+ * Express middleware enforcing an authenticator; passes everything through when it is undefined
+ */
+export function createAuthMiddleware(authenticator: Authenticator | undefined, log: Logger) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!authenticator) {
+      next();
+      return;
+    }
+    const requestId = (req as any).requestId;
+    let identity: AuthIdentity;
+    try {
+      identity = await authenticator.authenticate(req);
+    } catch (error: any) {
+      log.security('Authentication failed', { reason: error.message, path: req.originalUrl, ip: req.ip }, requestId);
+      res.status(401).set('WWW-Authenticate', authenticator.challenge).json({
+        success: false,
+        error: {
+          code: AEM_ERROR_CODES.AUTHENTICATION_FAILED,
+          message: error instanceof AEMOperationError ? error.message : 'Authentication failed',
+          timestamp: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    (req as any).identity = identity;
+    if (requestId) {
+      log.setCorrelation(requestId, identity.subject);
+    }
+    runAsCaller(identity, next);
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Change Journal Module
+ * Local-disk store for the before-snapshots taken by mutating tools; undoChanges restores from it.
+ * Entries are kept for a retention window and pruned as new entries are written.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JournalEntry } from './interfaces/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_JOURNAL_DIR = process.env.MCP_JOURNAL_DIR || path.join(process.cwd(), '.aem-mcp', 'journal');
+export const DEFAULT_JOURNAL_RETENTION_DAYS = parseInt(process.env.MCP_JOURNAL_RETENTION_DAYS || '7');
+
+export class ChangeJournal {
+  private lastPrune = 0;
+
+  constructor(
+    private dir: string = DEFAULT_JOURNAL_DIR,
+    private retentionMs: number = DEFAULT_JOURNAL_RETENTION_DAYS * DAY_MS
+  ) {}
+
+  newJobId(): string {
+    return randomUUID();
+  }
+
+  /**
+   * Write an entry atomically, replacing any previous version of it
+   */
+  async save(entry: JournalEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(entry.jobId);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entry), 'utf8');
+    await fs.rename(tmp, file);
+
+    if (Date.now() - this.lastPrune > PRUNE_INTERVAL_MS) {
+      this.lastPrune = Date.now();
+      await this.prune();
+    }
+  }
+
+  /**
+   * Entry for a job, or undefined when it never existed or is past the retention window
+   */
+  async get(jobId: string): Promise<JournalEntry | undefined> {
+    // Job IDs become file names, so anything but UUID-like IDs is unknown by definition
+    if (!/^[\w-]+$/.test(jobId)) {
+      return undefined;
+    }
+    try {
+      const entry = JSON.parse(await fs.readFile(this.fileFor(jobId), 'utf8')) as JournalEntry;
+      return this.isExpired(entry) ? undefined : entry;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Delete entries older than the retention window; returns how many were removed
+   */
+  async prune(now: number = Date.now()): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    let removed = 0;
+    for (const name of files.filter(file => file.endsWith('.json'))) {
+      const file = path.join(this.dir, name);
+      try {
+        const entry = JSON.parse(await fs.readFile(file, 'utf8')) as JournalEntry;
+        if (this.isExpired(entry, now)) {
+          await fs.unlink(file);
+          removed++;
+        }
+      } catch {
+        // Unreadable or concurrently removed entries are left for the next pass
+      }
+    }
+    return removed;
+  }
+
+  private isExpired(entry: JournalEntry, now: number = Date.now()): boolean {
+    return now - Date.parse(entry.createdAt) > this.retentionMs;
+  }
+
+  private fileFor(jobId: string): string {
+    return path.join(this.dir, `${jobId}.json`);
+  }
+}
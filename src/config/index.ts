@@ -3,7 +3,7 @@
  * Handles environment variables, configuration validation, and multiple environment support
  */
 
-import { IConfig, AEMConfig, MCPConfig, ServerConfig, SecurityConfig, LoggingConfig } from '../interfaces/index.js';
+import { IConfig, AEMConfig, MCPConfig, ServerConfig, SecurityConfig, LoggingConfig, RateLimitConfig } from '../interfaces/index.js';
 
 /**
  * Load configuration from environment variables with validation
@@ -100,14 +100,32 @@ function loadServerConfig(): ServerConfig {
       enabled: process.env.CORS_ENABLED !== 'false',
       origins: process.env.CORS_ORIGINS?.split(',') || ['*'],
     },
-    rateLimit: {
-      enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
-      windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
-      maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
-    },
+    rateLimit: loadRateLimitConfig(),
+  };
+}
+
+/**
+ * Load tool call rate limits; RATE_LIMIT_CATEGORIES and RATE_LIMIT_TOOLS are name=count lists
+ */
+export function loadRateLimitConfig(): RateLimitConfig {
+  return {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
+    maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    categories: parseBudgets(process.env.RATE_LIMIT_CATEGORIES ?? 'replication=20'),
+    tools: parseBudgets(process.env.RATE_LIMIT_TOOLS ?? 'bulkUpdateComponents=10,getAllTextContent=20'),
   };
 }
 
+function parseBudgets(value: string): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [name, count] = entry.split('=');
+    budgets[name.trim()] = parseInt(count, 10);
+  }
+  return budgets;
+}
+
 /**
  * Load security configuration
  */
@@ -117,7 +135,11 @@ function loadSecurityConfig(): SecurityConfig {
       enabled: process.env.AUTH_ENABLED !== 'false',
       type: (process.env.AUTH_TYPE as 'basic' | 'jwt' | 'api-key') || 'basic',
       jwtSecret: process.env.JWT_SECRET,
+      jwksFile: process.env.JWT_JWKS_FILE,
+      jwtIssuer: process.env.JWT_ISSUER,
+      jwtAudience: process.env.JWT_AUDIENCE,
       apiKeyHeader: process.env.API_KEY_HEADER || 'x-api-key',
+      apiKeysFile: process.env.API_KEYS_FILE || '.aem-mcp/api-keys.json',
     },
     cors: {
       enabled: process.env.CORS_ENABLED !== 'false',
@@ -197,13 +219,28 @@ function validateConfig(config: IConfig): void {
     errors.push('GATEWAY_PORT must be between 1 and 65535');
   }
 
+  if (config.server.rateLimit.enabled) {
+    if (config.server.rateLimit.windowMs <= 0 || config.server.rateLimit.maxRequests <= 0) {
+      errors.push('RATE_LIMIT_WINDOW_MS and RATE_LIMIT_MAX_REQUESTS must be greater than 0');
+    }
+    const budgets = { ...config.server.rateLimit.categories, ...config.server.rateLimit.tools };
+    const invalid = Object.keys(budgets).filter(name => !(budgets[name] > 0));
+    if (invalid.length > 0) {
+      errors.push(`RATE_LIMIT_CATEGORIES and RATE_LIMIT_TOOLS need a positive count for: ${invalid.join(', ')}`);
+    }
+  }
+
   // Validate security configuration
   if (config.security.auth.enabled && !config.security.auth.type) {
     errors.push('AUTH_TYPE is required when authentication is enabled');
   }
 
-  if (config.security.auth.type === 'jwt' && !config.security.auth.jwtSecret) {
-    errors.push('JWT_SECRET is required when using JWT authentication');
+  if (config.security.auth.enabled && config.security.auth.type === 'jwt' && !config.security.auth.jwtSecret && !config.security.auth.jwksFile) {
+    errors.push('JWT_SECRET or JWT_JWKS_FILE is required when using JWT authentication');
+  }
+
+  if (config.security.auth.enabled && config.security.auth.type === 'basic' && (!config.mcp.username || !config.mcp.password)) {
+    errors.push('MCP_USERNAME and MCP_PASSWORD are required when using basic authentication (or set AUTH_ENABLED=false)');
   }
 
   // Validate logging configuration
@@ -0,0 +1,296 @@
+/**
+ * Environments Module
+ * Named AEM connection profiles (dev, stage, prod, ...) read from the AEM_ENVIRONMENTS_FILE JSON
+ * file, each with its own author and publish URLs, credentials, content roots and read-only flag.
+ * Without the file a single 'default' profile is built from the AEM_* variables. Each tool call
+ * runs against one profile: AEM axios instances send its requests to that profile's author with
+ * its credentials, and refuse writes while it is read-only.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import axios, { AxiosInstance } from 'axios';
+import { readFileSync } from 'fs';
+import { AEMConfig, DEFAULT_AEM_CONFIG } from './aem-config.js';
+import {
+  EndpointStatus,
+  EnvironmentDefinition,
+  EnvironmentsFile,
+  EnvironmentStatus,
+  EnvironmentTier,
+  ListEnvironmentsResponse
+} from './interfaces/index.js';
+import { AEM_ERROR_CODES, createAEMError, createSuccessResponse, safeExecute } from './error-handler.js';
+import { getCircuitStatuses } from './http-resilience.js';
+import { isRecordingPlan } from './plan-mode.js';
+import { EnvironmentSelector } from './tool-registry.js';
+
+/** Name of the profile built from the AEM_* variables when there is no environments file */
+export const DEFAULT_ENVIRONMENT = 'default';
+
+const WRITE_METHODS = ['post', 'put', 'patch', 'delete'];
+const PROBE_TIMEOUT_MS = 5000;
+const CURRENT_USER_PATH = '/libs/granite/security/currentuser.json';
+
+export interface EnvironmentProfile {
+  name: string;
+  description?: string;
+  readOnly: boolean;
+  /** Connection and validation settings; host and author are the profile's author URL */
+  config: AEMConfig;
+}
+
+const currentEnvironment = new AsyncLocalStorage<EnvironmentProfile>();
+
+/**
+ * Profile the current tool call runs against; undefined outside a call
+ */
+export function getCurrentEnvironment(): EnvironmentProfile | undefined {
+  return currentEnvironment.getStore();
+}
+
+export function runInEnvironment<T>(profile: EnvironmentProfile, fn: () => T): T {
+  return currentEnvironment.run(profile, fn);
+}
+
+/**
+ * Throw INVALID_PARAMETERS when a journaled job or plan made in one environment is acted on
+ * from another, so undo and apply never write to the wrong instance
+ */
+export function requireEnvironment(recorded: string | undefined, subject: string, details: Record<string, unknown>): void {
+  const current = currentEnvironment.getStore();
+  if (recorded && current && current.name !== recorded) {
+    throw createAEMError(
+      AEM_ERROR_CODES.INVALID_PARAMETERS,
+      `${subject} was made in environment '${recorded}'; call again with environment '${recorded}'`,
+      { ...details, environment: recorded, currentEnvironment: current.name }
+    );
+  }
+}
+
+/**
+ * Send requests made during a call to the current profile's author with its credentials,
+ * and refuse writes to read-only profiles. Install it last, so the cache, circuit breaker and
+ * plan recorder all see the profile's host.
+ */
+export function installEnvironment(instance: AxiosInstance): AxiosInstance {
+  instance.interceptors.request.use((config) => {
+    const profile = currentEnvironment.getStore();
+    if (!profile) {
+      return config;
+    }
+    // Dry runs record writes without sending them, so they are allowed everywhere
+    if (profile.readOnly && WRITE_METHODS.includes((config.method || 'get').toLowerCase()) && !isRecordingPlan()) {
+      throw readOnlyError(profile);
+    }
+    config.baseURL = profile.config.host;
+    config.auth = { ...profile.config.serviceUser };
+    return config;
+  });
+  return instance;
+}
+
+export class EnvironmentProfiles implements EnvironmentSelector {
+  private profiles = new Map<string, EnvironmentProfile>();
+  readonly defaultName: string;
+
+  constructor(file: string | undefined = process.env.AEM_ENVIRONMENTS_FILE, base: AEMConfig = DEFAULT_AEM_CONFIG) {
+    if (!file) {
+      this.profiles.set(DEFAULT_ENVIRONMENT, { name: DEFAULT_ENVIRONMENT, readOnly: process.env.AEM_READ_ONLY === 'true', config: base });
+      this.defaultName = DEFAULT_ENVIRONMENT;
+      return;
+    }
+
+    const document = readEnvironmentsFile(file);
+    for (const [name, definition] of Object.entries(document.environments)) {
+      this.profiles.set(name, toProfile(name, definition, base));
+    }
+    this.defaultName = document.default ?? Object.keys(document.environments)[0];
+    if (!this.profiles.has(this.defaultName)) {
+      throw createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, `Environments file ${file} names '${this.defaultName}' as default but does not define it`, { file });
+    }
+  }
+
+  /**
+   * Profile names, the default first
+   */
+  names(): string[] {
+    return [this.defaultName, ...[...this.profiles.keys()].filter(name => name !== this.defaultName)];
+  }
+
+  /**
+   * The named profile, or the default one; unknown names raise INVALID_PARAMETERS
+   */
+  get(name: string = this.defaultName): EnvironmentProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Unknown environment '${name}'`, { environment: name, environments: this.names() });
+    }
+    return profile;
+  }
+
+  /**
+   * The named profile aimed at one of its instances. Publish views connect to the profile's
+   * publish URL with its credentials and are always read-only.
+   */
+  tier(name: string | undefined, tier: EnvironmentTier): EnvironmentProfile {
+    const profile = this.get(name);
+    if (tier === 'author') {
+      return profile;
+    }
+    if (!profile.config.publish) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Environment '${profile.name}' has no publish URL`, { environment: profile.name });
+    }
+    return { ...profile, readOnly: true, config: { ...profile.config, host: profile.config.publish } };
+  }
+
+  async run<T>(name: string | undefined, writes: boolean, fn: () => Promise<T>): Promise<T> {
+    const profile = this.get(name);
+    if (writes && profile.readOnly) {
+      throw readOnlyError(profile);
+    }
+    return runInEnvironment(profile, fn);
+  }
+
+  /**
+   * Every profile with the reachability of its author and publish instances and whether
+   * AEM accepts its credentials. Probes are not retried and do not affect circuit breakers.
+   */
+  async listEnvironments(): Promise<ListEnvironmentsResponse> {
+    return safeExecute<ListEnvironmentsResponse>(async () => {
+      const circuits = new Map(getCircuitStatuses().map(status => [status.host, status.state]));
+      const environments = await Promise.all(this.names().map(async (name): Promise<EnvironmentStatus> => {
+        const { description, readOnly, config } = this.get(name);
+        const [author, publish] = await Promise.all([
+          probe(config.host, circuits, config.serviceUser),
+          config.publish ? probe(config.publish, circuits) : undefined,
+        ]);
+        return {
+          name,
+          ...(description ? { description } : {}),
+          default: name === this.defaultName,
+          readOnly,
+          contentPaths: config.contentPaths,
+          author,
+          ...(publish ? { publish } : {}),
+        };
+      }));
+
+      return createSuccessResponse({ environments, default: this.defaultName }, 'listEnvironments') as ListEnvironmentsResponse;
+    }, 'listEnvironments', 1);
+  }
+}
+
+function readOnlyError(profile: EnvironmentProfile) {
+  return createAEMError(
+    AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+    `Environment '${profile.name}' is read-only`,
+    { environment: profile.name }
+  );
+}
+
+function readEnvironmentsFile(file: string): EnvironmentsFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, `Environments file ${file} cannot be read: ${error.message}`, { file });
+  }
+  const document = interpolate(parsed, file) as EnvironmentsFile;
+  const definitions = Object.entries(document?.environments || {});
+  if (definitions.length === 0) {
+    throw createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, `Environments file ${file} must define at least one environment`, { file });
+  }
+  for (const [name, definition] of definitions) {
+    if (!isHttpUrl(definition?.author) || (definition.publish !== undefined && !isHttpUrl(definition.publish))
+      || typeof definition.serviceUser?.username !== 'string' || typeof definition.serviceUser?.password !== 'string') {
+      throw createAEMError(
+        AEM_ERROR_CODES.SYSTEM_ERROR,
+        `Environment '${name}' in ${file} needs an http(s) author URL and serviceUser username and password`,
+        { file, environment: name }
+      );
+    }
+  }
+  return document;
+}
+
+function toProfile(name: string, definition: EnvironmentDefinition, base: AEMConfig): EnvironmentProfile {
+  const publish = definition.publish ?? base.publish;
+  return {
+    name,
+    ...(definition.description ? { description: definition.description } : {}),
+    readOnly: definition.readOnly === true,
+    config: {
+      ...base,
+      host: definition.author,
+      author: definition.author,
+      publish,
+      serviceUser: { ...definition.serviceUser },
+      contentPaths: { ...base.contentPaths, ...definition.contentPaths },
+      replication: {
+        ...base.replication,
+        publisherUrls: definition.publisherUrls ?? [publish],
+      },
+    },
+  };
+}
+
+// Replaces ${NAME} with the process environment variable; a missing variable fails the load
+function interpolate(value: unknown, file: string): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, variable: string) => {
+      const resolved = process.env[variable];
+      if (resolved === undefined) {
+        throw createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, `Environments file ${file} references unset variable ${variable}`, { file, variable });
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, file));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, interpolate(child, file)]));
+  }
+  return value;
+}
+
+function isHttpUrl(value: unknown): boolean {
+  return typeof value === 'string' && /^https?:\/\/[^/]+/.test(value);
+}
+
+/**
+ * One unretried request to an instance; with credentials, the current user is looked up
+ * to tell whether they are accepted
+ */
+async function probe(url: string, circuits: Map<string, string>, credentials?: AEMConfig['serviceUser']): Promise<EndpointStatus> {
+  const started = Date.now();
+  const circuit = circuits.get(originOf(url));
+  try {
+    const response = await axios.create({ baseURL: url, timeout: PROBE_TIMEOUT_MS, validateStatus: () => true, maxRedirects: 0 })
+      .get(credentials ? CURRENT_USER_PATH : '/', credentials ? { auth: credentials } : {});
+    return {
+      url,
+      reachable: true,
+      statusCode: response.status,
+      latencyMs: Date.now() - started,
+      ...(credentials ? { authenticated: response.status === 200 && !!response.data?.authorizableId && response.data.authorizableId !== 'anonymous' } : {}),
+      ...(circuit ? { circuit } : {}),
+    };
+  } catch (error: any) {
+    return {
+      url,
+      reachable: false,
+      latencyMs: Date.now() - started,
+      ...(circuit ? { circuit } : {}),
+      error: error.code || error.message,
+    };
+  }
+}
+
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
@@ -43,6 +43,8 @@ export const AEM_ERROR_CODES = {
   INSUFFICIENT_PERMISSIONS: 'INSUFFICIENT_PERMISSIONS',
   SYSTEM_ERROR: 'SYSTEM_ERROR',
   RATE_LIMITED: 'RATE_LIMITED',
+  METHOD_NOT_FOUND: 'METHOD_NOT_FOUND',
+  CONFLICT: 'CONFLICT',
 } as const;
 
 export function createAEMError(
@@ -55,6 +57,30 @@ export function createAEMError(
   return new AEMOperationError({ code, message, details, recoverable, retryAfter });
 }
 
+const RETRY_HANDLED = Symbol('retryHandled');
+
+/**
+ * Flag an error whose request the HTTP client already retried, or refused, so callers do not
+ * run the whole operation again
+ */
+export function markRetryHandled<T extends object>(error: T): T {
+  (error as any)[RETRY_HANDLED] = true;
+  return error;
+}
+
+export function isRetryHandled(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as any)[RETRY_HANDLED] === true;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | undefined, fallbackMs?: number): number | undefined {
+  if (value === undefined) return fallbackMs;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? fallbackMs : Math.max(0, date - Date.now());
+}
+
 export function handleAEMHttpError(error: any, operation: string): AEMOperationError {
   if (error.response) {
     const status = error.response.status;
@@ -67,18 +93,17 @@ export function handleAEMHttpError(error: any, operation: string): AEMOperationE
       case 404:
         return createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, 'Resource not found in AEM.', { status, data, operation });
       case 429:
-        const retryAfter = error.response.headers['retry-after'];
-        return createAEMError(AEM_ERROR_CODES.RATE_LIMITED, 'Rate limit exceeded. Please try again later.', { status, data }, true, retryAfter ? parseInt(retryAfter) * 1000 : 60000);
+        return createAEMError(AEM_ERROR_CODES.RATE_LIMITED, 'Rate limit exceeded. Please try again later.', { status, data }, true, parseRetryAfter(error.response.headers?.['retry-after'], 60000));
       case 500:
       case 502:
       case 503:
-        return createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, 'AEM system error. Please try again later.', { status, data }, true, 30000);
+        return createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, 'AEM system error. Please try again later.', { status, data }, true, parseRetryAfter(error.response.headers?.['retry-after'], 30000));
       default:
         return createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, `HTTP ${status}: ${data?.message || 'Unknown error'}`, { status, data, operation });
     }
   } else if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
     return createAEMError(AEM_ERROR_CODES.CONNECTION_FAILED, 'Cannot connect to AEM instance. Check host and network.', { originalError: error.message }, true, 5000);
-  } else if (error.code === 'ETIMEDOUT') {
+  } else if (error.code === 'ETIMEDOUT' || error.code === 'ECONNABORTED') {
     return createAEMError(AEM_ERROR_CODES.TIMEOUT, 'Request to AEM timed out.', { originalError: error.message }, true, 10000);
   } else {
     return createAEMError(AEM_ERROR_CODES.SYSTEM_ERROR, `Unexpected error during ${operation}: ${error.message}`, { originalError: error.message });
@@ -94,7 +119,8 @@ export async function safeExecute<T>(operation: () => Promise<T>, operationName:
       lastError = error instanceof AEMOperationError
         ? error
         : handleAEMHttpError(error, operationName);
-      if (!lastError.recoverable || attempt === maxRetries) {
+      // Requests to AEM were already retried by the HTTP client wherever resending them is safe
+      if (!lastError.recoverable || attempt === maxRetries || isRetryHandled(error)) {
         break;
       }
       const delay = lastError.retryAfter || Math.pow(2, attempt) * 1000;
@@ -0,0 +1,558 @@
+/**
+ * FileVault Module
+ * Converts JCR subtrees, as rendered by Sling's .json, to and from FileVault content packages:
+ * META-INF/vault/filter.xml and properties.xml, and jcr_root/ folders holding docview
+ * .content.xml files. Pages and folders get a folder of their own; other nodes are written into
+ * their parent's .content.xml. Property types that .json does not show are inferred: integers
+ * are Long, other numbers Double, and strings in Sling's date format Date.
+ */
+
+import { ZipEntry } from './zip-archive.js';
+
+export type DocViewType =
+  | 'String'
+  | 'Binary'
+  | 'Long'
+  | 'Double'
+  | 'Date'
+  | 'Boolean'
+  | 'Name'
+  | 'Path'
+  | 'Reference'
+  | 'WeakReference'
+  | 'URI'
+  | 'Decimal';
+
+export interface DocViewProperty {
+  type: DocViewType;
+  values: string[];
+  multiple: boolean;
+}
+
+export interface DocViewNode {
+  properties: Record<string, DocViewProperty>;
+  /** In document order */
+  children: Array<{ name: string; node: DocViewNode }>;
+}
+
+export interface ContentPackageMetadata {
+  name: string;
+  group: string;
+  version?: string;
+  description?: string;
+}
+
+export interface ContentPackageRoot {
+  path: string;
+  /** Undefined when the package holds no content for the root */
+  node?: DocViewNode;
+  /** Include or exclude rules are set on the filter */
+  hasRules: boolean;
+}
+
+export interface ContentPackage {
+  roots: ContentPackageRoot[];
+  /** Entries below jcr_root that are not docview files, such as binaries */
+  skippedFiles: string[];
+}
+
+const TYPES = new Set<string>(['String', 'Binary', 'Long', 'Double', 'Date', 'Boolean', 'Name', 'Path', 'Reference', 'WeakReference', 'URI', 'Decimal']);
+const NAME_PROPERTIES = new Set(['jcr:primaryType', 'jcr:mixinTypes']);
+const FOLDER_TYPES = new Set(['cq:Page', 'nt:folder', 'sling:Folder', 'sling:OrderedFolder']);
+const CONTENT_FILE = '.content.xml';
+const JCR_ROOT = 'jcr_root';
+const FILTER_FILE = 'META-INF/vault/filter.xml';
+const PROPERTIES_FILE = 'META-INF/vault/properties.xml';
+
+export const NAMESPACES: Record<string, string> = {
+  jcr: 'http://www.jcp.org/jcr/1.0',
+  nt: 'http://www.jcp.org/jcr/nt/1.0',
+  mix: 'http://www.jcp.org/jcr/mix/1.0',
+  rep: 'internal',
+  oak: 'http://jackrabbit.apache.org/oak/ns/1.0',
+  sling: 'http://sling.apache.org/jcr/sling/1.0',
+  vlt: 'http://www.day.com/jcr/vault/1.0',
+  cq: 'http://www.day.com/jcr/cq/1.0',
+  dam: 'http://www.day.com/dam/ns/1.0',
+  granite: 'http://www.adobe.com/jcr/granite/1.0',
+  social: 'http://www.adobe.com/social/1.0',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  xmpMM: 'http://ns.adobe.com/xap/1.0/mm/',
+  xmpRights: 'http://ns.adobe.com/xap/1.0/rights/',
+  tiff: 'http://ns.adobe.com/tiff/1.0/',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+};
+
+// "Tue Jun 04 2024 10:00:00 GMT+0200", the format Sling renders dates in
+const SLING_DATE = /^(?:Sun|Mon|Tue|Wed|Thu|Fri|Sat) (Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) (\d{2}) (\d{4}) (\d{2}):(\d{2}):(\d{2}) GMT([+-]\d{2})(\d{2})$/;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Docview tree of a Sling .json rendering. Binary properties, rendered only as their
+ * length (":name": size), cannot be exported and are collected instead.
+ */
+export function fromSlingJson(json: Record<string, unknown>, path: string, omittedBinaries: string[]): DocViewNode {
+  const node: DocViewNode = { properties: {}, children: [] };
+  for (const [name, value] of Object.entries(json)) {
+    if (name.startsWith(':')) {
+      omittedBinaries.push(`${path}/${name.substring(1)}`);
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      node.children.push({ name, node: fromSlingJson(value as Record<string, unknown>, `${path}/${name}`, omittedBinaries) });
+    } else if (value !== null && value !== undefined) {
+      node.properties[name] = inferProperty(name, value);
+    }
+  }
+  return node;
+}
+
+function inferProperty(name: string, value: unknown): DocViewProperty {
+  const multiple = Array.isArray(value);
+  const items = (multiple ? value as unknown[] : [value]).filter(item => item !== null && item !== undefined);
+  let type: DocViewType = 'String';
+  if (NAME_PROPERTIES.has(name)) {
+    type = 'Name';
+  } else if (items.length > 0 && items.every(item => typeof item === 'boolean')) {
+    type = 'Boolean';
+  } else if (items.length > 0 && items.every(item => typeof item === 'number')) {
+    type = items.every(item => Number.isInteger(item)) ? 'Long' : 'Double';
+  } else if (items.length > 0 && items.every(item => typeof item === 'string' && SLING_DATE.test(item))) {
+    type = 'Date';
+  }
+  const values = items.map(item => type === 'Date' ? toIsoDate(item as string) : String(item));
+  return { type, values, multiple };
+}
+
+/**
+ * ISO 8601 form of a Sling date, keeping its offset
+ */
+export function toIsoDate(value: string): string {
+  const match = SLING_DATE.exec(value);
+  if (!match) return value;
+  const [, month, day, year, hours, minutes, seconds, offsetHours, offsetMinutes] = match;
+  const monthNumber = String(MONTHS.indexOf(month) + 1).padStart(2, '0');
+  return `${year}-${monthNumber}-${day}T${hours}:${minutes}:${seconds}.000${offsetHours}:${offsetMinutes}`;
+}
+
+/**
+ * Docview attribute value: {Type} prefix unless String, [a,b] for multiple values, and
+ * backslash escapes for \, for commas in multiple values and for a leading [ or {
+ */
+export function formatProperty(name: string, property: DocViewProperty): string {
+  const prefix = property.type === 'String' || (property.type === 'Name' && NAME_PROPERTIES.has(name)) ? '' : `{${property.type}}`;
+  const escape = (value: string, multiple: boolean) => [...value].map((c, i) => {
+    if (c === '\\') return '\\\\';
+    if (c === ',' && multiple) return '\\,';
+    if (i === 0 && !multiple && (c === '[' || c === '{')) return `\\${c}`;
+    return c;
+  }).join('');
+  return property.multiple
+    ? `${prefix}[${property.values.map(value => escape(value, true)).join(',')}]`
+    : `${prefix}${escape(property.values[0] ?? '', false)}`;
+}
+
+export function parseProperty(name: string, raw: string): DocViewProperty {
+  let rest = raw;
+  let type: DocViewType = NAME_PROPERTIES.has(name) ? 'Name' : 'String';
+  const typed = /^\{([A-Za-z]+)\}/.exec(rest);
+  if (typed && TYPES.has(typed[1])) {
+    type = typed[1] as DocViewType;
+    rest = rest.substring(typed[0].length);
+  }
+
+  if (!rest.startsWith('[') || !rest.endsWith(']')) {
+    return { type, values: [unescapeValue(rest)], multiple: false };
+  }
+  const values: string[] = [];
+  let current = '';
+  const body = rest.substring(1, rest.length - 1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\' && i + 1 < body.length) {
+      current += body[i] + body[i + 1];
+      i++;
+    } else if (body[i] === ',') {
+      values.push(unescapeValue(current));
+      current = '';
+    } else {
+      current += body[i];
+    }
+  }
+  if (body.length > 0) values.push(unescapeValue(current));
+  return { type, values, multiple: true };
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escaped: string) =>
+    escaped.length === 5 ? String.fromCharCode(parseInt(escaped.substring(1), 16)) : escaped);
+}
+
+/**
+ * Zip entries of a package holding one subtree
+ */
+export function writeContentPackage(root: DocViewNode, rootPath: string, metadata: ContentPackageMetadata): ZipEntry[] {
+  const entries: ZipEntry[] = [
+    { name: FILTER_FILE, data: Buffer.from(filterXml([rootPath]), 'utf8') },
+    { name: PROPERTIES_FILE, data: Buffer.from(propertiesXml(metadata), 'utf8') },
+  ];
+  const writeFolder = (node: DocViewNode, path: string) => {
+    entries.push({ name: `${folderOf(path)}/${CONTENT_FILE}`, data: Buffer.from(docViewXml(node), 'utf8') });
+    forEachFolderNode(node, path, writeFolder);
+  };
+  writeFolder(root, rootPath);
+  return entries;
+}
+
+/**
+ * Filter roots of a package with the content found for them
+ */
+export function readContentPackage(entries: ZipEntry[]): ContentPackage {
+  const filter = entries.find(entry => entry.name === FILTER_FILE);
+  if (!filter) {
+    throw new Error(`Not a content package: ${FILTER_FILE} is missing`);
+  }
+  const filters = parseXml(filter.data.toString('utf8')).children.filter(element => element.name === 'filter');
+
+  const documents = new Map<string, DocViewNode>();
+  const folders = new Set<string>();
+  const skippedFiles: string[] = [];
+  for (const entry of entries) {
+    if (!entry.name.startsWith(`${JCR_ROOT}/`)) continue;
+    const segments = entry.name.substring(JCR_ROOT.length + 1).split('/');
+    const file = segments.pop()!;
+    const names = segments.map(segment => requireNodeName(fromPlatformName(segment), entry.name));
+    const folderPath = `/${names.join('/')}`;
+    names.forEach((_, i) => folders.add(`/${names.slice(0, i + 1).join('/')}`));
+    if (file === CONTENT_FILE) {
+      documents.set(folderPath, fromDocViewXml(entry.data.toString('utf8'), entry.name));
+    } else {
+      skippedFiles.push(entry.name);
+    }
+  }
+
+  const assemble = (path: string): DocViewNode | undefined => {
+    const document = documents.get(path);
+    if (!document && !folders.has(path)) return undefined;
+    const node: DocViewNode = document
+      ? { properties: document.properties, children: [] }
+      : { properties: { 'jcr:primaryType': { type: 'Name', values: ['nt:folder'], multiple: false } }, children: [] };
+    const seen = new Set<string>();
+    for (const child of document?.children || []) {
+      seen.add(child.name);
+      // An empty element only fixes the position of a node that has a folder of its own
+      const content = isPlaceholder(child.node) ? assemble(joinPath(path, child.name)) : child.node;
+      if (content) node.children.push({ name: child.name, node: content });
+    }
+    for (const folder of folders) {
+      const name = folder.substring(path === '/' ? 1 : path.length + 1);
+      if (folder.startsWith(`${path === '/' ? '' : path}/`) && !name.includes('/') && !seen.has(name)) {
+        const content = assemble(folder);
+        if (content) node.children.push({ name, node: content });
+      }
+    }
+    return node;
+  };
+
+  return {
+    roots: filters.map(element => {
+      const path = requireRootPath(attribute(element, 'root') || '');
+      return { path, node: assemble(path), hasRules: element.children.length > 0 };
+    }),
+    skippedFiles,
+  };
+}
+
+/**
+ * Filter roots of a package, without reading its content
+ */
+export function readContentPackageRoots(entries: ZipEntry[]): string[] {
+  const filter = entries.find(entry => entry.name === FILTER_FILE);
+  if (!filter) {
+    throw new Error(`Not a content package: ${FILTER_FILE} is missing`);
+  }
+  return parseXml(filter.data.toString('utf8')).children
+    .filter(element => element.name === 'filter')
+    .map(element => requireRootPath(attribute(element, 'root') || ''));
+}
+
+// '.', '..', empty names and names holding '/' would place a node outside the path it is read under
+function requireNodeName(name: string, source: string): string {
+  if (name === '' || name === '.' || name === '..' || name.includes('/')) {
+    throw new Error(`Invalid node name '${name}' in ${source}`);
+  }
+  return name;
+}
+
+function requireRootPath(path: string): string {
+  if (!path.startsWith('/')) {
+    throw new Error(`Filter root must be an absolute path: ${path}`);
+  }
+  if (path !== '/') {
+    path.substring(1).split('/').forEach(name => requireNodeName(name, `filter root ${path}`));
+  }
+  return path;
+}
+
+/**
+ * Prefixes used in a tree that are not in NAMESPACES; they are declared with placeholder URIs
+ */
+export function unknownNamespaces(node: DocViewNode): string[] {
+  const prefixes = new Set<string>();
+  collectPrefixes(node, prefixes, true);
+  return [...prefixes].filter(prefix => !NAMESPACES[prefix]).sort();
+}
+
+function forEachFolderNode(node: DocViewNode, path: string, visit: (child: DocViewNode, childPath: string) => void): void {
+  for (const child of node.children) {
+    const childPath = joinPath(path, child.name);
+    if (isFolderNode(child.node)) {
+      visit(child.node, childPath);
+    } else {
+      forEachFolderNode(child.node, childPath, visit);
+    }
+  }
+}
+
+function isFolderNode(node: DocViewNode): boolean {
+  return FOLDER_TYPES.has(node.properties['jcr:primaryType']?.values[0] ?? '');
+}
+
+function isPlaceholder(node: DocViewNode): boolean {
+  return Object.keys(node.properties).length === 0 && node.children.length === 0;
+}
+
+function docViewXml(root: DocViewNode): string {
+  const prefixes = new Set<string>(['jcr']);
+  collectPrefixes(root, prefixes, false);
+  const declarations = [...prefixes].sort()
+    .map(prefix => `xmlns:${prefix}="${escapeXml(NAMESPACES[prefix] ?? `urn:aem-mcp:unknown:${prefix}`)}"`);
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const element = (name: string, node: DocViewNode, depth: number, extra: string[] = []) => {
+    const indent = '    '.repeat(depth);
+    const attributes = [...extra, ...orderedProperties(node).map(([property, value]) =>
+      `${encodeXmlName(property)}="${escapeXml(formatProperty(property, value))}"`)];
+    // Folder nodes are written to their own .content.xml and only keep their place here
+    const children = node.children.map(child => [child.name, isFolderNode(child.node) ? { properties: {}, children: [] } : child.node] as const);
+    const open = attributes.length > 0 ? `${indent}<${name}\n${attributes.map(text => `${indent}    ${text}`).join('\n')}` : `${indent}<${name}`;
+    if (children.length === 0) {
+      lines.push(`${open}/>`);
+      return;
+    }
+    lines.push(`${open}>`);
+    children.forEach(([childName, child]) => element(encodeXmlName(childName), child, depth + 1));
+    lines.push(`${indent}</${name}>`);
+  };
+  element('jcr:root', root, 0, declarations);
+  return `${lines.join('\n')}\n`;
+}
+
+function fromDocViewXml(xml: string, source: string): DocViewNode {
+  const toNode = (element: XmlElement): DocViewNode => ({
+    properties: Object.fromEntries(element.attributes
+      .filter(([name]) => name !== 'xmlns' && !name.startsWith('xmlns:'))
+      .map(([name, value]) => {
+        const property = decodeXmlName(name);
+        return [property, parseProperty(property, value)];
+      })),
+    children: element.children.map(child => ({ name: requireNodeName(decodeXmlName(child.name), source), node: toNode(child) })),
+  });
+  return toNode(parseXml(xml));
+}
+
+function orderedProperties(node: DocViewNode): Array<[string, DocViewProperty]> {
+  const rank = (name: string) => name === 'jcr:primaryType' ? 0 : name === 'jcr:mixinTypes' ? 1 : 2;
+  return Object.entries(node.properties).sort(([a], [b]) => rank(a) - rank(b));
+}
+
+// Prefixes of the names written in one .content.xml, or in the whole tree
+function collectPrefixes(node: DocViewNode, prefixes: Set<string>, wholeTree: boolean): void {
+  const add = (name: string) => {
+    if (name.includes(':')) prefixes.add(name.substring(0, name.indexOf(':')));
+  };
+  for (const [name, property] of Object.entries(node.properties)) {
+    add(name);
+    // Name values such as cq:Page need their prefix declared too
+    if (property.type === 'Name') property.values.forEach(add);
+  }
+  for (const child of node.children) {
+    add(child.name);
+    if (wholeTree || !isFolderNode(child.node)) {
+      collectPrefixes(child.node, prefixes, wholeTree);
+    }
+  }
+}
+
+function filterXml(roots: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<workspaceFilter version="1.0">',
+    ...roots.map(root => `    <filter root="${escapeXml(root)}"/>`),
+    '</workspaceFilter>',
+    '',
+  ].join('\n');
+}
+
+function propertiesXml(metadata: ContentPackageMetadata): string {
+  const entries: Record<string, string | undefined> = {
+    name: metadata.name,
+    group: metadata.group,
+    version: metadata.version,
+    description: metadata.description,
+    created: new Date().toISOString(),
+  };
+  return [
+    '<?xml version="1.0" encoding="utf-8" standalone="no"?>',
+    '<!DOCTYPE properties SYSTEM "http://java.sun.com/dtd/properties.dtd">',
+    '<properties>',
+    ...Object.entries(entries)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `<entry key="${key}">${escapeXml(value!)}</entry>`),
+    '</properties>',
+    '',
+  ].join('\n');
+}
+
+function folderOf(path: string): string {
+  return `${JCR_ROOT}${path.split('/').filter(Boolean).map(name => `/${toPlatformName(name)}`).join('')}`;
+}
+
+function joinPath(parent: string, name: string): string {
+  return parent === '/' ? `/${name}` : `${parent}/${name}`;
+}
+
+const PLATFORM_RESERVED = /[\\/:*?"<>|%]/g;
+
+/**
+ * File system name of a node, as FileVault writes it: jcr:content becomes _jcr_content,
+ * a name like _a_b gets a second leading underscore, and reserved characters are %-escaped
+ */
+export function toPlatformName(name: string): string {
+  const escape = (text: string) => text.replace(PLATFORM_RESERVED, c => `%${c.charCodeAt(0).toString(16).padStart(2, '0')}`);
+  const colon = name.indexOf(':');
+  if (colon > 0 && !name.substring(0, colon).includes('_')) {
+    return `_${escape(name.substring(0, colon))}_${escape(name.substring(colon + 1))}`;
+  }
+  if (name.startsWith('_') && name.indexOf('_', 1) > 0) {
+    return `_${escape(name)}`;
+  }
+  return escape(name);
+}
+
+export function fromPlatformName(name: string): string {
+  let repositoryName = name;
+  if (name.startsWith('__')) {
+    repositoryName = name.substring(1);
+  } else if (name.startsWith('_') && name.indexOf('_', 1) > 1) {
+    const separator = name.indexOf('_', 1);
+    repositoryName = `${name.substring(1, separator)}:${name.substring(separator + 1)}`;
+  }
+  return repositoryName.replace(/%([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * XML name of a JCR name: characters XML names cannot hold are written as _xHHHH_ (ISO 9075)
+ */
+function encodeXmlName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon > 0 ? `${encodeXmlPart(name.substring(0, colon))}:${encodeXmlPart(name.substring(colon + 1))}` : encodeXmlPart(name);
+}
+
+function encodeXmlPart(part: string): string {
+  return [...part].map((c, i) => {
+    if (c === '_' && /^_x[0-9A-Fa-f]{4}_/.test(part.substring(i))) return '_x005f_';
+    const valid = i === 0 ? /[A-Za-z_À-￿]/.test(c) : /[A-Za-z0-9._\-·À-￿]/.test(c);
+    return valid ? c : `_x${c.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}_`;
+  }).join('');
+}
+
+function decodeXmlName(name: string): string {
+  return name.replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xa;')
+    .replace(/\r/g, '&#xd;');
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Array<[string, string]>;
+  children: XmlElement[];
+}
+
+const START_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Element tree of an XML document; text content, comments and processing instructions are dropped
+ */
+function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let position = 0;
+  const skipTo = (from: number, terminator: string) => {
+    const end = xml.indexOf(terminator, from);
+    if (end < 0) throw new Error('Malformed XML: unterminated markup');
+    return end + terminator.length;
+  };
+
+  while (position < xml.length) {
+    const open = xml.indexOf('<', position);
+    if (open < 0) break;
+    if (xml.startsWith('<?', open)) {
+      position = skipTo(open, '?>');
+    } else if (xml.startsWith('<!--', open)) {
+      position = skipTo(open, '-->');
+    } else if (xml.startsWith('<![CDATA[', open)) {
+      position = skipTo(open, ']]>');
+    } else if (xml.startsWith('<!', open)) {
+      position = skipTo(open, '>');
+    } else if (xml.startsWith('</', open)) {
+      const close = skipTo(open, '>');
+      const name = xml.substring(open + 2, close - 1).trim();
+      if (stack.pop()?.name !== name) throw new Error(`Malformed XML: unexpected </${name}>`);
+      position = close;
+    } else {
+      START_TAG.lastIndex = open;
+      const match = START_TAG.exec(xml);
+      if (!match) throw new Error(`Malformed XML at offset ${open}`);
+      const element: XmlElement = {
+        name: match[1],
+        attributes: [...match[2].matchAll(ATTRIBUTE)].map(([, name, double, single]) => [name, decodeEntities(double ?? single)]),
+        children: [],
+      };
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        throw new Error('Malformed XML: more than one root element');
+      } else {
+        root = element;
+      }
+      if (!match[3]) stack.push(element);
+      position = START_TAG.lastIndex;
+    }
+  }
+  if (!root || stack.length > 0) {
+    throw new Error('Malformed XML: missing or unclosed root element');
+  }
+  return root;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.substring(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.substring(1), 10));
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[entity]!;
+  });
+}
+
+function attribute(element: XmlElement, name: string): string | undefined {
+  return element.attributes.find(([attributeName]) => attributeName === name)?.[1];
+}
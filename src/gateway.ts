@@ -26,7 +26,15 @@ import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 import { AEMConnector } from './aem-connector.js';
 import { MCPRequestHandler } from './mcp-handler.js';
+import { MCPHttpTransport } from './mcp-http-transport.js';
+import { createToolRegistry } from './mcp-tools.js';
+import { AEM_ERROR_CODES } from './error-handler.js';
 import { logger, loggingMiddleware, generateRequestId } from './logger.js';
+import { loadConfig } from './config/index.js';
+import { createAuthenticator, createAuthMiddleware } from './auth.js';
+import { RateLimiter, createRateLimitMiddleware, getRateLimitStatus } from './rate-limiter.js';
+import { getCircuitStatuses } from './http-resilience.js';
+import { getResponseCacheStats } from './response-cache.js';
 import swaggerUi from 'swagger-ui-express';
 import swaggerJSDoc from 'swagger-jsdoc';
 // import llmRouter from './llm-integration.js';
@@ -40,35 +48,32 @@ const app = express();
 const MCP_PORT = parseInt(process.env.MCP_PORT || '8080', 10);
 const GATEWAY_PORT = parseInt(process.env.GATEWAY_PORT || '3000', 10);
 
-app.use(cors());
+app.use(cors({ exposedHeaders: ['mcp-session-id'] }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 app.use(express.static(join(__dirname, '../public')));
 app.use(loggingMiddleware);
 
-const basicAuth = (req: Request, res: Response, next: NextFunction) => {
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Basic ')) {
-    res.status(401).json({ error: 'Authentication required' });
-    return;
-  }
-  const credentials = Buffer.from(authHeader.slice(6), 'base64').toString();
-  const [username, password] = credentials.split(':');
-  const validUsername = process.env.MCP_USERNAME || 'admin';
-  const validPassword = process.env.MCP_PASSWORD || 'admin';
-  if (username !== validUsername || password !== validPassword) {
-    res.status(401).json({ error: 'Invalid credentials' });
-    return;
-  }
-  next();
-};
+// AUTH_TYPE selects basic (MCP_USERNAME/MCP_PASSWORD), jwt or api-key; AUTH_ENABLED=false turns it off
+const config = loadConfig();
+const authMiddleware = createAuthMiddleware(createAuthenticator(config.security.auth, config.mcp), logger);
+app.use('/mcp', authMiddleware);
+app.use('/api/methods', authMiddleware);
+app.use('/api/audit', authMiddleware);
 
-if (process.env.MCP_USERNAME && process.env.MCP_PASSWORD) {
-  app.use('/mcp', basicAuth);
-}
+// Tool calls are charged per caller (per address when auth is off); RATE_LIMIT_ENABLED=false turns it off
+const rateLimitMiddleware = createRateLimitMiddleware();
+app.use('/mcp', rateLimitMiddleware);
+app.use('/api/methods', rateLimitMiddleware);
+app.use('/api/audit', rateLimitMiddleware);
 
 const aemConnector = new AEMConnector();
-const mcpHandler = new MCPRequestHandler(aemConnector);
+const toolRegistry = createToolRegistry(aemConnector, new RateLimiter(config.server.rateLimit));
+const mcpHandler = new MCPRequestHandler(toolRegistry);
+const mcpTransport = new MCPHttpTransport(aemConnector, toolRegistry, '/mcp');
+
+// Spec-compliant MCP transports (Streamable HTTP and SSE fallback), behind the same auth as /mcp
+app.use('/mcp', mcpTransport.createRouter());
 
 // Method validation middleware
 const validateMethod = (req: Request, res: Response, next: NextFunction) => {
@@ -86,16 +91,13 @@ const validateMethod = (req: Request, res: Response, next: NextFunction) => {
     return;
   }
   
-  const availableMethods = mcpHandler.getAvailableMethods();
-  const methodExists = availableMethods.some(m => m.name === method);
-  
-  if (!methodExists) {
+  if (!toolRegistry.has(method)) {
     res.status(404).json({
       success: false,
       error: {
         code: 'METHOD_NOT_FOUND',
         message: `Method '${method}' not found`,
-        availableMethods: availableMethods.map(m => m.name),
+        availableMethods: toolRegistry.getNames(),
         timestamp: new Date().toISOString()
       }
     });
@@ -161,7 +163,11 @@ app.get('/health', async (req, res) => {
         timestamp: new Date().toISOString(),
         version: process.env.npm_package_version || '1.0.0',
         ports: { gateway: GATEWAY_PORT, mcp: MCP_PORT }
-      }
+      },
+      // How clients such as the dashboard must present credentials (never the credentials themselves)
+      auth: config.security.auth.enabled
+        ? { type: config.security.auth.type, ...(config.security.auth.type === 'api-key' ? { header: config.security.auth.apiKeyHeader || 'x-api-key' } : {}) }
+        : { type: 'none' }
     };
     
     res.status(aemConnected ? 200 : 503).json(healthData);
@@ -182,13 +188,16 @@ app.get('/health/detailed', async (req, res) => {
   try {
     const aemConnected = await aemConnector.testConnection();
     const methods = mcpHandler.getAvailableMethods();
+    const circuits = getCircuitStatuses();
     
     const detailedHealth = {
-      status: aemConnected ? 'healthy' : 'degraded',
+      status: aemConnected && circuits.every(circuit => circuit.state === 'closed') ? 'healthy' : 'degraded',
       timestamp: new Date().toISOString(),
       aem: {
         connected: aemConnected,
         host: process.env.AEM_HOST || 'http://localhost:4502',
+        circuits,
+        cache: getResponseCacheStats(),
         credentials: {
           username: process.env.AEM_SERVICE_USER || 'admin',
           configured: !!(process.env.AEM_SERVICE_USER && process.env.AEM_SERVICE_PASSWORD)
@@ -197,13 +206,12 @@ app.get('/health/detailed', async (req, res) => {
       mcp: {
         status: 'ready',
         methodCount: methods.length,
-        methodsByCategory: methods.reduce((acc: any, method) => {
-          const category = method.name.includes('Page') ? 'page' : 
-                          method.name.includes('Component') ? 'component' :
-                          method.name.includes('Asset') ? 'asset' : 'other';
-          acc[category] = (acc[category] || 0) + 1;
+        sessions: mcpTransport.getStats(),
+        methodsByCategory: methods.reduce((acc: Record<string, number>, method) => {
+          acc[method.category] = (acc[method.category] || 0) + 1;
           return acc;
         }, {}),
+        implementationStatus: toolRegistry.getImplementationStatus(),
         version: '1.0.0'
       },
       server: {
@@ -216,7 +224,8 @@ app.get('/health/detailed', async (req, res) => {
       configuration: {
         gatewayPort: GATEWAY_PORT,
         mcpPort: MCP_PORT,
-        authEnabled: !!(process.env.MCP_USERNAME && process.env.MCP_PASSWORD),
+        authEnabled: config.security.auth.enabled,
+        authType: config.security.auth.enabled ? config.security.auth.type : undefined,
         corsEnabled: true
       }
     };
@@ -270,6 +279,24 @@ app.post('/mcp', async (req, res) => {
     
     logger.methodError(method, error, duration, requestId, req.body?.params);
     
+    if (error.code === AEM_ERROR_CODES.RATE_LIMITED && error.retryAfter) {
+      res.set('Retry-After', String(Math.ceil(error.retryAfter / 1000)));
+    }
+    if (error.code === AEM_ERROR_CODES.INVALID_PARAMETERS || error.code === AEM_ERROR_CODES.METHOD_NOT_FOUND
+      || error.code === AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS || error.code === AEM_ERROR_CODES.RATE_LIMITED) {
+      res.json({
+        jsonrpc: '2.0',
+        id: req.body?.id || null,
+        error: {
+          code: error.code === AEM_ERROR_CODES.METHOD_NOT_FOUND ? -32601
+            : error.code === AEM_ERROR_CODES.INVALID_PARAMETERS ? -32602 : -32000,
+          message: error.message,
+          data: { code: error.code, ...error.details },
+        },
+      });
+      return;
+    }
+    
     res.json({
       jsonrpc: '2.0',
       id: req.body?.id || null,
@@ -290,28 +317,15 @@ app.get('/mcp/methods', async (req, res) => {
 // REST-style API endpoints
 app.get('/api/methods', async (req, res) => {
   try {
-    const methods = mcpHandler.getAvailableMethods();
-    const categorizedMethods = methods.reduce((acc: any, method) => {
-      const category = method.name.includes('Page') ? 'page' : 
-                      method.name.includes('Component') ? 'component' :
-                      method.name.includes('Asset') ? 'asset' :
-                      method.name.includes('Template') ? 'template' :
-                      method.name.includes('search') || method.name.includes('Search') ? 'search' :
-                      method.name.includes('Site') || method.name.includes('Language') || method.name.includes('Locale') ? 'site' :
-                      method.name.includes('publish') || method.name.includes('activate') || method.name.includes('replicate') ? 'replication' :
-                      method.name.includes('Node') || method.name.includes('Children') ? 'legacy' : 'utility';
-      
-      if (!acc[category]) acc[category] = [];
-      acc[category].push(method);
-      return acc;
-    }, {});
+    const categorizedMethods = toolRegistry.describeByCategory();
     
     res.json({
       success: true,
       data: {
         methods: categorizedMethods,
-        totalMethods: methods.length,
+        totalMethods: Object.values(categorizedMethods).reduce((total, methods) => total + methods.length, 0),
         categories: Object.keys(categorizedMethods),
+        implementationStatus: toolRegistry.getImplementationStatus(),
         timestamp: new Date().toISOString()
       }
     });
@@ -330,16 +344,15 @@ app.get('/api/methods', async (req, res) => {
 app.get('/api/methods/:methodName', async (req, res) => {
   try {
     const { methodName } = req.params;
-    const methods = mcpHandler.getAvailableMethods();
-    const method = methods.find(m => m.name === methodName);
+    const tool = toolRegistry.get(methodName);
     
-    if (!method) {
+    if (!tool) {
       res.status(404).json({
         success: false,
         error: {
           code: 'METHOD_NOT_FOUND',
           message: `Method '${methodName}' not found`,
-          availableMethods: methods.map(m => m.name),
+          availableMethods: toolRegistry.getNames(),
           timestamp: new Date().toISOString()
         }
       });
@@ -349,7 +362,7 @@ app.get('/api/methods/:methodName', async (req, res) => {
     res.json({
       success: true,
       data: {
-        method,
+        method: toolRegistry.summarize(tool),
         examples: {
           jsonrpc: {
             method: 'POST',
@@ -387,16 +400,13 @@ app.post('/api/methods/:methodName', async (req, res) => {
     const { methodName } = req.params;
     const params = req.body;
     
-    const methods = mcpHandler.getAvailableMethods();
-    const methodExists = methods.some(m => m.name === methodName);
-    
-    if (!methodExists) {
+    if (!toolRegistry.has(methodName)) {
       res.status(404).json({
         success: false,
         error: {
           code: 'METHOD_NOT_FOUND',
           message: `Method '${methodName}' not found`,
-          availableMethods: methods.map(m => m.name),
+          availableMethods: toolRegistry.getNames(),
           timestamp: new Date().toISOString()
         }
       });
@@ -408,21 +418,49 @@ app.post('/api/methods/:methodName', async (req, res) => {
       success: true,
       method: methodName,
       data: result,
+      rateLimit: getRateLimitStatus(),
       timestamp: new Date().toISOString()
     });
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      method: req.params.methodName,
-      error: {
-        code: error.code || 'METHOD_EXECUTION_FAILED',
-        message: error.message,
-        timestamp: new Date().toISOString()
-      }
-    });
+    sendMethodError(res, req.params.methodName, error);
+  }
+});
+
+// Audit trail of executed writes; runs getAuditLog, so the same scopes, roles and budgets apply
+app.get('/api/audit', async (req, res) => {
+  const params: Record<string, unknown> = {};
+  for (const name of ['user', 'path', 'tool', 'outcome', 'from', 'to']) {
+    if (typeof req.query[name] === 'string') params[name] = req.query[name];
+  }
+  if (typeof req.query.limit === 'string') params.limit = Number(req.query.limit);
+  try {
+    res.json(await mcpHandler.handleRequest('getAuditLog', params));
+  } catch (error: any) {
+    sendMethodError(res, 'getAuditLog', error);
   }
 });
 
+function sendMethodError(res: Response, method: string, error: any): void {
+  const statusCode = error.code === AEM_ERROR_CODES.INVALID_PARAMETERS ? 400
+    : error.code === AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS ? 403
+    : error.code === AEM_ERROR_CODES.METHOD_NOT_FOUND ? 404
+    : error.code === AEM_ERROR_CODES.CONFLICT ? 409
+    : error.code === AEM_ERROR_CODES.RATE_LIMITED ? 429 : 500;
+  if (error.code === AEM_ERROR_CODES.RATE_LIMITED && error.retryAfter) {
+    res.set('Retry-After', String(Math.ceil(error.retryAfter / 1000)));
+  }
+  res.status(statusCode).json({
+    success: false,
+    method,
+    error: {
+      code: error.code || 'METHOD_EXECUTION_FAILED',
+      message: error.message,
+      details: error.details,
+      timestamp: new Date().toISOString()
+    }
+  });
+}
+
 // app.use('/api', llmRouter);
 // app.use('/webhook', telegramIntegration);
 
@@ -441,7 +479,10 @@ app.get('/', (req, res) => {
       dashboard: { method: 'GET', path: '/dashboard', description: 'Interactive web dashboard' },
       mcp: { method: 'POST', path: '/mcp', description: 'JSON-RPC endpoint for MCP calls' },
       mcpMethods: { method: 'GET', path: '/mcp/methods', description: 'List all available MCP methods' },
+      mcpStreamableHttp: { method: 'POST|GET|DELETE', path: '/mcp/stream', description: 'MCP Streamable HTTP transport' },
+      mcpSse: { method: 'GET', path: '/mcp/sse', description: 'MCP SSE transport (legacy clients); messages go to POST /mcp/messages' },
       apiMethods: { method: 'GET', path: '/api/methods', description: 'REST API methods listing' },
+      apiAudit: { method: 'GET', path: '/api/audit', description: 'Audit trail of executed writes' },
     },
     architecture: 'MCP integration',
     timestamp: new Date().toISOString(),
@@ -508,6 +549,33 @@ openapiSpec.paths = {
       },
     },
   },
+  '/mcp/stream': {
+    post: {
+      summary: 'MCP Streamable HTTP transport',
+      description: 'Spec-compliant MCP endpoint. Send an initialize request without a session to open one; the session ID is returned in the mcp-session-id header and must accompany later requests. GET opens the notification stream and DELETE ends the session.',
+      parameters: [
+        { name: 'mcp-session-id', in: 'header', required: false, schema: { type: 'string' } },
+      ],
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: { type: 'object' } } },
+      },
+      responses: {
+        200: { description: 'JSON-RPC response as JSON or an SSE stream' },
+        400: { description: 'Missing session for a non-initialize request' },
+        404: { description: 'Unknown session' },
+      },
+    },
+  },
+  '/mcp/sse': {
+    get: {
+      summary: 'MCP SSE transport (legacy clients)',
+      description: 'Opens an SSE stream; the first event names the POST /mcp/messages?sessionId=... endpoint for client messages.',
+      responses: {
+        200: { description: 'Server-sent event stream' },
+      },
+    },
+  },
   '/mcp/methods': {
     get: {
       summary: 'List all available MCP methods',
@@ -527,10 +595,18 @@ openapiSpec.paths = {
                       properties: {
                         name: { type: 'string' },
                         description: { type: 'string' },
+                        category: { type: 'string' },
                         parameters: {
                           type: 'array',
                           items: { type: 'string' },
                         },
+                        requiredParameters: {
+                          type: 'array',
+                          items: { type: 'string' },
+                        },
+                        inputSchema: { type: 'object' },
+                        outputSchema: { type: 'object' },
+                        implementationStatus: { type: 'string', enum: ['complete', 'partial', 'mock', 'not-implemented'] },
                       },
                     },
                   },
@@ -544,8 +620,28 @@ openapiSpec.paths = {
       },
     },
   },
+  '/api/audit': {
+    get: {
+      summary: 'Audit trail of executed writes',
+      description: 'Runs getAuditLog with the query parameters as filters. Entries are returned newest first, with the integrity of the hash chain.',
+      parameters: ['user', 'path', 'tool', 'outcome', 'from', 'to', 'limit'].map(name => ({
+        name,
+        in: 'query',
+        required: false,
+        schema: { type: name === 'limit' ? 'integer' : 'string' },
+      })),
+      responses: {
+        200: { description: 'Matching entries, total and integrity' },
+        400: { description: 'INVALID_PARAMETERS: bad filter value' },
+        403: { description: 'INSUFFICIENT_PERMISSIONS: the caller may not run getAuditLog' },
+      },
+    },
+  },
 };
 
+// Every registered tool is callable through POST /api/methods/{name}
+Object.assign(openapiSpec.paths, toolRegistry.toOpenAPIPaths());
+
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(openapiSpec));
 app.get('/openapi.json', (req: express.Request, res: express.Response) => { res.json(openapiSpec); });
 
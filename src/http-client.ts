@@ -4,7 +4,11 @@
  */
 
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { IConfig } from './interfaces/index.js';
+import { AEMConfig, IConfig } from './interfaces/index.js';
+import { installPlanInterceptor } from './plan-mode.js';
+import { installResilience } from './http-resilience.js';
+import { installResponseCache } from './response-cache.js';
+import { installEnvironment } from './environments.js';
 
 /**
  * Create an axios instance configured for AEM communication
@@ -23,7 +27,7 @@ export function createAxiosInstance(config: IConfig): AxiosInstance {
     },
   };
 
-  const instance = axios.create(axiosConfig);
+  const instance = installEnvironment(installResponseCache(installResilience(installPlanInterceptor(axios.create(axiosConfig)))));
 
   // Add request interceptor for logging
   instance.interceptors.request.use(
@@ -61,7 +65,7 @@ export function createAxiosInstance(config: IConfig): AxiosInstance {
 /**
  * Create a specialized axios instance for file uploads
  */
-export function createUploadAxiosInstance(config: IConfig): AxiosInstance {
+export function createUploadAxiosInstance(config: { aem: Pick<AEMConfig, 'host' | 'serviceUser'> }): AxiosInstance {
   const axiosConfig: AxiosRequestConfig = {
     baseURL: config.aem.host,
     timeout: 60000, // Longer timeout for uploads
@@ -76,7 +80,7 @@ export function createUploadAxiosInstance(config: IConfig): AxiosInstance {
     maxBodyLength: 100 * 1024 * 1024,
   };
 
-  return axios.create(axiosConfig);
+  return installEnvironment(installResponseCache(installResilience(installPlanInterceptor(axios.create(axiosConfig)))));
 }
 
 /**
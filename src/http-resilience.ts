@@ -0,0 +1,225 @@
+/**
+ * HTTP Resilience Module
+ * Retries and per-host circuit breaking for AEM requests, installed on every AEM axios instance.
+ * Idempotent requests (GET, HEAD, OPTIONS) and requests marked retrySafe are retried after
+ * network errors, 429 and 502-504, with jittered exponential backoff or after the server's
+ * Retry-After. A host that keeps failing is cut off for a cool-down, during which requests
+ * fail fast; one probe request is then let through to test whether it is back.
+ */
+
+import type { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import {
+  AEM_ERROR_CODES,
+  AEMOperationError,
+  createAEMError,
+  handleAEMHttpError,
+  markRetryHandled
+} from './error-handler.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Safe to send again after a failure, like a POST that only sets properties */
+    retrySafe?: boolean;
+    /** Retries already made for this request; maintained by the resilience layer */
+    retryAttempt?: number;
+  }
+}
+
+export interface ResilienceOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Longest Retry-After honoured; longer waits fail the request instead */
+  maxRetryAfterMs: number;
+  /** Consecutive failures that open a host's circuit */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before letting a probe through */
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_RESILIENCE_OPTIONS: ResilienceOptions = {
+  maxRetries: parseInt(process.env.AEM_RETRY_MAX || '3', 10),
+  baseDelayMs: parseInt(process.env.AEM_RETRY_BASE_DELAY_MS || '200', 10),
+  maxDelayMs: parseInt(process.env.AEM_RETRY_MAX_DELAY_MS || '5000', 10),
+  maxRetryAfterMs: parseInt(process.env.AEM_RETRY_MAX_WAIT_MS || '30000', 10),
+  failureThreshold: parseInt(process.env.AEM_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+  resetTimeoutMs: parseInt(process.env.AEM_CIRCUIT_RESET_MS || '30000', 10),
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ERR_NETWORK'];
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  host: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailure?: string;
+  openedAt?: string;
+  /** When an open circuit lets the next probe through */
+  retryAt?: string;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+  private lastFailure?: string;
+
+  constructor(
+    readonly host: string,
+    private failureThreshold: number,
+    private resetTimeoutMs: number
+  ) {}
+
+  /**
+   * Admit a request, or throw CONNECTION_FAILED while the circuit is open
+   */
+  acquire(now: number = Date.now()): void {
+    if (this.state === 'open' && now - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half-open';
+      this.probing = false;
+    }
+    if (this.state === 'open' || (this.state === 'half-open' && this.probing)) {
+      const retryAfter = Math.max(0, this.openedAt + this.resetTimeoutMs - now);
+      throw markRetryHandled(createAEMError(
+        AEM_ERROR_CODES.CONNECTION_FAILED,
+        `AEM at ${this.host} is unavailable after ${this.failures} consecutive failures; failing fast for ${Math.ceil(retryAfter / 1000)}s`,
+        { host: this.host, circuit: this.state, lastFailure: this.lastFailure },
+        true,
+        retryAfter
+      ));
+    }
+    if (this.state === 'half-open') {
+      this.probing = true;
+    }
+  }
+
+  onSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  onFailure(reason: string, now: number = Date.now()): void {
+    this.failures++;
+    this.lastFailure = reason;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+      this.probing = false;
+    }
+  }
+
+  status(): CircuitStatus {
+    return {
+      host: this.host,
+      state: this.state,
+      consecutiveFailures: this.failures,
+      ...(this.lastFailure ? { lastFailure: this.lastFailure } : {}),
+      ...(this.state !== 'closed' ? {
+        openedAt: new Date(this.openedAt).toISOString(),
+        retryAt: new Date(this.openedAt + this.resetTimeoutMs).toISOString(),
+      } : {}),
+    };
+  }
+}
+
+// Shared by every instance, since the connector creates a fresh axios instance per call
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(host: string, options: ResilienceOptions = DEFAULT_RESILIENCE_OPTIONS): CircuitBreaker {
+  let breaker = breakers.get(host);
+  if (!breaker) {
+    breaker = new CircuitBreaker(host, options.failureThreshold, options.resetTimeoutMs);
+    breakers.set(host, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * State of the circuit of every AEM host contacted so far, for health checks
+ */
+export function getCircuitStatuses(): CircuitStatus[] {
+  return [...breakers.values()].map(breaker => breaker.status());
+}
+
+/**
+ * Add circuit breaking and retries to an AEM axios instance
+ */
+export function installResilience(instance: AxiosInstance, options: ResilienceOptions = DEFAULT_RESILIENCE_OPTIONS): AxiosInstance {
+  // Reads answered by the response cache never reach AEM, so they say nothing about its health
+  instance.interceptors.request.use((config) => {
+    if (!config.cacheHit) {
+      getCircuitBreaker(hostOf(config), options).acquire();
+    }
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      if (!response.config.cacheHit) {
+        getCircuitBreaker(hostOf(response.config), options).onSuccess();
+      }
+      return response;
+    },
+    async (error: AxiosError) => {
+      // Refusals by an open circuit pass through untouched
+      if (error instanceof AEMOperationError || !error.config) {
+        throw error;
+      }
+      const config = error.config;
+      const breaker = getCircuitBreaker(hostOf(config), options);
+      if (error.code === 'ERR_CANCELED') {
+        throw markRetryHandled(error);
+      }
+      if (!error.response || error.response.status >= 500) {
+        breaker.onFailure(error.response ? `HTTP ${error.response.status}` : error.code || error.message);
+      } else {
+        breaker.onSuccess();
+      }
+
+      const attempt = config.retryAttempt ?? 0;
+      const delay = attempt < options.maxRetries && isRetryable(config, error) ? retryDelay(error, attempt, options) : undefined;
+      if (delay === undefined) {
+        throw markRetryHandled(error);
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return instance.request({ ...config, retryAttempt: attempt + 1 });
+    }
+  );
+
+  return instance;
+}
+
+function hostOf(config: InternalAxiosRequestConfig): string {
+  try {
+    return new URL(config.url || '', config.baseURL).origin;
+  } catch {
+    return config.baseURL || 'unknown';
+  }
+}
+
+function isRetryable(config: InternalAxiosRequestConfig, error: AxiosError): boolean {
+  const safe = IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase()) || config.retrySafe === true;
+  if (!safe) return false;
+  return error.response
+    ? RETRYABLE_STATUSES.includes(error.response.status)
+    : TRANSIENT_ERROR_CODES.includes(error.code || '');
+}
+
+/**
+ * Wait before the next attempt: the server's Retry-After when it sent one (undefined when that
+ * is longer than maxRetryAfterMs), otherwise full-jitter exponential backoff
+ */
+function retryDelay(error: AxiosError, attempt: number, options: ResilienceOptions): number | undefined {
+  if (error.response?.headers?.['retry-after'] !== undefined) {
+    const wait = handleAEMHttpError(error, 'retry').retryAfter;
+    return wait !== undefined && wait <= options.maxRetryAfterMs ? wait : undefined;
+  }
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
@@ -136,11 +136,29 @@ export interface ServerConfig {
     enabled: boolean;
     origins: string[];
   };
-  rateLimit: {
-    enabled: boolean;
-    windowMs: number;
-    maxRequests: number;
-  };
+  rateLimit: RateLimitConfig;
+}
+
+/**
+ * Tool call budgets per caller and window; category and tool budgets apply on top of maxRequests
+ */
+export interface RateLimitConfig {
+  enabled: boolean;
+  windowMs: number;
+  maxRequests: number;
+  /** Budgets by tool category, e.g. replication */
+  categories: Record<string, number>;
+  /** Budgets by tool name, for expensive tools */
+  tools: Record<string, number>;
+}
+
+export interface RateLimitStatus {
+  /** Budget the status describes: all, category:<name> or tool:<name> */
+  bucket: string;
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds when the window resets */
+  resetAt: number;
 }
 
 export interface SecurityConfig {
@@ -148,7 +166,12 @@ export interface SecurityConfig {
     enabled: boolean;
     type: 'basic' | 'jwt' | 'api-key';
     jwtSecret?: string;
+    /** JWKS file holding the RSA public keys that RS256 tokens are verified against */
+    jwksFile?: string;
+    jwtIssuer?: string;
+    jwtAudience?: string;
     apiKeyHeader?: string;
+    apiKeysFile?: string;
   };
   cors: {
     enabled: boolean;
@@ -163,6 +186,64 @@ export interface SecurityConfig {
   };
 }
 
+export type AuthType = SecurityConfig['auth']['type'];
+
+/**
+ * Authenticated gateway caller. Scopes list the tools, or tool categories, the caller may run; '*' allows all.
+ */
+export interface AuthIdentity {
+  subject: string;
+  authType: AuthType;
+  scopes: string[];
+  /** Roles asserted by the credential (JWT roles claim, API key roles); the access policy may add more */
+  roles?: string[];
+  /** API key ID, for keys */
+  keyId?: string;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  /** SHA-256 of the key secret, hex encoded; the key itself is never stored */
+  hash: string;
+  scopes: string[];
+  roles?: string[];
+  createdAt: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * Tools a rule covers: '*', a tool name, a category, '@read' (non-mutating tools) or '@write' (mutating tools).
+ * Paths are JCR path prefixes; a rule without paths covers every path.
+ */
+export interface AccessRule {
+  tools: string[];
+  paths?: string[];
+}
+
+export interface RolePolicy {
+  /** Roles whose grants and deny rules this role also holds */
+  inherits?: string[];
+  /** Tools the role may run, on the role's paths */
+  tools: string[];
+  paths?: string[];
+  deny?: AccessRule[];
+}
+
+/**
+ * Access policy file (RBAC_POLICY_FILE). Deny rules win over grants.
+ */
+export interface AccessPolicyDocument {
+  roles: Record<string, RolePolicy>;
+  /** Roles by caller subject, added to those the credential asserts */
+  subjects?: Record<string, string[]>;
+  /** Roles of callers that have none, including unauthenticated stdio clients */
+  defaultRoles?: string[];
+  /** Rules applied to every caller */
+  deny?: AccessRule[];
+}
+
 export interface LoggingConfig {
   level: 'error' | 'warn' | 'info' | 'debug' | 'trace';
   enableConsole: boolean;
@@ -182,6 +263,9 @@ export interface IAEMConnector {
   // Page operations
   createPage(request: CreatePageRequest): Promise<PageResponse>;
   deletePage(request: DeletePageRequest): Promise<DeleteResponse>;
+  movePage(request: MovePageRequest): Promise<PageRelocationResponse>;
+  renamePage(request: RenamePageRequest): Promise<PageRelocationResponse>;
+  copyPage(request: CopyPageRequest): Promise<CopyPageResponse>;
   listPages(siteRoot: string, depth?: number, limit?: number): Promise<ListPagesResponse>;
   getPageContent(pagePath: string): Promise<PageContentResponse>;
   getPageProperties(pagePath: string): Promise<PagePropertiesResponse>;
@@ -204,7 +288,8 @@ export interface IAEMConnector {
   
   // Search operations
   searchContent(params: SearchContentParams): Promise<SearchResponse>;
-  executeJCRQuery(query: string, limit?: number): Promise<JCRQueryResponse>;
+  executeJCRQuery(params: JCRQueryParams): Promise<JCRQueryResponse>;
+  queryBuilder(request: QueryBuilderRequest): Promise<QueryBuilderResponse>;
   enhancedPageSearch(params: EnhancedSearchParams): Promise<SearchResponse>;
   
   // Template operations
@@ -243,6 +328,37 @@ export interface DeletePageRequest {
   force?: boolean;
 }
 
+export interface PageRelocationOptions {
+  /** Rewrite references to the page in other pages (default true) */
+  adjustReferences?: boolean;
+  /** Leave a page at the old path that redirects to the new one */
+  createRedirect?: boolean;
+  /** Republish the pages whose references were rewritten */
+  republishReferences?: boolean;
+}
+
+export interface MovePageRequest extends PageRelocationOptions {
+  pagePath: string;
+  destParentPath: string;
+  newName?: string;
+  newTitle?: string;
+}
+
+export interface RenamePageRequest extends PageRelocationOptions {
+  pagePath: string;
+  newName: string;
+  newTitle?: string;
+}
+
+export interface CopyPageRequest {
+  pagePath: string;
+  destParentPath: string;
+  newName?: string;
+  newTitle?: string;
+  /** Copy the page without its child pages */
+  shallow?: boolean;
+}
+
 export interface CreateComponentRequest {
   pagePath: string;
   componentType: string;
@@ -277,14 +393,283 @@ export interface BulkUpdateComponentsRequest {
   continueOnError?: boolean;
 }
 
+/** Exactly one of fileContent, localFile or stream supplies the binary */
 export interface UploadAssetRequest {
   parentPath: string;
   fileName: string;
-  fileContent: string;
+  /** Base64 encoded content */
+  fileContent?: string;
+  /** File in the uploads directory (MCP_UPLOADS_DIR), absolute or relative to it */
+  localFile?: string;
+  /** Defaults to a type guessed from the file name extension */
   mimeType?: string;
   metadata?: Record<string, unknown>;
 }
 
+/** Upload from a caller in the same process, which may also pass the content as a stream */
+export interface StreamUploadAssetRequest extends UploadAssetRequest {
+  stream?: AsyncIterable<Uint8Array>;
+}
+
+/**
+ * multipart posts to the folder's createasset.html (AEM 6.5); direct uses the direct binary
+ * upload protocol of AEM as a Cloud Service: initiateUpload, part PUTs, completeUpload
+ */
+export type AssetUploadMode = 'multipart' | 'direct';
+
+export interface CreateAssetFolderRequest {
+  parentPath: string;
+  /** Node name of the folder */
+  name: string;
+  /** Title shown in the Assets console; defaults to the name */
+  title?: string;
+}
+
+export interface MoveAssetFolderRequest {
+  folderPath: string;
+  destParentPath: string;
+  /** Name at the destination; defaults to the current name */
+  newName?: string;
+  newTitle?: string;
+}
+
+export interface RenameAssetFolderRequest {
+  folderPath: string;
+  newName: string;
+  newTitle?: string;
+}
+
+export interface DeleteAssetFolderRequest {
+  folderPath: string;
+  /** Delete the folder even when it holds assets or subfolders */
+  force?: boolean;
+}
+
+export interface AssetFolderResponse extends BaseResponse {
+  data: {
+    folderPath: string;
+    /** Where the folder was before a move or rename */
+    sourcePath?: string;
+    title?: string;
+    /** Assets and subfolders deleted with the folder */
+    deletedItems?: number;
+    timestamp: string;
+  };
+}
+
+export interface UploadFolderRequest {
+  /** Directory in the uploads directory (MCP_UPLOADS_DIR) */
+  localDir: string;
+  /** DAM folder the directory's content is uploaded into; created when missing */
+  parentPath: string;
+  /** Files uploaded at the same time; defaults to 4 */
+  concurrency?: number;
+  /** Skip files whose SHA-1 matches the asset's dam:sha1; defaults to true */
+  skipUnchanged?: boolean;
+}
+
+export interface UploadFolderFileResult {
+  /** Path relative to localDir */
+  file: string;
+  assetPath: string;
+  status: 'uploaded' | 'skipped' | 'failed';
+  size?: number;
+  sha1?: string;
+  error?: string;
+}
+
+export interface UploadFolderResponse extends BaseResponse {
+  data: {
+    localDir: string;
+    parentPath: string;
+    createdFolders: string[];
+    uploaded: number;
+    skipped: number;
+    failed: number;
+    files: UploadFolderFileResult[];
+    /** JSON copy of the per-file results, in the uploads directory */
+    reportFile: string;
+    durationMs: number;
+  };
+}
+
+export interface ExportAssetMetadataRequest {
+  folderPath: string;
+  /** Metadata properties to export; all of them when omitted */
+  fields?: string[];
+  /** Include assets in subfolders; default true */
+  recursive?: boolean;
+  /** Also write the CSV to this file in the uploads directory */
+  fileName?: string;
+  separator?: string;
+  multiValueDelimiter?: string;
+}
+
+export interface ExportAssetMetadataResponse extends BaseResponse {
+  data: {
+    folderPath: string;
+    assets: number;
+    columns: string[];
+    csv: string;
+    localFile?: string;
+    timestamp: string;
+  };
+}
+
+export interface ImportAssetMetadataRequest {
+  /** CSV text; give this or localFile */
+  csv?: string;
+  /** CSV file in the uploads directory */
+  localFile?: string;
+  separator?: string;
+  multiValueDelimiter?: string;
+}
+
+export interface AssetMetadataRowResult {
+  /** Line in the CSV, the header being line 1 */
+  line: number;
+  assetPath: string;
+  status: 'updated' | 'unchanged' | 'failed';
+  changed?: string[];
+  error?: string;
+}
+
+export interface ImportAssetMetadataResponse extends BaseResponse {
+  data: {
+    rows: number;
+    updated: number;
+    unchanged: number;
+    failed: number;
+    results: AssetMetadataRowResult[];
+    timestamp: string;
+  };
+}
+
+export interface AssetRendition {
+  name: string;
+  path: string;
+  mimeType?: string;
+  /** Bytes */
+  size?: number;
+  width?: number;
+  height?: number;
+  lastModified?: string;
+}
+
+export interface ListRenditionsResponse extends BaseResponse {
+  data: {
+    assetPath: string;
+    renditions: AssetRendition[];
+  };
+}
+
+export interface RenditionRequest {
+  assetPath: string;
+  rendition: string;
+}
+
+export interface DownloadRenditionRequest extends RenditionRequest {
+  /** File in the uploads directory to write; derived from the asset and rendition names by default */
+  fileName?: string;
+}
+
+export interface DownloadRenditionResponse extends BaseResponse {
+  data: {
+    assetPath: string;
+    rendition: string;
+    localFile: string;
+    size: number;
+    sha1: string;
+    mimeType?: string;
+  };
+}
+
+export interface UploadRenditionRequest extends RenditionRequest {
+  fileContent?: string;
+  localFile?: string;
+  mimeType?: string;
+}
+
+export interface UploadRenditionResponse extends BaseResponse {
+  data: {
+    assetPath: string;
+    renditionPath: string;
+    mimeType: string;
+    size: number;
+    sha1: string;
+    timestamp: string;
+  };
+}
+
+export interface DeleteRenditionsRequest {
+  assetPath: string;
+  renditions: string[];
+}
+
+export interface DeleteRenditionsResponse extends BaseResponse {
+  data: {
+    assetPath: string;
+    deleted: string[];
+    timestamp: string;
+  };
+}
+
+/** DAM Update Asset workflow, or the processing profiles of AEM as a Cloud Service */
+export type ReprocessMode = 'workflow' | 'processingProfile';
+
+export interface ReprocessAssetRequest {
+  assetPath: string;
+  /** Chosen from the host by default */
+  mode?: ReprocessMode;
+  /** Processing profile to run; full-process by default */
+  profile?: string;
+}
+
+export interface ReprocessAssetResponse extends BaseResponse {
+  data: {
+    assetPath: string;
+    mode: ReprocessMode;
+    workflowId?: string;
+    profile?: string;
+    timestamp: string;
+  };
+}
+
+/** fileReference properties, rich text (e.g. img src attributes), fragmentPath of content fragment components, or any other property */
+export type AssetReferenceKind = 'fileReference' | 'richText' | 'contentFragment' | 'property';
+
+export interface AssetReference {
+  pagePath: string;
+  pageTitle?: string;
+  published: boolean;
+  componentPath: string;
+  property: string;
+  kind: AssetReferenceKind;
+}
+
+export interface AssetReferencesResponse extends BaseResponse {
+  data: {
+    assetPath: string;
+    pages: string[];
+    references: AssetReference[];
+  };
+}
+
+export interface UnusedAssetsRequest {
+  folderPath: string;
+  /** Include assets in subfolders; default true */
+  recursive?: boolean;
+}
+
+export interface UnusedAssetsResponse extends BaseResponse {
+  data: {
+    folderPath: string;
+    assets: number;
+    referenced: number;
+    unused: string[];
+  };
+}
+
 export interface UpdateAssetRequest {
   assetPath: string;
   metadata?: Record<string, unknown>;
@@ -325,6 +710,564 @@ export interface UnpublishContentRequest {
   unpublishTree?: boolean;
 }
 
+export interface PagePathRequest {
+  pagePath: string;
+}
+
+export interface ListPagesParams {
+  siteRoot?: string;
+  path?: string;
+  depth?: number;
+  limit?: number;
+}
+
+export interface NodeContentParams {
+  path: string;
+  depth?: number;
+}
+
+export interface ListChildrenParams {
+  path: string;
+}
+
+export type QueryBuilderPropertyOperation = 'equals' | 'unequals' | 'like' | 'not' | 'exists';
+
+export interface QueryBuilderPathPredicate {
+  predicate: 'path';
+  path: string;
+  exact?: boolean;
+  flat?: boolean;
+  self?: boolean;
+}
+
+export interface QueryBuilderTypePredicate {
+  predicate: 'type';
+  nodeType: string;
+}
+
+export interface QueryBuilderPropertyPredicate {
+  predicate: 'property';
+  property: string;
+  value?: string | number | boolean;
+  values?: Array<string | number | boolean>;
+  operation?: QueryBuilderPropertyOperation;
+  and?: boolean;
+  depth?: number;
+}
+
+export interface QueryBuilderDateRangePredicate {
+  predicate: 'daterange';
+  property: string;
+  lowerBound?: string;
+  lowerOperation?: '>' | '>=';
+  upperBound?: string;
+  upperOperation?: '<' | '<=';
+}
+
+export interface QueryBuilderRelativeDateRangePredicate {
+  predicate: 'relativedaterange';
+  property: string;
+  lowerBound?: string;
+  upperBound?: string;
+}
+
+export interface QueryBuilderTagPredicate {
+  predicate: 'tagid';
+  tagIds: string[];
+  property?: string;
+  and?: boolean;
+}
+
+export interface QueryBuilderFulltextPredicate {
+  predicate: 'fulltext';
+  text: string;
+  relPath?: string;
+}
+
+export interface QueryBuilderGroupPredicate {
+  predicate: 'group';
+  predicates: QueryBuilderPredicate[];
+  or?: boolean;
+  not?: boolean;
+}
+
+export type QueryBuilderPredicate =
+  | QueryBuilderPathPredicate
+  | QueryBuilderTypePredicate
+  | QueryBuilderPropertyPredicate
+  | QueryBuilderDateRangePredicate
+  | QueryBuilderRelativeDateRangePredicate
+  | QueryBuilderTagPredicate
+  | QueryBuilderFulltextPredicate
+  | QueryBuilderGroupPredicate;
+
+export interface QueryBuilderOrderBy {
+  property: string;
+  sort?: 'asc' | 'desc';
+}
+
+export interface QueryBuilderRequest {
+  predicates?: QueryBuilderPredicate[];
+  orderBy?: QueryBuilderOrderBy[];
+  limit?: number;
+  guessTotal?: boolean | number;
+  hits?: 'simple' | 'full' | 'selective';
+  properties?: string[];
+  nodeDepth?: number;
+  cursor?: string;
+}
+
+export type JCRQueryLanguage = 'JCR-SQL2' | 'xpath';
+
+export interface JCRQueryParams {
+  query: string;
+  language?: JCRQueryLanguage;
+  limit?: number;
+  offset?: number;
+  columns?: string[];
+  timeoutMs?: number;
+}
+
+export interface AssetPathRequest {
+  assetPath: string;
+}
+
+export interface UpdateImagePathRequest {
+  componentPath: string;
+  newImagePath: string;
+}
+
+export interface UndoChangesRequest {
+  jobId: string;
+  /** Content path for restoring a version name given as jobId, when it is not a journal job */
+  path?: string;
+  /** Restore even where content changed after the job ran */
+  force?: boolean;
+}
+
+export interface JournalNodeSnapshot {
+  path: string;
+  existed: boolean;
+  /** Node tree as returned by .infinity.json before the change */
+  content?: Record<string, unknown>;
+  /** Name of the following sibling, so a restored node keeps its position */
+  orderBefore?: string;
+  /** Hash of the node tree right after the change, used to detect later edits */
+  afterHash?: string;
+}
+
+export type JournalEntryStatus = 'pending' | 'applied' | 'failed' | 'undone';
+
+export interface JournalEntry {
+  jobId: string;
+  tool: string;
+  args: Record<string, unknown>;
+  createdAt: string;
+  status: JournalEntryStatus;
+  paths: string[];
+  snapshots: JournalNodeSnapshot[];
+  /** Environment profile the change was made in; undo runs only there */
+  environment?: string;
+  /** Subject of the authenticated caller that made the change; only it may undo it */
+  createdBy?: string;
+  error?: string;
+  undoneAt?: string;
+}
+
+export type AuditOutcome = 'success' | 'failure';
+
+/**
+ * One executed write, as appended to the audit trail. hash covers every other field, and
+ * prevHash links the entry to the one before it.
+ */
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  requestId?: string;
+  user: string;
+  authType?: AuthType;
+  tool: string;
+  category: string;
+  environment?: string;
+  paths: string[];
+  params: Record<string, unknown>;
+  outcome: AuditOutcome;
+  result?: unknown;
+  error?: { code: string; message: string };
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditRecord = Omit<AuditEntry, 'seq' | 'timestamp' | 'prevHash' | 'hash'>;
+
+export interface AuditLogRequest {
+  user?: string;
+  /** Entries touching this path or a node below it */
+  path?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  /** ISO timestamps bounding the entries, inclusive */
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface AuditIntegrity {
+  valid: boolean;
+  checked: number;
+  /** Sequence number of the first entry whose hash or link does not match */
+  brokenAt?: number;
+}
+
+export interface AuditLogResponse extends BaseResponse {
+  data: {
+    entries: AuditEntry[];
+    total: number;
+    integrity: AuditIntegrity;
+  };
+}
+
+/**
+ * One named AEM environment in the environments file. String values may reference
+ * process environment variables as ${NAME}, so credentials need not be stored in the file.
+ */
+export interface EnvironmentDefinition {
+  description?: string;
+  author: string;
+  publish?: string;
+  /** Publish instances replication reports on; defaults to [publish] */
+  publisherUrls?: string[];
+  serviceUser: {
+    username: string;
+    password: string;
+  };
+  /** Content roots paths are validated against; unset roots keep the AEM_* defaults */
+  contentPaths?: Partial<AEMConfig['contentPaths']>;
+  /** Refuse every write, e.g. for production */
+  readOnly?: boolean;
+}
+
+export interface EnvironmentsFile {
+  /** Environment used when a call names none; defaults to the first */
+  default?: string;
+  environments: Record<string, EnvironmentDefinition>;
+}
+
+export interface EndpointStatus {
+  url: string;
+  reachable: boolean;
+  statusCode?: number;
+  latencyMs?: number;
+  /** Whether AEM accepted the environment's credentials; checked on author only */
+  authenticated?: boolean;
+  /** State of the host's circuit breaker, once it has been contacted */
+  circuit?: string;
+  error?: string;
+}
+
+export interface EnvironmentStatus {
+  name: string;
+  description?: string;
+  default: boolean;
+  readOnly: boolean;
+  contentPaths: AEMConfig['contentPaths'];
+  author: EndpointStatus;
+  publish?: EndpointStatus;
+}
+
+export interface ListEnvironmentsResponse extends BaseResponse {
+  data: {
+    environments: EnvironmentStatus[];
+    default: string;
+  };
+}
+
+export interface PackageFilterRule {
+  modifier: 'include' | 'exclude';
+  /** Regular expression matched against the paths below the filter root */
+  pattern: string;
+}
+
+export interface PackageFilter {
+  /** Filter root */
+  path: string;
+  rules?: PackageFilterRule[];
+}
+
+export interface PackageInfo {
+  /** Repository path of the package zip, which identifies it to the other package tools */
+  path: string;
+  name: string;
+  group: string;
+  version?: string;
+  description?: string;
+  downloadName: string;
+  size?: number;
+  created?: string;
+  lastModified?: string;
+  /** When the package was last built; unbuilt packages cannot be downloaded or installed */
+  lastWrapped?: string;
+  /** When the package was last installed; absent while it is not installed */
+  lastUnpacked?: string;
+  filters: PackageFilter[];
+}
+
+export type PackageAccessControlHandling = 'ignore' | 'overwrite' | 'merge' | 'merge_preserve' | 'clear';
+
+export interface ListPackagesRequest {
+  group?: string;
+  /** Text matched against package names, groups and descriptions */
+  query?: string;
+}
+
+export interface ListPackagesResponse extends BaseResponse {
+  data: {
+    packages: PackageInfo[];
+    total: number;
+  };
+}
+
+export interface CreatePackageRequest {
+  packageName: string;
+  groupName?: string;
+  version?: string;
+  description?: string;
+  filters: PackageFilter[];
+}
+
+export interface PackagePathRequest {
+  packagePath: string;
+}
+
+export interface DownloadPackageRequest extends PackagePathRequest {
+  /** Name of the file written to the packages directory; defaults to the package's download name */
+  fileName?: string;
+}
+
+export interface UploadPackageRequest {
+  /** Name of a zip in the packages directory */
+  fileName: string;
+  /** Replace a package with the same name, group and version */
+  force?: boolean;
+}
+
+export interface InstallPackageRequest extends PackagePathRequest {
+  /** How access control entries in the package are applied; defaults to the package's own setting */
+  acHandling?: PackageAccessControlHandling;
+  /** Also install packages contained in this one */
+  recursive?: boolean;
+}
+
+export interface PackageResponse extends BaseResponse {
+  data: {
+    packagePath: string;
+    message: string;
+    package?: PackageInfo;
+    /** Local file a package was downloaded to or uploaded from */
+    localPath?: string;
+    durationMs: number;
+  };
+}
+
+export interface ExportContentPackageRequest {
+  /** Root of the subtree; it becomes the package's only filter root */
+  path: string;
+  /** Name of the zip written to the packages directory; defaults to <packageName>-<version>.zip */
+  fileName?: string;
+  /** Defaults to the last segment of path */
+  packageName?: string;
+  groupName?: string;
+  version?: string;
+  description?: string;
+}
+
+export interface ExportContentPackageResponse extends BaseResponse {
+  data: {
+    path: string;
+    localPath: string;
+    nodes: number;
+    /** .content.xml files written; pages and folders get one each */
+    files: number;
+    bytes: number;
+    /** Binary properties, which are not exported */
+    omittedBinaries: string[];
+    /** Prefixes without a known namespace URI; they are declared with placeholder URIs */
+    unknownNamespaces: string[];
+  };
+}
+
+/**
+ * replace deletes each filter root before writing the package's content, as an install does;
+ * merge writes the package's nodes and properties and leaves everything else in place
+ */
+export type ContentPackageImportMode = 'replace' | 'merge';
+
+export interface ImportContentPackageRequest {
+  /** Name of a zip in the packages directory */
+  fileName: string;
+  mode?: ContentPackageImportMode;
+}
+
+export interface ImportContentPackageResponse extends BaseResponse {
+  data: {
+    fileName: string;
+    mode: ContentPackageImportMode;
+    roots: string[];
+    nodes: number;
+    /** Filter roots deleted because the package holds no content for them */
+    deleted: string[];
+    /** Binary properties and files, which are not imported */
+    omittedBinaries: string[];
+    skippedFiles: string[];
+  };
+}
+
+/** Instance of an environment: its author, or the publish instance at its publish URL */
+export type EnvironmentTier = 'author' | 'publish';
+
+export interface PropertyDifference {
+  property: string;
+  type: 'added' | 'removed' | 'modified';
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+/**
+ * How a target node differs from the source: added nodes exist only in the source, removed
+ * nodes only in the target; for modified nodes oldValue is the target's and newValue the source's
+ */
+export interface NodeDifference {
+  path: string;
+  type: 'added' | 'removed' | 'modified';
+  properties?: PropertyDifference[];
+}
+
+export interface EnvironmentEndpoint {
+  environment: string;
+  tier: EnvironmentTier;
+}
+
+export interface DiffEnvironmentsRequest {
+  path: string;
+  /** Environment holding the wanted content; defaults to the call's environment */
+  source?: string;
+  sourceTier?: EnvironmentTier;
+  /** Environment compared with it; defaults to the call's environment */
+  target?: string;
+  targetTier?: EnvironmentTier;
+  /** Properties to leave out of the comparison, on top of timestamps and replication status */
+  ignoreProperties?: string[];
+}
+
+export interface DiffEnvironmentsResponse extends BaseResponse {
+  data: {
+    path: string;
+    source: EnvironmentEndpoint;
+    target: EnvironmentEndpoint;
+    differences: NodeDifference[];
+    summary: {
+      added: number;
+      removed: number;
+      modified: number;
+      properties: number;
+    };
+  };
+}
+
+/** Promotion writes to the author of the call's environment */
+export interface PromoteContentRequest {
+  path: string;
+  source: string;
+  sourceTier?: EnvironmentTier;
+  /** Nodes to promote, each with everything below it; defaults to every difference under path */
+  paths?: string[];
+  /** Also delete nodes that exist only in the target */
+  includeRemovals?: boolean;
+  ignoreProperties?: string[];
+  /** Required to write; review the promotion with dryRun first */
+  confirm?: boolean;
+}
+
+export interface PromoteContentResponse extends BaseResponse {
+  data: {
+    path: string;
+    source: EnvironmentEndpoint;
+    target: EnvironmentEndpoint;
+    promoted: NodeDifference[];
+    /** Nodes only in the target, left alone because includeRemovals was not set */
+    skippedRemovals: string[];
+    /** Binary properties, which cannot be copied through JSON */
+    omittedBinaries: string[];
+  };
+}
+
+export interface SiteRequest {
+  site: string;
+}
+
+export interface AvailableLocalesRequest {
+  site: string;
+  languageMasterPath: string;
+}
+
+export interface ReplicateAndPublishRequest {
+  selectedLocales: string[];
+  componentData: Record<string, unknown>;
+  localizedOverrides?: Record<string, unknown>;
+}
+
+export interface TemplatesParams {
+  sitePath?: string;
+}
+
+export interface TemplateStructureRequest {
+  templatePath: string;
+}
+
+export interface AvailableTemplatesRequest {
+  parentPath: string;
+}
+
+export interface WorkflowIdRequest {
+  workflowId: string;
+}
+
+export interface ListActiveWorkflowsParams {
+  limit?: number;
+}
+
+export interface CompleteWorkflowStepRequest {
+  workflowId: string;
+  stepName: string;
+  comment?: string;
+}
+
+export interface WorkflowReasonRequest {
+  workflowId: string;
+  reason?: string;
+}
+
+export interface VersionPathRequest {
+  path: string;
+}
+
+export interface CreateVersionRequest {
+  path: string;
+  label?: string;
+  comment?: string;
+}
+
+export interface VersionNameRequest {
+  path: string;
+  versionName: string;
+}
+
+export interface CompareVersionsRequest {
+  path: string;
+  version1: string;
+  version2: string;
+}
+
 // Response Types
 export interface BaseResponse {
   success: boolean;
@@ -355,6 +1298,99 @@ export interface DeleteResponse extends BaseResponse {
   };
 }
 
+export interface UndoConflict {
+  path: string;
+  reason: string;
+}
+
+export interface UndoChangesResponse extends BaseResponse {
+  data: {
+    jobId: string;
+    tool: string;
+    restored: string[];
+    unchanged: string[];
+    conflicts: UndoConflict[];
+    omittedBinaries: string[];
+    complete: boolean;
+  };
+}
+
+export interface PlannedRequest {
+  method: string;
+  url: string;
+  params?: Record<string, unknown>;
+  body?: unknown;
+  affectedPaths: string[];
+}
+
+export interface PropertyChange {
+  name: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface PlannedNodeChange {
+  path: string;
+  change: 'create' | 'update' | 'delete' | 'command';
+  /** Servlet and command for changes made through /bin servlets, e.g. "/bin/replicate.json Activate" */
+  command?: string;
+  properties: PropertyChange[];
+}
+
+export interface ChangePlanResponse extends BaseResponse {
+  data: {
+    planId: string;
+    tool: string;
+    args: Record<string, unknown>;
+    dryRun: true;
+    requests: PlannedRequest[];
+    affectedPaths: string[];
+    changes: PlannedNodeChange[];
+    expiresAt: string;
+  };
+}
+
+export interface ApplyPlanRequest {
+  planId: string;
+}
+
+export interface ApplyPlanResponse extends BaseResponse {
+  data: {
+    planId: string;
+    tool: string;
+    executed: number;
+    affectedPaths: string[];
+  };
+}
+
+export interface PageReference {
+  path: string;
+  title?: string;
+  references: string[];
+  published: boolean;
+}
+
+export interface PageRelocationResponse extends BaseResponse {
+  data: {
+    sourcePath: string;
+    destinationPath: string;
+    movedPages: string[];
+    referencingPages: PageReference[];
+    adjustedPages: string[];
+    republishedPages: string[];
+    skippedReferences: PageReference[];
+    redirect?: { path: string; target: string };
+  };
+}
+
+export interface CopyPageResponse extends BaseResponse {
+  data: {
+    sourcePath: string;
+    destinationPath: string;
+    copiedPages: string[];
+  };
+}
+
 export interface ListPagesResponse extends BaseResponse {
   data: {
     siteRoot: string;
@@ -480,6 +1516,10 @@ export interface AssetResponse extends BaseResponse {
     metadata?: Record<string, unknown>;
     uploadResponse?: unknown;
     assetData?: Record<string, unknown>;
+    uploadMode?: AssetUploadMode;
+    size?: number;
+    /** SHA-1 of the uploaded content, checked against what AEM stored */
+    sha1?: string;
     timestamp: string;
   };
 }
@@ -501,11 +1541,31 @@ export interface SearchResponse extends BaseResponse {
   };
 }
 
+export interface QueryBuilderResponse extends BaseResponse {
+  data: {
+    params: Record<string, string>;
+    hits: Array<Record<string, unknown>>;
+    total: number;
+    totalIsGuess: boolean;
+    offset: number;
+    limit: number;
+    hasMore: boolean;
+    nextCursor?: string;
+  };
+}
+
 export interface JCRQueryResponse {
   query: string;
+  language: JCRQueryLanguage;
+  scope: string[];
+  columns: string[];
   results: Array<Record<string, unknown>>;
-  total: number;
+  count: number;
+  offset: number;
   limit: number;
+  limitCapped: boolean;
+  hasMore: boolean;
+  nextOffset?: number;
 }
 
 export interface TemplatesResponse extends BaseResponse {
@@ -698,7 +1758,7 @@ export interface IAssetService {
 
 export interface ISearchService {
   searchWithFallback(params: SearchContentParams): Promise<SearchResponse>;
-  executeWithValidation(query: string, limit?: number): Promise<JCRQueryResponse>;
+  executeWithValidation(params: JCRQueryParams): Promise<JCRQueryResponse>;
 }
 
 export interface ITemplateService {
@@ -0,0 +1,833 @@
+/**
+ * Request Schemas
+ * JSON schemas for tool arguments, typed against the request interfaces so that a field
+ * added to or removed from an interface fails the build until its schema is updated
+ */
+
+import {
+  ActivatePageRequest,
+  ApplyPlanRequest,
+  AuditLogRequest,
+  AssetPathRequest,
+  AvailableLocalesRequest,
+  AvailableTemplatesRequest,
+  BulkUpdateComponentsRequest,
+  CompareVersionsRequest,
+  CompleteWorkflowStepRequest,
+  CopyPageRequest,
+  CreateAssetFolderRequest,
+  CreateComponentRequest,
+  CreatePackageRequest,
+  CreatePageRequest,
+  CreateVersionRequest,
+  DeactivatePageRequest,
+  DeleteAssetFolderRequest,
+  DeleteAssetRequest,
+  DeleteRenditionsRequest,
+  DeleteComponentRequest,
+  DeletePageRequest,
+  DiffEnvironmentsRequest,
+  DownloadPackageRequest,
+  DownloadRenditionRequest,
+  EnhancedSearchParams,
+  ExportAssetMetadataRequest,
+  ExportContentPackageRequest,
+  ImportAssetMetadataRequest,
+  ImportContentPackageRequest,
+  InstallPackageRequest,
+  JCRQueryParams,
+  ListActiveWorkflowsParams,
+  ListChildrenParams,
+  ListPackagesRequest,
+  ListPagesParams,
+  MoveAssetFolderRequest,
+  MovePageRequest,
+  NodeContentParams,
+  PackagePathRequest,
+  PagePathRequest,
+  PromoteContentRequest,
+  QueryBuilderRequest,
+  RenameAssetFolderRequest,
+  RenamePageRequest,
+  ReprocessAssetRequest,
+  ReplicateAndPublishRequest,
+  SearchContentParams,
+  SiteRequest,
+  TemplatesParams,
+  UnusedAssetsRequest,
+  TemplateStructureRequest,
+  UndoChangesRequest,
+  UnpublishContentRequest,
+  UpdateAssetRequest,
+  UpdateComponentRequest,
+  UpdateImagePathRequest,
+  UploadAssetRequest,
+  UploadFolderRequest,
+  UploadPackageRequest,
+  UploadRenditionRequest,
+  ValidateComponentRequest,
+  VersionNameRequest,
+  VersionPathRequest,
+  WorkflowIdRequest,
+  WorkflowReasonRequest
+} from './index.js';
+import { WorkflowRequest } from '../operations/workflow-operations.js';
+import { SchemaFor } from '../validation.js';
+
+const contentPath = (description: string) => ({ type: 'string', minLength: 1, description });
+const properties = { type: 'object', description: 'JSON object of JCR property names to values' };
+
+export const EmptyParamsSchema: SchemaFor<Record<string, never>> = {
+  type: 'object',
+  properties: {},
+};
+
+export const PagePathRequestSchema: SchemaFor<PagePathRequest> = {
+  type: 'object',
+  properties: {
+    pagePath: contentPath('Full path to the AEM page, e.g. /content/mysite/en/home'),
+  },
+  required: ['pagePath'],
+};
+
+const relocationOptions = {
+  adjustReferences: { type: 'boolean', default: true, description: 'Rewrite references to the page in other pages' },
+  createRedirect: { type: 'boolean', default: false, description: 'Leave a page at the old path that redirects to the new one' },
+  republishReferences: { type: 'boolean', default: false, description: 'Republish referencing pages that are already published after rewriting them' },
+};
+
+export const MovePageRequestSchema: SchemaFor<MovePageRequest> = {
+  type: 'object',
+  properties: {
+    pagePath: contentPath('Page to move'),
+    destParentPath: contentPath('New parent page'),
+    newName: { type: 'string', minLength: 1, description: 'Page name at the destination; defaults to the current name' },
+    newTitle: { type: 'string', description: 'New page title' },
+    ...relocationOptions,
+  },
+  required: ['pagePath', 'destParentPath'],
+};
+
+export const RenamePageRequestSchema: SchemaFor<RenamePageRequest> = {
+  type: 'object',
+  properties: {
+    pagePath: contentPath('Page to rename'),
+    newName: { type: 'string', minLength: 1, description: 'New page name (URL segment)' },
+    newTitle: { type: 'string', description: 'New page title' },
+    ...relocationOptions,
+  },
+  required: ['pagePath', 'newName'],
+};
+
+export const CopyPageRequestSchema: SchemaFor<CopyPageRequest> = {
+  type: 'object',
+  properties: {
+    pagePath: contentPath('Page to copy'),
+    destParentPath: contentPath('Parent page for the copy'),
+    newName: { type: 'string', minLength: 1, description: 'Name of the copy; defaults to the source name' },
+    newTitle: { type: 'string', description: 'Title of the copy' },
+    shallow: { type: 'boolean', default: false, description: 'Copy the page without its child pages' },
+  },
+  required: ['pagePath', 'destParentPath'],
+};
+
+export const CreatePageRequestSchema: SchemaFor<CreatePageRequest> = {
+  type: 'object',
+  properties: {
+    parentPath: contentPath('Parent path where the page will be created'),
+    title: { type: 'string', minLength: 1, description: 'Page title' },
+    template: { type: 'string', description: 'Template path; auto-selected from the allowed templates when omitted' },
+    name: { type: 'string', description: 'Page name (URL segment); derived from the title when omitted' },
+    properties: { ...properties, description: 'Additional jcr:content properties' },
+  },
+  required: ['parentPath', 'title'],
+};
+
+export const DeletePageRequestSchema: SchemaFor<DeletePageRequest> = {
+  type: 'object',
+  properties: {
+    pagePath: contentPath('Path of the page to delete'),
+    force: { type: 'boolean', description: 'Delete even if the page is referenced' },
+  },
+  required: ['pagePath'],
+};
+
+export const ListPagesParamsSchema: SchemaFor<ListPagesParams> = {
+  type: 'object',
+  properties: {
+    siteRoot: { type: 'string', description: 'Root path to list from (defaults to /content)' },
+    path: { type: 'string', description: 'Alias of siteRoot' },
+    depth: { type: 'integer', minimum: 1, description: 'Maximum depth to traverse (default 1)' },
+    limit: { type: 'integer', minimum: 1, description: 'Maximum number of pages (default 20)' },
+  },
+};
+
+export const CreateComponentRequestSchema: SchemaFor<CreateComponentRequest> = {
+  type: 'object',
+  properties: {
+    pagePath: contentPath('Page the component is added to'),
+    componentType: { type: 'string', minLength: 1, description: 'Component type, e.g. text' },
+    resourceType: { type: 'string', minLength: 1, description: 'sling:resourceType of the component' },
+    properties,
+    name: { type: 'string', description: 'Node name; generated when omitted' },
+  },
+  required: ['pagePath', 'componentType', 'resourceType'],
+};
+
+export const UpdateComponentRequestSchema: SchemaFor<UpdateComponentRequest> = {
+  type: 'object',
+  properties: {
+    componentPath: contentPath('Full path to the component node'),
+    properties,
+  },
+  required: ['componentPath', 'properties'],
+};
+
+export const DeleteComponentRequestSchema: SchemaFor<DeleteComponentRequest> = {
+  type: 'object',
+  properties: {
+    componentPath: contentPath('Full path to the component node'),
+    force: { type: 'boolean', description: 'Delete without further checks' },
+  },
+  required: ['componentPath'],
+};
+
+export const ValidateComponentRequestSchema: SchemaFor<ValidateComponentRequest> = {
+  type: 'object',
+  properties: {
+    locale: { type: 'string', minLength: 1, description: 'Locale of the page, e.g. en' },
+    pagePath: contentPath('Page containing the component'),
+    component: { type: 'string', minLength: 1, description: 'Component type to validate' },
+    props: { type: 'object', description: 'Proposed component properties' },
+  },
+  required: ['locale', 'pagePath', 'component', 'props'],
+};
+
+export const BulkUpdateComponentsRequestSchema: SchemaFor<BulkUpdateComponentsRequest> = {
+  type: 'object',
+  properties: {
+    updates: {
+      type: 'array',
+      minItems: 1,
+      description: 'Component updates to apply',
+      items: UpdateComponentRequestSchema,
+    },
+    validateFirst: { type: 'boolean', description: 'Check every component exists before updating' },
+    continueOnError: { type: 'boolean', description: 'Keep going after a failed update' },
+  },
+  required: ['updates'],
+};
+
+export const UpdateImagePathRequestSchema: SchemaFor<UpdateImagePathRequest> = {
+  type: 'object',
+  properties: {
+    componentPath: contentPath('Image component path'),
+    newImagePath: contentPath('New DAM asset path'),
+  },
+  required: ['componentPath', 'newImagePath'],
+};
+
+export const ApplyPlanRequestSchema: SchemaFor<ApplyPlanRequest> = {
+  type: 'object',
+  properties: {
+    planId: { type: 'string', minLength: 1, description: 'planId returned by a mutating tool called with dryRun' },
+  },
+  required: ['planId'],
+};
+
+export const AuditLogRequestSchema: SchemaFor<AuditLogRequest> = {
+  type: 'object',
+  properties: {
+    user: { type: 'string', description: 'Caller subject, or anonymous for unauthenticated callers' },
+    path: { type: 'string', description: 'Entries touching this path or a node below it' },
+    tool: { type: 'string', description: 'Tool name' },
+    outcome: { type: 'string', enum: ['success', 'failure'] },
+    from: { type: 'string', description: 'ISO timestamp; entries at or after it' },
+    to: { type: 'string', description: 'ISO timestamp; entries at or before it' },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100, description: 'Newest entries to return' },
+  },
+};
+
+const environmentTier = { type: 'string', enum: ['author', 'publish'], default: 'author', description: 'author, or the publish URL of the environment' };
+const ignoreProperties = { type: 'array', items: { type: 'string' }, description: 'Properties to leave out of the comparison; timestamps and replication status are always left out' };
+
+export const DiffEnvironmentsRequestSchema: SchemaFor<DiffEnvironmentsRequest> = {
+  type: 'object',
+  properties: {
+    path: contentPath('Root of the subtree to compare'),
+    source: { type: 'string', description: 'Environment holding the wanted content; defaults to the call environment' },
+    sourceTier: environmentTier,
+    target: { type: 'string', description: 'Environment to compare with it; defaults to the call environment' },
+    targetTier: environmentTier,
+    ignoreProperties,
+  },
+  required: ['path'],
+};
+
+export const PromoteContentRequestSchema: SchemaFor<PromoteContentRequest> = {
+  type: 'object',
+  properties: {
+    path: contentPath('Root of the subtree to promote'),
+    source: { type: 'string', minLength: 1, description: 'Environment to copy from; content is written to the call environment' },
+    sourceTier: environmentTier,
+    paths: { type: 'array', items: { type: 'string' }, description: 'Differences to promote, each with everything below it; defaults to all under path' },
+    includeRemovals: { type: 'boolean', default: false, description: 'Also delete nodes that exist only in the target' },
+    ignoreProperties,
+    confirm: { type: 'boolean', default: false, description: 'Required to write; review the promotion with dryRun first' },
+  },
+  required: ['path', 'source'],
+};
+
+const packagePath = { type: 'string', pattern: '^/etc/packages/.+\\.zip$', description: 'Package path, e.g. /etc/packages/my_packages/site-content-1.0.zip' };
+
+export const ListPackagesRequestSchema: SchemaFor<ListPackagesRequest> = {
+  type: 'object',
+  properties: {
+    group: { type: 'string', description: 'Only packages in this group' },
+    query: { type: 'string', description: 'Text matched against package names, groups and descriptions' },
+  },
+};
+
+export const CreatePackageRequestSchema: SchemaFor<CreatePackageRequest> = {
+  type: 'object',
+  properties: {
+    packageName: { type: 'string', minLength: 1, description: 'Package name' },
+    groupName: { type: 'string', minLength: 1, default: 'my_packages', description: 'Package group' },
+    version: { type: 'string', minLength: 1, description: 'Package version' },
+    description: { type: 'string', description: 'Package description' },
+    filters: {
+      type: 'array',
+      minItems: 1,
+      description: 'Filter roots with optional include/exclude rules',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', minLength: 1, description: 'Filter root' },
+          rules: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                modifier: { type: 'string', enum: ['include', 'exclude'] },
+                pattern: { type: 'string', minLength: 1, description: 'Regular expression matched against paths below the root' },
+              },
+              required: ['modifier', 'pattern'],
+            },
+          },
+        },
+        required: ['path'],
+      },
+    },
+  },
+  required: ['packageName', 'filters'],
+};
+
+export const PackagePathRequestSchema: SchemaFor<PackagePathRequest> = {
+  type: 'object',
+  properties: {
+    packagePath,
+  },
+  required: ['packagePath'],
+};
+
+export const DownloadPackageRequestSchema: SchemaFor<DownloadPackageRequest> = {
+  type: 'object',
+  properties: {
+    packagePath,
+    fileName: { type: 'string', minLength: 1, description: 'Zip file name in the packages directory; defaults to the package file name' },
+  },
+  required: ['packagePath'],
+};
+
+export const UploadPackageRequestSchema: SchemaFor<UploadPackageRequest> = {
+  type: 'object',
+  properties: {
+    fileName: { type: 'string', minLength: 1, description: 'Zip file name in the packages directory' },
+    force: { type: 'boolean', default: false, description: 'Replace a package with the same name, group and version' },
+  },
+  required: ['fileName'],
+};
+
+export const InstallPackageRequestSchema: SchemaFor<InstallPackageRequest> = {
+  type: 'object',
+  properties: {
+    packagePath,
+    acHandling: {
+      type: 'string',
+      enum: ['ignore', 'overwrite', 'merge', 'merge_preserve', 'clear'],
+      description: 'How access control entries in the package are applied; defaults to the package setting',
+    },
+    recursive: { type: 'boolean', description: 'Also install packages contained in this one' },
+  },
+  required: ['packagePath'],
+};
+
+export const ExportContentPackageRequestSchema: SchemaFor<ExportContentPackageRequest> = {
+  type: 'object',
+  properties: {
+    path: contentPath('Root of the subtree to export'),
+    fileName: { type: 'string', minLength: 1, description: 'Zip file name in the packages directory; defaults to <packageName>-<version>.zip' },
+    packageName: { type: 'string', minLength: 1, description: 'Package name; defaults to the last segment of path' },
+    groupName: { type: 'string', minLength: 1, default: 'my_packages', description: 'Package group' },
+    version: { type: 'string', minLength: 1, description: 'Package version' },
+    description: { type: 'string', description: 'Package description' },
+  },
+  required: ['path'],
+};
+
+export const ImportContentPackageRequestSchema: SchemaFor<ImportContentPackageRequest> = {
+  type: 'object',
+  properties: {
+    fileName: { type: 'string', minLength: 1, description: 'Zip file name in the packages directory' },
+    mode: {
+      type: 'string',
+      enum: ['replace', 'merge'],
+      default: 'replace',
+      description: 'replace deletes each filter root before writing it; merge keeps content the package does not hold',
+    },
+  },
+  required: ['fileName'],
+};
+
+export const UndoChangesRequestSchema: SchemaFor<UndoChangesRequest> = {
+  type: 'object',
+  properties: {
+    jobId: { type: 'string', minLength: 1, description: 'jobId returned by a mutating tool (or a version name together with path)' },
+    path: { type: 'string', description: 'Content path whose version named by jobId should be restored; only used when jobId is not a journal job' },
+    force: { type: 'boolean', default: false, description: 'Restore even nodes that changed after the job ran' },
+  },
+  required: ['jobId'],
+};
+
+export const UploadAssetRequestSchema: SchemaFor<UploadAssetRequest> = {
+  type: 'object',
+  properties: {
+    parentPath: contentPath('DAM folder to upload into'),
+    fileName: { type: 'string', minLength: 1, description: 'Name of the file to create' },
+    fileContent: { type: 'string', description: 'Base64 encoded file content; give this or localFile' },
+    localFile: { type: 'string', minLength: 1, description: 'File in the uploads directory (MCP_UPLOADS_DIR), for large files' },
+    mimeType: { type: 'string', description: 'MIME type of the file; guessed from the extension when omitted' },
+    metadata: { type: 'object', description: 'Asset metadata properties' },
+  },
+  required: ['parentPath', 'fileName'],
+};
+
+export const UpdateAssetRequestSchema: SchemaFor<UpdateAssetRequest> = {
+  type: 'object',
+  properties: {
+    assetPath: contentPath('Path to the asset in DAM'),
+    metadata: { type: 'object', description: 'Asset metadata properties' },
+    fileContent: { type: 'string', description: 'Base64 encoded replacement content' },
+    mimeType: { type: 'string', description: 'MIME type of the replacement content' },
+  },
+  required: ['assetPath'],
+};
+
+export const DeleteAssetRequestSchema: SchemaFor<DeleteAssetRequest> = {
+  type: 'object',
+  properties: {
+    assetPath: contentPath('Path to the asset in DAM'),
+    force: { type: 'boolean', description: 'Delete even when pages reference the asset' },
+  },
+  required: ['assetPath'],
+};
+
+export const AssetPathRequestSchema: SchemaFor<AssetPathRequest> = {
+  type: 'object',
+  properties: {
+    assetPath: contentPath('Path to the asset in DAM'),
+  },
+  required: ['assetPath'],
+};
+
+export const CreateAssetFolderRequestSchema: SchemaFor<CreateAssetFolderRequest> = {
+  type: 'object',
+  properties: {
+    parentPath: contentPath('DAM folder to create the folder in'),
+    name: { type: 'string', minLength: 1, description: 'Node name of the new folder' },
+    title: { type: 'string', description: 'Folder title; defaults to the name' },
+  },
+  required: ['parentPath', 'name'],
+};
+
+export const MoveAssetFolderRequestSchema: SchemaFor<MoveAssetFolderRequest> = {
+  type: 'object',
+  properties: {
+    folderPath: contentPath('DAM folder to move'),
+    destParentPath: contentPath('DAM folder to move it into'),
+    newName: { type: 'string', minLength: 1, description: 'Node name at the destination; defaults to the current name' },
+    newTitle: { type: 'string', description: 'New folder title' },
+  },
+  required: ['folderPath', 'destParentPath'],
+};
+
+export const RenameAssetFolderRequestSchema: SchemaFor<RenameAssetFolderRequest> = {
+  type: 'object',
+  properties: {
+    folderPath: contentPath('DAM folder to rename'),
+    newName: { type: 'string', minLength: 1, description: 'New node name' },
+    newTitle: { type: 'string', description: 'New folder title' },
+  },
+  required: ['folderPath', 'newName'],
+};
+
+export const DeleteAssetFolderRequestSchema: SchemaFor<DeleteAssetFolderRequest> = {
+  type: 'object',
+  properties: {
+    folderPath: contentPath('DAM folder to delete'),
+    force: { type: 'boolean', default: false, description: 'Delete the folder even when it holds assets or folders' },
+  },
+  required: ['folderPath'],
+};
+
+export const UploadFolderRequestSchema: SchemaFor<UploadFolderRequest> = {
+  type: 'object',
+  properties: {
+    localDir: { type: 'string', minLength: 1, description: 'Directory in the uploads directory (MCP_UPLOADS_DIR) to upload' },
+    parentPath: contentPath('DAM folder to upload into; created when missing'),
+    concurrency: { type: 'integer', minimum: 1, maximum: 16, default: 4, description: 'Files uploaded at a time' },
+    skipUnchanged: { type: 'boolean', default: true, description: 'Skip files whose SHA-1 matches the existing asset' },
+  },
+  required: ['localDir', 'parentPath'],
+};
+
+export const UnusedAssetsRequestSchema: SchemaFor<UnusedAssetsRequest> = {
+  type: 'object',
+  properties: {
+    folderPath: contentPath('DAM folder to check'),
+    recursive: { type: 'boolean', default: true, description: 'Include assets in subfolders' },
+  },
+  required: ['folderPath'],
+};
+
+const rendition = { type: 'string', minLength: 1, description: 'Rendition name, e.g. original or cq5dam.web.1280.1280.jpeg' };
+
+export const DownloadRenditionRequestSchema: SchemaFor<DownloadRenditionRequest> = {
+  type: 'object',
+  properties: {
+    assetPath: contentPath('Path to the asset in DAM'),
+    rendition,
+    fileName: { type: 'string', minLength: 1, description: 'File to write in the uploads directory (MCP_UPLOADS_DIR); derived from the asset and rendition names when omitted' },
+  },
+  required: ['assetPath', 'rendition'],
+};
+
+export const UploadRenditionRequestSchema: SchemaFor<UploadRenditionRequest> = {
+  type: 'object',
+  properties: {
+    assetPath: contentPath('Path to the asset in DAM'),
+    rendition: { type: 'string', minLength: 1, description: 'Name of the rendition to create or replace; not original' },
+    fileContent: { type: 'string', description: 'Base64 encoded rendition content; give this or localFile' },
+    localFile: { type: 'string', minLength: 1, description: 'File in the uploads directory (MCP_UPLOADS_DIR)' },
+    mimeType: { type: 'string', description: 'MIME type of the rendition; guessed from its name when omitted' },
+  },
+  required: ['assetPath', 'rendition'],
+};
+
+export const DeleteRenditionsRequestSchema: SchemaFor<DeleteRenditionsRequest> = {
+  type: 'object',
+  properties: {
+    assetPath: contentPath('Path to the asset in DAM'),
+    renditions: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, description: 'Names of the renditions to delete; the original cannot be deleted' },
+  },
+  required: ['assetPath', 'renditions'],
+};
+
+export const ReprocessAssetRequestSchema: SchemaFor<ReprocessAssetRequest> = {
+  type: 'object',
+  properties: {
+    assetPath: contentPath('Path to the asset in DAM'),
+    mode: { type: 'string', enum: ['workflow', 'processingProfile'], description: 'DAM Update Asset workflow or AEM as a Cloud Service processing profiles; chosen from the host when omitted' },
+    profile: { type: 'string', minLength: 1, default: 'full-process', description: 'Processing profile to run in processingProfile mode' },
+  },
+  required: ['assetPath'],
+};
+
+const csvOptions = {
+  separator: { type: 'string', minLength: 1, default: ',', description: 'Field separator, a single character' },
+  multiValueDelimiter: { type: 'string', minLength: 1, default: '|', description: 'Separator of the values of multi-value columns' },
+};
+
+export const ExportAssetMetadataRequestSchema: SchemaFor<ExportAssetMetadataRequest> = {
+  type: 'object',
+  properties: {
+    folderPath: contentPath('DAM folder whose assets to export'),
+    fields: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'Metadata properties to export, e.g. ["dc:title", "dc:subject"]; all when omitted' },
+    recursive: { type: 'boolean', default: true, description: 'Include assets in subfolders' },
+    fileName: { type: 'string', minLength: 1, description: 'Also write the CSV to this file in the uploads directory (MCP_UPLOADS_DIR)' },
+    ...csvOptions,
+  },
+  required: ['folderPath'],
+};
+
+export const ImportAssetMetadataRequestSchema: SchemaFor<ImportAssetMetadataRequest> = {
+  type: 'object',
+  properties: {
+    csv: { type: 'string', minLength: 1, description: 'CSV with an assetPath column and columns such as "dc:subject {{ String : multi }}"; give this or localFile' },
+    localFile: { type: 'string', minLength: 1, description: 'CSV file in the uploads directory (MCP_UPLOADS_DIR)' },
+    ...csvOptions,
+  },
+};
+
+export const SearchContentParamsSchema: SchemaFor<SearchContentParams> = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', description: 'JCR node type, e.g. cq:Page or dam:Asset' },
+    fulltext: { type: 'string', description: 'Text to search for' },
+    path: { type: 'string', description: 'Path to search under' },
+    limit: { type: 'integer', minimum: 1, description: 'Maximum number of results' },
+  },
+};
+
+const queryPredicate = {
+  type: 'object',
+  description: 'One predicate; the fields used depend on `predicate`',
+  properties: {
+    predicate: { type: 'string', enum: ['path', 'type', 'property', 'daterange', 'relativedaterange', 'tagid', 'fulltext', 'group'] },
+    path: { type: 'string', description: 'path: repository path to search under' },
+    exact: { type: 'boolean', description: 'path: match the path itself only' },
+    flat: { type: 'boolean', description: 'path: direct children only' },
+    self: { type: 'boolean', description: 'path: include the path node itself' },
+    nodeType: { type: 'string', description: 'type: node type, e.g. cq:Page or dam:Asset' },
+    property: { type: 'string', description: 'property/daterange/relativedaterange/tagid: relative property path, e.g. jcr:content/jcr:title' },
+    value: { type: ['string', 'number', 'boolean'], description: 'property: value to compare' },
+    values: { type: 'array', items: { type: ['string', 'number', 'boolean'] }, description: 'property: any of these values (all with and=true)' },
+    operation: { type: 'string', enum: ['equals', 'unequals', 'like', 'not', 'exists'], description: 'property: comparison (default equals)' },
+    and: { type: 'boolean', description: 'property/tagid: require all values instead of any' },
+    depth: { type: 'integer', minimum: 0, description: 'property: levels below the node to look for the property' },
+    lowerBound: { type: 'string', description: 'daterange: ISO date; relativedaterange: duration such as -7d' },
+    lowerOperation: { type: 'string', enum: ['>', '>='] },
+    upperBound: { type: 'string', description: 'daterange: ISO date; relativedaterange: duration such as 1w' },
+    upperOperation: { type: 'string', enum: ['<', '<='] },
+    tagIds: { type: 'array', items: { type: 'string' }, description: 'tagid: tag IDs such as we-retail:activity/hiking' },
+    text: { type: 'string', description: 'fulltext: search terms' },
+    relPath: { type: 'string', description: 'fulltext: relative path to restrict the search to' },
+    predicates: { type: 'array', items: { type: 'object' }, description: 'group: nested predicates' },
+    or: { type: 'boolean', description: 'group: match any nested predicate instead of all' },
+    not: { type: 'boolean', description: 'group: negate the group' },
+  },
+  required: ['predicate'],
+};
+
+export const QueryBuilderRequestSchema: SchemaFor<QueryBuilderRequest> = {
+  type: 'object',
+  properties: {
+    predicates: { type: 'array', items: queryPredicate, description: 'Predicates that must all match; use a group predicate for or/not. Required unless cursor is given' },
+    orderBy: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          property: { type: 'string', minLength: 1, description: 'Property to sort by (e.g. jcr:content/cq:lastModified), or path/nodename' },
+          sort: { type: 'string', enum: ['asc', 'desc'] },
+        },
+        required: ['property'],
+      },
+    },
+    limit: { type: 'integer', minimum: 1, description: 'Hits per page (default queries.defaultLimit, capped at queries.maxLimit)' },
+    guessTotal: { type: ['boolean', 'integer'], description: 'Stop counting after this many hits (true = page size) so large queries stay fast' },
+    hits: { type: 'string', enum: ['simple', 'full', 'selective'], description: 'Hit format; selective returns only `properties`' },
+    properties: { type: 'array', items: { type: 'string' }, description: 'Properties to return per hit; implies hits=selective' },
+    nodeDepth: { type: 'integer', minimum: 0, description: 'Child levels to include with hits=full' },
+    cursor: { type: 'string', description: 'nextCursor from a previous result; continues that query on the next page' },
+  },
+};
+
+export const EnhancedSearchParamsSchema: SchemaFor<EnhancedSearchParams> = {
+  type: 'object',
+  properties: {
+    searchTerm: { type: 'string', minLength: 1, description: 'Text to search for' },
+    basePath: contentPath('Path to search under'),
+    includeAlternateLocales: { type: 'boolean', description: 'Also search sibling locales' },
+  },
+  required: ['searchTerm', 'basePath'],
+};
+
+export const JCRQueryParamsSchema: SchemaFor<JCRQueryParams> = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', minLength: 1, description: 'Read-only JCR-SQL2 SELECT or /jcr:root XPath statement, scoped below a configured content root' },
+    language: { type: 'string', enum: ['JCR-SQL2', 'xpath'], default: 'JCR-SQL2', description: 'Query language' },
+    limit: { type: 'integer', minimum: 1, description: 'Rows per page (default queries.defaultLimit, capped at queries.maxLimit)' },
+    offset: { type: 'integer', minimum: 0, default: 0, description: 'Rows to skip, for paging' },
+    columns: { type: 'array', items: { type: 'string' }, description: 'Properties to return per row; defaults to the columns selected by the statement' },
+    timeoutMs: { type: 'integer', minimum: 1, description: 'Request timeout, capped at queries.timeoutMs' },
+  },
+  required: ['query'],
+};
+
+export const NodeContentParamsSchema: SchemaFor<NodeContentParams> = {
+  type: 'object',
+  properties: {
+    path: contentPath('JCR node path'),
+    depth: { type: 'integer', minimum: 0, description: 'Levels of children to include (default 1)' },
+  },
+  required: ['path'],
+};
+
+export const ListChildrenParamsSchema: SchemaFor<ListChildrenParams> = {
+  type: 'object',
+  properties: {
+    path: contentPath('JCR node path'),
+  },
+  required: ['path'],
+};
+
+export const ActivatePageRequestSchema: SchemaFor<ActivatePageRequest> = {
+  type: 'object',
+  properties: {
+    pagePath: contentPath('Page to activate'),
+    activateTree: { type: 'boolean', description: 'Also activate child pages' },
+  },
+  required: ['pagePath'],
+};
+
+export const DeactivatePageRequestSchema: SchemaFor<DeactivatePageRequest> = {
+  type: 'object',
+  properties: {
+    pagePath: contentPath('Page to deactivate'),
+    deactivateTree: { type: 'boolean', description: 'Also deactivate child pages' },
+  },
+  required: ['pagePath'],
+};
+
+export const UnpublishContentRequestSchema: SchemaFor<UnpublishContentRequest> = {
+  type: 'object',
+  properties: {
+    contentPaths: { type: 'array', minItems: 1, items: { type: 'string' }, description: 'Paths to unpublish' },
+    unpublishTree: { type: 'boolean', description: 'Also unpublish descendants' },
+  },
+  required: ['contentPaths'],
+};
+
+export const ReplicateAndPublishRequestSchema: SchemaFor<ReplicateAndPublishRequest> = {
+  type: 'object',
+  properties: {
+    selectedLocales: { type: 'array', minItems: 1, items: { type: 'string' }, description: 'Locales to publish to' },
+    componentData: { type: 'object', description: 'Component data to replicate' },
+    localizedOverrides: { type: 'object', description: 'Per-locale overrides' },
+  },
+  required: ['selectedLocales', 'componentData'],
+};
+
+export const SiteRequestSchema: SchemaFor<SiteRequest> = {
+  type: 'object',
+  properties: {
+    site: { type: 'string', minLength: 1, description: 'Site name' },
+  },
+  required: ['site'],
+};
+
+export const AvailableLocalesRequestSchema: SchemaFor<AvailableLocalesRequest> = {
+  type: 'object',
+  properties: {
+    site: { type: 'string', minLength: 1, description: 'Site name' },
+    languageMasterPath: contentPath('Language master root path'),
+  },
+  required: ['site', 'languageMasterPath'],
+};
+
+export const TemplatesParamsSchema: SchemaFor<TemplatesParams> = {
+  type: 'object',
+  properties: {
+    sitePath: { type: 'string', description: 'Site path whose /conf templates to list' },
+  },
+};
+
+export const TemplateStructureRequestSchema: SchemaFor<TemplateStructureRequest> = {
+  type: 'object',
+  properties: {
+    templatePath: contentPath('Template path under /conf'),
+  },
+  required: ['templatePath'],
+};
+
+export const AvailableTemplatesRequestSchema: SchemaFor<AvailableTemplatesRequest> = {
+  type: 'object',
+  properties: {
+    parentPath: contentPath('Parent page under which a new page would be created'),
+  },
+  required: ['parentPath'],
+};
+
+export const WorkflowRequestSchema: SchemaFor<WorkflowRequest> = {
+  type: 'object',
+  properties: {
+    model: { type: 'string', minLength: 1, description: 'Workflow model path or ID' },
+    payloadPath: contentPath('Payload path'),
+    title: { type: 'string', description: 'Workflow instance title' },
+    comment: { type: 'string', description: 'Start comment' },
+  },
+  required: ['model', 'payloadPath'],
+};
+
+export const WorkflowIdRequestSchema: SchemaFor<WorkflowIdRequest> = {
+  type: 'object',
+  properties: {
+    workflowId: { type: 'string', minLength: 1, description: 'Workflow instance ID' },
+  },
+  required: ['workflowId'],
+};
+
+export const ListActiveWorkflowsParamsSchema: SchemaFor<ListActiveWorkflowsParams> = {
+  type: 'object',
+  properties: {
+    limit: { type: 'integer', minimum: 1, description: 'Maximum number of workflows' },
+  },
+};
+
+export const CompleteWorkflowStepRequestSchema: SchemaFor<CompleteWorkflowStepRequest> = {
+  type: 'object',
+  properties: {
+    workflowId: { type: 'string', minLength: 1, description: 'Workflow instance ID' },
+    stepName: { type: 'string', minLength: 1, description: 'Step to complete' },
+    comment: { type: 'string', description: 'Completion comment' },
+  },
+  required: ['workflowId', 'stepName'],
+};
+
+export const WorkflowReasonRequestSchema: SchemaFor<WorkflowReasonRequest> = {
+  type: 'object',
+  properties: {
+    workflowId: { type: 'string', minLength: 1, description: 'Workflow instance ID' },
+    reason: { type: 'string', description: 'Reason recorded on the instance' },
+  },
+  required: ['workflowId'],
+};
+
+export const VersionPathRequestSchema: SchemaFor<VersionPathRequest> = {
+  type: 'object',
+  properties: {
+    path: contentPath('Versionable content path'),
+  },
+  required: ['path'],
+};
+
+export const CreateVersionRequestSchema: SchemaFor<CreateVersionRequest> = {
+  type: 'object',
+  properties: {
+    path: contentPath('Versionable content path'),
+    label: { type: 'string', description: 'Version label' },
+    comment: { type: 'string', description: 'Version comment' },
+  },
+  required: ['path'],
+};
+
+export const VersionNameRequestSchema: SchemaFor<VersionNameRequest> = {
+  type: 'object',
+  properties: {
+    path: contentPath('Versionable content path'),
+    versionName: { type: 'string', minLength: 1, description: 'Version name, e.g. 1.0' },
+  },
+  required: ['path', 'versionName'],
+};
+
+export const CompareVersionsRequestSchema: SchemaFor<CompareVersionsRequest> = {
+  type: 'object',
+  properties: {
+    path: contentPath('Versionable content path'),
+    version1: { type: 'string', minLength: 1, description: 'First version name' },
+    version2: { type: 'string', minLength: 1, description: 'Second version name' },
+  },
+  required: ['path', 'version1', 'version2'],
+};
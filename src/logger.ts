@@ -1,5 +1,6 @@
 import { writeFileSync, appendFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { runInRequest } from './request-context.js';
 
 export enum LogLevel {
   ERROR = 0,
@@ -84,6 +85,10 @@ export class Logger {
       if (entry.requestId) {
         message += ` [${entry.requestId}]`;
       }
+
+      if (entry.userId) {
+        message += ` [user:${entry.userId}]`;
+      }
       
       message += `: ${entry.message}`;
       
@@ -154,6 +159,10 @@ export class Logger {
       message,
       ...context
     };
+    // Entries of an authenticated request carry its caller
+    if (entry.requestId && !entry.userId) {
+      entry.userId = this.correlationMap.get(entry.requestId);
+    }
 
     this.writeToConsole(entry);
     this.writeToFile(entry);
@@ -335,10 +344,11 @@ export function loggingMiddleware(req: any, res: any, next: any): void {
   res.end = function(...args: any[]) {
     const duration = Date.now() - startTime;
     logger.httpRequest(req.method, req.url, res.statusCode, duration, requestId);
+    logger.clearCorrelation(requestId);
     originalEnd.apply(res, args);
   };
   
-  next();
+  runInRequest(requestId, next);
 }
 
 export default logger;
\ No newline at end of file
@@ -0,0 +1,188 @@
+/**
+ * MCP HTTP Transport Module
+ * Serves the MCP protocol over Streamable HTTP (with an SSE fallback for older clients)
+ * so remote clients can share one gateway deployment instead of running a local stdio process
+ */
+
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AEMConnector } from './aem-connector.js';
+import { createMCPServer } from './mcp-server-factory.js';
+import { PromptProvider } from './mcp-prompts.js';
+import { ToolRegistry } from './tool-registry.js';
+import { logger } from './logger.js';
+
+interface MCPSession {
+  id: string;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  type: 'streamable-http' | 'sse';
+  createdAt: string;
+}
+
+export interface MCPSessionStats {
+  active: number;
+  byTransport: Record<'streamable-http' | 'sse', number>;
+}
+
+/**
+ * Session registry and express routes for the MCP HTTP transports
+ */
+export class MCPHttpTransport {
+  private sessions = new Map<string, MCPSession>();
+  private promptProvider = new PromptProvider();
+
+  /**
+   * @param mountPath path the router is mounted on; the SSE transport advertises absolute message URLs
+   */
+  constructor(
+    private aemConnector: AEMConnector,
+    private registry: ToolRegistry,
+    private mountPath = '/mcp'
+  ) {}
+
+  /**
+   * Routes: POST/GET/DELETE /stream (Streamable HTTP), GET /sse + POST /messages (SSE fallback)
+   */
+  createRouter(): Router {
+    const router = Router();
+
+    router.post('/stream', (req, res) => this.handleStreamablePost(req, res));
+    router.get('/stream', (req, res) => this.handleStreamableSession(req, res));
+    router.delete('/stream', (req, res) => this.handleStreamableSession(req, res));
+
+    router.get('/sse', (req, res) => this.handleSseConnect(req, res));
+    router.post('/messages', (req, res) => this.handleSseMessage(req, res));
+
+    return router;
+  }
+
+  getStats(): MCPSessionStats {
+    const stats: MCPSessionStats = { active: this.sessions.size, byTransport: { 'streamable-http': 0, sse: 0 } };
+    for (const session of this.sessions.values()) {
+      stats.byTransport[session.type]++;
+    }
+    return stats;
+  }
+
+  /**
+   * Close every open session, e.g. on shutdown
+   */
+  async closeAll(): Promise<void> {
+    for (const session of [...this.sessions.values()]) {
+      await session.server.close();
+    }
+    this.sessions.clear();
+  }
+
+  private async handleStreamablePost(req: Request, res: Response): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    try {
+      if (sessionId) {
+        const session = this.sessions.get(sessionId);
+        if (!session || session.type !== 'streamable-http') {
+          this.sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+          return;
+        }
+        await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        this.sendJsonRpcError(res, 400, -32000, 'Bad Request: no session ID provided and request is not an initialize request');
+        return;
+      }
+
+      const server = createMCPServer(this.aemConnector, this.registry, this.promptProvider);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          this.sessions.set(id, { id, transport, server, type: 'streamable-http', createdAt: new Date().toISOString() });
+          logger.info('MCP session opened', { requestId: (req as any).requestId, metadata: { sessionId: id, transport: 'streamable-http' } });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          this.removeSession(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error: any) {
+      logger.error('MCP streamable HTTP request failed', { requestId: (req as any).requestId, error });
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, -32603, error.message || 'Internal error');
+      }
+    }
+  }
+
+  /**
+   * GET opens the server-to-client notification stream; DELETE terminates the session
+   */
+  private async handleStreamableSession(req: Request, res: Response): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.type !== 'streamable-http') {
+      this.sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? `Session not found: ${sessionId}` : 'Missing mcp-session-id header');
+      return;
+    }
+
+    try {
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+    } catch (error: any) {
+      logger.error('MCP streamable HTTP session request failed', { requestId: (req as any).requestId, error });
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, -32603, error.message || 'Internal error');
+      }
+    }
+  }
+
+  private async handleSseConnect(req: Request, res: Response): Promise<void> {
+    const transport = new SSEServerTransport(`${this.mountPath}/messages`, res);
+    const server = createMCPServer(this.aemConnector, this.registry, this.promptProvider);
+    const id = transport.sessionId;
+
+    this.sessions.set(id, { id, transport, server, type: 'sse', createdAt: new Date().toISOString() });
+    logger.info('MCP session opened', { requestId: (req as any).requestId, metadata: { sessionId: id, transport: 'sse' } });
+
+    transport.onclose = () => this.removeSession(id);
+    res.on('close', () => this.removeSession(id));
+
+    try {
+      await server.connect(transport);
+    } catch (error: any) {
+      logger.error('MCP SSE connection failed', { requestId: (req as any).requestId, error });
+      this.removeSession(id);
+    }
+  }
+
+  private async handleSseMessage(req: Request, res: Response): Promise<void> {
+    const sessionId = req.query.sessionId as string | undefined;
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.type !== 'sse') {
+      this.sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? `Session not found: ${sessionId}` : 'Missing sessionId query parameter');
+      return;
+    }
+
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+  }
+
+  private removeSession(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    this.sessions.delete(id);
+    session.server.close().catch(() => undefined);
+    logger.info('MCP session closed', { metadata: { sessionId: id, transport: session.type } });
+  }
+
+  private sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * MCP Prompts Module
+ * Catalog of authoring recipes served through prompts/list and prompts/get, with built-in prompts
+ * plus team-defined prompts loaded from a directory of YAML/JSON files
+ */
+
+import { readdirSync, readFileSync, existsSync } from 'fs';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  Prompt
+} from '@modelcontextprotocol/sdk/types.js';
+import { AEM_ERROR_CODES, createAEMError } from './error-handler.js';
+import { Logger, logger } from './logger.js';
+
+export type PromptArgumentType = 'string' | 'number' | 'boolean' | 'path' | 'list';
+
+export const PROMPT_ARGUMENT_TYPES: PromptArgumentType[] = ['string', 'number', 'boolean', 'path', 'list'];
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  type?: PromptArgumentType;
+  required?: boolean;
+  default?: string;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  /** Message template; {{argName}} placeholders are replaced with argument values */
+  template: string;
+  source?: string;
+}
+
+export const BUILT_IN_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'localize-page',
+    description: 'Localize a page into one or more target locales',
+    arguments: [
+      { name: 'pagePath', type: 'path', required: true, description: 'Source page path, e.g. /content/site/en/home' },
+      { name: 'locales', type: 'list', required: true, description: 'Comma-separated target locales, e.g. de,fr,es' },
+      { name: 'publish', type: 'boolean', default: 'false', description: 'Publish the localized pages when done' },
+    ],
+    template: [
+      'Localize the AEM page {{pagePath}} into these locales: {{locales}}.',
+      '',
+      '1. Call `getPageContent` with pagePath={{pagePath}} to read the source page.',
+      '2. Call `scanPageComponents` with pagePath={{pagePath}} and note every text-bearing component (text, title, teaser, button).',
+      '3. Call `fetchAvailableLocales` for the site and confirm each target locale exists; stop and report any that do not.',
+      '4. For each locale, check with `getPageProperties` whether the locale copy exists (the same path under the locale root, e.g. /content/site/de/home for /content/site/en/home); if not, create it with `copyPage` using pagePath={{pagePath}}, destParentPath set to the matching parent under the locale root and shallow=true.',
+      '5. For each locale copy, translate the text properties and write them with `updateComponent` on the matching component path in the copy.',
+      '6. Re-run `getPageContent` on each localized page and check nothing was left in the source language.',
+      '7. Publish requested: {{publish}}. If true, call `replicateAndPublish` with the selected locales; otherwise list the pages that still need review.',
+    ].join('\n'),
+  },
+  {
+    name: 'audit-broken-images',
+    description: 'Audit a page for images whose DAM references are missing',
+    arguments: [
+      { name: 'pagePath', type: 'path', required: true, description: 'Page to audit' },
+      { name: 'fix', type: 'boolean', default: 'false', description: 'Propose replacement images for broken references' },
+    ],
+    template: [
+      'Audit the AEM page {{pagePath}} for broken images.',
+      '',
+      '1. Call `getPageImages` with pagePath={{pagePath}} to collect every fileReference and image src.',
+      '2. Call `scanPageComponents` with pagePath={{pagePath}} to find image components without a fileReference.',
+      '3. For each referenced DAM path, call `getAssetMetadata`; a not-found error means the reference is broken.',
+      '4. Report a table of component path, referenced asset and status (ok, missing, empty).',
+      '5. Fix requested: {{fix}}. If true, search for a suitable replacement with `searchContent` under the DAM root and suggest `updateImagePath` calls, but do not run them without confirmation.',
+    ].join('\n'),
+  },
+  {
+    name: 'create-landing-page',
+    description: 'Create a landing page from a short brief',
+    arguments: [
+      { name: 'parentPath', type: 'path', required: true, description: 'Parent page under which to create the landing page' },
+      { name: 'brief', type: 'string', required: true, description: 'Campaign or product brief describing the page' },
+      { name: 'title', type: 'string', description: 'Page title; derived from the brief when omitted' },
+    ],
+    template: [
+      'Create a landing page under {{parentPath}} from this brief:',
+      '',
+      '{{brief}}',
+      '',
+      'Requested title: {{title}}',
+      '',
+      '1. Call `getTemplates` with sitePath={{parentPath}} and pick the template best suited to a landing page.',
+      '2. Call `createPage` with the chosen template and a title (use the requested title, or derive one from the brief).',
+      '3. Plan the sections (hero, value propositions, call to action) and add them with `createComponent`.',
+      '4. Fill copy with `updateComponent`, keeping the tone of the brief.',
+      '5. Call `getPageContent` on the new page and summarise what was created. Do not publish it.',
+    ].join('\n'),
+  },
+  {
+    name: 'publish-subtree-safely',
+    description: 'Publish a content subtree after validating every page in it',
+    arguments: [
+      { name: 'rootPath', type: 'path', required: true, description: 'Root of the subtree to publish' },
+      { name: 'depth', type: 'number', default: '3', description: 'How many levels below the root to include' },
+    ],
+    template: [
+      'Safely publish the subtree at {{rootPath}} (depth {{depth}}).',
+      '',
+      '1. Call `listPages` with siteRoot={{rootPath}} and depth={{depth}} to enumerate the pages.',
+      '2. For each page, call `getPageProperties` and skip pages that are locked, have no title, or were modified within the last hour by someone else.',
+      '3. For each remaining page, call `scanPageComponents` and flag empty required components.',
+      '4. Present the list of pages to publish and the skipped pages with reasons, and wait for confirmation.',
+      '5. After confirmation, call `activatePage` for each page, parents before children, and report any failures.',
+    ].join('\n'),
+  },
+  {
+    name: 'review-page-content',
+    description: 'Review the text content of a page for quality and consistency',
+    arguments: [
+      { name: 'pagePath', type: 'path', required: true, description: 'Page to review' },
+      { name: 'focus', type: 'string', default: 'clarity, tone and spelling', description: 'What the review should focus on' },
+    ],
+    template: [
+      'Review the text content of {{pagePath}} focusing on {{focus}}.',
+      '',
+      '1. Call `getPageTextContent` with pagePath={{pagePath}}.',
+      '2. List each issue with the component path, the current text and a suggested replacement.',
+      '3. Do not change content; suggest `updateComponent` calls the author can approve.',
+    ].join('\n'),
+  },
+];
+
+/**
+ * Check and normalise a prompt definition read from disk or code
+ */
+export function validatePromptDefinition(raw: any, source: string): PromptDefinition {
+  if (!raw || typeof raw !== 'object') {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Prompt definition in ${source} must be an object`, { source });
+  }
+  if (typeof raw.name !== 'string' || !/^[a-zA-Z0-9_-]+$/.test(raw.name)) {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Prompt in ${source} needs a name of letters, digits, '-' or '_'`, { source, name: raw.name });
+  }
+  if (typeof raw.template !== 'string' || raw.template.trim().length === 0) {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Prompt '${raw.name}' in ${source} needs a template`, { source, name: raw.name });
+  }
+
+  const args: PromptArgumentDefinition[] = (raw.arguments || []).map((arg: any) => {
+    if (!arg || typeof arg.name !== 'string') {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Prompt '${raw.name}' has an argument without a name`, { source });
+    }
+    if (arg.type !== undefined && !PROMPT_ARGUMENT_TYPES.includes(arg.type)) {
+      throw createAEMError(
+        AEM_ERROR_CODES.INVALID_PARAMETERS,
+        `Prompt '${raw.name}' in ${source} gives argument '${arg.name}' the unknown type '${arg.type}'; use ${PROMPT_ARGUMENT_TYPES.join(', ')}`,
+        { source, name: raw.name, argument: arg.name, type: arg.type }
+      );
+    }
+    return {
+      name: arg.name,
+      description: arg.description || '',
+      type: arg.type || 'string',
+      required: Boolean(arg.required),
+      default: arg.default !== undefined ? String(arg.default) : undefined,
+    };
+  });
+
+  return {
+    name: raw.name,
+    description: raw.description || '',
+    arguments: args,
+    template: raw.template,
+    source,
+  };
+}
+
+/**
+ * Load prompt definitions from *.yaml, *.yml and *.json files; a file may hold one prompt or a list.
+ * A file that does not parse or holds an invalid prompt is logged and skipped as a whole
+ */
+export function loadPromptsFromDirectory(directory: string, log: Logger = logger): PromptDefinition[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+
+  const prompts: PromptDefinition[] = [];
+  const files = readdirSync(directory)
+    .filter(file => ['.yaml', '.yml', '.json'].includes(extname(file).toLowerCase()))
+    .sort();
+
+  for (const file of files) {
+    const fullPath = join(directory, file);
+    try {
+      const text = readFileSync(fullPath, 'utf8');
+      const parsed = extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+      const entries = Array.isArray(parsed) ? parsed : parsed?.prompts || [parsed];
+      prompts.push(...entries.map((entry: any) => validatePromptDefinition(entry, fullPath)));
+    } catch (error: any) {
+      log.warn(`Skipping prompt file ${fullPath}: ${error.message}`, { metadata: { file: fullPath }, error: error.message });
+    }
+  }
+
+  return prompts;
+}
+
+/**
+ * Check argument values against their declared types and fill defaults
+ */
+export function resolvePromptArguments(prompt: PromptDefinition, args: Record<string, string> = {}): Record<string, string> {
+  const errors: Array<{ argument: string; message: string }> = [];
+  const resolved: Record<string, string> = {};
+
+  for (const def of prompt.arguments) {
+    const value = args[def.name] ?? def.default;
+    if (value === undefined || value === '') {
+      if (def.required) {
+        errors.push({ argument: def.name, message: 'is required' });
+      }
+      resolved[def.name] = '';
+      continue;
+    }
+
+    switch (def.type) {
+      case 'number':
+        if (Number.isNaN(Number(value))) errors.push({ argument: def.name, message: 'must be a number' });
+        resolved[def.name] = value;
+        break;
+      case 'boolean':
+        if (!['true', 'false'].includes(value.toLowerCase())) errors.push({ argument: def.name, message: 'must be true or false' });
+        resolved[def.name] = value.toLowerCase();
+        break;
+      case 'path':
+        if (!value.startsWith('/')) errors.push({ argument: def.name, message: 'must be an absolute JCR path' });
+        resolved[def.name] = value;
+        break;
+      case 'list':
+        resolved[def.name] = value.split(',').map(item => item.trim()).filter(Boolean).join(', ');
+        break;
+      default:
+        resolved[def.name] = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw createAEMError(
+      AEM_ERROR_CODES.INVALID_PARAMETERS,
+      `Invalid arguments for prompt '${prompt.name}': ${errors.map(e => `${e.argument} ${e.message}`).join('; ')}`,
+      { prompt: prompt.name, errors }
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Replace {{name}} placeholders in a prompt template
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (_match, name) => values[name] ?? '');
+}
+
+/**
+ * Serves the prompt catalog through prompts/list and prompts/get
+ */
+export class PromptProvider {
+  private prompts = new Map<string, PromptDefinition>();
+
+  constructor(promptsDir: string | undefined = process.env.MCP_PROMPTS_DIR, log: Logger = logger) {
+    for (const prompt of BUILT_IN_PROMPTS) {
+      this.prompts.set(prompt.name, { ...prompt, source: 'built-in' });
+    }
+    if (promptsDir) {
+      // Directory prompts override built-ins of the same name so teams can tailor the recipes
+      for (const prompt of loadPromptsFromDirectory(promptsDir, log)) {
+        this.prompts.set(prompt.name, prompt);
+      }
+    }
+  }
+
+  /**
+   * Register prompt handlers on an MCP server instance
+   */
+  register(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: this.listPrompts() };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return this.getPrompt(request.params.name, request.params.arguments);
+    });
+  }
+
+  listPrompts(): Prompt[] {
+    return [...this.prompts.values()].map(prompt => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments.map(arg => ({
+        name: arg.name,
+        description: arg.type && arg.type !== 'string' ? `${arg.description} (${arg.type})` : arg.description,
+        required: arg.required,
+      })),
+    }));
+  }
+
+  getPrompt(name: string, args?: Record<string, string>): GetPromptResult {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Unknown prompt: ${name}`, { name, available: [...this.prompts.keys()] });
+    }
+
+    const values = resolvePromptArguments(prompt, args);
+    return {
+      description: prompt.description,
+      messages: [{
+        role: 'user',
+        content: { type: 'text', text: renderPromptTemplate(prompt.template, values) },
+      }],
+    };
+  }
+}
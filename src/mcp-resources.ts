@@ -0,0 +1,369 @@
+/**
+ * MCP Resources Module
+ * Exposes the JCR content tree (pages, assets, templates, workflow models) as MCP resources
+ * with resource templates, paged child listings and lastModified-based subscriptions. Reads go
+ * through the registry's read tools, so scopes, the access policy and rate limits apply to them
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { AEMConnector } from './aem-connector.js';
+import { getCallerIdentity, runAsCaller } from './auth.js';
+import { AEM_ERROR_CODES, createAEMError } from './error-handler.js';
+import { AuthIdentity, ChildrenResponse } from './interfaces/index.js';
+import { Logger, logger } from './logger.js';
+import { ToolRegistry } from './tool-registry.js';
+
+export const RESOURCE_SCHEME = 'aem';
+export const RESOURCE_PAGE_SIZE = 50;
+
+const WORKFLOW_MODELS_ROOT = '/var/workflow/models';
+const SUPPORTED_INSTANCES = ['author'];
+
+export type ResourceKind = 'page' | 'asset' | 'template' | 'workflowModel' | 'node';
+
+type ChildNode = ChildrenResponse['children'][number];
+
+interface Subscription {
+  lastModified?: string;
+  /** Caller that subscribed; polls run as this caller */
+  caller?: AuthIdentity;
+}
+
+export interface ParsedResourceUri {
+  instance: string;
+  path: string;
+  children: boolean;
+  cursor: number;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'aem://{instance}/content/{+pagePath}',
+    name: 'AEM page',
+    description: 'Page content (jcr:content tree) of a cq:Page, e.g. aem://author/content/site/en/home',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'aem://{instance}/content/dam/{+assetPath}',
+    name: 'AEM asset',
+    description: 'DAM asset metadata, e.g. aem://author/content/dam/site/hero.jpg',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'aem://{instance}/conf/{site}/settings/wcm/templates/{template}',
+    name: 'AEM editable template',
+    description: 'Template structure, policies and allowed components',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'aem://{instance}/var/workflow/models/{model}',
+    name: 'AEM workflow model',
+    description: 'Runtime workflow model definition',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'aem://{instance}/{+path}?children{&cursor}',
+    name: 'AEM child listing',
+    description: `Paged list of child nodes (${RESOURCE_PAGE_SIZE} per page); follow nextCursor to continue`,
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Parse an aem:// resource URI into instance, JCR path and listing options
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid resource URI: ${uri}`, { uri });
+  }
+
+  if (url.protocol !== `${RESOURCE_SCHEME}:`) {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Unsupported resource scheme: ${url.protocol}`, { uri });
+  }
+
+  const instance = url.hostname;
+  if (!SUPPORTED_INSTANCES.includes(instance)) {
+    throw createAEMError(
+      AEM_ERROR_CODES.INVALID_PARAMETERS,
+      `Unknown AEM instance '${instance}' in resource URI`,
+      { uri, supportedInstances: SUPPORTED_INSTANCES }
+    );
+  }
+
+  const path = decodeURIComponent(url.pathname).replace(/\/+$/, '') || '/';
+  const cursor = parseInt(url.searchParams.get('cursor') || '0', 10);
+
+  return {
+    instance,
+    path,
+    children: url.searchParams.has('children'),
+    cursor: Number.isNaN(cursor) || cursor < 0 ? 0 : cursor,
+  };
+}
+
+/**
+ * Build an aem:// resource URI for a JCR path
+ */
+export function buildResourceUri(path: string, instance = 'author', options: { children?: boolean; cursor?: number } = {}): string {
+  const encodedPath = path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+  let uri = `${RESOURCE_SCHEME}://${instance}${encodedPath}`;
+  if (options.children) {
+    uri += '?children';
+    if (options.cursor) {
+      uri += `&cursor=${options.cursor}`;
+    }
+  }
+  return uri;
+}
+
+/**
+ * Classify a node by its primary type and location so reads return the most useful view
+ */
+export function resolveResourceKind(path: string, primaryType: string | undefined, config: AEMConnector['aemConfig']): ResourceKind {
+  if (primaryType === 'cq:Page') return 'page';
+  if (primaryType === 'dam:Asset') return 'asset';
+  if (primaryType === 'cq:Template' || path.includes('/settings/wcm/templates/')) return 'template';
+  if (primaryType === 'cq:WorkflowModel' || path.startsWith(`${WORKFLOW_MODELS_ROOT}/`)) return 'workflowModel';
+  if (path.startsWith(`${config.contentPaths.assetsRoot}/`) && primaryType !== 'sling:Folder' && primaryType !== 'sling:OrderedFolder') {
+    return 'asset';
+  }
+  return 'node';
+}
+
+/**
+ * Serves AEM content through resources/list, resources/read and resources/subscribe
+ */
+export class ResourceProvider {
+  private subscriptions = new Map<string, Subscription>();
+  private pollTimer?: NodeJS.Timeout;
+  private server?: Server;
+
+  constructor(
+    private aemConnector: AEMConnector,
+    private registry: ToolRegistry,
+    private log: Logger = logger,
+    private pollIntervalMs = parseInt(process.env.MCP_RESOURCE_POLL_INTERVAL_MS || '30000', 10)
+  ) {}
+
+  /**
+   * Register resource handlers on an MCP server instance
+   */
+  register(server: Server): void {
+    this.server = server;
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return this.listResources(request.params?.cursor);
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return this.readResource(request.params.uri);
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.subscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    server.onclose = () => this.stopPolling();
+  }
+
+  /**
+   * Top-level roots browsed by resources/list, in listing order
+   */
+  getRoots(): string[] {
+    const { sitesRoot, assetsRoot, templatesRoot } = this.aemConnector.aemConfig.contentPaths;
+    return [...new Set([sitesRoot, assetsRoot, templatesRoot, WORKFLOW_MODELS_ROOT])];
+  }
+
+  /**
+   * List the children of every root, paged across roots with an opaque "root:offset" cursor
+   */
+  async listResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+    const roots = this.getRoots();
+    let [rootIndex, offset] = (cursor || '0:0').split(':').map(n => parseInt(n, 10));
+    if (Number.isNaN(rootIndex) || Number.isNaN(offset)) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid resource cursor: ${cursor}`, { cursor });
+    }
+
+    const resources: Resource[] = [];
+    while (rootIndex < roots.length && resources.length < RESOURCE_PAGE_SIZE) {
+      const children = await this.safeListChildren(roots[rootIndex]);
+      const page = children.slice(offset, offset + RESOURCE_PAGE_SIZE - resources.length);
+      resources.push(...page.map(child => this.toResource(child)));
+      offset += page.length;
+
+      if (offset >= children.length) {
+        rootIndex++;
+        offset = 0;
+      }
+    }
+
+    return {
+      resources,
+      nextCursor: rootIndex < roots.length ? `${rootIndex}:${offset}` : undefined,
+    };
+  }
+
+  /**
+   * Read a single resource; "?children" URIs return a paged child listing instead of node content
+   */
+  async readResource(uri: string): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+    const { instance, path, children, cursor } = parseResourceUri(uri);
+
+    if (children) {
+      const all = await this.listChildren(path);
+      const page = all.slice(cursor, cursor + RESOURCE_PAGE_SIZE);
+      const nextOffset = cursor + page.length;
+      const listing = {
+        path,
+        children: page.map(child => ({ ...child, uri: buildResourceUri(child.path, instance) })),
+        offset: cursor,
+        total: all.length,
+        nextCursor: nextOffset < all.length ? buildResourceUri(path, instance, { children: true, cursor: nextOffset }) : undefined,
+      };
+      return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(listing, null, 2) }] };
+    }
+
+    const node: any = await this.registry.call('getNodeContent', { path, depth: 0 });
+    const kind = resolveResourceKind(path, node.content?.['jcr:primaryType'], this.aemConnector.aemConfig);
+
+    let content: unknown;
+    switch (kind) {
+      case 'page':
+        content = await this.registry.call('getPageContent', { pagePath: path });
+        break;
+      case 'asset':
+        content = await this.registry.call('getAssetMetadata', { assetPath: path });
+        break;
+      case 'template':
+        content = await this.registry.call('getTemplateStructure', { templatePath: path });
+        break;
+      case 'workflowModel':
+        content = await this.registry.call('getNodeContent', { path, depth: this.aemConnector.aemConfig.validation.maxDepth });
+        break;
+      default:
+        content = await this.registry.call('getNodeContent', { path, depth: 1 });
+    }
+
+    return {
+      contents: [{
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify({ kind, path, content }, null, 2),
+      }],
+    };
+  }
+
+  /**
+   * Subscribe to a page; the client is notified when its cq:lastModified changes. Callers the
+   * access policy does not let read the page are refused
+   */
+  async subscribe(uri: string): Promise<void> {
+    const { path } = parseResourceUri(uri);
+    this.subscriptions.set(uri, { lastModified: await this.getLastModified(path), caller: getCallerIdentity() });
+    this.startPolling();
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  getSubscriptions(): string[] {
+    return [...this.subscriptions.keys()];
+  }
+
+  /**
+   * Check every subscribed page once and emit resources/updated for those that changed
+   */
+  async checkSubscriptions(): Promise<string[]> {
+    const changed: string[] = [];
+    for (const [uri, subscription] of this.subscriptions) {
+      const { caller } = subscription;
+      const read = () => this.getLastModified(parseResourceUri(uri).path);
+      const current = await (caller ? runAsCaller(caller, read) : read());
+      if (current !== subscription.lastModified) {
+        this.subscriptions.set(uri, { ...subscription, lastModified: current });
+        changed.push(uri);
+        await this.server?.sendResourceUpdated({ uri });
+      }
+    }
+    return changed;
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer || this.pollIntervalMs <= 0) return;
+    this.pollTimer = setInterval(() => {
+      this.checkSubscriptions().catch(error => {
+        this.log.warn('Resource subscription poll failed', { error });
+      });
+    }, this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private async getLastModified(path: string): Promise<string | undefined> {
+    try {
+      const result: any = await this.registry.call('getPageProperties', { pagePath: path });
+      return result.data?.properties?.lastModified;
+    } catch (error: any) {
+      if (error.code === AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS || error.code === AEM_ERROR_CODES.RATE_LIMITED) {
+        throw error;
+      }
+      // Deleted or unreadable pages report as undefined so the transition is still notified
+      return undefined;
+    }
+  }
+
+  private async listChildren(path: string): Promise<ChildNode[]> {
+    const result = await this.registry.call('listChildren', { path }) as { children: ChildNode[] };
+    return result.children;
+  }
+
+  // Roots the caller may not list are skipped like missing ones
+  private async safeListChildren(path: string): Promise<ChildNode[]> {
+    try {
+      return await this.listChildren(path);
+    } catch {
+      return [];
+    }
+  }
+
+  private toResource(child: ChildNode): Resource {
+    return {
+      uri: buildResourceUri(child.path),
+      name: child.title || child.name,
+      description: `${child.primaryType} at ${child.path}`,
+      mimeType: 'application/json',
+    };
+  }
+}
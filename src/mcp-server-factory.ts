@@ -0,0 +1,36 @@
+/**
+ * MCP Server Factory
+ * Builds a fully registered MCP Server (tools, resources, prompts) so the stdio entry point
+ * and every HTTP session expose exactly the same capabilities
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { AEMConnector } from './aem-connector.js';
+import { registerTools } from './mcp-tools.js';
+import { ToolRegistry } from './tool-registry.js';
+import { ResourceProvider } from './mcp-resources.js';
+import { PromptProvider } from './mcp-prompts.js';
+
+export const MCP_SERVER_INFO = {
+  name: 'aem-mcp-agent',
+  version: '1.0.0',
+};
+
+/**
+ * Create an MCP server instance; resource subscriptions are tracked per instance
+ */
+export function createMCPServer(aemConnector: AEMConnector, registry: ToolRegistry, promptProvider: PromptProvider): Server {
+  const server = new Server(MCP_SERVER_INFO, {
+    capabilities: {
+      resources: { subscribe: true },
+      tools: {},
+      prompts: {},
+    },
+  });
+
+  registerTools(server, registry);
+  new ResourceProvider(aemConnector, registry).register(server);
+  promptProvider.register(server);
+
+  return server;
+}
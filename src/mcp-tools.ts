@@ -0,0 +1,1244 @@
+/**
+ * AEM MCP Server
+ * Copyright (C) 2025 Indra
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ * 
+ * For commercial licensing options, please contact: indrasish00@gmail.com
+ * See COMMERCIAL_LICENSE.md for details.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { AEMConnector } from './aem-connector.js';
+import { AEMOperationError, AEM_ERROR_CODES, createErrorResponse } from './error-handler.js';
+import { CallLimiter, ObjectSchema, ToolRegistry, operationResultSchema } from './tool-registry.js';
+import { AccessPolicy } from './access-policy.js';
+import { AuditLog } from './audit-log.js';
+import { runWithProgress } from './progress.js';
+import {
+  ActivatePageRequestSchema,
+  ApplyPlanRequestSchema,
+  AuditLogRequestSchema,
+  AssetPathRequestSchema,
+  AvailableLocalesRequestSchema,
+  AvailableTemplatesRequestSchema,
+  BulkUpdateComponentsRequestSchema,
+  CompareVersionsRequestSchema,
+  CompleteWorkflowStepRequestSchema,
+  CopyPageRequestSchema,
+  CreateAssetFolderRequestSchema,
+  CreateComponentRequestSchema,
+  CreatePackageRequestSchema,
+  CreatePageRequestSchema,
+  CreateVersionRequestSchema,
+  DeactivatePageRequestSchema,
+  DeleteAssetFolderRequestSchema,
+  ExportAssetMetadataRequestSchema,
+  DeleteAssetRequestSchema,
+  DeleteRenditionsRequestSchema,
+  DeleteComponentRequestSchema,
+  DeletePageRequestSchema,
+  DiffEnvironmentsRequestSchema,
+  DownloadPackageRequestSchema,
+  DownloadRenditionRequestSchema,
+  EmptyParamsSchema,
+  EnhancedSearchParamsSchema,
+  ExportContentPackageRequestSchema,
+  ImportAssetMetadataRequestSchema,
+  ImportContentPackageRequestSchema,
+  InstallPackageRequestSchema,
+  JCRQueryParamsSchema,
+  ListActiveWorkflowsParamsSchema,
+  ListChildrenParamsSchema,
+  ListPackagesRequestSchema,
+  ListPagesParamsSchema,
+  MoveAssetFolderRequestSchema,
+  MovePageRequestSchema,
+  NodeContentParamsSchema,
+  PackagePathRequestSchema,
+  PagePathRequestSchema,
+  PromoteContentRequestSchema,
+  QueryBuilderRequestSchema,
+  RenameAssetFolderRequestSchema,
+  RenamePageRequestSchema,
+  ReprocessAssetRequestSchema,
+  ReplicateAndPublishRequestSchema,
+  SearchContentParamsSchema,
+  SiteRequestSchema,
+  TemplateStructureRequestSchema,
+  TemplatesParamsSchema,
+  UnusedAssetsRequestSchema,
+  UndoChangesRequestSchema,
+  UnpublishContentRequestSchema,
+  UpdateAssetRequestSchema,
+  UpdateComponentRequestSchema,
+  UpdateImagePathRequestSchema,
+  UploadAssetRequestSchema,
+  UploadFolderRequestSchema,
+  UploadPackageRequestSchema,
+  UploadRenditionRequestSchema,
+  ValidateComponentRequestSchema,
+  VersionNameRequestSchema,
+  VersionPathRequestSchema,
+  WorkflowIdRequestSchema,
+  WorkflowReasonRequestSchema,
+  WorkflowRequestSchema
+} from './interfaces/schemas.js';
+
+const NODE_CONTENT_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    path: { type: 'string' },
+    depth: { type: 'number' },
+    content: { type: 'object' },
+    timestamp: { type: 'string', format: 'date-time' },
+  },
+};
+
+const CHILDREN_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    children: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          path: { type: 'string' },
+          primaryType: { type: 'string' },
+          title: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+const JCR_QUERY_RESULT_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    language: { type: 'string', enum: ['JCR-SQL2', 'xpath'] },
+    scope: { type: 'array', items: { type: 'string' } },
+    columns: { type: 'array', items: { type: 'string' } },
+    results: { type: 'array', items: { type: 'object', properties: { path: { type: 'string' }, score: { type: 'number' } } } },
+    count: { type: 'number' },
+    offset: { type: 'number' },
+    limit: { type: 'number' },
+    limitCapped: { type: 'boolean' },
+    hasMore: { type: 'boolean' },
+    nextOffset: { type: 'number' },
+  },
+};
+
+const PAGE_REFERENCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    path: { type: 'string' },
+    title: { type: 'string' },
+    references: { type: 'array', items: { type: 'string' } },
+    published: { type: 'boolean' },
+  },
+};
+
+const PAGE_RELOCATION_SCHEMA = operationResultSchema({
+  type: 'object',
+  properties: {
+    sourcePath: { type: 'string' },
+    destinationPath: { type: 'string' },
+    movedPages: { type: 'array', items: { type: 'string' } },
+    referencingPages: { type: 'array', items: PAGE_REFERENCE_SCHEMA },
+    adjustedPages: { type: 'array', items: { type: 'string' } },
+    republishedPages: { type: 'array', items: { type: 'string' } },
+    skippedReferences: { type: 'array', items: PAGE_REFERENCE_SCHEMA },
+    redirect: { type: 'object', properties: { path: { type: 'string' }, target: { type: 'string' } } },
+  },
+});
+
+const QUERY_BUILDER_RESULT_SCHEMA = operationResultSchema({
+  type: 'object',
+  properties: {
+    params: { type: 'object', description: 'Compiled QueryBuilder parameters' },
+    hits: { type: 'array', items: { type: 'object' } },
+    total: { type: 'number' },
+    totalIsGuess: { type: 'boolean' },
+    offset: { type: 'number' },
+    limit: { type: 'number' },
+    hasMore: { type: 'boolean' },
+    nextCursor: { type: 'string' },
+  },
+});
+
+const PACKAGE_RESULT_SCHEMA = operationResultSchema({
+  type: 'object',
+  properties: {
+    packagePath: { type: 'string' },
+    message: { type: 'string' },
+    package: { type: 'object' },
+    localPath: { type: 'string' },
+    durationMs: { type: 'integer' },
+  },
+});
+
+const METHOD_LIST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    methods: { type: 'array', items: { type: 'object' } },
+  },
+};
+
+// listPages runs on its siteRoot (or legacy path) argument, else on /content
+const listPagesRoot = (args: { siteRoot?: string; path?: string }): string => args.siteRoot || args.path || '/content';
+
+/**
+ * Build the registry of every tool backed by the AEM connector
+ * @param limiter call budgets; the gateway and the stdio server pass a rate limiter over `server.rateLimit`
+ */
+export function createToolRegistry(aemConnector: AEMConnector, limiter?: CallLimiter): ToolRegistry {
+  const auditLog = new AuditLog();
+  const accessPolicy = process.env.ACCESS_POLICY_FILE ? new AccessPolicy(process.env.ACCESS_POLICY_FILE) : undefined;
+  const registry = new ToolRegistry({
+    recorder: aemConnector,
+    planner: aemConnector,
+    dryRunByDefault: process.env.MCP_DRY_RUN === 'true',
+    access: accessPolicy,
+    limiter,
+    audit: auditLog,
+    environments: aemConnector.environments,
+  });
+
+  registry.registerAll([
+    {
+      name: 'validateComponent',
+      description: 'Validate component changes before applying them',
+      category: 'component',
+      implementationStatus: 'complete',
+      inputSchema: ValidateComponentRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.validateComponent(args),
+    },
+    {
+      name: 'updateComponent',
+      description: 'Update component properties in AEM',
+      category: 'component',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: UpdateComponentRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Update text', request: { componentPath: '/content/mysite/en/home/jcr:content/root/container/text', properties: { text: '<p>Hello</p>' } } }],
+      journal: { paths: (args) => [args.componentPath] },
+      handler: (args) => aemConnector.updateComponent(args),
+    },
+    {
+      name: 'undoChanges',
+      description: 'Undo a journaled change by the jobId returned from the mutating tool',
+      category: 'utility',
+      implementationStatus: 'complete',
+      audited: true,
+      notes: 'Restores the nodes snapshotted before the change and deletes nodes it created. Nodes edited since are reported as conflicts unless force is set. Binary properties are not restored. Only the caller that made the change may undo it. Journal entries expire after MCP_JOURNAL_RETENTION_DAYS. With path and a jobId that is not a journaled job, jobId is restored as a version name.',
+      inputSchema: UndoChangesRequestSchema,
+      targets: (args) => aemConnector.getJobTargets(args.jobId),
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          jobId: { type: 'string' },
+          tool: { type: 'string' },
+          restored: { type: 'array', items: { type: 'string' } },
+          unchanged: { type: 'array', items: { type: 'string' } },
+          conflicts: { type: 'array', items: { type: 'object', properties: { path: { type: 'string' }, reason: { type: 'string' } } } },
+          omittedBinaries: { type: 'array', items: { type: 'string' } },
+          complete: { type: 'boolean' },
+        },
+      }),
+      examples: [{ title: 'Undo an update', request: { jobId: '3f0c2a4e-8d1b-4c6f-9a57-2b8e1d0c7f64' } }],
+      handler: (args) => aemConnector.undoChanges(args),
+    },
+    {
+      name: 'applyPlan',
+      description: 'Execute a plan returned by a dryRun call, if none of its target nodes changed since',
+      category: 'utility',
+      implementationStatus: 'complete',
+      audited: true,
+      notes: 'Plans are kept in memory for 30 minutes and can be applied once, by the caller that made them. Stale plans fail with CONFLICT and list the changed nodes.',
+      inputSchema: ApplyPlanRequestSchema,
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          planId: { type: 'string' },
+          tool: { type: 'string' },
+          executed: { type: 'integer' },
+          affectedPaths: { type: 'array', items: { type: 'string' } },
+        },
+      }),
+      examples: [{ title: 'Apply a reviewed plan', request: { planId: '9b2f6c1e-4a7d-4e0b-8c3f-5d1a2e6b7c90' } }],
+      journal: { paths: (args) => aemConnector.getPlanTargets(args.planId) },
+      handler: (args) => aemConnector.applyPlan(args),
+    },
+    {
+      name: 'getAuditLog',
+      description: 'Query the audit trail of executed writes by user, path, tool, outcome and time range',
+      category: 'utility',
+      implementationStatus: 'complete',
+      notes: 'Entries are hash-chained; integrity reports whether the whole trail still verifies and the first entry that does not. Bulk strings and arrays in params and results are shortened.',
+      inputSchema: AuditLogRequestSchema,
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          entries: { type: 'array', items: { type: 'object' } },
+          total: { type: 'integer' },
+          integrity: {
+            type: 'object',
+            properties: {
+              valid: { type: 'boolean' },
+              checked: { type: 'integer' },
+              brokenAt: { type: 'integer' },
+            },
+          },
+        },
+      }),
+      examples: [{ title: 'Deletes under a site this week', request: { path: '/content/mysite/en', tool: 'deletePage', from: '2025-06-02T00:00:00Z' } }],
+      handler: (args) => auditLog.query(args),
+    },
+    {
+      name: 'listEnvironments',
+      description: 'List the configured AEM environments with their author and publish connectivity',
+      category: 'utility',
+      implementationStatus: 'complete',
+      notes: 'Every tool accepts an environment argument naming one of these; read-only environments refuse writes but allow dry runs. Profiles come from AEM_ENVIRONMENTS_FILE, or a single default profile from the AEM_* variables.',
+      inputSchema: EmptyParamsSchema,
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          environments: { type: 'array', items: { type: 'object' } },
+          default: { type: 'string' },
+        },
+      }),
+      handler: () => aemConnector.listEnvironments(),
+    },
+    {
+      name: 'diffEnvironments',
+      description: 'Compare a content subtree between two environments, or between an environment\'s author and publish instances',
+      category: 'utility',
+      implementationStatus: 'complete',
+      notes: 'Reports how the target differs from the source: added nodes exist only in the source, removed nodes only in the target. Missing subtrees are reported once, at their top. Modification and replication timestamps, protected properties and ACLs are not compared.',
+      inputSchema: DiffEnvironmentsRequestSchema,
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          source: { type: 'object', properties: { environment: { type: 'string' }, tier: { type: 'string' } } },
+          target: { type: 'object', properties: { environment: { type: 'string' }, tier: { type: 'string' } } },
+          differences: { type: 'array', items: { type: 'object', properties: { path: { type: 'string' }, type: { type: 'string' }, properties: { type: 'array', items: { type: 'object' } } } } },
+          summary: { type: 'object' },
+        },
+      }),
+      examples: [{ title: 'Stage against production', request: { path: '/content/mysite/en', source: 'stage', target: 'prod' } }],
+      handler: (args) => aemConnector.diffEnvironments(args),
+    },
+    {
+      name: 'promoteContent',
+      description: 'Copy the differences in a content subtree from another environment to this one',
+      category: 'utility',
+      implementationStatus: 'complete',
+      mutating: true,
+      notes: 'Writes to the author of the call environment and requires confirm: true; call with dryRun first to review the requests and apply the plan. Nodes only in the target are deleted only with includeRemovals. Binary properties are not copied. Journaled for undoChanges.',
+      inputSchema: PromoteContentRequestSchema,
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          promoted: { type: 'array', items: { type: 'object' } },
+          skippedRemovals: { type: 'array', items: { type: 'string' } },
+          omittedBinaries: { type: 'array', items: { type: 'string' } },
+        },
+      }),
+      examples: [{ title: 'Promote a page from stage', request: { path: '/content/mysite/en', source: 'stage', paths: ['/content/mysite/en/about'], confirm: true } }],
+      journal: { paths: (args) => [args.path] },
+      handler: (args) => aemConnector.promoteContent(args),
+    },
+    {
+      name: 'scanPageComponents',
+      description: 'Scan a page to discover all components and their properties',
+      category: 'component',
+      implementationStatus: 'complete',
+      inputSchema: PagePathRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.scanPageComponents(args.pagePath),
+    },
+    {
+      name: 'fetchSites',
+      description: 'Get all available sites in AEM',
+      category: 'site',
+      implementationStatus: 'complete',
+      inputSchema: EmptyParamsSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.fetchSites(),
+    },
+    {
+      name: 'fetchLanguageMasters',
+      description: 'Get language masters for a specific site',
+      category: 'site',
+      implementationStatus: 'complete',
+      inputSchema: SiteRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.fetchLanguageMasters(args.site),
+    },
+    {
+      name: 'fetchAvailableLocales',
+      description: 'Get available locales for a site and language master',
+      category: 'site',
+      implementationStatus: 'complete',
+      inputSchema: AvailableLocalesRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.fetchAvailableLocales(args.site, args.languageMasterPath),
+    },
+    {
+      name: 'replicateAndPublish',
+      description: 'Replicate and publish content to selected locales',
+      category: 'replication',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: ReplicateAndPublishRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.replicateAndPublish(args.selectedLocales, args.componentData, args.localizedOverrides),
+    },
+    {
+      name: 'getAllTextContent',
+      description: 'Get all text content from a page including titles, text components, and descriptions',
+      category: 'page',
+      implementationStatus: 'complete',
+      inputSchema: PagePathRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getAllTextContent(args.pagePath),
+    },
+    {
+      name: 'getPageTextContent',
+      description: 'Get text content from a specific page',
+      category: 'page',
+      implementationStatus: 'complete',
+      inputSchema: PagePathRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getPageTextContent(args.pagePath),
+    },
+    {
+      name: 'getPageImages',
+      description: 'Get all images from a page, including those within Experience Fragments',
+      category: 'page',
+      implementationStatus: 'complete',
+      inputSchema: PagePathRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getPageImages(args.pagePath),
+    },
+    {
+      name: 'updateImagePath',
+      description: 'Update the image path for an image component and verify the update',
+      category: 'component',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: UpdateImagePathRequestSchema,
+      outputSchema: operationResultSchema(),
+      journal: { paths: (args) => [args.componentPath] },
+      handler: (args) => aemConnector.updateImagePath(args.componentPath, args.newImagePath),
+    },
+    {
+      name: 'getPageContent',
+      description: 'Get all content from a page including Experience Fragments and Content Fragments',
+      category: 'page',
+      implementationStatus: 'complete',
+      inputSchema: PagePathRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getPageContent(args.pagePath),
+    },
+    {
+      name: 'listPages',
+      description: 'List all pages under a site root',
+      category: 'page',
+      implementationStatus: 'complete',
+      inputSchema: ListPagesParamsSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'List pages two levels deep', request: { siteRoot: '/content/mysite/en', depth: 2, limit: 50 } }],
+      targets: async (args) => [listPagesRoot(args)],
+      handler: (args) => aemConnector.listPages(listPagesRoot(args), args.depth || 1, args.limit || 20),
+    },
+    {
+      name: 'getNodeContent',
+      description: 'Legacy: Get JCR node content',
+      category: 'legacy',
+      implementationStatus: 'complete',
+      inputSchema: NodeContentParamsSchema,
+      outputSchema: NODE_CONTENT_SCHEMA,
+      handler: (args) => aemConnector.getNodeContent(args.path, args.depth ?? 1),
+    },
+    {
+      name: 'listChildren',
+      description: 'Legacy: List child nodes',
+      category: 'legacy',
+      implementationStatus: 'complete',
+      inputSchema: ListChildrenParamsSchema,
+      outputSchema: CHILDREN_SCHEMA,
+      handler: async (args) => ({ children: await aemConnector.listChildren(args.path) }),
+    },
+    {
+      name: 'getPageProperties',
+      description: 'Get page properties',
+      category: 'page',
+      implementationStatus: 'complete',
+      inputSchema: PagePathRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getPageProperties(args.pagePath),
+    },
+    {
+      name: 'searchContent',
+      description: 'Search content using Query Builder',
+      category: 'search',
+      implementationStatus: 'complete',
+      inputSchema: SearchContentParamsSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Fulltext page search', request: { fulltext: 'product', path: '/content/mysite', type: 'cq:Page', limit: 10 } }],
+      handler: (args) => aemConnector.searchContent(args),
+    },
+    {
+      name: 'executeJCRQuery',
+      description: 'Execute a read-only JCR-SQL2 or XPath query scoped below the configured content roots',
+      category: 'search',
+      implementationStatus: 'complete',
+      notes: 'SELECT only; every selector must be constrained with ISDESCENDANTNODE/ISCHILDNODE/ISSAMENODE (XPath: a /jcr:root path) below contentPaths. Page size is capped at queries.maxLimit.',
+      inputSchema: JCRQueryParamsSchema,
+      outputSchema: JCR_QUERY_RESULT_SCHEMA,
+      examples: [
+        { title: 'Pages with a title under a site', request: { query: "SELECT [jcr:title] FROM [cq:PageContent] AS c WHERE ISDESCENDANTNODE(c, '/content/mysite') AND [jcr:title] IS NOT NULL", limit: 20 } },
+        { title: 'XPath with projected columns', request: { query: '/jcr:root/content/dam/mysite//element(*, dam:Asset)/(@jcr:created)', language: 'xpath' } },
+      ],
+      targets: async (args) => aemConnector.getJCRQueryTargets(args),
+      handler: (args) => aemConnector.executeJCRQuery(args),
+    },
+    {
+      name: 'queryBuilder',
+      description: 'Search with a structured QueryBuilder predicate tree (path, type, property, daterange, relativedaterange, tagid, fulltext, or/not groups, orderBy) and page with a cursor',
+      category: 'search',
+      implementationStatus: 'complete',
+      notes: 'Pass nextCursor back as `cursor` to fetch the next page. Use guessTotal and hits=selective with properties to keep large queries fast.',
+      inputSchema: QueryBuilderRequestSchema,
+      outputSchema: QUERY_BUILDER_RESULT_SCHEMA,
+      examples: [
+        {
+          title: 'Pages modified in the last week, tagged or titled "summer"',
+          request: {
+            predicates: [
+              { predicate: 'path', path: '/content/mysite' },
+              { predicate: 'type', nodeType: 'cq:Page' },
+              { predicate: 'relativedaterange', property: 'jcr:content/cq:lastModified', lowerBound: '-7d' },
+              {
+                predicate: 'group',
+                or: true,
+                predicates: [
+                  { predicate: 'tagid', tagIds: ['mysite:season/summer'] },
+                  { predicate: 'property', property: 'jcr:content/jcr:title', value: '%summer%', operation: 'like' },
+                ],
+              },
+            ],
+            orderBy: [{ property: 'jcr:content/cq:lastModified', sort: 'desc' }],
+            limit: 50,
+            guessTotal: true,
+            properties: ['jcr:path', 'jcr:created'],
+          },
+        },
+        { title: 'Next page', request: { cursor: '<nextCursor from the previous result>' } },
+      ],
+      targets: async (args) => aemConnector.getQueryBuilderTargets(args),
+      handler: (args) => aemConnector.queryBuilder(args),
+    },
+    {
+      name: 'getAssetMetadata',
+      description: 'Get asset metadata',
+      category: 'asset',
+      implementationStatus: 'complete',
+      inputSchema: AssetPathRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getAssetMetadata(args.assetPath),
+    },
+    {
+      name: 'getStatus',
+      description: 'Get workflow status by ID',
+      category: 'workflow',
+      implementationStatus: 'complete',
+      inputSchema: WorkflowIdRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getWorkflowStatus(args.workflowId),
+    },
+    {
+      name: 'listMethods',
+      description: 'Get list of the MCP methods the caller may use',
+      category: 'utility',
+      implementationStatus: 'complete',
+      inputSchema: EmptyParamsSchema,
+      outputSchema: METHOD_LIST_SCHEMA,
+      handler: async (args) => ({ methods: registry.describe() }),
+    },
+    {
+      name: 'enhancedPageSearch',
+      description: 'Intelligent page search with comprehensive fallback strategies and cross-section search',
+      category: 'search',
+      implementationStatus: 'complete',
+      inputSchema: EnhancedSearchParamsSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.enhancedPageSearch(args),
+    },
+    {
+      name: 'createPage',
+      description: 'Create a new page in AEM',
+      category: 'page',
+      implementationStatus: 'partial',
+      notes: 'Creates the page node and then jcr:content in a second request; template-driven initial content is not copied.',
+      mutating: true,
+      inputSchema: CreatePageRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Create basic page', request: { parentPath: '/content/mysite/en', title: 'New Product Page', template: '/conf/mysite/settings/wcm/templates/page-template' } }],
+      journal: {
+        // Same name derivation as createPage, so an existing page it would replace is snapshotted
+        paths: (args) => [`${args.parentPath}/${args.name || String(args.title).replace(/[^a-zA-Z0-9-_]/g, '-').toLowerCase()}`],
+        created: (_args, result) => [result?.data?.pagePath],
+      },
+      handler: (args) => aemConnector.createPage(args),
+    },
+    {
+      name: 'deletePage',
+      description: 'Delete a page from AEM',
+      category: 'page',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: DeletePageRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Delete page', request: { pagePath: '/content/mysite/en/old-page' } }],
+      journal: { paths: (args) => [args.pagePath] },
+      handler: (args) => aemConnector.deletePage(args),
+    },
+    {
+      name: 'movePage',
+      description: 'Move a page and its subtree, rewriting inbound references; optionally leave a redirect and republish referencing pages',
+      category: 'page',
+      implementationStatus: 'complete',
+      notes: 'Uses the WCM command servlet. Run with dryRun first: the plan lists the command, every referencing page that would be rewritten and any redirect or republish requests.',
+      mutating: true,
+      inputSchema: MovePageRequestSchema,
+      outputSchema: PAGE_RELOCATION_SCHEMA,
+      examples: [
+        { title: 'Preview a move', request: { pagePath: '/content/mysite/en/news/launch', destParentPath: '/content/mysite/en/archive', dryRun: true } },
+        { title: 'Move with redirect', request: { pagePath: '/content/mysite/en/news/launch', destParentPath: '/content/mysite/en/archive', createRedirect: true, republishReferences: true } },
+      ],
+      handler: (args) => aemConnector.movePage(args),
+    },
+    {
+      name: 'renamePage',
+      description: 'Rename a page in place, rewriting inbound references; optionally leave a redirect and republish referencing pages',
+      category: 'page',
+      implementationStatus: 'complete',
+      notes: 'Uses the WCM command servlet. Run with dryRun first: the plan lists the command, every referencing page that would be rewritten and any redirect or republish requests.',
+      mutating: true,
+      inputSchema: RenamePageRequestSchema,
+      outputSchema: PAGE_RELOCATION_SCHEMA,
+      examples: [{ title: 'Rename page', request: { pagePath: '/content/mysite/en/about-us', newName: 'company', newTitle: 'Company', createRedirect: true } }],
+      handler: (args) => aemConnector.renamePage(args),
+    },
+    {
+      name: 'copyPage',
+      description: 'Copy a page, with or without its child pages',
+      category: 'page',
+      implementationStatus: 'complete',
+      notes: 'Uses the WCM command servlet. References to the original page are left unchanged. Run with dryRun to get the copy command as a plan; the result of a real copy lists every page created.',
+      mutating: true,
+      inputSchema: CopyPageRequestSchema,
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          sourcePath: { type: 'string' },
+          destinationPath: { type: 'string' },
+          copiedPages: { type: 'array', items: { type: 'string' } },
+        },
+      }),
+      examples: [{ title: 'Copy a page tree', request: { pagePath: '/content/mysite/en/campaign', destParentPath: '/content/mysite/en', newName: 'campaign-2025' } }],
+      handler: (args) => aemConnector.copyPage(args),
+    },
+    {
+      name: 'createComponent',
+      description: 'Create a new component on a page',
+      category: 'component',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: CreateComponentRequestSchema,
+      outputSchema: operationResultSchema(),
+      journal: {
+        paths: (args) => (args.name ? [`${args.pagePath}/jcr:content/${args.name}`] : []),
+        created: (_args, result) => [result?.data?.componentPath],
+      },
+      handler: (args) => aemConnector.createComponent(args),
+    },
+    {
+      name: 'deleteComponent',
+      description: 'Delete a component from AEM',
+      category: 'component',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: DeleteComponentRequestSchema,
+      outputSchema: operationResultSchema(),
+      journal: { paths: (args) => [args.componentPath] },
+      handler: (args) => aemConnector.deleteComponent(args),
+    },
+    {
+      name: 'unpublishContent',
+      description: 'Unpublish content from the publish environment',
+      category: 'replication',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: UnpublishContentRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.unpublishContent(args),
+    },
+    {
+      name: 'activatePage',
+      description: 'Activate (publish) a single page',
+      category: 'replication',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: ActivatePageRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.activatePage(args),
+    },
+    {
+      name: 'deactivatePage',
+      description: 'Deactivate (unpublish) a single page',
+      category: 'replication',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: DeactivatePageRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.deactivatePage(args),
+    },
+    {
+      name: 'uploadAsset',
+      description: 'Upload a new asset to AEM DAM',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Pass base64 fileContent, or localFile for a file in MCP_UPLOADS_DIR. AEM as a Cloud Service hosts use direct binary upload, other hosts createasset.html; AEM_UPLOAD_MODE forces either. The SHA-1 AEM stores is checked after the upload, and progress notifications report the bytes sent. Parts go straight to blob storage, so the upload cannot be dry-run.',
+      audited: true,
+      inputSchema: UploadAssetRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.uploadAsset(args),
+    },
+    {
+      name: 'updateAsset',
+      description: 'Update an existing asset in AEM DAM',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Metadata changes are journaled for undoChanges; replaced binary content is not.',
+      mutating: true,
+      inputSchema: UpdateAssetRequestSchema,
+      outputSchema: operationResultSchema(),
+      journal: { paths: (args) => [`${args.assetPath}/jcr:content/metadata`] },
+      handler: (args) => aemConnector.updateAsset(args),
+    },
+    {
+      name: 'deleteAsset',
+      description: 'Delete an asset from AEM DAM',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Refuses assets that pages reference (see findAssetReferences) unless force is true.',
+      mutating: true,
+      inputSchema: DeleteAssetRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.deleteAsset(args),
+    },
+    {
+      name: 'findAssetReferences',
+      description: 'Find the pages and component properties that reference an asset',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Uses the WCM reference search over page content, then reads each property: fileReference, rich text (e.g. img src), content fragment fragmentPath and any other property holding the asset or rendition path. References from outside pages, e.g. from other content fragments, are not found.',
+      inputSchema: AssetPathRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Check before deleting', request: { assetPath: '/content/dam/mysite/hero.png' } }],
+      handler: (args) => aemConnector.findAssetReferences(args.assetPath),
+    },
+    {
+      name: 'findUnusedAssets',
+      description: 'List the assets in a DAM folder that no page references',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Same reference search as findAssetReferences, run once for the folder.',
+      inputSchema: UnusedAssetsRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Unused campaign assets', request: { folderPath: '/content/dam/mysite/summer-2026' } }],
+      handler: (args) => aemConnector.findUnusedAssets(args),
+    },
+    {
+      name: 'createAssetFolder',
+      description: 'Create a DAM folder (sling:OrderedFolder) with a title',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Folders must be below contentPaths.assetsRoot (AEM_ASSETS_ROOT); fails when the folder exists.',
+      mutating: true,
+      inputSchema: CreateAssetFolderRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Create campaign folder', request: { parentPath: '/content/dam/mysite', name: 'summer-2026', title: 'Summer 2026' } }],
+      journal: {
+        paths: (args) => [`${args.parentPath}/${args.name}`],
+        created: (_args, result) => [result?.data?.folderPath],
+      },
+      handler: (args) => aemConnector.createAssetFolder(args),
+    },
+    {
+      name: 'moveAssetFolder',
+      description: 'Move a DAM folder and everything in it to another folder',
+      category: 'asset',
+      implementationStatus: 'partial',
+      notes: 'Uses the Sling move operation: references to the moved assets are not rewritten. The destination must not exist.',
+      mutating: true,
+      inputSchema: MoveAssetFolderRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.moveAssetFolder(args),
+    },
+    {
+      name: 'renameAssetFolder',
+      description: 'Rename a DAM folder in place, optionally changing its title',
+      category: 'asset',
+      implementationStatus: 'partial',
+      notes: 'Uses the Sling move operation: references to the renamed assets are not rewritten.',
+      mutating: true,
+      inputSchema: RenameAssetFolderRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Rename folder', request: { folderPath: '/content/dam/mysite/summer', newName: 'summer-2026', newTitle: 'Summer 2026' } }],
+      handler: (args) => aemConnector.renameAssetFolder(args),
+    },
+    {
+      name: 'deleteAssetFolder',
+      description: 'Delete a DAM folder',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Folders holding assets or folders are only deleted with force: true.',
+      mutating: true,
+      inputSchema: DeleteAssetFolderRequestSchema,
+      outputSchema: operationResultSchema(),
+      journal: { paths: (args) => [args.folderPath] },
+      handler: (args) => aemConnector.deleteAssetFolder(args),
+    },
+    {
+      name: 'uploadFolder',
+      description: 'Upload a local directory tree into a DAM folder, creating folders for its subdirectories',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'localDir is a directory in MCP_UPLOADS_DIR; hidden files are left out. Files are uploaded as uploadAsset does, a few at a time, and files whose SHA-1 matches the existing asset are skipped. Failed files do not stop the others; the per-file report is written to .reports in the uploads directory. Progress notifications count files.',
+      audited: true,
+      inputSchema: UploadFolderRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Upload campaign', request: { localDir: 'summer-2026', parentPath: '/content/dam/mysite/summer-2026' } }],
+      handler: (args) => aemConnector.uploadFolder(args),
+    },
+    {
+      name: 'exportAssetMetadata',
+      description: 'Export the metadata of the assets in a DAM folder as a CSV, one row per asset',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Same format as the AEM metadata export: an assetPath column, then columns typed like "dc:subject {{ String : multi }}". Binary metadata properties are left out.',
+      inputSchema: ExportAssetMetadataRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Export titles and keywords', request: { folderPath: '/content/dam/mysite/summer-2026', fields: ['dc:title', 'dc:subject'] } }],
+      handler: (args) => aemConnector.exportAssetMetadata(args),
+    },
+    {
+      name: 'importAssetMetadata',
+      description: 'Apply a metadata CSV to the assets it lists',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Reads the AEM metadata CSV format; column headers give the type (String, Long, Double, Boolean or Date, ": multi" for multiple values). Empty cells leave properties unchanged. Run with dryRun to see the property changes; rows that fail are reported per CSV line.',
+      mutating: true,
+      inputSchema: ImportAssetMetadataRequestSchema,
+      outputSchema: operationResultSchema(),
+      journal: { paths: (args) => aemConnector.getAssetMetadataTargets(args) },
+      handler: (args) => aemConnector.importAssetMetadata(args),
+    },
+    {
+      name: 'listRenditions',
+      description: 'List the renditions of an asset with their MIME types, sizes and dimensions',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Dimensions are known for the original (from the asset metadata) and for cq5dam renditions (from their names).',
+      inputSchema: AssetPathRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Renditions of an image', request: { assetPath: '/content/dam/mysite/hero.png' } }],
+      handler: (args) => aemConnector.listRenditions(args.assetPath),
+    },
+    {
+      name: 'downloadRendition',
+      description: 'Download a rendition of an asset to the local uploads directory',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Files are written to MCP_UPLOADS_DIR; progress notifications report the bytes received.',
+      inputSchema: DownloadRenditionRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.downloadRendition(args),
+    },
+    {
+      name: 'uploadRendition',
+      description: 'Add or replace a custom rendition of an asset',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Pass base64 fileContent, or localFile for a file in MCP_UPLOADS_DIR. The original rendition is replaced with uploadAsset instead. The content is streamed, so the upload cannot be dry-run.',
+      audited: true,
+      inputSchema: UploadRenditionRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.uploadRendition(args),
+    },
+    {
+      name: 'deleteRenditions',
+      description: 'Delete renditions of an asset',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'The original rendition cannot be deleted. Deleted renditions are not journaled; reprocessAsset regenerates the generated ones.',
+      mutating: true,
+      inputSchema: DeleteRenditionsRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.deleteRenditions(args),
+    },
+    {
+      name: 'reprocessAsset',
+      description: 'Regenerate the renditions and metadata of an asset',
+      category: 'asset',
+      implementationStatus: 'complete',
+      notes: 'Starts the DAM Update Asset workflow, or on AEM as a Cloud Service runs a processing profile through the reprocess command of the Assets console. Processing is asynchronous; check with listRenditions.',
+      audited: true,
+      inputSchema: ReprocessAssetRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.reprocessAsset(args),
+    },
+    {
+      name: 'getTemplates',
+      description: 'Get available page templates',
+      category: 'template',
+      implementationStatus: 'complete',
+      inputSchema: TemplatesParamsSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getTemplates(args.sitePath),
+    },
+    {
+      name: 'getTemplateStructure',
+      description: 'Get detailed structure of a specific template',
+      category: 'template',
+      implementationStatus: 'complete',
+      inputSchema: TemplateStructureRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getTemplateStructure(args.templatePath),
+    },
+    {
+      name: 'getAvailableTemplates',
+      description: 'Get templates allowed under a parent path, resolved from the site configuration and cq:allowedTemplates',
+      category: 'template',
+      implementationStatus: 'complete',
+      inputSchema: AvailableTemplatesRequestSchema,
+      outputSchema: operationResultSchema(),
+      examples: [{ title: 'Templates allowed under a page', request: { parentPath: '/content/mysite/en' } }],
+      handler: (args) => aemConnector.getAvailableTemplates(args.parentPath),
+    },
+    {
+      name: 'bulkUpdateComponents',
+      description: 'Update multiple components in a single operation with validation and rollback support',
+      category: 'component',
+      implementationStatus: 'complete',
+      mutating: true,
+      inputSchema: BulkUpdateComponentsRequestSchema,
+      outputSchema: operationResultSchema(),
+      journal: { paths: (args) => (args.updates || []).map((update: { componentPath: string }) => update.componentPath) },
+      handler: (args) => aemConnector.bulkUpdateComponents(args),
+    },
+    {
+      name: 'startWorkflow',
+      description: 'Start a new workflow instance',
+      category: 'workflow',
+      implementationStatus: 'complete',
+      audited: true,
+      inputSchema: WorkflowRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.startWorkflow(args),
+    },
+    {
+      name: 'listActiveWorkflows',
+      description: 'List all currently running workflow instances',
+      category: 'workflow',
+      implementationStatus: 'complete',
+      inputSchema: ListActiveWorkflowsParamsSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.listActiveWorkflows(args.limit),
+    },
+    {
+      name: 'completeWorkflowStep',
+      description: 'Complete a workflow step',
+      category: 'workflow',
+      implementationStatus: 'complete',
+      audited: true,
+      inputSchema: CompleteWorkflowStepRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.completeWorkflowStep(args.workflowId, args.stepName, args.comment),
+    },
+    {
+      name: 'cancelWorkflow',
+      description: 'Cancel a workflow instance',
+      category: 'workflow',
+      implementationStatus: 'complete',
+      audited: true,
+      inputSchema: WorkflowReasonRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.cancelWorkflow(args.workflowId, args.reason),
+    },
+    {
+      name: 'suspendWorkflow',
+      description: 'Suspend a workflow instance',
+      category: 'workflow',
+      implementationStatus: 'complete',
+      audited: true,
+      inputSchema: WorkflowReasonRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.suspendWorkflow(args.workflowId, args.reason),
+    },
+    {
+      name: 'resumeWorkflow',
+      description: 'Resume a suspended workflow instance',
+      category: 'workflow',
+      implementationStatus: 'complete',
+      audited: true,
+      inputSchema: WorkflowIdRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.resumeWorkflow(args.workflowId),
+    },
+    {
+      name: 'getWorkflowModels',
+      description: 'Get all available workflow models',
+      category: 'workflow',
+      implementationStatus: 'complete',
+      inputSchema: EmptyParamsSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getWorkflowModels(),
+    },
+    {
+      name: 'getVersionHistory',
+      description: 'Get version history for a content path',
+      category: 'version',
+      implementationStatus: 'complete',
+      inputSchema: VersionPathRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.getVersionHistory(args.path),
+    },
+    {
+      name: 'createVersion',
+      description: 'Create a new version of content',
+      category: 'version',
+      implementationStatus: 'complete',
+      audited: true,
+      inputSchema: CreateVersionRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.createVersion(args.path, args.label, args.comment),
+    },
+    {
+      name: 'restoreVersion',
+      description: 'Restore content to a specific version',
+      category: 'version',
+      implementationStatus: 'complete',
+      audited: true,
+      inputSchema: VersionNameRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.restoreVersion(args.path, args.versionName),
+    },
+    {
+      name: 'compareVersions',
+      description: 'Compare two versions of content',
+      category: 'version',
+      implementationStatus: 'complete',
+      inputSchema: CompareVersionsRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.compareVersions(args.path, args.version1, args.version2),
+    },
+    {
+      name: 'deleteVersion',
+      description: 'Delete a specific version',
+      category: 'version',
+      implementationStatus: 'complete',
+      audited: true,
+      inputSchema: VersionNameRequestSchema,
+      outputSchema: operationResultSchema(),
+      handler: (args) => aemConnector.deleteVersion(args.path, args.versionName),
+    },
+    {
+      name: 'listPackages',
+      description: 'List the packages in CRX Package Manager with their filters and build and install state',
+      category: 'package',
+      implementationStatus: 'complete',
+      inputSchema: ListPackagesRequestSchema,
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          packages: { type: 'array', items: { type: 'object' } },
+          total: { type: 'integer' },
+        },
+      }),
+      handler: (args) => aemConnector.listPackages(args),
+    },
+    {
+      name: 'createPackage',
+      description: 'Create a content package with filter rules for the given paths',
+      category: 'package',
+      implementationStatus: 'complete',
+      audited: true,
+      notes: 'The package is created empty; call buildPackage before downloading or installing it.',
+      inputSchema: CreatePackageRequestSchema,
+      outputSchema: PACKAGE_RESULT_SCHEMA,
+      examples: [{
+        title: 'Package a site without its DAM renditions',
+        request: { packageName: 'site-content', version: '1.0', filters: [{ path: '/content/mysite' }, { path: '/content/dam/mysite', rules: [{ modifier: 'exclude', pattern: '.*/renditions/.*' }] }] },
+      }],
+      handler: (args) => aemConnector.createPackage(args),
+    },
+    {
+      name: 'buildPackage',
+      description: 'Build a package from its filters',
+      category: 'package',
+      implementationStatus: 'complete',
+      audited: true,
+      notes: 'Sends MCP progress notifications while the build runs when the call carries a progressToken.',
+      inputSchema: PackagePathRequestSchema,
+      outputSchema: PACKAGE_RESULT_SCHEMA,
+      handler: (args) => aemConnector.buildPackage(args),
+    },
+    {
+      name: 'downloadPackage',
+      description: 'Download a built package to the local packages directory',
+      category: 'package',
+      implementationStatus: 'complete',
+      notes: 'Files are written to MCP_PACKAGES_DIR; progress notifications report the bytes received.',
+      inputSchema: DownloadPackageRequestSchema,
+      outputSchema: PACKAGE_RESULT_SCHEMA,
+      handler: (args) => aemConnector.downloadPackage(args),
+    },
+    {
+      name: 'uploadPackage',
+      description: 'Upload a package zip from the local packages directory without installing it',
+      category: 'package',
+      implementationStatus: 'complete',
+      audited: true,
+      notes: 'Only files in MCP_PACKAGES_DIR can be uploaded.',
+      inputSchema: UploadPackageRequestSchema,
+      outputSchema: PACKAGE_RESULT_SCHEMA,
+      handler: (args) => aemConnector.uploadPackage(args),
+    },
+    {
+      name: 'installPackage',
+      description: 'Install an uploaded or built package',
+      category: 'package',
+      implementationStatus: 'complete',
+      audited: true,
+      notes: 'Access policies are checked on the package filter roots. Installed content is not journaled; use uninstallPackage to revert it. Sends progress notifications while the install runs.',
+      inputSchema: InstallPackageRequestSchema,
+      outputSchema: PACKAGE_RESULT_SCHEMA,
+      examples: [{ title: 'Install, merging permissions', request: { packagePath: '/etc/packages/my_packages/site-content-1.0.zip', acHandling: 'merge_preserve' } }],
+      targets: (args) => aemConnector.getPackageTargets(args.packagePath),
+      handler: (args) => aemConnector.installPackage(args),
+    },
+    {
+      name: 'uninstallPackage',
+      description: 'Uninstall a package, restoring the content it replaced',
+      category: 'package',
+      implementationStatus: 'complete',
+      audited: true,
+      inputSchema: PackagePathRequestSchema,
+      outputSchema: PACKAGE_RESULT_SCHEMA,
+      targets: (args) => aemConnector.getPackageTargets(args.packagePath),
+      handler: (args) => aemConnector.uninstallPackage(args),
+    },
+    {
+      name: 'exportContentPackage',
+      description: 'Export a content subtree to a FileVault package zip in the local packages directory',
+      category: 'package',
+      implementationStatus: 'complete',
+      notes: 'Reads the subtree through Sling and does not need the Package Manager. Binary properties are not exported. Number and date types are inferred from the JSON rendering, so a Double holding a whole number is exported as a Long.',
+      inputSchema: ExportContentPackageRequestSchema,
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          localPath: { type: 'string' },
+          nodes: { type: 'integer' },
+          files: { type: 'integer' },
+          omittedBinaries: { type: 'array', items: { type: 'string' } },
+          unknownNamespaces: { type: 'array', items: { type: 'string' } },
+        },
+      }),
+      examples: [{ title: 'Back up a site section', request: { path: '/content/mysite/en/products', version: '2024.06' } }],
+      handler: (args) => aemConnector.exportContentPackage(args),
+    },
+    {
+      name: 'importContentPackage',
+      description: 'Import a FileVault package zip from the local packages directory through Sling POST',
+      category: 'package',
+      implementationStatus: 'complete',
+      mutating: true,
+      notes: 'Works without the Package Manager. Writes the package filter roots node by node with type hints; mode replace (default) deletes each root first, merge keeps content the package does not hold. Binaries are not imported. Access policies are checked on the filter roots, read from the zip before the import starts. Journaled for undoChanges; sends progress notifications per node.',
+      inputSchema: ImportContentPackageRequestSchema,
+      outputSchema: operationResultSchema({
+        type: 'object',
+        properties: {
+          roots: { type: 'array', items: { type: 'string' } },
+          nodes: { type: 'integer' },
+          deleted: { type: 'array', items: { type: 'string' } },
+          omittedBinaries: { type: 'array', items: { type: 'string' } },
+          skippedFiles: { type: 'array', items: { type: 'string' } },
+        },
+      }),
+      journal: { paths: (args) => aemConnector.getContentPackageRoots(args.fileName) },
+      handler: (args) => aemConnector.importContentPackage(args),
+    },
+  ]);
+
+  return registry;
+}
+
+/**
+ * Register tools/list and tools/call on an MCP server instance; shared by every transport
+ */
+export function registerTools(server: Server, registry: ToolRegistry): void {
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: registry.toMCPTools() };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+    try {
+      const call = () => registry.call(name, args || {});
+      const result = progressToken === undefined ? await call() : await runWithProgress((update) => {
+        extra.sendNotification({ method: 'notifications/progress', params: { progressToken, ...update } }).catch(() => undefined);
+      }, call);
+      const structured = registry.get(name)?.outputSchema && result && typeof result === 'object' && !Array.isArray(result);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        ...(structured ? { structuredContent: result as Record<string, unknown> } : {}),
+      };
+    } catch (error: any) {
+      if (error instanceof AEMOperationError && error.code === AEM_ERROR_CODES.INVALID_PARAMETERS) {
+        return {
+          content: [{ type: 'text', text: `Error: ${error.message}\n${JSON.stringify(createErrorResponse(error, name), null, 2)}` }],
+          isError: true,
+        };
+      }
+      return {
+        content: [{ type: 'text', text: `Error: ${error.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
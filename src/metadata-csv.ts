@@ -0,0 +1,192 @@
+/**
+ * Metadata CSV Module
+ * The CSV format of the AEM Assets metadata import and export: an assetPath column, then one
+ * column per metadata property whose header carries its type, e.g. "dc:subject {{ String : multi }}".
+ * Multiple values share a cell, separated by the multi-value delimiter.
+ */
+
+import { toIsoDate } from './filevault.js';
+
+export type MetadataType = 'String' | 'Long' | 'Double' | 'Boolean' | 'Date';
+
+export interface MetadataColumn {
+  name: string;
+  type: MetadataType;
+  multiple: boolean;
+}
+
+export interface MetadataCsvRow {
+  /** Line of the row in a spreadsheet, the header being line 1 */
+  line: number;
+  assetPath: string;
+  /** Raw cells, one per column */
+  cells: string[];
+}
+
+export interface MetadataCsv {
+  columns: MetadataColumn[];
+  rows: MetadataCsvRow[];
+}
+
+export interface MetadataCsvOptions {
+  separator?: string;
+  multiValueDelimiter?: string;
+}
+
+export const ASSET_PATH_COLUMN = 'assetPath';
+export const DEFAULT_SEPARATOR = ',';
+export const DEFAULT_MULTI_VALUE_DELIMITER = '|';
+
+const TYPES: MetadataType[] = ['String', 'Long', 'Double', 'Boolean', 'Date'];
+const COLUMN_HEADER = /^(.*?)\s*\{\{\s*([A-Za-z]+)\s*(?::\s*([A-Za-z]+)\s*)?\}\}\s*$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Columns and rows of a metadata CSV; throws on a missing assetPath column, unknown types
+ * and rows with more cells than the header
+ */
+export function readMetadataCsv(text: string, options: MetadataCsvOptions = {}): MetadataCsv {
+  const [header, ...records] = parseCsv(text, options.separator ?? DEFAULT_SEPARATOR);
+  if (!header) {
+    throw new Error('The CSV is empty');
+  }
+  const pathIndex = header.findIndex(cell => cell.trim() === ASSET_PATH_COLUMN);
+  if (pathIndex < 0) {
+    throw new Error(`The CSV has no ${ASSET_PATH_COLUMN} column`);
+  }
+  const headers = header.filter((_, index) => index !== pathIndex);
+  const columns = headers.map(parseColumn);
+
+  const rows = records
+    .map((cells, index) => ({ line: index + 2, cells }))
+    // Blank lines, e.g. the last one of files edited in a spreadsheet
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''))
+    .map(({ line, cells }) => {
+      if (cells.length > header.length) {
+        throw new Error(`Line ${line} has ${cells.length} cells, the header ${header.length}`);
+      }
+      return {
+        line,
+        assetPath: (cells[pathIndex] ?? '').trim(),
+        cells: headers.map((_, index) => cells[index < pathIndex ? index : index + 1] ?? ''),
+      };
+    });
+  return { columns, rows };
+}
+
+/**
+ * Metadata CSV of the given columns; rows hold the values of each column in order
+ */
+export function writeMetadataCsv(columns: MetadataColumn[], rows: Array<{ assetPath: string; values: string[][] }>, options: MetadataCsvOptions = {}): string {
+  const delimiter = options.multiValueDelimiter ?? DEFAULT_MULTI_VALUE_DELIMITER;
+  return formatCsv([
+    [ASSET_PATH_COLUMN, ...columns.map(formatColumn)],
+    ...rows.map(row => [row.assetPath, ...row.values.map(values => values.join(delimiter))]),
+  ], options.separator ?? DEFAULT_SEPARATOR);
+}
+
+export function parseColumn(header: string): MetadataColumn {
+  const match = COLUMN_HEADER.exec(header);
+  if (!match) {
+    const name = header.trim();
+    if (!name) throw new Error('The CSV has a column without a name');
+    return { name, type: 'String', multiple: false };
+  }
+  const [, name, typeName, modifier] = match;
+  const type = TYPES.find(known => known.toLowerCase() === typeName.toLowerCase());
+  if (!name || !type || (modifier && modifier.toLowerCase() !== 'multi')) {
+    throw new Error(`Unsupported column header: ${header}`);
+  }
+  return { name, type, multiple: !!modifier };
+}
+
+export function formatColumn(column: MetadataColumn): string {
+  return `${column.name} {{ ${column.type}${column.multiple ? ' : multi' : ''} }}`;
+}
+
+/**
+ * Values of a cell in the form the Sling POST servlet takes for the column type; throws on
+ * values that are not of that type. Empty cells have no values.
+ */
+export function parseCell(column: MetadataColumn, cell: string, multiValueDelimiter = DEFAULT_MULTI_VALUE_DELIMITER): string[] {
+  const items = column.multiple ? cell.split(multiValueDelimiter) : [cell];
+  return items
+    .filter(item => item.trim() !== '')
+    .map(item => {
+      const value = column.type === 'String' ? item : item.trim();
+      switch (column.type) {
+        case 'Long':
+          if (!/^[-+]?\d+$/.test(value)) throw new Error(`${column.name}: ${value} is not a Long`);
+          // Not through Number, which would round values beyond 2^53
+          return value.replace(/^\+/, '').replace(/^(-?)0+(?=\d)/, '$1');
+        case 'Double':
+          if (value === '' || !Number.isFinite(Number(value))) throw new Error(`${column.name}: ${value} is not a Double`);
+          return String(Number(value));
+        case 'Boolean':
+          if (!/^(true|false)$/i.test(value)) throw new Error(`${column.name}: ${value} is not a Boolean`);
+          return value.toLowerCase();
+        case 'Date': {
+          const date = toIsoDate(value);
+          if (!ISO_DATE.test(date) || Number.isNaN(Date.parse(date))) throw new Error(`${column.name}: ${value} is not a Date`);
+          return date;
+        }
+        default:
+          return value;
+      }
+    });
+}
+
+/**
+ * Records of RFC 4180 CSV: quoted fields may hold separators, quotes ("") and line breaks
+ */
+export function parseCsv(text: string, separator = DEFAULT_SEPARATOR): string[][] {
+  if (separator.length !== 1 || /["\r\n]/.test(separator)) {
+    throw new Error(`Unsupported separator: ${JSON.stringify(separator)}`);
+  }
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === separator) {
+      record.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) {
+    throw new Error('The CSV ends inside a quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+export function formatCsv(records: string[][], separator = DEFAULT_SEPARATOR): string {
+  const quote = (field: string) => field.includes(separator) || /["\r\n]/.test(field) || field.trim() !== field
+    ? `"${field.replace(/"/g, '""')}"`
+    : field;
+  return records.map(record => record.map(quote).join(separator)).join('\r\n') + '\r\n';
+}
@@ -3,10 +3,45 @@
  * Handles all AEM DAM (Digital Asset Management) operations including upload, update, delete, and metadata management
  */
 
+import { createHash, Hash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { AxiosInstance } from 'axios';
 import { 
   IAEMConnector,
-  UploadAssetRequest,
+  AssetFolderResponse,
+  AssetMetadataRowResult,
+  AssetReference,
+  AssetReferenceKind,
+  AssetReferencesResponse,
+  AssetRendition,
+  AssetUploadMode,
+  CreateAssetFolderRequest,
+  DeleteAssetFolderRequest,
+  DeleteRenditionsRequest,
+  DeleteRenditionsResponse,
+  DownloadRenditionRequest,
+  DownloadRenditionResponse,
+  ExportAssetMetadataRequest,
+  ExportAssetMetadataResponse,
+  ImportAssetMetadataRequest,
+  ImportAssetMetadataResponse,
+  ListRenditionsResponse,
+  MoveAssetFolderRequest,
+  RenameAssetFolderRequest,
+  ReprocessAssetRequest,
+  ReprocessAssetResponse,
+  StreamUploadAssetRequest,
+  UnusedAssetsRequest,
+  UnusedAssetsResponse,
+  UploadFolderFileResult,
+  UploadFolderRequest,
+  UploadFolderResponse,
+  UploadRenditionRequest,
+  UploadRenditionResponse,
   UpdateAssetRequest,
   DeleteAssetRequest,
   AssetResponse,
@@ -24,21 +59,81 @@ import {
   AEM_ERROR_CODES,
   isValidContentPath
 } from '../error-handler.js';
+import { getCurrentEnvironment } from '../environments.js';
+import { DocViewProperty, DocViewType, fromSlingJson, toIsoDate } from '../filevault.js';
+import {
+  formatColumn,
+  MetadataColumn,
+  MetadataCsv,
+  MetadataCsvRow,
+  MetadataType,
+  parseCell,
+  readMetadataCsv,
+  writeMetadataCsv
+} from '../metadata-csv.js';
+import { reportProgress, runWithProgress } from '../progress.js';
+
+export const DEFAULT_UPLOADS_DIR = process.env.MCP_UPLOADS_DIR || path.join(process.cwd(), '.aem-mcp', 'uploads');
+export const UPLOAD_TIMEOUT_MS = parseInt(process.env.AEM_UPLOAD_TIMEOUT_MS || '600000', 10);
+// 'direct' or 'multipart' forces an upload flow; otherwise it follows from the host
+const UPLOAD_MODE = process.env.AEM_UPLOAD_MODE;
+const CLOUD_SERVICE_HOST = /\.adobeaemcloud\.(com|net)$/;
+const CHUNK_SIZE = 1024 * 1024;
+// fileContent may also be a data URL
+const DATA_URL = /^data:([^;,]+)?;base64,/;
+const FORM_HEADERS = { 'Content-Type': 'application/x-www-form-urlencoded' };
+const DEFAULT_ASSETS_ROOT = '/content/dam';
+const FOLDER_TYPES = new Set(['sling:Folder', 'sling:OrderedFolder']);
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 16;
+// Hidden, so folder uploads of the uploads directory never pick up their own reports
+const REPORTS_DIR = '.reports';
+// Node types, not metadata anyone edits in a spreadsheet
+const REFERENCES_ENDPOINT = '/bin/wcm/references.json';
+const ORIGINAL_RENDITION = 'original';
+// cq5dam.<kind>.<width>.<height>.<extension>, as the DAM Update Asset workflow names renditions
+const CQ5DAM_RENDITION = /^cq5dam\.[a-z]+\.(\d+)\.(\d+)(\.|$)/;
+const DAM_UPDATE_ASSET_MODEL = '/var/workflow/models/dam/update_asset';
+const DEFAULT_PROCESSING_PROFILE = 'full-process';
+const UNEXPORTED_METADATA = new Set(['jcr:primaryType', 'jcr:mixinTypes']);
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  html: 'text/html',
+  css: 'text/css',
+  json: 'application/json',
+  zip: 'application/zip',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+};
 
 export class AssetOperations implements Partial<IAEMConnector> {
   constructor(
     private httpClient: AxiosInstance,
     private logger: ILogger,
-    private config: AEMConfig
+    private config: () => AEMConfig,
+    private uploadClient: AxiosInstance = httpClient,
+    private uploadsDir: string = DEFAULT_UPLOADS_DIR
   ) {}
 
   /**
-   * Upload a new asset to AEM DAM
+   * Upload a binary to a DAM folder, replacing an asset of the same name. AEM as a Cloud Service
+   * hosts use direct binary upload, other hosts the multipart createasset.html servlet
+   * (AEM_UPLOAD_MODE forces either). The SHA-1 AEM stores is checked against the content sent.
    */
-  async uploadAsset(request: UploadAssetRequest): Promise<AssetResponse> {
+  async uploadAsset(request: StreamUploadAssetRequest): Promise<AssetResponse> {
     return safeExecute<AssetResponse>(async () => {
-      const { parentPath, fileName, fileContent, mimeType, metadata = {} } = request;
-      
+      const { parentPath, fileName, metadata = {} } = request;
+
       if (!isValidContentPath(parentPath)) {
         throw createAEMError(
           AEM_ERROR_CODES.INVALID_PARAMETERS, 
@@ -46,81 +141,60 @@ export class AssetOperations implements Partial<IAEMConnector> {
           { parentPath }
         );
       }
-      
+      if (!fileName || /[/\\\r\n"]/.test(fileName) || fileName === '.' || fileName === '..') {
+        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid file name: ${String(fileName)}`, { fileName });
+      }
+
       const assetPath = `${parentPath}/${fileName}`;
-      
+      const mimeType = request.mimeType || DATA_URL.exec(request.fileContent || '')?.[1] || guessMimeType(fileName);
+      const uploadMode = uploadModeFor((getCurrentEnvironment()?.config ?? this.config()).host);
+      const source = await this.openSource(request);
+      let sha1: string;
+      let uploadResponse: unknown;
       try {
-        // Use proper AEM DAM asset upload via Sling POST servlet
-        const formData = new URLSearchParams();
-        
-        // Set the file content (base64 or binary)
-        if (typeof fileContent === 'string') {
-          // Assume base64 encoded content
-          formData.append('file', fileContent);
-        } else {
-          formData.append('file', String(fileContent));
-        }
-        
-        // Set required Sling POST parameters for asset creation
-        formData.append('fileName', fileName);
-        formData.append(':operation', 'import');
-        formData.append(':contentType', 'json');
-        formData.append(':replace', 'true');
-        formData.append('jcr:primaryType', 'dam:Asset');
-        
-        if (mimeType) {
-          formData.append('jcr:content/jcr:mimeType', mimeType);
-        }
-        
-        // Add metadata to jcr:content/metadata node
+        const hash = createHash('sha1');
+        uploadResponse = uploadMode === 'direct'
+          ? await this.uploadDirect(parentPath, fileName, mimeType, source, hash)
+          : await this.uploadMultipart(parentPath, fileName, mimeType, source, hash);
+        sha1 = hash.digest('hex');
+      } finally {
+        await source.close();
+      }
+
+      const stored = await this.storedSha1(assetPath);
+      if (stored !== sha1) {
+        throw createAEMError(
+          AEM_ERROR_CODES.UPDATE_FAILED,
+          `Uploaded content of ${assetPath} does not match: SHA-1 ${sha1} was sent, AEM stored ${stored}`,
+          { assetPath, sha1, stored }
+        );
+      }
+
+      if (Object.keys(metadata).length > 0) {
+        const form = new URLSearchParams();
         Object.entries(metadata).forEach(([key, value]) => {
-          formData.append(`jcr:content/metadata/${key}`, String(value));
-        });
-        
-        const response = await this.httpClient.post(assetPath, formData, {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
+          (Array.isArray(value) ? value : [value]).forEach(item => form.append(key, String(item)));
         });
-        
-        // Verify the asset was created
-        const verificationResponse = await this.httpClient.get(`${assetPath}.json`);
-        
-        return createSuccessResponse({
-          success: true,
-          assetPath,
-          fileName,
-          mimeType,
-          metadata,
-          uploadResponse: response.data,
-          assetData: verificationResponse.data,
-          timestamp: new Date().toISOString(),
-        }, 'uploadAsset') as AssetResponse;
-      } catch (error: any) {
-        // Fallback to alternative DAM API if available
-        try {
-          const damResponse = await this.httpClient.post('/api/assets' + parentPath, {
-            fileName,
-            fileContent,
-            mimeType,
-            metadata
-          });
-          
-          return createSuccessResponse({
-            success: true,
-            assetPath,
-            fileName,
-            mimeType,
-            metadata,
-            uploadResponse: damResponse.data,
-            fallbackUsed: 'DAM API',
-            timestamp: new Date().toISOString(),
-          }, 'uploadAsset') as AssetResponse;
-        } catch (fallbackError: any) {
-          throw handleAEMHttpError(error, 'uploadAsset');
-        }
+        await this.httpClient.post(`${assetPath}/jcr:content/metadata`, form, { headers: FORM_HEADERS });
       }
-    }, 'uploadAsset');
+
+      const verificationResponse = await this.httpClient.get(`${assetPath}.json`, { cache: false });
+      this.logger.info('Asset uploaded', { assetPath, uploadMode, size: source.size });
+
+      return createSuccessResponse({
+        success: true,
+        assetPath,
+        fileName,
+        mimeType,
+        metadata,
+        uploadResponse,
+        assetData: verificationResponse.data,
+        uploadMode,
+        size: source.size,
+        sha1,
+        timestamp: new Date().toISOString(),
+      }, 'uploadAsset') as AssetResponse;
+    }, 'uploadAsset', 1);
   }
 
   /**
@@ -187,7 +261,7 @@ export class AssetOperations implements Partial<IAEMConnector> {
     return safeExecute<DeleteResponse>(async () => {
       const { assetPath, force = false } = request;
       
-      if (!isValidContentPath(assetPath)) {
+      if (!isValidContentPath(assetPath, this.config())) {
         throw createAEMError(
           AEM_ERROR_CODES.INVALID_PARAMETERS, 
           `Invalid asset path: ${String(assetPath)}`, 
@@ -195,6 +269,18 @@ export class AssetOperations implements Partial<IAEMConnector> {
         );
       }
 
+      // force skips the reference check
+      if (!force) {
+        const pages = [...new Set((await this.readReferences(assetPath)).map(reference => reference.pagePath))];
+        if (pages.length > 0) {
+          throw createAEMError(
+            AEM_ERROR_CODES.CONFLICT,
+            `${assetPath} is referenced by ${pages.length} pages; pass force: true to delete it anyway`,
+            { assetPath, pages }
+          );
+        }
+      }
+
       await this.httpClient.delete(assetPath);
       
       return createSuccessResponse({
@@ -206,6 +292,43 @@ export class AssetOperations implements Partial<IAEMConnector> {
     }, 'deleteAsset');
   }
 
+  /**
+   * Page properties referencing an asset or its renditions, from the WCM reference search
+   */
+  async findAssetReferences(assetPath: string): Promise<AssetReferencesResponse> {
+    return safeExecute<AssetReferencesResponse>(async () => {
+      this.requireAssetPath(assetPath, 'assetPath');
+      const references = await this.readReferences(assetPath);
+      return createSuccessResponse({
+        assetPath,
+        pages: [...new Set(references.map(reference => reference.pagePath))],
+        references,
+      }, 'findAssetReferences') as AssetReferencesResponse;
+    }, 'findAssetReferences');
+  }
+
+  /**
+   * Assets in a folder that no page references. One reference search covers the whole folder;
+   * the referencing properties are then matched against each asset path.
+   */
+  async findUnusedAssets(request: UnusedAssetsRequest): Promise<UnusedAssetsResponse> {
+    return safeExecute<UnusedAssetsResponse>(async () => {
+      const { folderPath, recursive = true } = request;
+      this.requireAssetPath(folderPath, 'folderPath', true);
+      const assetPaths = await this.listAssets(folderPath, recursive);
+      const values = (await this.scanReferences(folderPath)).map(reference => reference.value);
+      const unused = assetPaths.filter(assetPath => !values.some(value => referencesPath(value, assetPath)));
+
+      this.logger.info('Unused assets found', { folderPath, assets: assetPaths.length, unused: unused.length });
+      return createSuccessResponse({
+        folderPath,
+        assets: assetPaths.length,
+        referenced: assetPaths.length - unused.length,
+        unused,
+      }, 'findUnusedAssets') as UnusedAssetsResponse;
+    }, 'findUnusedAssets', 1);
+  }
+
   /**
    * Get asset metadata from AEM DAM
    */
@@ -221,4 +344,971 @@ export class AssetOperations implements Partial<IAEMConnector> {
       }, 'getAssetMetadata') as AssetMetadataResponse;
     }, 'getAssetMetadata');
   }
+
+  /**
+   * Create a sling:OrderedFolder with its title, as the Assets console does
+   */
+  async createAssetFolder(request: CreateAssetFolderRequest): Promise<AssetFolderResponse> {
+    return safeExecute<AssetFolderResponse>(async () => {
+      const { parentPath, name, title = name } = request;
+      this.requireAssetPath(parentPath, 'parentPath', true);
+      requireNodeName(name);
+      const folderPath = `${parentPath.replace(/\/+$/, '')}/${name}`;
+      if (await this.readNode(folderPath)) {
+        throw createAEMError(AEM_ERROR_CODES.CONFLICT, `${folderPath} already exists`, { folderPath });
+      }
+
+      await this.writeFolder(folderPath, title);
+      this.logger.info('Asset folder created', { folderPath });
+      return createSuccessResponse({ folderPath, title, timestamp: new Date().toISOString() }, 'createAssetFolder') as AssetFolderResponse;
+    }, 'createAssetFolder', 1);
+  }
+
+  /**
+   * Move a folder with everything in it; the destination must not exist
+   */
+  async moveAssetFolder(request: MoveAssetFolderRequest): Promise<AssetFolderResponse> {
+    return safeExecute<AssetFolderResponse>(() => this.relocateFolder(request, 'moveAssetFolder'), 'moveAssetFolder', 1);
+  }
+
+  /**
+   * Rename a folder in place, and optionally retitle it
+   */
+  async renameAssetFolder(request: RenameAssetFolderRequest): Promise<AssetFolderResponse> {
+    return safeExecute<AssetFolderResponse>(async () => {
+      const destParentPath = request.folderPath.substring(0, request.folderPath.lastIndexOf('/'));
+      return this.relocateFolder({ ...request, destParentPath }, 'renameAssetFolder');
+    }, 'renameAssetFolder', 1);
+  }
+
+  /**
+   * Delete a folder; folders that are not empty are only deleted with force
+   */
+  async deleteAssetFolder(request: DeleteAssetFolderRequest): Promise<AssetFolderResponse> {
+    return safeExecute<AssetFolderResponse>(async () => {
+      const { folderPath, force = false } = request;
+      this.requireAssetPath(folderPath, 'folderPath');
+      const folder = await this.requireFolder(folderPath);
+      const items = childNames(folder).length;
+      if (items > 0 && !force) {
+        throw createAEMError(AEM_ERROR_CODES.CONFLICT, `${folderPath} holds ${items} assets or folders; pass force: true to delete them too`, { folderPath, items });
+      }
+
+      await this.httpClient.post(folderPath, new URLSearchParams({ ':operation': 'delete' }), { headers: FORM_HEADERS });
+      this.logger.info('Asset folder deleted', { folderPath, items });
+      return createSuccessResponse({ folderPath, deletedItems: items, timestamp: new Date().toISOString() }, 'deleteAssetFolder') as AssetFolderResponse;
+    }, 'deleteAssetFolder', 1);
+  }
+
+  /**
+   * Upload a local directory tree into a DAM folder: subdirectories become folders, files are
+   * uploaded a few at a time, and files whose SHA-1 matches the asset's dam:sha1 are skipped.
+   * A file that fails does not stop the others; the per-file results are also written to a
+   * report in the uploads directory. Progress counts the files done.
+   */
+  async uploadFolder(request: UploadFolderRequest): Promise<UploadFolderResponse> {
+    return safeExecute<UploadFolderResponse>(async () => {
+      const { localDir, parentPath, concurrency = DEFAULT_CONCURRENCY, skipUnchanged = true } = request;
+      this.requireAssetPath(parentPath, 'parentPath', true);
+      if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `concurrency must be between 1 and ${MAX_CONCURRENCY}`, { concurrency });
+      }
+      const root = this.uploadFilePath(localDir);
+      const stat = await fs.stat(root).catch(() => undefined);
+      if (!stat?.isDirectory()) {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Upload directory not found: ${localDir}`, { localDir, dir: this.uploadsDir });
+      }
+
+      const started = Date.now();
+      const { directories, files } = await listTree(root);
+      const damPath = (relative: string) => relative ? `${parentPath.replace(/\/+$/, '')}/${relative}` : parentPath.replace(/\/+$/, '');
+
+      // Folders are created parents first, before any file is uploaded into them
+      const createdFolders: string[] = [];
+      const failedFolders = new Map<string, string>();
+      for (const directory of ['', ...directories]) {
+        const parentFailure = [...failedFolders.keys()].find(failed => directory.startsWith(`${failed}/`) || failed === '');
+        if (parentFailure !== undefined) {
+          failedFolders.set(directory, failedFolders.get(parentFailure)!);
+          continue;
+        }
+        try {
+          if (directory) requireNodeName(path.posix.basename(directory));
+          if (await this.ensureFolder(damPath(directory), path.posix.basename(directory) || path.posix.basename(parentPath))) {
+            createdFolders.push(damPath(directory));
+          }
+        } catch (error: any) {
+          failedFolders.set(directory, error.message);
+        }
+      }
+
+      let done = 0;
+      reportProgress(0, files.length, `Uploading ${localDir}`);
+      const results = await mapWithConcurrency(files, concurrency, async (file): Promise<UploadFolderFileResult> => {
+        const folder = path.posix.dirname(file) === '.' ? '' : path.posix.dirname(file);
+        const assetPath = damPath(file);
+        try {
+          const folderFailure = failedFolders.get(folder);
+          if (folderFailure !== undefined) {
+            return { file, assetPath, status: 'failed', error: `Folder not created: ${folderFailure}` };
+          }
+          const localFile = path.relative(this.uploadsDir, path.join(root, file));
+          if (skipUnchanged) {
+            const sha1 = await sha1Of(path.join(root, file));
+            if (await this.assetSha1(assetPath) === sha1) {
+              return { file, assetPath, status: 'skipped', sha1 };
+            }
+          }
+          // Byte progress of single uploads would interleave with the file count
+          const uploaded = await runWithProgress(() => undefined, () => this.uploadAsset({
+            parentPath: damPath(folder),
+            fileName: path.posix.basename(file),
+            localFile,
+          }));
+          return { file, assetPath, status: 'uploaded', size: uploaded.data.size, sha1: uploaded.data.sha1 };
+        } catch (error: any) {
+          return { file, assetPath, status: 'failed', error: error.message };
+        } finally {
+          reportProgress(++done, files.length, `Uploaded ${file}`);
+        }
+      });
+
+      const count = (status: UploadFolderFileResult['status']) => results.filter(result => result.status === status).length;
+      const summary = {
+        localDir,
+        parentPath,
+        createdFolders,
+        uploaded: count('uploaded'),
+        skipped: count('skipped'),
+        failed: count('failed'),
+        files: results,
+      };
+      const reportDir = path.join(this.uploadsDir, REPORTS_DIR);
+      const reportFile = path.join(reportDir, `upload-${new Date(started).toISOString().replace(/[:.]/g, '-')}.json`);
+      await fs.mkdir(reportDir, { recursive: true });
+      await fs.writeFile(reportFile, JSON.stringify(summary, null, 2));
+
+      this.logger.info('Folder uploaded', { localDir, parentPath, uploaded: summary.uploaded, skipped: summary.skipped, failed: summary.failed });
+      return createSuccessResponse({ ...summary, reportFile, durationMs: Date.now() - started }, 'uploadFolder') as UploadFolderResponse;
+    }, 'uploadFolder', 1);
+  }
+
+  /**
+   * Metadata of the assets in a folder as a CSV in the format of the AEM metadata export,
+   * one row per asset; column types follow the stored property types
+   */
+  async exportAssetMetadata(request: ExportAssetMetadataRequest): Promise<ExportAssetMetadataResponse> {
+    return safeExecute<ExportAssetMetadataResponse>(async () => {
+      const { folderPath, fields, recursive = true, fileName, ...options } = request;
+      this.requireAssetPath(folderPath, 'folderPath', true);
+      const localFile = fileName ? this.uploadFilePath(fileName) : undefined;
+
+      const assetPaths = await this.listAssets(folderPath, recursive);
+      const assets: Array<{ assetPath: string; properties: Record<string, DocViewProperty> }> = [];
+      for (const assetPath of assetPaths) {
+        const metadata = await this.readMetadata(assetPath);
+        const { properties } = fromSlingJson(metadata || {}, `${assetPath}/jcr:content/metadata`, []);
+        assets.push({ assetPath, properties });
+        reportProgress(assets.length, assetPaths.length, `Read ${assetPath}`);
+      }
+
+      const names = fields?.length
+        ? fields
+        : [...new Set(assets.flatMap(asset => Object.keys(asset.properties)))].filter(name => !UNEXPORTED_METADATA.has(name)).sort();
+      const columns: MetadataColumn[] = names.map(name => {
+        const stored = assets.map(asset => asset.properties[name]).filter(Boolean);
+        return { name, type: metadataType(stored[0]?.type), multiple: stored.some(property => property.multiple) };
+      });
+      const csv = writeMetadataCsv(columns, assets.map(asset => ({
+        assetPath: asset.assetPath,
+        values: names.map(name => asset.properties[name]?.values ?? []),
+      })), options);
+      if (localFile) {
+        await fs.mkdir(path.dirname(localFile), { recursive: true });
+        await fs.writeFile(localFile, csv);
+      }
+
+      this.logger.info('Asset metadata exported', { folderPath, assets: assets.length, columns: columns.length });
+      return createSuccessResponse({
+        folderPath,
+        assets: assets.length,
+        columns: columns.map(formatColumn),
+        csv,
+        ...(localFile ? { localFile } : {}),
+        timestamp: new Date().toISOString(),
+      }, 'exportAssetMetadata') as ExportAssetMetadataResponse;
+    }, 'exportAssetMetadata', 1);
+  }
+
+  /**
+   * Apply a metadata CSV in the format of the AEM metadata import. Empty cells leave a
+   * property as it is, and only properties whose values differ are written, so a dry run
+   * shows the changes. A row that fails does not stop the others.
+   */
+  async importAssetMetadata(request: ImportAssetMetadataRequest): Promise<ImportAssetMetadataResponse> {
+    return safeExecute<ImportAssetMetadataResponse>(async () => {
+      const { columns, rows } = this.readMetadataCsvRequest(request);
+      const results: AssetMetadataRowResult[] = [];
+      for (const row of rows) {
+        results.push(await this.importMetadataRow(row, columns, request.multiValueDelimiter));
+        reportProgress(results.length, rows.length, `Imported line ${row.line}`);
+      }
+
+      const count = (status: AssetMetadataRowResult['status']) => results.filter(result => result.status === status).length;
+      const summary = { rows: rows.length, updated: count('updated'), unchanged: count('unchanged'), failed: count('failed') };
+      this.logger.info('Asset metadata imported', summary);
+      return createSuccessResponse({ ...summary, results, timestamp: new Date().toISOString() }, 'importAssetMetadata') as ImportAssetMetadataResponse;
+    }, 'importAssetMetadata', 1);
+  }
+
+  /**
+   * Metadata nodes a CSV import writes, for the access check and the journal; rows the import
+   * refuses are left out. Throws on CSVs that cannot be read.
+   */
+  getAssetMetadataTargets(request: ImportAssetMetadataRequest): string[] {
+    return this.readMetadataCsvRequest(request).rows
+      .map(row => row.assetPath)
+      .filter(assetPath => this.isAssetPath(assetPath))
+      .map(assetPath => `${assetPath}/jcr:content/metadata`);
+  }
+
+  /**
+   * Renditions of an asset with their sizes; dimensions come from the asset metadata for the
+   * original and from the name for cq5dam renditions such as cq5dam.web.1280.1280.jpeg
+   */
+  async listRenditions(assetPath: string): Promise<ListRenditionsResponse> {
+    return safeExecute<ListRenditionsResponse>(async () => {
+      this.requireAssetPath(assetPath, 'assetPath');
+      const renditions = await this.readRenditions(assetPath);
+      return createSuccessResponse({ assetPath, renditions }, 'listRenditions') as ListRenditionsResponse;
+    }, 'listRenditions');
+  }
+
+  /**
+   * Save a rendition to the uploads directory
+   */
+  async downloadRendition(request: DownloadRenditionRequest): Promise<DownloadRenditionResponse> {
+    return safeExecute<DownloadRenditionResponse>(async () => {
+      const { assetPath, rendition } = request;
+      this.requireAssetPath(assetPath, 'assetPath');
+      requireNodeName(rendition);
+      const assetName = assetPath.substring(assetPath.lastIndexOf('/') + 1);
+      const fileName = request.fileName
+        || (rendition === ORIGINAL_RENDITION ? assetName : `${assetName.replace(/\.[^.]*$/, '')}-${rendition}`);
+      const localFile = this.uploadFilePath(fileName);
+
+      let response;
+      try {
+        response = await this.httpClient.get(`${assetPath}/jcr:content/renditions/${rendition}`, {
+          responseType: 'stream',
+          cache: false,
+          timeout: UPLOAD_TIMEOUT_MS,
+        });
+      } catch (error: any) {
+        if (error.response?.status === 404) {
+          throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Rendition not found: ${assetPath}/jcr:content/renditions/${rendition}`, { assetPath, rendition });
+        }
+        throw error;
+      }
+
+      const total = Number(response.headers?.['content-length']) || undefined;
+      const hash = createHash('sha1');
+      let size = 0;
+      const partial = `${localFile}.part`;
+      await fs.mkdir(path.dirname(localFile), { recursive: true });
+      try {
+        await pipeline(response.data, async function* (chunks: AsyncIterable<Buffer>) {
+          for await (const chunk of chunks) {
+            hash.update(chunk);
+            size += chunk.length;
+            reportProgress(size, total, `Downloading ${rendition}`);
+            yield chunk;
+          }
+        }, createWriteStream(partial));
+        await fs.rename(partial, localFile);
+      } catch (error) {
+        await fs.rm(partial, { force: true });
+        throw error;
+      }
+
+      this.logger.info('Rendition downloaded', { assetPath, rendition, size });
+      return createSuccessResponse({
+        assetPath,
+        rendition,
+        localFile,
+        size,
+        sha1: hash.digest('hex'),
+        mimeType: response.headers?.['content-type'],
+      }, 'downloadRendition') as DownloadRenditionResponse;
+    }, 'downloadRendition', 1);
+  }
+
+  /**
+   * Add or replace a custom rendition; the original is replaced by uploading the asset again
+   */
+  async uploadRendition(request: UploadRenditionRequest): Promise<UploadRenditionResponse> {
+    return safeExecute<UploadRenditionResponse>(async () => {
+      const { assetPath, rendition } = request;
+      this.requireAssetPath(assetPath, 'assetPath');
+      requireRendition(rendition);
+      if (!(await this.readNode(assetPath))) {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Asset not found: ${assetPath}`, { assetPath });
+      }
+
+      const mimeType = request.mimeType || DATA_URL.exec(request.fileContent || '')?.[1] || guessMimeType(rendition);
+      const source = await this.openSource({ ...request, fileName: rendition });
+      const hash = createHash('sha1');
+      try {
+        // A file field named after the node creates or replaces that nt:file
+        await this.postMultipart(`${assetPath}/jcr:content/renditions`, {
+          _charset_: 'utf-8',
+          [`${rendition}@TypeHint`]: 'nt:file',
+        }, rendition, rendition, mimeType, source, hash);
+      } finally {
+        await source.close();
+      }
+
+      const renditionPath = `${assetPath}/jcr:content/renditions/${rendition}`;
+      this.logger.info('Rendition uploaded', { renditionPath, size: source.size });
+      return createSuccessResponse({
+        assetPath,
+        renditionPath,
+        mimeType,
+        size: source.size,
+        sha1: hash.digest('hex'),
+        timestamp: new Date().toISOString(),
+      }, 'uploadRendition') as UploadRenditionResponse;
+    }, 'uploadRendition', 1);
+  }
+
+  /**
+   * Delete renditions other than the original in one request
+   */
+  async deleteRenditions(request: DeleteRenditionsRequest): Promise<DeleteRenditionsResponse> {
+    return safeExecute<DeleteRenditionsResponse>(async () => {
+      const { assetPath, renditions } = request;
+      this.requireAssetPath(assetPath, 'assetPath');
+      if (!Array.isArray(renditions) || renditions.length === 0) {
+        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, 'renditions must list at least one rendition', { renditions });
+      }
+      renditions.forEach(requireRendition);
+      const existing = new Set((await this.readRenditions(assetPath)).map(rendition => rendition.name));
+      const missing = renditions.filter(rendition => !existing.has(rendition));
+      if (missing.length > 0) {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Renditions not found on ${assetPath}: ${missing.join(', ')}`, { assetPath, missing });
+      }
+
+      const form = new URLSearchParams({ ':operation': 'delete' });
+      renditions.forEach(rendition => form.append(':applyTo', `${assetPath}/jcr:content/renditions/${rendition}`));
+      await this.httpClient.post(`${assetPath}/jcr:content/renditions`, form, { headers: FORM_HEADERS });
+
+      this.logger.info('Renditions deleted', { assetPath, renditions });
+      return createSuccessResponse({ assetPath, deleted: renditions, timestamp: new Date().toISOString() }, 'deleteRenditions') as DeleteRenditionsResponse;
+    }, 'deleteRenditions', 1);
+  }
+
+  /**
+   * Regenerate renditions and metadata: the DAM Update Asset workflow on AEM 6.5, processing
+   * profiles through the Assets console's reprocess command on AEM as a Cloud Service
+   */
+  async reprocessAsset(request: ReprocessAssetRequest): Promise<ReprocessAssetResponse> {
+    return safeExecute<ReprocessAssetResponse>(async () => {
+      const { assetPath, profile = DEFAULT_PROCESSING_PROFILE } = request;
+      const mode = request.mode
+        ?? (uploadModeFor((getCurrentEnvironment()?.config ?? this.config()).host) === 'direct' ? 'processingProfile' : 'workflow');
+      this.requireAssetPath(assetPath, 'assetPath');
+      if (!(await this.readNode(assetPath))) {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Asset not found: ${assetPath}`, { assetPath });
+      }
+
+      if (mode === 'processingProfile') {
+        await this.httpClient.post('/bin/asynccommand', new URLSearchParams({
+          _charset_: 'utf-8',
+          optype: 'REPROCESS',
+          operation: 'PROCESS',
+          'profile-select': profile,
+          runPostProcess: 'false',
+          path: assetPath,
+        }), { headers: FORM_HEADERS });
+        this.logger.info('Asset reprocessing requested', { assetPath, mode, profile });
+        return createSuccessResponse({ assetPath, mode, profile, timestamp: new Date().toISOString() }, 'reprocessAsset') as ReprocessAssetResponse;
+      }
+
+      const response = await this.httpClient.post('/etc/workflow/instances', new URLSearchParams({
+        model: DAM_UPDATE_ASSET_MODEL,
+        payloadType: 'JCR_PATH',
+        payload: `${assetPath}/jcr:content/renditions/${ORIGINAL_RENDITION}`,
+      }), { headers: FORM_HEADERS });
+      const instancePath: string | undefined = response.headers?.location || response.data?.path;
+      this.logger.info('Asset reprocessing started', { assetPath, mode, instancePath });
+      return createSuccessResponse({
+        assetPath,
+        mode,
+        ...(instancePath ? { workflowId: instancePath.split('/').pop() } : {}),
+        timestamp: new Date().toISOString(),
+      }, 'reprocessAsset') as ReprocessAssetResponse;
+    }, 'reprocessAsset', 1);
+  }
+
+  /**
+   * Stream the content to the folder's createasset.html as multipart form data
+   */
+  private async uploadMultipart(parentPath: string, fileName: string, mimeType: string, source: UploadSource, hash: Hash): Promise<unknown> {
+    return this.postMultipart(`${parentPath}.createasset.html`, { _charset_: 'utf-8', fileName, replaceAsset: 'true' }, 'file', fileName, mimeType, source, hash);
+  }
+
+  /**
+   * Post form fields and then the content as a file field, streamed and hashed as it is sent
+   */
+  private async postMultipart(
+    url: string,
+    fields: Record<string, string>,
+    fileField: string,
+    fileName: string,
+    mimeType: string,
+    source: UploadSource,
+    hash: Hash
+  ): Promise<unknown> {
+    const boundary = `----aem-mcp-${randomUUID()}`;
+    const head = Buffer.from([
+      ...Object.entries(fields).map(([name, value]) => `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`),
+      `--${boundary}\r\nContent-Disposition: form-data; name="${fileField}"; filename="${fileName}"\r\nContent-Type: ${mimeType}\r\n\r\n`,
+    ].join(''), 'utf8');
+    const tail = Buffer.from(`\r\n--${boundary}--\r\n`, 'utf8');
+
+    let sent = 0;
+    const body = Readable.from((async function* () {
+      yield head;
+      for (let offset = 0; offset < source.size; offset += CHUNK_SIZE) {
+        const chunk = await source.read(offset, Math.min(CHUNK_SIZE, source.size - offset));
+        hash.update(chunk);
+        sent += chunk.length;
+        reportProgress(sent, source.size, `Uploading ${fileName}`);
+        yield chunk;
+      }
+      yield tail;
+    })());
+
+    const response = await this.uploadClient.post(url, body, {
+      headers: {
+        'Content-Type': `multipart/form-data; boundary=${boundary}`,
+        'Content-Length': String(head.length + source.size + tail.length),
+      },
+      timeout: UPLOAD_TIMEOUT_MS,
+      maxBodyLength: Infinity,
+    });
+    return response.data;
+  }
+
+  /**
+   * Direct binary upload: AEM hands out pre-signed URIs, the parts go straight to blob storage,
+   * and completeUpload creates the asset from them
+   */
+  private async uploadDirect(parentPath: string, fileName: string, mimeType: string, source: UploadSource, hash: Hash): Promise<unknown> {
+    const initiate = await this.uploadClient.post(`${parentPath}.initiateUpload.json`, new URLSearchParams({
+      fileName,
+      fileSize: String(source.size),
+    }), { headers: FORM_HEADERS });
+    const completeURI: string | undefined = initiate.data?.completeURI;
+    const file = initiate.data?.files?.[0];
+    if (!completeURI || !file?.uploadToken || !Array.isArray(file.uploadURIs) || file.uploadURIs.length === 0) {
+      throw createAEMError(AEM_ERROR_CODES.UPDATE_FAILED, `${parentPath} does not support direct binary upload`, { parentPath, response: initiate.data });
+    }
+
+    const uploadURIs: string[] = file.uploadURIs;
+    const partSize = Math.max(file.minPartSize || 0, Math.ceil(source.size / uploadURIs.length), 1);
+    if (file.maxPartSize && partSize > file.maxPartSize) {
+      throw createAEMError(AEM_ERROR_CODES.UPDATE_FAILED, `${fileName} is too large for the ${uploadURIs.length} upload URIs AEM returned`, { fileName, size: source.size });
+    }
+
+    let offset = 0;
+    let index = 0;
+    do {
+      const part = await source.read(offset, Math.min(partSize, source.size - offset));
+      hash.update(part);
+      // Pre-signed URIs carry their own authorization; AEM credentials must not be sent to them
+      const response = await fetch(uploadURIs[index], { method: 'PUT', body: part, headers: { 'Content-Type': mimeType } });
+      if (!response.ok) {
+        throw createAEMError(AEM_ERROR_CODES.UPDATE_FAILED, `Upload of part ${index + 1} of ${fileName} failed with status ${response.status}`, { fileName, part: index + 1 });
+      }
+      offset += part.length;
+      index++;
+      reportProgress(offset, source.size, `Uploading ${fileName}`);
+    } while (offset < source.size);
+
+    const complete = await this.uploadClient.post(completeURI, new URLSearchParams({
+      fileName,
+      mimeType,
+      uploadToken: file.uploadToken,
+      fileSize: String(source.size),
+      replace: 'true',
+    }), { headers: FORM_HEADERS, timeout: UPLOAD_TIMEOUT_MS });
+    return complete.data;
+  }
+
+  /**
+   * SHA-1 AEM holds for an asset: dam:sha1 from its metadata, or that of the original rendition
+   * while the metadata has not been extracted yet
+   */
+  private async storedSha1(assetPath: string): Promise<string> {
+    try {
+      const metadata = (await this.httpClient.get(`${assetPath}/jcr:content/metadata.json`, { cache: false })).data;
+      if (typeof metadata?.['dam:sha1'] === 'string') {
+        return metadata['dam:sha1'];
+      }
+    } catch (error: any) {
+      if (error.response?.status !== 404) throw error;
+    }
+
+    const response = await this.httpClient.get(`${assetPath}/jcr:content/renditions/original`, {
+      responseType: 'stream',
+      cache: false,
+      timeout: UPLOAD_TIMEOUT_MS,
+    });
+    const hash = createHash('sha1');
+    for await (const chunk of response.data) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  private async relocateFolder(request: MoveAssetFolderRequest, operation: string): Promise<AssetFolderResponse> {
+    const { folderPath, destParentPath, newTitle } = request;
+    this.requireAssetPath(folderPath, 'folderPath');
+    this.requireAssetPath(destParentPath, 'destParentPath', true);
+    const name = request.newName || folderPath.substring(folderPath.lastIndexOf('/') + 1);
+    requireNodeName(name);
+    const destinationPath = `${destParentPath.replace(/\/+$/, '')}/${name}`;
+    if (destinationPath === folderPath || destinationPath.startsWith(`${folderPath}/`)) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Cannot ${operation} ${folderPath} to ${destinationPath}`, { folderPath, destinationPath });
+    }
+    await this.requireFolder(folderPath);
+    if (await this.readNode(destinationPath)) {
+      throw createAEMError(AEM_ERROR_CODES.CONFLICT, `Destination already exists: ${destinationPath}`, { destinationPath });
+    }
+
+    await this.httpClient.post(folderPath, new URLSearchParams({ ':operation': 'move', ':dest': destinationPath }), { headers: FORM_HEADERS });
+    if (newTitle) {
+      await this.httpClient.post(`${destinationPath}/jcr:content`, new URLSearchParams({ 'jcr:title': newTitle }), { headers: FORM_HEADERS });
+    }
+    this.logger.info('Asset folder relocated', { operation, folderPath, destinationPath });
+    return createSuccessResponse({
+      folderPath: destinationPath,
+      sourcePath: folderPath,
+      ...(newTitle ? { title: newTitle } : {}),
+      timestamp: new Date().toISOString(),
+    }, operation) as AssetFolderResponse;
+  }
+
+  /**
+   * Create a folder unless it exists; true when it was created
+   */
+  private async ensureFolder(folderPath: string, title: string): Promise<boolean> {
+    const node = await this.readNode(folderPath);
+    if (node) {
+      if (!FOLDER_TYPES.has(node['jcr:primaryType'])) {
+        throw createAEMError(AEM_ERROR_CODES.CONFLICT, `${folderPath} exists and is not a folder`, { folderPath });
+      }
+      return false;
+    }
+    await this.writeFolder(folderPath, title);
+    return true;
+  }
+
+  private async writeFolder(folderPath: string, title: string): Promise<void> {
+    await this.httpClient.post(folderPath, new URLSearchParams({
+      'jcr:primaryType': 'sling:OrderedFolder',
+      'jcr:content/jcr:primaryType': 'nt:unstructured',
+      'jcr:content/jcr:title': title,
+    }), { headers: FORM_HEADERS });
+  }
+
+  private async requireFolder(folderPath: string): Promise<Record<string, any>> {
+    const node = await this.readNode(folderPath);
+    if (!node) {
+      throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Folder not found: ${folderPath}`, { folderPath });
+    }
+    if (!FOLDER_TYPES.has(node['jcr:primaryType'])) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `${folderPath} is not a folder`, { folderPath, primaryType: node['jcr:primaryType'] });
+    }
+    return node;
+  }
+
+  private async readNode(nodePath: string): Promise<Record<string, any> | undefined> {
+    try {
+      return (await this.httpClient.get(`${nodePath}.1.json`, { cache: false })).data;
+    } catch (error: any) {
+      if (error.response?.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  private async importMetadataRow(row: MetadataCsvRow, columns: MetadataColumn[], multiValueDelimiter?: string): Promise<AssetMetadataRowResult> {
+    const { line, assetPath } = row;
+    try {
+      this.requireAssetPath(assetPath, 'assetPath');
+      const errors: string[] = [];
+      const values = columns.map((column, index) => {
+        try {
+          return parseCell(column, row.cells[index], multiValueDelimiter);
+        } catch (error: any) {
+          errors.push(error.message);
+          return [];
+        }
+      });
+      if (errors.length > 0) {
+        return { line, assetPath, status: 'failed', error: errors.join('; ') };
+      }
+      const metadata = await this.readMetadata(assetPath);
+      if (!metadata) {
+        return { line, assetPath, status: 'failed', error: `Asset not found: ${assetPath}` };
+      }
+
+      const { properties } = fromSlingJson(metadata, `${assetPath}/jcr:content/metadata`, []);
+      const form = new URLSearchParams();
+      const changed: string[] = [];
+      columns.forEach((column, index) => {
+        if (values[index].length === 0 || sameMetadata(properties[column.name], column, values[index])) return;
+        // Always hinted: without a hint Sling keeps the type of an existing property
+        form.append(`${column.name}@TypeHint`, `${column.type}${column.multiple ? '[]' : ''}`);
+        values[index].forEach(value => form.append(column.name, value));
+        changed.push(column.name);
+      });
+      if (changed.length === 0) {
+        return { line, assetPath, status: 'unchanged' };
+      }
+      await this.httpClient.post(`${assetPath}/jcr:content/metadata`, form, { headers: FORM_HEADERS });
+      return { line, assetPath, status: 'updated', changed };
+    } catch (error: any) {
+      return { line, assetPath, status: 'failed', error: error.message };
+    }
+  }
+
+  private readMetadataCsvRequest(request: ImportAssetMetadataRequest): MetadataCsv {
+    const { csv, localFile, ...options } = request;
+    if ((csv === undefined) === (localFile === undefined)) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, 'Give either csv or localFile', {});
+    }
+    let text = csv;
+    if (localFile !== undefined) {
+      const file = this.uploadFilePath(localFile);
+      try {
+        text = readFileSync(file, 'utf8');
+      } catch {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `CSV file not found: ${localFile}`, { localFile, dir: this.uploadsDir });
+      }
+    }
+    try {
+      return readMetadataCsv(text!, options);
+    } catch (error: any) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid metadata CSV: ${error.message}`, { localFile });
+    }
+  }
+
+  private async listAssets(folderPath: string, recursive: boolean): Promise<string[]> {
+    const response = await this.httpClient.get('/bin/querybuilder.json', {
+      params: {
+        path: folderPath,
+        ...(recursive ? {} : { 'path.flat': 'true' }),
+        type: 'dam:Asset',
+        orderby: 'path',
+        'p.limit': -1,
+        'p.hits': 'selective',
+        'p.properties': 'jcr:path',
+      },
+      cache: false,
+    });
+    return (response.data?.hits || []).map((hit: Record<string, string>) => hit['jcr:path']);
+  }
+
+  private async readReferences(assetPath: string): Promise<AssetReference[]> {
+    return (await this.scanReferences(assetPath))
+      .filter(reference => referencesPath(reference.value, assetPath))
+      .map(({ value, ...reference }) => ({ ...reference, kind: referenceKind(reference.property, value) }));
+  }
+
+  /**
+   * Properties the WCM reference search reports for a path, with their values. The search
+   * matches text, so values are checked by the callers; each referencing node is read once.
+   */
+  private async scanReferences(searchPath: string): Promise<Array<Omit<AssetReference, 'kind'> & { value: string }>> {
+    const response = await this.httpClient.get(REFERENCES_ENDPOINT, {
+      params: { path: searchPath, _charset_: 'utf-8' },
+      cache: false,
+    });
+    const pages: any[] = response.data?.pages || [];
+    const properties = pages.flatMap(page => (page.references || []).map((propertyPath: string) => ({ page, propertyPath })));
+
+    const nodes = new Map<string, Record<string, any> | undefined>();
+    const references: Array<Omit<AssetReference, 'kind'> & { value: string }> = [];
+    for (const [index, { page, propertyPath }] of properties.entries()) {
+      const componentPath = propertyPath.substring(0, propertyPath.lastIndexOf('/'));
+      const property = propertyPath.substring(propertyPath.lastIndexOf('/') + 1);
+      if (!nodes.has(componentPath)) {
+        nodes.set(componentPath, await this.readNode(componentPath));
+      }
+      const stored = nodes.get(componentPath)?.[property];
+      for (const value of (Array.isArray(stored) ? stored : [stored]).filter(item => typeof item === 'string')) {
+        references.push({
+          pagePath: page.path,
+          ...(page.title ? { pageTitle: page.title } : {}),
+          published: page.published === true || page.published === 'true',
+          componentPath,
+          property,
+          value,
+        });
+      }
+      reportProgress(index + 1, properties.length, `Checked ${propertyPath}`);
+    }
+    return references;
+  }
+
+  private async readRenditions(assetPath: string): Promise<AssetRendition[]> {
+    let content: Record<string, any>;
+    try {
+      content = (await this.httpClient.get(`${assetPath}/jcr:content.3.json`, { cache: false })).data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Asset not found: ${assetPath}`, { assetPath });
+      }
+      throw error;
+    }
+    const metadata = content?.metadata || {};
+    return childNames(content?.renditions || {}).map(name => {
+      const file = content.renditions[name]['jcr:content'] || {};
+      const dimensions = name === ORIGINAL_RENDITION
+        ? [metadata['tiff:ImageWidth'] ?? metadata['exif:PixelXDimension'], metadata['tiff:ImageLength'] ?? metadata['exif:PixelYDimension']]
+        : (CQ5DAM_RENDITION.exec(name)?.slice(1) ?? []);
+      const [width, height] = dimensions.map(value => Number(value)).map(value => Number.isFinite(value) && value > 0 ? value : undefined);
+      return {
+        name,
+        path: `${assetPath}/jcr:content/renditions/${name}`,
+        ...(file['jcr:mimeType'] ? { mimeType: file['jcr:mimeType'] } : {}),
+        ...(typeof file[':jcr:data'] === 'number' ? { size: file[':jcr:data'] } : {}),
+        ...(width && height ? { width, height } : {}),
+        ...(file['jcr:lastModified'] ? { lastModified: toIsoDate(file['jcr:lastModified']) } : {}),
+      };
+    });
+  }
+
+  private async readMetadata(assetPath: string): Promise<Record<string, any> | undefined> {
+    try {
+      return (await this.httpClient.get(`${assetPath}/jcr:content/metadata.json`, { cache: false })).data;
+    } catch (error: any) {
+      if (error.response?.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  private async assetSha1(assetPath: string): Promise<string | undefined> {
+    return (await this.readMetadata(assetPath))?.['dam:sha1'];
+  }
+
+  /**
+   * Folder paths must lie below the assets root; parents may be the root itself
+   */
+  private requireAssetPath(assetPath: string, field: string, allowRoot = false): void {
+    if (!this.isAssetPath(assetPath, allowRoot)) {
+      const root = this.assetsRoot();
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `${field} must be below ${root}: ${String(assetPath)}`, { [field]: assetPath });
+    }
+  }
+
+  private isAssetPath(assetPath: string, allowRoot = false): boolean {
+    const root = this.assetsRoot();
+    return typeof assetPath === 'string'
+      && ((allowRoot && assetPath.replace(/\/+$/, '') === root) || assetPath.startsWith(`${root}/`))
+      && !assetPath.split('/').includes('..');
+  }
+
+  private assetsRoot(): string {
+    return (this.config().contentPaths?.assetsRoot || DEFAULT_ASSETS_ROOT).replace(/\/+$/, '');
+  }
+
+  /**
+   * Content of an upload request. Streams are spooled to a temporary file first, because the
+   * size must be known before sending and the parts of a direct upload are read by offset.
+   */
+  private async openSource(request: Pick<StreamUploadAssetRequest, 'fileName' | 'fileContent' | 'localFile' | 'stream'>): Promise<UploadSource> {
+    const given = [request.fileContent, request.localFile, request.stream].filter(value => value !== undefined).length;
+    if (given !== 1) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, 'Give exactly one of fileContent, localFile or stream', { fileName: request.fileName });
+    }
+
+    if (request.fileContent !== undefined) {
+      const data = Buffer.from(request.fileContent.replace(DATA_URL, ''), 'base64');
+      return {
+        size: data.length,
+        read: async (offset, length) => data.subarray(offset, offset + length),
+        close: async () => undefined,
+      };
+    }
+    if (request.localFile !== undefined) {
+      return fileSource(this.uploadFilePath(request.localFile), request.localFile);
+    }
+
+    const spooled = path.join(os.tmpdir(), `aem-upload-${randomUUID()}`);
+    try {
+      await pipeline(Readable.from(request.stream!), createWriteStream(spooled));
+      const source = await fileSource(spooled, request.fileName);
+      return { ...source, close: async () => {
+        await source.close();
+        await fs.rm(spooled, { force: true });
+      } };
+    } catch (error) {
+      await fs.rm(spooled, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * File in the uploads directory; paths leading outside it are refused
+   */
+  private uploadFilePath(localFile: string): string {
+    const resolved = path.resolve(this.uploadsDir, localFile);
+    const relative = path.relative(path.resolve(this.uploadsDir), resolved);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Upload files must be in the uploads directory: ${localFile}`, { localFile, dir: this.uploadsDir });
+    }
+    return resolved;
+  }
+}
+
+interface UploadSource {
+  size: number;
+  read(offset: number, length: number): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+async function fileSource(file: string, name: string): Promise<UploadSource> {
+  const handle = await fs.open(file, 'r').catch(() => undefined);
+  const stat = await handle?.stat();
+  if (!handle || !stat?.isFile()) {
+    await handle?.close();
+    throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Upload file not found: ${name}`, { localFile: name });
+  }
+  return {
+    size: stat.size,
+    read: async (offset, length) => {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      return buffer.subarray(0, bytesRead);
+    },
+    close: () => handle.close(),
+  };
+}
+
+function uploadModeFor(host: string): AssetUploadMode {
+  if (UPLOAD_MODE === 'direct' || UPLOAD_MODE === 'multipart') {
+    return UPLOAD_MODE;
+  }
+  try {
+    return CLOUD_SERVICE_HOST.test(new URL(host).hostname) ? 'direct' : 'multipart';
+  } catch {
+    return 'multipart';
+  }
+}
+
+function requireNodeName(name: string): void {
+  if (!name || /[/:[\]|*"]/.test(name) || name === '.' || name === '..') {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid name: ${String(name)}`, { name });
+  }
+}
+
+// Renditions that may be written or deleted: any but the original
+function requireRendition(rendition: string): void {
+  requireNodeName(rendition);
+  if (rendition === ORIGINAL_RENDITION) {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, 'The original rendition is changed by uploading the asset again', { rendition });
+  }
+}
+
+// Child items of a folder rendered to depth 1, without its own jcr:content and access control
+function childNames(node: Record<string, any>): string[] {
+  return Object.keys(node).filter(name => name !== 'jcr:content' && name !== 'rep:policy'
+    && node[name] && typeof node[name] === 'object' && !Array.isArray(node[name]));
+}
+
+/**
+ * Directories and files below root as sorted posix paths relative to it; hidden entries and
+ * symbolic links are left out
+ */
+async function listTree(root: string): Promise<{ directories: string[]; files: string[] }> {
+  const directories: string[] = [];
+  const files: string[] = [];
+  const walk = async (relative: string) => {
+    const entries = await fs.readdir(path.join(root, relative), { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+      const child = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        directories.push(child);
+        await walk(child);
+      } else if (entry.isFile()) {
+        files.push(child);
+      }
+    }
+  };
+  await walk('');
+  return { directories, files };
+}
+
+async function sha1Of(file: string): Promise<string> {
+  const hash = createHash('sha1');
+  for await (const chunk of createReadStream(file)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Results of fn for each item, in order, with at most limit calls running at a time
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Whether value holds path itself or a path below it, not merely a longer name starting with it
+function referencesPath(value: string, path: string): boolean {
+  for (let index = value.indexOf(path); index >= 0; index = value.indexOf(path, index + 1)) {
+    if (!/[\w.-]/.test(value.charAt(index + path.length))) return true;
+  }
+  return false;
+}
+
+function referenceKind(property: string, value: string): AssetReferenceKind {
+  if (property === 'fileReference') return 'fileReference';
+  if (property === 'fragmentPath') return 'contentFragment';
+  if (/<[a-z][^>]*>/i.test(value)) return 'richText';
+  return 'property';
+}
+
+function metadataType(type: DocViewType | undefined): MetadataType {
+  return type === 'Long' || type === 'Double' || type === 'Boolean' || type === 'Date' ? type : 'String';
+}
+
+// Whether the stored property already holds the values of a CSV cell
+function sameMetadata(stored: DocViewProperty | undefined, column: MetadataColumn, values: string[]): boolean {
+  if (!stored || metadataType(stored.type) !== column.type || stored.multiple !== column.multiple || stored.values.length !== values.length) {
+    return false;
+  }
+  return stored.values.every((value, index) => {
+    if (column.type === 'Date') return Date.parse(value) === Date.parse(values[index]);
+    if (column.type === 'Double') return Number(value) === Number(values[index]);
+    return value === values[index];
+  });
+}
+
+function guessMimeType(fileName: string): string {
+  const extension = fileName.includes('.') ? fileName.substring(fileName.lastIndexOf('.') + 1).toLowerCase() : '';
+  return MIME_TYPES[extension] || 'application/octet-stream';
 }
@@ -36,7 +36,7 @@ export class ComponentOperations implements Partial<IAEMConnector> {
   constructor(
     private httpClient: AxiosInstance,
     private logger: ILogger,
-    private config: AEMConfig
+    private config: () => AEMConfig
   ) {}
 
   /**
@@ -112,7 +112,7 @@ export class ComponentOperations implements Partial<IAEMConnector> {
           `Component path '${componentPath}' is not within allowed content roots`, 
           { 
             path: componentPath, 
-            allowedRoots: Object.values(this.config.contentPaths) 
+            allowedRoots: Object.values(this.config().contentPaths) 
           }
         );
       }
@@ -149,11 +149,12 @@ export class ComponentOperations implements Partial<IAEMConnector> {
 
       // Update the component
       const response = await this.httpClient.post(componentPath, formData, {
+        retrySafe: true,
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
           'Accept': 'application/json',
         },
-        timeout: this.config.queries.timeoutMs,
+        timeout: this.config().queries.timeoutMs,
       });
 
       // Verify the update
@@ -233,7 +234,7 @@ export class ComponentOperations implements Partial<IAEMConnector> {
 
       // Validate locale
       const normalizedLocale = locale.toLowerCase();
-      const isValidLocale = this.config.validation.allowedLocales.some(
+      const isValidLocale = this.config().validation.allowedLocales.some(
         l => l.toLowerCase() === normalizedLocale || 
         (normalizedLocale === 'en' && l.toLowerCase().startsWith('en'))
       );
@@ -244,7 +245,7 @@ export class ComponentOperations implements Partial<IAEMConnector> {
           `Locale '${locale}' is not supported`, 
           { 
             locale, 
-            allowedLocales: this.config.validation.allowedLocales 
+            allowedLocales: this.config().validation.allowedLocales 
           }
         );
       }
@@ -256,7 +257,7 @@ export class ComponentOperations implements Partial<IAEMConnector> {
           `Path '${pagePath}' is not within allowed content roots`, 
           { 
             path: pagePath, 
-            allowedRoots: Object.values(this.config.contentPaths) 
+            allowedRoots: Object.values(this.config().contentPaths) 
           }
         );
       }
@@ -268,7 +269,7 @@ export class ComponentOperations implements Partial<IAEMConnector> {
           `Component type '${component}' is not allowed`, 
           { 
             component, 
-            allowedTypes: this.config.components.allowedTypes 
+            allowedTypes: this.config().components.allowedTypes 
           }
         );
       }
@@ -276,7 +277,7 @@ export class ComponentOperations implements Partial<IAEMConnector> {
       // Get page data for validation
       const response = await this.httpClient.get(`${pagePath}.json`, {
         params: { ':depth': '2' },
-        timeout: this.config.queries.timeoutMs,
+        timeout: this.config().queries.timeoutMs,
       });
 
       const validation = this.validateComponentProps(response.data, component, props);
@@ -288,8 +289,8 @@ export class ComponentOperations implements Partial<IAEMConnector> {
         locale,
         validation,
         configUsed: {
-          allowedLocales: this.config.validation.allowedLocales,
-          allowedComponents: this.config.components.allowedTypes,
+          allowedLocales: this.config().validation.allowedLocales,
+          allowedComponents: this.config().components.allowedTypes,
         },
       }, 'validateComponent') as ValidateResponse;
     }, 'validateComponent');
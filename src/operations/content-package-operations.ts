@@ -0,0 +1,218 @@
+/**
+ * Content Package Operations Module
+ * Exports content subtrees to FileVault package zips in the local packages directory and imports
+ * such zips back through Sling POST, without the CRX Package Manager
+ */
+
+import { readFileSync, promises as fs } from 'fs';
+import { AxiosInstance } from 'axios';
+import {
+  ILogger,
+  AEMConfig,
+  ContentPackageImportMode,
+  ExportContentPackageRequest,
+  ExportContentPackageResponse,
+  ImportContentPackageRequest,
+  ImportContentPackageResponse
+} from '../interfaces/index.js';
+import {
+  createAEMError,
+  safeExecute,
+  createSuccessResponse,
+  AEM_ERROR_CODES,
+  isValidContentPath
+} from '../error-handler.js';
+import { reportProgress } from '../progress.js';
+import { ZipEntry, readZip, writeZip } from '../zip-archive.js';
+import {
+  ContentPackage,
+  DocViewNode,
+  DocViewProperty,
+  fromSlingJson,
+  readContentPackage,
+  readContentPackageRoots,
+  unknownNamespaces,
+  writeContentPackage
+} from '../filevault.js';
+import { DEFAULT_PACKAGES_DIR, isSafeName, packageFilePath } from './package-operations.js';
+import { PROTECTED_NODES, PROTECTED_PROPERTIES, readNodeTree, toImportableTree } from './journal-operations.js';
+
+const DEFAULT_GROUP = 'my_packages';
+const FORM_HEADERS = { 'Content-Type': 'application/x-www-form-urlencoded' };
+// Sling sets these from the node type; they take no type hint
+const UNHINTED_PROPERTIES = new Set(['jcr:primaryType', 'jcr:mixinTypes']);
+
+export class ContentPackageOperations {
+  constructor(
+    private httpClient: AxiosInstance,
+    private logger: ILogger,
+    private config: () => AEMConfig,
+    private dir: string = DEFAULT_PACKAGES_DIR
+  ) {}
+
+  /**
+   * Write a subtree to a package zip. Types .json does not show are inferred, so a Double
+   * holding a whole number is exported as a Long.
+   */
+  async exportContentPackage(request: ExportContentPackageRequest): Promise<ExportContentPackageResponse> {
+    return safeExecute<ExportContentPackageResponse>(async () => {
+      const { path, version, description } = request;
+      if (!isValidContentPath(path, this.config())) {
+        throw createAEMError(AEM_ERROR_CODES.INVALID_PATH, `Invalid content path: ${path}`, { path });
+      }
+      const packageName = request.packageName || path.substring(path.lastIndexOf('/') + 1);
+      const groupName = request.groupName || DEFAULT_GROUP;
+      if (!isSafeName(packageName) || !isSafeName(groupName) || (version !== undefined && !isSafeName(version))) {
+        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, 'Package name, group and version must not contain slashes or ..', { packageName, groupName, version });
+      }
+      const localPath = packageFilePath(this.dir, request.fileName || `${packageName}${version ? `-${version}` : ''}.zip`);
+
+      const tree = await readNodeTree(this.httpClient, path);
+      if (!tree) {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Node not found: ${path}`, { path });
+      }
+      const omittedBinaries: string[] = [];
+      const root = fromSlingJson(toImportableTree(tree, path, omittedBinaries), path, omittedBinaries);
+      const entries = writeContentPackage(root, path, { name: packageName, group: groupName, version, description });
+      const archive = writeZip(entries);
+
+      await fs.mkdir(this.dir, { recursive: true });
+      const partial = `${localPath}.part`;
+      await fs.writeFile(partial, archive);
+      await fs.rename(partial, localPath);
+
+      this.logger.info('Content package exported', { path, localPath, bytes: archive.length });
+      return createSuccessResponse({
+        path,
+        localPath,
+        nodes: countNodes(root),
+        files: entries.filter(entry => entry.name.endsWith('/.content.xml')).length,
+        bytes: archive.length,
+        omittedBinaries,
+        unknownNamespaces: unknownNamespaces(root),
+      }, 'exportContentPackage') as ExportContentPackageResponse;
+    }, 'exportContentPackage');
+  }
+
+  /**
+   * Write a package's content node by node, top down, with type hints so every property keeps
+   * its type. Progress counts the nodes written.
+   */
+  async importContentPackage(request: ImportContentPackageRequest): Promise<ImportContentPackageResponse> {
+    return safeExecute<ImportContentPackageResponse>(async () => {
+      const mode: ContentPackageImportMode = request.mode || 'replace';
+      const contentPackage = this.readPackage(request.fileName);
+      for (const root of contentPackage.roots) {
+        if (!isValidContentPath(root.path, this.config())) {
+          throw createAEMError(AEM_ERROR_CODES.INVALID_PATH, `Package filter root is not a valid content path: ${root.path}`, { fileName: request.fileName, root: root.path });
+        }
+        // Replacing the whole root would also delete the content the rules exclude
+        if (mode === 'replace' && root.hasRules) {
+          throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Filter root ${root.path} has include or exclude rules; import with mode: 'merge'`, { fileName: request.fileName, root: root.path });
+        }
+      }
+
+      const total = contentPackage.roots.reduce((count, root) => count + (root.node ? countNodes(root.node) : 0), 0);
+      let written = 0;
+      const deleted: string[] = [];
+      const omittedBinaries: string[] = [];
+      reportProgress(0, total, `Importing ${request.fileName}`);
+      for (const root of contentPackage.roots) {
+        if (mode === 'replace') {
+          await this.deleteNode(root.path);
+          if (!root.node) deleted.push(root.path);
+        }
+        if (root.node) {
+          await this.writeNode(root.path, root.path, root.node, omittedBinaries, (path) => reportProgress(++written, total, `Imported ${path}`));
+        }
+      }
+
+      this.logger.info('Content package imported', { fileName: request.fileName, mode, nodes: written });
+      return createSuccessResponse({
+        fileName: request.fileName,
+        mode,
+        roots: contentPackage.roots.map(root => root.path),
+        nodes: written,
+        deleted,
+        omittedBinaries,
+        skippedFiles: contentPackage.skippedFiles,
+      }, 'importContentPackage') as ImportContentPackageResponse;
+    }, 'importContentPackage', 1);
+  }
+
+  /**
+   * Filter roots of a package in the packages directory; read synchronously so the tool
+   * registry can check and journal them before the import runs
+   */
+  getContentPackageRoots(fileName: string): string[] {
+    return this.parse(fileName, entries => readContentPackageRoots(entries));
+  }
+
+  private readPackage(fileName: string): ContentPackage {
+    return this.parse(fileName, entries => readContentPackage(entries));
+  }
+
+  private parse<T>(fileName: string, read: (entries: ZipEntry[]) => T): T {
+    const localPath = packageFilePath(this.dir, fileName);
+    let archive: Buffer;
+    try {
+      archive = readFileSync(localPath);
+    } catch {
+      throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Package file not found: ${fileName}`, { fileName, dir: this.dir });
+    }
+    try {
+      return read(readZip(archive));
+    } catch (error: any) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `${fileName} is not a readable content package: ${error.message}`, { fileName });
+    }
+  }
+
+  private async deleteNode(path: string): Promise<void> {
+    try {
+      await this.httpClient.post(path, new URLSearchParams({ ':operation': 'delete' }), { headers: FORM_HEADERS, retrySafe: true });
+    } catch (error: any) {
+      if (error.response?.status !== 404) throw error;
+    }
+  }
+
+  private async writeNode(root: string, path: string, node: DocViewNode, omittedBinaries: string[], onWritten: (path: string) => void): Promise<void> {
+    // Only the filter root was validated and access-checked, so nothing may be written beside it
+    if (path !== root && !path.startsWith(`${root === '/' ? '' : root}/`)) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PATH, `Package node ${path} lies outside its filter root ${root}`, { root, path });
+    }
+    const form = new URLSearchParams();
+    for (const [name, property] of Object.entries(node.properties)) {
+      if (PROTECTED_PROPERTIES.has(name)) continue;
+      if (property.type === 'Binary') {
+        omittedBinaries.push(`${path}/${name}`);
+        continue;
+      }
+      appendProperty(form, name, property);
+    }
+    await this.httpClient.post(path, form, { headers: FORM_HEADERS, retrySafe: true });
+    onWritten(path);
+
+    for (const child of node.children) {
+      if (!PROTECTED_NODES.has(child.name)) {
+        await this.writeNode(root, `${path}/${child.name}`, child.node, omittedBinaries, onWritten);
+      }
+    }
+  }
+}
+
+function appendProperty(form: URLSearchParams, name: string, property: DocViewProperty): void {
+  if (!UNHINTED_PROPERTIES.has(name) && (property.type !== 'String' || property.multiple)) {
+    form.append(`${name}@TypeHint`, `${property.type}${property.multiple ? '[]' : ''}`);
+  }
+  if (property.multiple && property.values.length === 0) {
+    form.append(`${name}@IgnoreBlanks`, 'true');
+    form.append(name, '');
+  }
+  property.values.forEach(value => form.append(name, value));
+}
+
+function countNodes(node: DocViewNode): number {
+  return 1 + node.children
+    .filter(child => !PROTECTED_NODES.has(child.name))
+    .reduce((count, child) => count + countNodes(child.node), 0);
+}
@@ -0,0 +1,268 @@
+/**
+ * Environment Operations Module
+ * Compares a content subtree between two environment profiles (or an environment's author and
+ * publish instances) and promotes the differences to the author of the call's environment
+ */
+
+import { AxiosInstance } from 'axios';
+import {
+  ILogger,
+  AEMConfig,
+  DiffEnvironmentsRequest,
+  DiffEnvironmentsResponse,
+  EnvironmentEndpoint,
+  EnvironmentTier,
+  NodeDifference,
+  PromoteContentRequest,
+  PromoteContentResponse,
+  PropertyDifference
+} from '../interfaces/index.js';
+import {
+  createAEMError,
+  safeExecute,
+  createSuccessResponse,
+  AEM_ERROR_CODES,
+  isValidContentPath
+} from '../error-handler.js';
+import { EnvironmentProfiles, getCurrentEnvironment, runInEnvironment } from '../environments.js';
+import { isRecordingPlan } from '../plan-mode.js';
+import { PROTECTED_NODES, PROTECTED_PROPERTIES, readNodeTree, toImportableTree } from './journal-operations.js';
+import { compareVersionData } from './version-operations.js';
+
+type Node = Record<string, unknown>;
+
+// Differ between instances without the content differing
+const VOLATILE_PROPERTIES = new Set([
+  'jcr:lastModified',
+  'jcr:lastModifiedBy',
+  'cq:lastModified',
+  'cq:lastModifiedBy',
+  'cq:lastReplicated',
+  'cq:lastReplicatedBy',
+  'cq:lastReplicationAction',
+  'cq:lastRolledout',
+  'cq:lastRolledoutBy',
+]);
+
+const FORM_HEADERS = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+export class EnvironmentOperations {
+  constructor(
+    private httpClient: AxiosInstance,
+    private logger: ILogger,
+    private config: () => AEMConfig,
+    private environments: EnvironmentProfiles
+  ) {}
+
+  /**
+   * Walk the subtree on both endpoints and report how the target differs from the source.
+   * Added and removed nodes are reported once, at the top of the subtree that is missing.
+   */
+  async diffEnvironments(request: DiffEnvironmentsRequest): Promise<DiffEnvironmentsResponse> {
+    return safeExecute<DiffEnvironmentsResponse>(async () => {
+      const source = this.endpoint(request.source, request.sourceTier);
+      const target = this.endpoint(request.target, request.targetTier);
+      const differences = await this.compare(request.path, source, target, request.ignoreProperties);
+
+      return createSuccessResponse({
+        path: request.path,
+        source,
+        target,
+        differences,
+        summary: {
+          added: differences.filter(difference => difference.type === 'added').length,
+          removed: differences.filter(difference => difference.type === 'removed').length,
+          modified: differences.filter(difference => difference.type === 'modified').length,
+          properties: differences.reduce((count, difference) => count + (difference.properties?.length ?? 0), 0),
+        },
+      }, 'diffEnvironments') as DiffEnvironmentsResponse;
+    }, 'diffEnvironments');
+  }
+
+  /**
+   * Copy the differences found by diffEnvironments from the source to the author of the call's
+   * environment: added nodes are imported, changed properties set or deleted, and nodes only in
+   * the target deleted when includeRemovals is set. Writes only with confirm; dry runs need none.
+   */
+  async promoteContent(request: PromoteContentRequest): Promise<PromoteContentResponse> {
+    return safeExecute<PromoteContentResponse>(async () => {
+      const source = this.endpoint(request.source, request.sourceTier);
+      const target = this.endpoint(undefined, 'author');
+      if (!request.confirm && !isRecordingPlan()) {
+        throw createAEMError(
+          AEM_ERROR_CODES.INVALID_PARAMETERS,
+          `promoteContent writes to environment '${target.environment}'; review it with dryRun, then call again with confirm: true`,
+          { path: request.path, source, target }
+        );
+      }
+
+      const sourceTree = await this.read(source, request.path);
+      const differences = (await this.compare(request.path, source, target, request.ignoreProperties, sourceTree))
+        .filter(difference => !request.paths || request.paths.some(path => isAtOrBelow(difference.path, path)));
+
+      const promoted: NodeDifference[] = [];
+      const skippedRemovals: string[] = [];
+      const omittedBinaries: string[] = [];
+      for (const difference of differences) {
+        if (difference.type === 'removed') {
+          if (!request.includeRemovals) {
+            skippedRemovals.push(difference.path);
+            continue;
+          }
+          await this.httpClient.post(difference.path, new URLSearchParams({ ':operation': 'delete' }), { headers: FORM_HEADERS });
+        } else if (difference.type === 'added') {
+          await this.importNode(difference.path, nodeAt(sourceTree, request.path, difference.path) || {}, omittedBinaries);
+        } else {
+          await this.updateProperties(difference.path, difference.properties || [], omittedBinaries);
+        }
+        promoted.push(difference);
+      }
+
+      this.logger.info('Content promoted', {
+        path: request.path,
+        source: source.environment,
+        target: target.environment,
+        promoted: promoted.length,
+      });
+
+      return createSuccessResponse({
+        path: request.path,
+        source,
+        target,
+        promoted,
+        skippedRemovals,
+        omittedBinaries,
+      }, 'promoteContent') as PromoteContentResponse;
+    }, 'promoteContent', 1);
+  }
+
+  /**
+   * Endpoint for an environment name and tier; the name defaults to the call's environment
+   */
+  private endpoint(environment: string | undefined, tier: EnvironmentTier = 'author'): EnvironmentEndpoint {
+    const name = environment ?? getCurrentEnvironment()?.name ?? this.environments.defaultName;
+    return { environment: this.environments.tier(name, tier).name, tier };
+  }
+
+  private async read(endpoint: EnvironmentEndpoint, path: string): Promise<Node | undefined> {
+    const profile = this.environments.tier(endpoint.environment, endpoint.tier);
+    return runInEnvironment(profile, () => readNodeTree(this.httpClient, path));
+  }
+
+  private async compare(
+    path: string,
+    source: EnvironmentEndpoint,
+    target: EnvironmentEndpoint,
+    ignoreProperties: string[] = [],
+    sourceTree?: Node
+  ): Promise<NodeDifference[]> {
+    if (!isValidContentPath(path, this.config())) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PATH, `Invalid content path: ${path}`, { path });
+    }
+    if (source.environment === target.environment && source.tier === target.tier) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, 'Source and target are the same instance', { source, target });
+    }
+
+    const [sourceNode, targetNode] = await Promise.all([
+      sourceTree ?? this.read(source, path),
+      this.read(target, path),
+    ]);
+    if (!sourceNode && !targetNode) {
+      throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `${path} exists in neither environment`, { path, source, target });
+    }
+
+    const differences: NodeDifference[] = [];
+    diffNodes(path, sourceNode, targetNode, new Set(ignoreProperties), differences);
+    return differences;
+  }
+
+  private async importNode(path: string, node: Node, omittedBinaries: string[]): Promise<void> {
+    const parentPath = path.substring(0, path.lastIndexOf('/'));
+    const form = new URLSearchParams({
+      ':operation': 'import',
+      ':contentType': 'json',
+      ':name': path.substring(path.lastIndexOf('/') + 1),
+      ':content': JSON.stringify(toImportableTree(node, path, omittedBinaries)),
+    });
+    await this.httpClient.post(parentPath, form, { headers: FORM_HEADERS });
+  }
+
+  /**
+   * Set the source's values with type hints, so numbers, booleans and multi-value properties
+   * keep their JCR types, and delete properties the source does not have
+   */
+  private async updateProperties(path: string, properties: PropertyDifference[], omittedBinaries: string[]): Promise<void> {
+    const form = new URLSearchParams();
+    for (const { property, type, newValue } of properties) {
+      if (property.startsWith(':')) {
+        omittedBinaries.push(`${path}/${property.substring(1)}`);
+      } else if (type === 'removed') {
+        form.append(`${property}@Delete`, '');
+      } else if (Array.isArray(newValue)) {
+        form.append(`${property}@TypeHint`, `${typeHint(newValue[0])}[]`);
+        if (newValue.length === 0) {
+          form.append(`${property}@IgnoreBlanks`, 'true');
+          form.append(property, '');
+        }
+        newValue.forEach(value => form.append(property, String(value)));
+      } else {
+        if (typeof newValue !== 'string') {
+          form.append(`${property}@TypeHint`, typeHint(newValue));
+        }
+        form.append(property, String(newValue));
+      }
+    }
+    if ([...form.keys()].length > 0) {
+      await this.httpClient.post(path, form, { headers: FORM_HEADERS });
+    }
+  }
+}
+
+function diffNodes(path: string, source: Node | undefined, target: Node | undefined, ignore: Set<string>, differences: NodeDifference[]): void {
+  if (!target) {
+    differences.push({ path, type: 'added' });
+    return;
+  }
+  if (!source) {
+    differences.push({ path, type: 'removed' });
+    return;
+  }
+
+  const properties = compareVersionData(propertiesOf(target, ignore), propertiesOf(source, ignore));
+  if (properties.length > 0) {
+    differences.push({ path, type: 'modified', properties });
+  }
+
+  const children = [...new Set([...childNamesOf(source), ...childNamesOf(target)])];
+  for (const name of children) {
+    diffNodes(`${path}/${name}`, source[name] as Node | undefined, target[name] as Node | undefined, ignore, differences);
+  }
+}
+
+function propertiesOf(node: Node, ignore: Set<string>): Node {
+  return Object.fromEntries(Object.entries(node).filter(([name, value]) => !isChildNode(value)
+    && !PROTECTED_PROPERTIES.has(name) && !VOLATILE_PROPERTIES.has(name) && !ignore.has(name)));
+}
+
+function childNamesOf(node: Node): string[] {
+  return Object.keys(node).filter(name => isChildNode(node[name]) && !PROTECTED_NODES.has(name));
+}
+
+function isChildNode(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function nodeAt(tree: Node | undefined, rootPath: string, path: string): Node | undefined {
+  const names = path.substring(rootPath.length).split('/').filter(Boolean);
+  return names.reduce<Node | undefined>((node, name) => node?.[name] as Node | undefined, tree);
+}
+
+function isAtOrBelow(path: string, ancestor: string): boolean {
+  return path === ancestor || path.startsWith(`${ancestor}/`);
+}
+
+function typeHint(value: unknown): string {
+  if (typeof value === 'boolean') return 'Boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'Long' : 'Double';
+  return 'String';
+}
@@ -0,0 +1,300 @@
+/**
+ * Journal Operations Module
+ * Snapshots the nodes a mutating tool touches before it writes, and restores them on undoChanges
+ */
+
+import { createHash } from 'crypto';
+import { AxiosInstance } from 'axios';
+import {
+  ILogger,
+  AEMConfig,
+  JournalEntry,
+  JournalNodeSnapshot,
+  UndoChangesRequest,
+  UndoChangesResponse,
+  UndoConflict
+} from '../interfaces/index.js';
+import {
+  createAEMError,
+  safeExecute,
+  createSuccessResponse,
+  AEM_ERROR_CODES
+} from '../error-handler.js';
+import { ChangeJournal } from '../change-journal.js';
+import { ChangeRecorder, ToolJournalSpec } from '../tool-registry.js';
+import { getCurrentEnvironment, requireEnvironment } from '../environments.js';
+import { getCallerIdentity, requireCreator } from '../auth.js';
+
+// Set by the repository; Sling import rejects them
+export const PROTECTED_PROPERTIES = new Set([
+  'jcr:uuid',
+  'jcr:created',
+  'jcr:createdBy',
+  'jcr:baseVersion',
+  'jcr:predecessors',
+  'jcr:versionHistory',
+  'jcr:isCheckedOut',
+  'jcr:lockOwner',
+  'jcr:lockIsDeep',
+]);
+export const PROTECTED_NODES = new Set(['rep:policy']);
+const ABSENT = 'absent';
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashTree(tree: Record<string, unknown> | undefined): string {
+  return tree === undefined ? ABSENT : createHash('sha256').update(canonicalJson(tree)).digest('hex');
+}
+
+/**
+ * Copy of a node tree that Sling import accepts: protected properties and nodes are dropped, as are
+ * binaries, which .json renders only as their length (":name": size). Omitted binary paths are collected.
+ */
+export function toImportableTree(tree: Record<string, unknown>, path: string, omittedBinaries: string[]): Record<string, unknown> {
+  const importable: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(tree)) {
+    if (name.startsWith(':')) {
+      omittedBinaries.push(`${path}/${name.substring(1)}`);
+    } else if (PROTECTED_PROPERTIES.has(name) || PROTECTED_NODES.has(name)) {
+      continue;
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      importable[name] = toImportableTree(value as Record<string, unknown>, `${path}/${name}`, omittedBinaries);
+    } else {
+      importable[name] = value;
+    }
+  }
+  return importable;
+}
+
+/**
+ * Full node tree, or undefined when the node does not exist. Trees too large for one
+ * .infinity.json request (HTTP 300) are read level by level. Always read live, never cached.
+ */
+export async function readNodeTree(httpClient: AxiosInstance, path: string): Promise<Record<string, unknown> | undefined> {
+  try {
+    const response = await httpClient.get(`${path}.infinity.json`, { cache: false });
+    if (!Array.isArray(response.data)) {
+      return response.data;
+    }
+  } catch (error: any) {
+    if (error.response?.status === 404) return undefined;
+    if (error.response?.status !== 300) throw error;
+  }
+
+  const node: Record<string, unknown> = (await httpClient.get(`${path}.1.json`, { cache: false })).data;
+  for (const [name, value] of Object.entries(node)) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      node[name] = (await readNodeTree(httpClient, `${path}/${name}`)) ?? value;
+    }
+  }
+  return node;
+}
+
+export class JournalOperations implements ChangeRecorder {
+  constructor(
+    private httpClient: AxiosInstance,
+    private logger: ILogger,
+    private config: () => AEMConfig,
+    private journal: ChangeJournal
+  ) {}
+
+  /**
+   * Snapshot the nodes named by the spec, persist the entry, then run the change. The result
+   * gains a jobId that undoChanges accepts.
+   */
+  async recordChange(tool: string, args: Record<string, any>, spec: ToolJournalSpec, run: () => Promise<unknown>): Promise<unknown> {
+    const snapshots: JournalNodeSnapshot[] = [];
+    for (const path of new Set(spec.paths(args))) {
+      snapshots.push(await this.snapshot(path));
+    }
+
+    const environment = getCurrentEnvironment()?.name;
+    const createdBy = getCallerIdentity()?.subject;
+    const entry: JournalEntry = {
+      jobId: this.journal.newJobId(),
+      tool,
+      args,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      paths: snapshots.map(snapshot => snapshot.path),
+      snapshots,
+      ...(environment ? { environment } : {}),
+      ...(createdBy ? { createdBy } : {}),
+    };
+    await this.journal.save(entry);
+
+    let result: unknown;
+    try {
+      result = await run();
+    } catch (error) {
+      entry.status = 'failed';
+      entry.error = error instanceof Error ? error.message : String(error);
+      await this.journal.save(entry);
+      throw error;
+    }
+
+    for (const path of spec.created?.(args, result) || []) {
+      if (path && !entry.paths.includes(path)) {
+        entry.snapshots.push({ path, existed: false });
+        entry.paths.push(path);
+      }
+    }
+    for (const snapshot of entry.snapshots) {
+      try {
+        snapshot.afterHash = hashTree(await readNodeTree(this.httpClient, snapshot.path));
+      } catch (error) {
+        this.logger.warn('Could not record post-change state', {
+          jobId: entry.jobId,
+          path: snapshot.path,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    entry.status = 'applied';
+    await this.journal.save(entry);
+
+    return result && typeof result === 'object' ? { ...result, jobId: entry.jobId } : result;
+  }
+
+  async hasJob(jobId: string): Promise<boolean> {
+    return (await this.journal.get(jobId)) !== undefined;
+  }
+
+  /**
+   * Nodes a journaled job changed, which undoing it writes; empty for unknown jobs
+   */
+  async getJobTargets(jobId: string): Promise<string[]> {
+    return (await this.journal.get(jobId))?.paths || [];
+  }
+
+  /**
+   * Restore every node of a journaled job to its before-snapshot. Nodes edited since the job ran
+   * are reported as conflicts and left alone unless force is set.
+   */
+  async undoChanges(request: UndoChangesRequest): Promise<UndoChangesResponse> {
+    return safeExecute<UndoChangesResponse>(async () => {
+      const { jobId, force = false } = request;
+      const entry = await this.journal.get(jobId);
+      if (!entry) {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `No journal entry for job ${jobId}; it is unknown or past the retention window`, { jobId });
+      }
+      if (entry.status === 'undone') {
+        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Job ${jobId} was already undone at ${entry.undoneAt}`, { jobId, undoneAt: entry.undoneAt });
+      }
+      requireEnvironment(entry.environment, `Job ${jobId}`, { jobId });
+      requireCreator(entry.createdBy, `Job ${jobId}`, { jobId });
+
+      const restored: string[] = [];
+      const unchanged: string[] = [];
+      const conflicts: UndoConflict[] = [];
+      const omittedBinaries: string[] = [];
+
+      // Later snapshots may sit inside earlier ones, so restore in reverse
+      for (const snapshot of [...entry.snapshots].reverse()) {
+        const current = await readNodeTree(this.httpClient, snapshot.path);
+        const currentHash = hashTree(current);
+
+        if (currentHash === hashTree(snapshot.content)) {
+          unchanged.push(snapshot.path);
+          continue;
+        }
+        if (!force && currentHash !== snapshot.afterHash) {
+          conflicts.push({
+            path: snapshot.path,
+            reason: snapshot.afterHash
+              ? 'Content changed after the job ran'
+              : 'State after the job was not recorded; the job may not have completed',
+          });
+          continue;
+        }
+
+        await this.restore(snapshot, current !== undefined, omittedBinaries);
+        restored.push(snapshot.path);
+      }
+
+      if (conflicts.length === 0) {
+        entry.status = 'undone';
+        entry.undoneAt = new Date().toISOString();
+        await this.journal.save(entry);
+      }
+
+      this.logger.info('Undo completed', { jobId, tool: entry.tool, restored: restored.length, conflicts: conflicts.length });
+
+      return createSuccessResponse({
+        jobId,
+        tool: entry.tool,
+        restored,
+        unchanged,
+        conflicts,
+        omittedBinaries,
+        complete: conflicts.length === 0,
+      }, 'undoChanges') as UndoChangesResponse;
+    }, 'undoChanges', 1);
+  }
+
+  private async snapshot(path: string): Promise<JournalNodeSnapshot> {
+    const content = await readNodeTree(this.httpClient, path);
+    if (content === undefined) {
+      return { path, existed: false };
+    }
+    return { path, existed: true, content, orderBefore: await this.findNextSibling(path) };
+  }
+
+  private async findNextSibling(path: string): Promise<string | undefined> {
+    const parentPath = path.substring(0, path.lastIndexOf('/'));
+    const name = path.substring(path.lastIndexOf('/') + 1);
+    try {
+      const parent = (await this.httpClient.get(`${parentPath}.1.json`, { cache: false })).data || {};
+      const children = Object.keys(parent).filter(key => parent[key] && typeof parent[key] === 'object' && !Array.isArray(parent[key]));
+      const index = children.indexOf(name);
+      return index >= 0 ? children[index + 1] : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async restore(snapshot: JournalNodeSnapshot, exists: boolean, omittedBinaries: string[]): Promise<void> {
+    const headers = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+    if (!snapshot.existed) {
+      if (exists) {
+        await this.httpClient.post(snapshot.path, new URLSearchParams({ ':operation': 'delete' }), { headers });
+      }
+      return;
+    }
+
+    const parentPath = snapshot.path.substring(0, snapshot.path.lastIndexOf('/'));
+    const name = snapshot.path.substring(snapshot.path.lastIndexOf('/') + 1);
+    const form = new URLSearchParams({
+      ':operation': 'import',
+      ':contentType': 'json',
+      ':name': name,
+      ':content': JSON.stringify(toImportableTree(snapshot.content || {}, snapshot.path, omittedBinaries)),
+      ':replace': 'true',
+      ':replaceProperties': 'true',
+    });
+    await this.httpClient.post(parentPath, form, { headers });
+
+    if (snapshot.orderBefore) {
+      try {
+        await this.httpClient.post(snapshot.path, new URLSearchParams({ ':order': `before ${snapshot.orderBefore}` }), { headers });
+      } catch (error) {
+        this.logger.warn('Restored node could not be reordered', {
+          path: snapshot.path,
+          orderBefore: snapshot.orderBefore,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+}
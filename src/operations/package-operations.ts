@@ -0,0 +1,342 @@
+/**
+ * Package Operations Module
+ * CRX Package Manager: lists, creates, builds, installs and uninstalls content packages through
+ * its JSON API, and moves package zips between AEM and a local packages directory
+ */
+
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AxiosInstance } from 'axios';
+import {
+  ILogger,
+  AEMConfig,
+  CreatePackageRequest,
+  DownloadPackageRequest,
+  InstallPackageRequest,
+  ListPackagesRequest,
+  ListPackagesResponse,
+  PackageFilter,
+  PackageInfo,
+  PackagePathRequest,
+  PackageResponse,
+  UploadPackageRequest
+} from '../interfaces/index.js';
+import {
+  createAEMError,
+  safeExecute,
+  createSuccessResponse,
+  AEM_ERROR_CODES
+} from '../error-handler.js';
+import { reportProgress } from '../progress.js';
+
+export const DEFAULT_PACKAGES_DIR = process.env.MCP_PACKAGES_DIR || path.join(process.cwd(), '.aem-mcp', 'packages');
+// Builds and installs of large packages take minutes
+export const PACKAGE_TIMEOUT_MS = parseInt(process.env.AEM_PACKAGE_TIMEOUT_MS || '600000', 10);
+
+const PACKAGES_ROOT = '/etc/packages';
+const LIST_URL = '/crx/packmgr/list.jsp';
+const UPDATE_URL = '/crx/packmgr/update.jsp';
+const SERVICE_URL = '/crx/packmgr/service/.json';
+const DEFAULT_GROUP = 'my_packages';
+const PROGRESS_INTERVAL_MS = 5000;
+// Overrides the clients' JSON default, which would make axios send form data as JSON; the boundary is added on sending
+const MULTIPART_HEADERS = { 'Content-Type': 'multipart/form-data' };
+
+interface ServiceResult {
+  success: boolean;
+  msg?: string;
+  path?: string;
+}
+
+export class PackageOperations {
+  constructor(
+    private httpClient: AxiosInstance,
+    private logger: ILogger,
+    private config: () => AEMConfig,
+    private dir: string = DEFAULT_PACKAGES_DIR
+  ) {}
+
+  async listPackages(request: ListPackagesRequest = {}): Promise<ListPackagesResponse> {
+    return safeExecute<ListPackagesResponse>(async () => {
+      const response = await this.httpClient.get(LIST_URL, { params: request.query ? { q: request.query } : {} });
+      const packages = (response.data?.results || [])
+        .map(toPackageInfo)
+        .filter((info: PackageInfo) => !request.group || info.group === request.group);
+
+      return createSuccessResponse({ packages, total: packages.length }, 'listPackages') as ListPackagesResponse;
+    }, 'listPackages');
+  }
+
+  /**
+   * Create an empty package and set its filters; build it before downloading or installing it
+   */
+  async createPackage(request: CreatePackageRequest): Promise<PackageResponse> {
+    return safeExecute<PackageResponse>(async () => {
+      const { packageName, groupName = DEFAULT_GROUP, version, description, filters } = request;
+      if (!isSafeName(packageName) || !isSafeName(groupName) || (version !== undefined && !isSafeName(version))) {
+        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, 'Package name, group and version must not contain slashes or ..', { packageName, groupName, version });
+      }
+      const invalid = filters.find(filter => !filter.path.startsWith('/') || filter.path.split('/').includes('..'));
+      if (invalid) {
+        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid filter root: ${invalid.path}`, { filter: invalid });
+      }
+
+      const started = Date.now();
+      const packagePath = `${PACKAGES_ROOT}/${groupName}/${packageName}${version ? `-${version}` : ''}.zip`;
+      await this.command(packagePath, 'create', {
+        packageName,
+        groupName,
+        ...(version ? { packageVersion: version } : {}),
+      });
+
+      const form = new FormData();
+      form.append('_charset_', 'UTF-8');
+      form.append('path', packagePath);
+      form.append('packageName', packageName);
+      form.append('groupName', groupName);
+      form.append('version', version || '');
+      form.append('description', description || '');
+      form.append('filter', JSON.stringify(filters.map(toVaultFilter)));
+      const update = await this.httpClient.post(UPDATE_URL, form, { headers: MULTIPART_HEADERS, timeout: this.config().queries.timeoutMs });
+      ensureSucceeded(update.data, packagePath, 'update');
+
+      this.logger.info('Package created', { packagePath, filters: filters.length });
+      return this.packageResponse(packagePath, 'Package created', started, 'createPackage');
+    }, 'createPackage', 1);
+  }
+
+  /**
+   * Build a package from its filters. Progress is reported while AEM builds it.
+   */
+  async buildPackage(request: PackagePathRequest): Promise<PackageResponse> {
+    return safeExecute<PackageResponse>(async () => {
+      const packagePath = requirePackagePath(request.packagePath);
+      const started = Date.now();
+      const result = await withProgress(`Building ${packagePath}`, () => this.command(packagePath, 'build'));
+
+      this.logger.info('Package built', { packagePath, durationMs: Date.now() - started });
+      return this.packageResponse(packagePath, result.msg || 'Package built', started, 'buildPackage');
+    }, 'buildPackage', 1);
+  }
+
+  /**
+   * Install a built package. Installs write content outside the change journal, so cached reads
+   * are dropped afterwards.
+   */
+  async installPackage(request: InstallPackageRequest): Promise<PackageResponse> {
+    return safeExecute<PackageResponse>(async () => {
+      const packagePath = requirePackagePath(request.packagePath);
+      const started = Date.now();
+      const result = await withProgress(`Installing ${packagePath}`, () => this.command(packagePath, 'install', {
+        ...(request.acHandling ? { acHandling: request.acHandling } : {}),
+        ...(request.recursive !== undefined ? { recursive: String(request.recursive) } : {}),
+      }));
+
+      this.logger.info('Package installed', { packagePath, acHandling: request.acHandling, durationMs: Date.now() - started });
+      return this.packageResponse(packagePath, result.msg || 'Package installed', started, 'installPackage');
+    }, 'installPackage', 1);
+  }
+
+  /**
+   * Filter roots of an uploaded package, which installing or uninstalling it writes
+   */
+  async getPackageTargets(packagePath: string): Promise<string[]> {
+    const info = await this.getPackage(requirePackagePath(packagePath));
+    if (!info) {
+      throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Package not found: ${packagePath}`, { packagePath });
+    }
+    return info.filters.map(filter => filter.path);
+  }
+
+  /**
+   * Revert an installed package to the content it replaced
+   */
+  async uninstallPackage(request: PackagePathRequest): Promise<PackageResponse> {
+    return safeExecute<PackageResponse>(async () => {
+      const packagePath = requirePackagePath(request.packagePath);
+      const started = Date.now();
+      const result = await withProgress(`Uninstalling ${packagePath}`, () => this.command(packagePath, 'uninstall'));
+
+      this.logger.info('Package uninstalled', { packagePath, durationMs: Date.now() - started });
+      return this.packageResponse(packagePath, result.msg || 'Package uninstalled', started, 'uninstallPackage');
+    }, 'uninstallPackage', 1);
+  }
+
+  /**
+   * Save a built package to the packages directory, reporting the bytes received
+   */
+  async downloadPackage(request: DownloadPackageRequest): Promise<PackageResponse> {
+    return safeExecute<PackageResponse>(async () => {
+      const packagePath = requirePackagePath(request.packagePath);
+      const localPath = this.localPath(request.fileName || path.posix.basename(packagePath));
+      const started = Date.now();
+
+      await fs.mkdir(this.dir, { recursive: true });
+      const response = await this.httpClient.get(packagePath, { responseType: 'stream', timeout: PACKAGE_TIMEOUT_MS });
+      const total = Number(response.headers?.['content-length']) || undefined;
+      let received = 0;
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length;
+          reportProgress(received, total, `Downloading ${packagePath}`);
+          callback(null, chunk);
+        },
+      });
+
+      // Written under a temporary name, so an interrupted download never leaves a partial zip behind
+      const partial = `${localPath}.part`;
+      try {
+        await pipeline(response.data, counter, createWriteStream(partial));
+        await fs.rename(partial, localPath);
+      } catch (error) {
+        await fs.rm(partial, { force: true });
+        throw error;
+      }
+
+      this.logger.info('Package downloaded', { packagePath, localPath, bytes: received });
+      return this.packageResponse(packagePath, `Downloaded ${received} bytes`, started, 'downloadPackage', localPath);
+    }, 'downloadPackage', 1);
+  }
+
+  /**
+   * Upload a zip from the packages directory without installing it
+   */
+  async uploadPackage(request: UploadPackageRequest): Promise<PackageResponse> {
+    return safeExecute<PackageResponse>(async () => {
+      const localPath = this.localPath(request.fileName);
+      const stat = await fs.stat(localPath).catch(() => undefined);
+      if (!stat?.isFile()) {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `Package file not found: ${request.fileName}`, { fileName: request.fileName, dir: this.dir });
+      }
+
+      const started = Date.now();
+      const form = new FormData();
+      form.append('force', String(request.force === true));
+      form.append('package', new Blob([await fs.readFile(localPath)], { type: 'application/zip' }), request.fileName);
+      const response = await this.httpClient.post(`${SERVICE_URL}/?cmd=upload`, form, {
+        headers: MULTIPART_HEADERS,
+        timeout: PACKAGE_TIMEOUT_MS,
+        maxBodyLength: Infinity,
+        onUploadProgress: (event) => reportProgress(event.loaded, event.total ?? stat.size, `Uploading ${request.fileName}`),
+      });
+      const result = ensureSucceeded(response.data, request.fileName, 'upload');
+      if (!result.path) {
+        throw createAEMError(AEM_ERROR_CODES.UPDATE_FAILED, 'Package manager did not return the uploaded package path', { fileName: request.fileName, response: result });
+      }
+
+      this.logger.info('Package uploaded', { packagePath: result.path, localPath, bytes: stat.size });
+      return this.packageResponse(result.path, result.msg || 'Package uploaded', started, 'uploadPackage', localPath);
+    }, 'uploadPackage', 1);
+  }
+
+  /**
+   * Run a package manager command; it answers 200 with success: false when the command fails
+   */
+  private async command(packagePath: string, cmd: string, params: Record<string, string> = {}): Promise<ServiceResult> {
+    const response = await this.httpClient.post(`${SERVICE_URL}${packagePath}`, new URLSearchParams(params), {
+      params: { cmd },
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: PACKAGE_TIMEOUT_MS,
+    });
+    return ensureSucceeded(response.data, packagePath, cmd);
+  }
+
+  private async getPackage(packagePath: string): Promise<PackageInfo | undefined> {
+    const response = await this.httpClient.get(LIST_URL, { params: { path: packagePath } });
+    return (response.data?.results || []).map(toPackageInfo).find((info: PackageInfo) => info.path === packagePath);
+  }
+
+  private async packageResponse(packagePath: string, message: string, started: number, operation: string, localPath?: string): Promise<PackageResponse> {
+    const info = await this.getPackage(packagePath).catch(() => undefined);
+    return createSuccessResponse({
+      packagePath,
+      message,
+      ...(info ? { package: info } : {}),
+      ...(localPath ? { localPath } : {}),
+      durationMs: Date.now() - started,
+    }, operation) as PackageResponse;
+  }
+
+  private localPath(fileName: string): string {
+    return packageFilePath(this.dir, fileName);
+  }
+}
+
+/**
+ * File in a packages directory; names with directory parts are refused
+ */
+export function packageFilePath(dir: string, fileName: string): string {
+  if (!fileName.endsWith('.zip') || !isSafeName(fileName)) {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Package file name must be a .zip name without directories: ${fileName}`, { fileName });
+  }
+  return path.join(dir, fileName);
+}
+
+function requirePackagePath(packagePath: string): string {
+  if (!packagePath.startsWith(`${PACKAGES_ROOT}/`) || !packagePath.endsWith('.zip') || packagePath.split('/').includes('..')) {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Package path must be a .zip below ${PACKAGES_ROOT}: ${packagePath}`, { packagePath });
+  }
+  return packagePath;
+}
+
+export function isSafeName(name: string): boolean {
+  return name.length > 0 && !/[/\\]/.test(name) && name !== '.' && name !== '..';
+}
+
+function ensureSucceeded(data: any, subject: string, cmd: string): ServiceResult {
+  if (!data || data.success !== true) {
+    throw createAEMError(
+      AEM_ERROR_CODES.UPDATE_FAILED,
+      `Package manager ${cmd} failed for ${subject}: ${data?.msg || 'no response'}`,
+      { subject, cmd, response: data }
+    );
+  }
+  return data;
+}
+
+/**
+ * Report elapsed seconds while a package manager request runs, since AEM sends nothing until it is done
+ */
+async function withProgress<T>(message: string, run: () => Promise<T>): Promise<T> {
+  const started = Date.now();
+  reportProgress(0, undefined, message);
+  const timer = setInterval(() => {
+    const seconds = Math.round((Date.now() - started) / 1000);
+    reportProgress(seconds, undefined, `${message} (${seconds}s)`);
+  }, PROGRESS_INTERVAL_MS);
+  try {
+    return await run();
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+function toVaultFilter(filter: PackageFilter) {
+  return { root: filter.path, rules: filter.rules || [] };
+}
+
+function toPackageInfo(result: any): PackageInfo {
+  return {
+    path: result.path,
+    name: result.name,
+    group: result.group,
+    ...(result.version ? { version: result.version } : {}),
+    ...(result.description ? { description: result.description } : {}),
+    downloadName: result.downloadName,
+    ...(typeof result.size === 'number' ? { size: result.size } : {}),
+    ...timestamps(result, ['created', 'lastModified', 'lastWrapped', 'lastUnpacked']),
+    filters: (result.filter || []).map((filter: any) => ({
+      path: filter.root,
+      ...(filter.rules?.length ? { rules: filter.rules } : {}),
+    })),
+  };
+}
+
+// The package manager reports times as epoch milliseconds
+function timestamps(result: any, names: string[]): Record<string, string> {
+  return Object.fromEntries(names
+    .filter(name => typeof result[name] === 'number')
+    .map(name => [name, new Date(result[name]).toISOString()]));
+}
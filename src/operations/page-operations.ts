@@ -8,6 +8,12 @@ import {
   IAEMConnector, 
   CreatePageRequest, 
   DeletePageRequest, 
+  MovePageRequest,
+  RenamePageRequest,
+  CopyPageRequest,
+  PageReference,
+  PageRelocationResponse,
+  CopyPageResponse,
   ActivatePageRequest, 
   DeactivatePageRequest,
   PageResponse,
@@ -32,11 +38,13 @@ import {
   isValidContentPath
 } from '../error-handler.js';
 
+const PAGE_REFERENCES_ENDPOINT = '/bin/wcm/references.json';
+
 export class PageOperations {
   constructor(
     private httpClient: AxiosInstance,
     private logger: ILogger,
-    private config: AEMConfig
+    private config: () => AEMConfig
   ) {}
 
   /**
@@ -231,6 +239,213 @@ export class PageOperations {
     }, 'deletePage');
   }
 
+  /**
+   * Move a page and its subtree through the WCM command servlet, rewriting inbound references
+   */
+  async movePage(request: MovePageRequest): Promise<PageRelocationResponse> {
+    return safeExecute<PageRelocationResponse>(() => this.relocatePage(request, 'movePage'), 'movePage', 1);
+  }
+
+  /**
+   * Rename a page in place; a move to the same parent under a new name
+   */
+  async renamePage(request: RenamePageRequest): Promise<PageRelocationResponse> {
+    return safeExecute<PageRelocationResponse>(async () => {
+      const destParentPath = request.pagePath.substring(0, request.pagePath.lastIndexOf('/'));
+      return this.relocatePage({ ...request, destParentPath }, 'renamePage');
+    }, 'renamePage', 1);
+  }
+
+  /**
+   * Copy a page (and by default its subtree) through the WCM command servlet
+   */
+  async copyPage(request: CopyPageRequest): Promise<CopyPageResponse> {
+    return safeExecute<CopyPageResponse>(async () => {
+      const { pagePath, destParentPath, newName, newTitle, shallow = false } = request;
+      const { name, destinationPath } = await this.resolveDestination(pagePath, destParentPath, newName, 'copyPage');
+
+      const sourcePages = shallow ? [pagePath] : await this.listSubtreePages(pagePath);
+      const copiedPages = sourcePages.map(path => `${destinationPath}${path.substring(pagePath.length)}`);
+
+      const form = new URLSearchParams();
+      form.append('_charset_', 'utf-8');
+      form.append('cmd', 'copyPage');
+      form.append('srcPath', pagePath);
+      form.append('destParentPath', destParentPath);
+      form.append('destName', name);
+      if (newTitle) form.append('destTitle', newTitle);
+      form.append('shallow', String(shallow));
+      await this.runWcmCommand(form, 'copyPage');
+      this.logger.info('Page copied', { pagePath, destinationPath, pages: copiedPages.length });
+
+      return createSuccessResponse({
+        sourcePath: pagePath,
+        destinationPath,
+        copiedPages,
+      }, 'copyPage') as CopyPageResponse;
+    }, 'copyPage', 1);
+  }
+
+  private async relocatePage(request: MovePageRequest, operation: 'movePage' | 'renamePage'): Promise<PageRelocationResponse> {
+    const {
+      pagePath,
+      destParentPath,
+      newName,
+      newTitle,
+      adjustReferences = true,
+      createRedirect = false,
+      republishReferences = false,
+    } = request;
+    const { name, destinationPath, pageContent } = await this.resolveDestination(pagePath, destParentPath, newName, operation);
+
+    const movedPages = await this.listSubtreePages(pagePath);
+    const referencingPages = await this.findReferencingPages(pagePath);
+    // Only pages under the content roots are rewritten; anything else is reported for manual follow-up
+    const adjustable = adjustReferences ? referencingPages.filter(ref => isValidContentPath(ref.path)) : [];
+    const skippedReferences = referencingPages.filter(ref => !adjustable.includes(ref));
+    // Never publish a referencing page that was not already live
+    const republishedPages = republishReferences ? adjustable.filter(ref => ref.published).map(ref => ref.path) : [];
+    const redirect = createRedirect ? { path: pagePath, target: destinationPath } : undefined;
+
+    const form = new URLSearchParams();
+    form.append('_charset_', 'utf-8');
+    form.append('cmd', 'movePage');
+    form.append('srcPath', pagePath);
+    form.append('destParentPath', destParentPath);
+    form.append('destName', name);
+    if (newTitle) form.append('destTitle', newTitle);
+    form.append('integrity', 'true');
+    form.append('shallow', 'false');
+    adjustable.forEach(ref => form.append('adjust', ref.path));
+    republishedPages.forEach(path => form.append('publish', path));
+    await this.runWcmCommand(form, operation);
+
+    if (redirect) {
+      await this.createRedirectPage(pagePath, destinationPath, pageContent);
+    }
+    this.logger.info('Page relocated', {
+      operation,
+      pagePath,
+      destinationPath,
+      adjusted: adjustable.length,
+      republished: republishedPages.length,
+      redirect: !!redirect
+    });
+
+    return createSuccessResponse({
+      sourcePath: pagePath,
+      destinationPath,
+      movedPages: movedPages.map(path => `${destinationPath}${path.substring(pagePath.length)}`),
+      referencingPages,
+      adjustedPages: adjustable.map(ref => ref.path),
+      republishedPages,
+      skippedReferences,
+      ...(redirect ? { redirect } : {}),
+    }, operation) as PageRelocationResponse;
+  }
+
+  /**
+   * Validate source and destination and return the source page content; the destination must
+   * not exist and must not lie inside the page being moved or copied
+   */
+  private async resolveDestination(pagePath: string, destParentPath: string, newName: string | undefined, operation: string) {
+    for (const [field, path] of [['pagePath', pagePath], ['destParentPath', destParentPath]]) {
+      if (!isValidContentPath(path)) {
+        throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid ${field}: ${String(path)}`, { [field]: path });
+      }
+    }
+
+    const name = newName || pagePath.substring(pagePath.lastIndexOf('/') + 1);
+    if (!name || /[/:[\]|*]/.test(name)) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Invalid page name: ${name}`, { newName: name });
+    }
+    const destinationPath = `${destParentPath.replace(/\/+$/, '')}/${name}`;
+    if (destinationPath === pagePath || destinationPath.startsWith(`${pagePath}/`)) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Cannot ${operation} ${pagePath} to ${destinationPath}`, { pagePath, destinationPath });
+    }
+
+    let pageContent: Record<string, any>;
+    try {
+      pageContent = (await this.httpClient.get(`${pagePath}/jcr:content.json`)).data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw createAEMError(AEM_ERROR_CODES.PAGE_NOT_FOUND, `Page not found: ${pagePath}`, { pagePath });
+      }
+      throw error;
+    }
+
+    try {
+      await this.httpClient.get(`${destinationPath}.json`);
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Destination already exists: ${destinationPath}`, { destinationPath });
+    } catch (error: any) {
+      if (error instanceof AEMOperationError) throw error;
+      if (error.response?.status !== 404) throw error;
+    }
+
+    return { name, destinationPath, pageContent };
+  }
+
+  /**
+   * The page itself plus every cq:Page below it
+   */
+  private async listSubtreePages(pagePath: string): Promise<string[]> {
+    const response = await this.httpClient.get(this.config().endpoints.query, {
+      params: {
+        path: pagePath,
+        type: 'cq:Page',
+        'p.limit': '-1',
+        'p.hits': 'selective',
+        'p.properties': 'jcr:path',
+      },
+    });
+    const descendants = (response.data.hits || []).map((hit: any) => hit['jcr:path'] as string);
+    return [pagePath, ...descendants.filter((path: string) => path !== pagePath)];
+  }
+
+  /**
+   * Pages referencing the page or its descendants, from the WCM reference search
+   */
+  private async findReferencingPages(pagePath: string): Promise<PageReference[]> {
+    const response = await this.httpClient.get(PAGE_REFERENCES_ENDPOINT, {
+      params: { path: pagePath, _charset_: 'utf-8' },
+    });
+    return (response.data.pages || []).map((page: any) => ({
+      path: page.path,
+      title: page.title,
+      references: page.references || [],
+      published: page.published === true || page.published === 'true',
+    }));
+  }
+
+  private async createRedirectPage(pagePath: string, target: string, pageContent: Record<string, any>): Promise<void> {
+    const form = new URLSearchParams();
+    form.append('jcr:primaryType', 'cq:Page');
+    form.append('jcr:content/jcr:primaryType', 'cq:PageContent');
+    form.append('jcr:content/jcr:title', pageContent['jcr:title'] || pagePath.substring(pagePath.lastIndexOf('/') + 1));
+    if (pageContent['sling:resourceType']) form.append('jcr:content/sling:resourceType', pageContent['sling:resourceType']);
+    if (pageContent['cq:template']) form.append('jcr:content/cq:template', pageContent['cq:template']);
+    form.append('jcr:content/cq:redirectTarget', target);
+    await this.httpClient.post(pagePath, form, {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+  }
+
+  /**
+   * POST a WCM command; the servlet answers 200 with an HTML status page, so the embedded
+   * status is checked as well
+   */
+  private async runWcmCommand(form: URLSearchParams, operation: string): Promise<void> {
+    const response = await this.httpClient.post(this.config().endpoints.wcmcommand, form, {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+    const body = typeof response.data === 'string' ? response.data : '';
+    const status = Number(/id="Status">(\d+)</.exec(body)?.[1] || response.status);
+    if (status >= 400) {
+      const message = /id="Message">([^<]*)</.exec(body)?.[1] || `HTTP ${status}`;
+      throw createAEMError(AEM_ERROR_CODES.UPDATE_FAILED, `${operation} failed: ${message}`, { status, message, command: form.get('cmd') });
+    }
+  }
+
   /**
    * List all cq:Page nodes under a site root
    */
@@ -411,6 +626,7 @@ export class PageOperations {
         }
         
         const response = await this.httpClient.post('/bin/replicate.json', formData, {
+          retrySafe: true,
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
@@ -476,6 +692,7 @@ export class PageOperations {
         }
         
         const response = await this.httpClient.post('/bin/replicate.json', formData, {
+          retrySafe: true,
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
@@ -0,0 +1,261 @@
+/**
+ * Plan Operations Module
+ * Dry runs of mutating tools: records the requests they would send as a plan, and applies a
+ * stored plan once its target nodes are confirmed unchanged
+ */
+
+import { randomUUID } from 'crypto';
+import { AxiosInstance } from 'axios';
+import {
+  ILogger,
+  AEMConfig,
+  ApplyPlanRequest,
+  ApplyPlanResponse,
+  ChangePlanResponse,
+  PlannedNodeChange,
+  PlannedRequest,
+  PropertyChange
+} from '../interfaces/index.js';
+import {
+  createAEMError,
+  handleAEMHttpError,
+  safeExecute,
+  createSuccessResponse,
+  AEM_ERROR_CODES
+} from '../error-handler.js';
+import { RecordedRequest, recordPlan, isServletPath, nodePathOf } from '../plan-mode.js';
+import { hashTree, readNodeTree } from './journal-operations.js';
+import { ChangePlanner } from '../tool-registry.js';
+import { getCurrentEnvironment, requireEnvironment } from '../environments.js';
+import { getCallerIdentity, requireCreator } from '../auth.js';
+
+export const PLAN_TTL_MS = 30 * 60 * 1000;
+
+interface StoredPlan {
+  planId: string;
+  tool: string;
+  args: Record<string, unknown>;
+  createdAt: number;
+  requests: RecordedRequest[];
+  /** Hash of each affected node when the plan was made */
+  targets: Record<string, string>;
+  /** Environment profile the plan was made against; it is applied only there */
+  environment?: string;
+  /** Subject of the authenticated caller that made the plan; only it may apply it */
+  createdBy?: string;
+}
+
+export class PlanOperations implements ChangePlanner {
+  private plans = new Map<string, StoredPlan>();
+
+  constructor(
+    private httpClient: AxiosInstance,
+    private logger: ILogger,
+    private config: () => AEMConfig
+  ) {}
+
+  /**
+   * Run a mutating tool without writing anything and store what it would have done
+   */
+  async planChange(tool: string, args: Record<string, any>, run: () => Promise<unknown>): Promise<ChangePlanResponse> {
+    return safeExecute<ChangePlanResponse>(async () => {
+      this.prune();
+      const requests = await recordPlan(run);
+      const affectedPaths = [...new Set(requests.flatMap(request => request.planned.affectedPaths))];
+
+      const current = new Map<string, Record<string, unknown> | undefined>();
+      for (const path of affectedPaths) {
+        current.set(path, await readNodeTree(this.httpClient, path));
+      }
+
+      const plan: StoredPlan = {
+        planId: randomUUID(),
+        tool,
+        args,
+        createdAt: Date.now(),
+        requests,
+        targets: Object.fromEntries(affectedPaths.map(path => [path, hashTree(current.get(path))])),
+        environment: getCurrentEnvironment()?.name,
+        createdBy: getCallerIdentity()?.subject,
+      };
+      this.plans.set(plan.planId, plan);
+
+      this.logger.info('Change planned', { planId: plan.planId, tool, requests: requests.length });
+
+      return createSuccessResponse({
+        planId: plan.planId,
+        tool,
+        args,
+        dryRun: true,
+        requests: requests.map(request => request.planned),
+        affectedPaths,
+        changes: requests.flatMap(request => describeChanges(request.planned, current)),
+        expiresAt: new Date(plan.createdAt + PLAN_TTL_MS).toISOString(),
+      }, tool) as ChangePlanResponse;
+    }, tool, 1);
+  }
+
+  /**
+   * Nodes a stored plan writes; empty for unknown plans
+   */
+  getPlanTargets(planId: string): string[] {
+    return Object.keys(this.plans.get(planId)?.targets || {});
+  }
+
+  /**
+   * Send the requests of a stored plan, in order, if none of its target nodes changed since it was made
+   */
+  async applyPlan(request: ApplyPlanRequest): Promise<ApplyPlanResponse> {
+    return safeExecute<ApplyPlanResponse>(async () => {
+      this.prune();
+      const plan = this.plans.get(request.planId);
+      if (!plan) {
+        throw createAEMError(AEM_ERROR_CODES.RESOURCE_NOT_FOUND, `No plan ${request.planId}; it is unknown, expired or already applied`, { planId: request.planId });
+      }
+      requireEnvironment(plan.environment, `Plan ${plan.planId}`, { planId: plan.planId });
+      requireCreator(plan.createdBy, `Plan ${plan.planId}`, { planId: plan.planId });
+
+      const changed: string[] = [];
+      for (const [path, hash] of Object.entries(plan.targets)) {
+        if (hashTree(await readNodeTree(this.httpClient, path)) !== hash) {
+          changed.push(path);
+        }
+      }
+      if (changed.length > 0) {
+        throw createAEMError(AEM_ERROR_CODES.CONFLICT, `Plan ${plan.planId} is stale: ${changed.length} target node(s) changed since it was made`, { planId: plan.planId, changed });
+      }
+
+      // A plan is applied at most once, even when a request fails part way through
+      this.plans.delete(plan.planId);
+      let executed = 0;
+      for (const { config, planned } of plan.requests) {
+        try {
+          await this.httpClient.request(config);
+          executed++;
+        } catch (error: any) {
+          const aemError = handleAEMHttpError(error, 'applyPlan');
+          throw createAEMError(
+            AEM_ERROR_CODES.UPDATE_FAILED,
+            `Plan ${plan.planId} stopped at request ${executed + 1} of ${plan.requests.length} (${planned.method} ${planned.url}): ${aemError.message}`,
+            { planId: plan.planId, executed, failedRequest: planned }
+          );
+        }
+      }
+
+      this.logger.info('Plan applied', { planId: plan.planId, tool: plan.tool, executed });
+
+      return createSuccessResponse({
+        planId: plan.planId,
+        tool: plan.tool,
+        executed,
+        affectedPaths: Object.keys(plan.targets),
+      }, 'applyPlan') as ApplyPlanResponse;
+    }, 'applyPlan', 1);
+  }
+
+  private prune(now: number = Date.now()): void {
+    for (const [planId, plan] of this.plans) {
+      if (now - plan.createdAt > PLAN_TTL_MS) {
+        this.plans.delete(planId);
+      }
+    }
+  }
+}
+
+/**
+ * Property-level before/after of one planned request against the current node states
+ */
+export function describeChanges(request: PlannedRequest, current: Map<string, Record<string, unknown> | undefined>): PlannedNodeChange[] {
+  const path = nodePathOf(request.url);
+  const fields: Record<string, unknown> = request.body && typeof request.body === 'object' ? request.body as Record<string, unknown> : {};
+
+  if (isServletPath(path)) {
+    const servlet = request.url.split('?')[0];
+    const command = fields.cmd ?? fields.action ?? request.params?.cmd;
+    return request.affectedPaths.map(affected => ({
+      path: affected,
+      change: 'command' as const,
+      command: command === undefined ? servlet : `${servlet} ${String(command)}`,
+      properties: [],
+    }));
+  }
+
+  if (request.method === 'DELETE' || fields[':operation'] === 'delete') {
+    return [{ path, change: 'delete', properties: diffProperties(current.get(path), undefined) }];
+  }
+
+  if (fields[':operation'] === 'import' && typeof fields[':content'] === 'string') {
+    const target = request.affectedPaths[0] || path;
+    const before = current.get(target);
+    const after = JSON.parse(fields[':content']) as Record<string, unknown>;
+    return [{ path: target, change: before ? 'update' : 'create', properties: diffProperties(before, after) }];
+  }
+
+  // Plain Sling POST: relative names such as jcr:content/metadata/dc:title address descendants
+  const before = current.get(path);
+  const updates = new Map<string, PropertyChange[]>();
+  for (const [field, value] of Object.entries(fields)) {
+    if (field.startsWith(':') || (field.includes('@') && !field.endsWith('@Delete'))) continue;
+    const name = field.replace(/@Delete$/, '');
+    const slash = name.lastIndexOf('/');
+    const relPath = slash >= 0 ? name.substring(0, slash) : '';
+    const propertyName = name.substring(slash + 1);
+    const node = relPath ? lookup(before, relPath) : before;
+    const change: PropertyChange = {
+      name: propertyName,
+      before: node?.[propertyName],
+      after: field.endsWith('@Delete') ? undefined : value,
+    };
+    if (!sameValue(change.before, change.after)) {
+      const changes = updates.get(relPath) || [];
+      changes.push(change);
+      updates.set(relPath, changes);
+    }
+  }
+
+  if (updates.size === 0) {
+    return [{ path, change: before ? 'update' : 'create', properties: [] }];
+  }
+  return [...updates].map(([relPath, properties]) => {
+    const nodePath = relPath ? `${path}/${relPath}` : path;
+    return {
+      path: nodePath,
+      change: (relPath ? lookup(before, relPath) : before) ? 'update' as const : 'create' as const,
+      properties,
+    };
+  });
+}
+
+/**
+ * Changed properties between two node states; child nodes are left out
+ */
+function diffProperties(before: Record<string, unknown> | undefined, after: Record<string, unknown> | undefined): PropertyChange[] {
+  const names = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: PropertyChange[] = [];
+  for (const name of names) {
+    const oldValue = before?.[name];
+    const newValue = after?.[name];
+    if (isNode(oldValue) || isNode(newValue) || sameValue(oldValue, newValue)) continue;
+    changes.push({ name, before: oldValue, after: newValue });
+  }
+  return changes;
+}
+
+function lookup(node: Record<string, unknown> | undefined, relPath: string): Record<string, unknown> | undefined {
+  let current: unknown = node;
+  for (const segment of relPath.split('/')) {
+    current = isNode(current) ? current[segment] : undefined;
+  }
+  return isNode(current) ? current : undefined;
+}
+
+function isNode(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Sling form values are strings, while .json renders numbers and booleans natively
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === undefined || b === undefined) return a === b;
+  if (Array.isArray(a) || Array.isArray(b)) return JSON.stringify(a) === JSON.stringify(b);
+  return String(a) === String(b);
+}
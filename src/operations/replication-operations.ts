@@ -30,7 +30,7 @@ export class ReplicationOperations implements Partial<IAEMConnector> {
   constructor(
     private httpClient: AxiosInstance,
     private logger: ILogger,
-    private config: AEMConfig
+    private config: () => AEMConfig
   ) {}
 
   /**
@@ -61,6 +61,7 @@ export class ReplicationOperations implements Partial<IAEMConnector> {
         }
         
         const response = await this.httpClient.post('/bin/replicate.json', formData, {
+          retrySafe: true,
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
@@ -126,6 +127,7 @@ export class ReplicationOperations implements Partial<IAEMConnector> {
         }
         
         const response = await this.httpClient.post('/bin/replicate.json', formData, {
+          retrySafe: true,
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
@@ -200,6 +202,7 @@ export class ReplicationOperations implements Partial<IAEMConnector> {
           }
           
           const response = await this.httpClient.post('/bin/replicate.json', formData, {
+            retrySafe: true,
             headers: {
               'Content-Type': 'application/x-www-form-urlencoded',
             },
@@ -323,7 +326,7 @@ export class ReplicationOperations implements Partial<IAEMConnector> {
           });
 
           // If we have a strict policy, rollback successful replications
-          if (this.config.strictReplication) {
+          if (this.config().strictReplication) {
             await this.rollbackSuccessfulReplications(successfulReplications);
           }
         }
@@ -375,7 +378,7 @@ export class ReplicationOperations implements Partial<IAEMConnector> {
     const normalizedLocale = locale.toLowerCase().replace('-', '_');
     
     // Build locale-specific path
-    return `/content/${this.config.siteName || 'we-retail'}/${normalizedLocale}`;
+    return `/content/${this.config().siteName || 'we-retail'}/${normalizedLocale}`;
   }
 
   /**
@@ -481,6 +484,7 @@ export class ReplicationOperations implements Partial<IAEMConnector> {
     formData.append('onlymodified', 'false');
 
     await this.httpClient.post('/bin/replicate.json', formData, {
+      retrySafe: true,
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
@@ -505,6 +509,7 @@ export class ReplicationOperations implements Partial<IAEMConnector> {
         formData.append('onlymodified', 'false');
 
         await this.httpClient.post('/bin/replicate.json', formData, {
+          retrySafe: true,
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
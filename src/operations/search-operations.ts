@@ -9,7 +9,10 @@ import {
   SearchContentParams,
   EnhancedSearchParams,
   SearchResponse,
+  JCRQueryParams,
   JCRQueryResponse,
+  QueryBuilderRequest,
+  QueryBuilderResponse,
   ILogger,
   AEMConfig
 } from '../interfaces/index.js';
@@ -21,12 +24,14 @@ import {
   createSuccessResponse,
   AEM_ERROR_CODES
 } from '../error-handler.js';
+import { getAllowedQueryRoots, isWithinRoots, parseJCRQuery } from '../query-sandbox.js';
+import { encodeQueryCursor, resolveQueryBuilderRequest } from '../query-builder.js';
 
 export class SearchOperations implements Partial<IAEMConnector> {
   constructor(
     private httpClient: AxiosInstance,
     private logger: ILogger,
-    private config: AEMConfig
+    private config: () => AEMConfig
   ) {}
 
   /**
@@ -34,7 +39,7 @@ export class SearchOperations implements Partial<IAEMConnector> {
    */
   async searchContent(params: SearchContentParams): Promise<SearchResponse> {
     return safeExecute<SearchResponse>(async () => {
-      const response = await this.httpClient.get(this.config.endpoints.query, { params });
+      const response = await this.httpClient.get(this.config().endpoints.query, { params });
       
       return createSuccessResponse({
         params,
@@ -46,37 +51,115 @@ export class SearchOperations implements Partial<IAEMConnector> {
   }
 
   /**
-   * Execute a QueryBuilder fulltext search for cq:Page nodes, with security validation
-   * Note: This is NOT a true JCR SQL2 executor. It wraps QueryBuilder and only supports fulltext queries.
+   * Paths a JCR query is scoped to, as the query sandbox reads them from the statement
    */
-  async executeJCRQuery(query: string, limit = 20): Promise<JCRQueryResponse> {
+  getJCRQueryTargets(params: JCRQueryParams): string[] {
+    return parseJCRQuery(params.query, params.language ?? 'JCR-SQL2', getAllowedQueryRoots(this.config())).scopePaths;
+  }
+
+  /**
+   * Paths of the path predicates a QueryBuilder request searches, including one continued from a cursor
+   */
+  getQueryBuilderTargets(request: QueryBuilderRequest): string[] {
+    const { params } = resolveQueryBuilderRequest(request, this.config().queries);
+    return Object.entries(params).filter(([key]) => /(^|_)path$/.test(key)).map(([, path]) => path);
+  }
+
+  /**
+   * Execute a JCR-SQL2 or XPath query through Sling's query servlet. The statement is checked by
+   * the query sandbox first; page size is capped at queries.maxLimit and the request at
+   * queries.timeoutMs. Timeouts are not retried.
+   */
+  async executeJCRQuery(params: JCRQueryParams): Promise<JCRQueryResponse> {
     return safeExecute<JCRQueryResponse>(async () => {
-      if (!query || typeof query !== 'string' || query.trim().length === 0) {
-        throw new Error('Query is required and must be a non-empty string. Note: Only QueryBuilder fulltext is supported, not JCR SQL2.');
-      }
-      
-      // Basic security validation
-      const lower = query.toLowerCase();
-      if (/drop|delete|update|insert|exec|script|\.|<script/i.test(lower) || query.length > 1000) {
-        throw new Error('Query contains potentially unsafe patterns or is too long');
-      }
+      const { query, language = 'JCR-SQL2', offset = 0 } = params;
+      const roots = getAllowedQueryRoots(this.config());
+      const sandboxed = parseJCRQuery(query, language, roots);
 
-      const response = await this.httpClient.get('/bin/querybuilder.json', {
+      const { maxLimit, defaultLimit, timeoutMs } = this.config().queries;
+      const requestedLimit = params.limit ?? defaultLimit;
+      const limit = Math.min(requestedLimit, maxLimit);
+      const timeout = Math.min(params.timeoutMs ?? timeoutMs, timeoutMs);
+      const columns = params.columns?.length ? params.columns : sandboxed.columns;
+      // The servlet resolves against a resource; the allowed root holding the scope always exists
+      const resourcePath = roots.find(root => isWithinRoots(sandboxed.scopePaths[0], [root])) || sandboxed.scopePaths[0];
+
+      this.logger.info('Executing sandboxed JCR query', {
+        language: sandboxed.language,
+        scope: sandboxed.scopePaths,
+        offset,
+        limit
+      });
+
+      // One extra row tells whether another page exists
+      const response = await this.httpClient.get(`${resourcePath}.query.json`, {
         params: {
-          path: '/content',
-          type: 'cq:Page',
-          fulltext: query,
-          'p.limit': limit
-        }
+          statement: sandboxed.statement,
+          queryType: sandboxed.language,
+          offset,
+          rows: limit + 1,
+          ...(columns.length > 0 ? { property: columns } : {})
+        },
+        paramsSerializer: { indexes: null },
+        timeout
+      });
+
+      const rows: Array<Record<string, unknown>> = Array.isArray(response.data) ? response.data : [];
+      const hasMore = rows.length > limit;
+      const results = rows.slice(0, limit).map(row => {
+        const { 'jcr:path': path, 'jcr:score': score, ...values } = row;
+        const selected = columns.length > 0
+          ? Object.fromEntries(columns.map(column => [column, values[column] ?? null]))
+          : values;
+        return { path, score, ...selected };
       });
 
       return {
         query,
-        results: response.data.hits || [],
-        total: response.data.total || 0,
-        limit
+        language: sandboxed.language,
+        scope: sandboxed.scopePaths,
+        columns,
+        results,
+        count: results.length,
+        offset,
+        limit,
+        limitCapped: requestedLimit > limit,
+        hasMore,
+        ...(hasMore ? { nextOffset: offset + limit } : {})
       };
-    }, 'executeJCRQuery');
+    }, 'executeJCRQuery', 1);
+  }
+
+  /**
+   * Run a structured predicate tree through QueryBuilder. Results page via an opaque cursor:
+   * pass nextCursor back (alone) to fetch the following page.
+   */
+  async queryBuilder(request: QueryBuilderRequest): Promise<QueryBuilderResponse> {
+    return safeExecute<QueryBuilderResponse>(async () => {
+      const query = resolveQueryBuilderRequest(request, this.config().queries);
+      const params = { ...query.params, 'p.offset': String(query.offset) };
+
+      const response = await this.httpClient.get(this.config().endpoints.query, {
+        params,
+        timeout: this.config().queries.timeoutMs
+      });
+
+      const hits: Array<Record<string, unknown>> = response.data.hits || [];
+      const total = Number(response.data.total) || 0;
+      const hasMore = response.data.more === true || query.offset + hits.length < total;
+      const nextOffset = query.offset + query.limit;
+
+      return createSuccessResponse({
+        params,
+        hits,
+        total,
+        totalIsGuess: 'p.guessTotal' in query.params,
+        offset: query.offset,
+        limit: query.limit,
+        hasMore,
+        ...(hasMore && hits.length > 0 ? { nextCursor: encodeQueryCursor(query, nextOffset) } : {})
+      }, 'queryBuilder') as QueryBuilderResponse;
+    }, 'queryBuilder');
   }
 
   /**
@@ -280,7 +363,7 @@ export class SearchOperations implements Partial<IAEMConnector> {
       if (path) {
         searchParams.path = path;
       } else {
-        searchParams.path = this.config.contentPaths.assetsRoot;
+        searchParams.path = this.config().contentPaths.assetsRoot;
       }
 
       // Add MIME type filter
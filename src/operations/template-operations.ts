@@ -28,7 +28,7 @@ export class TemplateOperations implements Partial<IAEMConnector> {
   constructor(
     private httpClient: AxiosInstance,
     private logger: ILogger,
-    private config: AEMConfig
+    private config: () => AEMConfig
   ) {}
 
   /**
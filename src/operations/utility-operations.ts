@@ -29,7 +29,7 @@ export class UtilityOperations implements Partial<IAEMConnector> {
   constructor(
     private httpClient: AxiosInstance,
     private logger: ILogger,
-    private config: AEMConfig
+    private config: () => AEMConfig
   ) {}
 
   /**
@@ -382,6 +382,7 @@ export class UtilityOperations implements Partial<IAEMConnector> {
       formData.append('fileReference', newImagePath);
       
       const response = await this.httpClient.post(componentPath, formData, {
+        retrySafe: true,
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
         },
@@ -403,25 +404,4 @@ export class UtilityOperations implements Partial<IAEMConnector> {
       }, 'updateImagePath');
     }, 'updateImagePath');
   }
-
-  /**
-   * Undo changes (placeholder implementation)
-   * Note: AEM MCP does not support undo/rollback. Use AEM version history.
-   */
-  async undoChanges(request: { jobId: string }): Promise<{
-    success: boolean;
-    operation: string;
-    timestamp: string;
-    data: {
-      message: string;
-      request: { jobId: string };
-      timestamp: string;
-    };
-  }> {
-    return createSuccessResponse({
-      message: 'undoChanges is not implemented. Please use AEM version history for undo/rollback.',
-      request,
-      timestamp: new Date().toISOString(),
-    }, 'undoChanges');
-  }
 }
@@ -7,7 +7,8 @@ import { AxiosInstance } from 'axios';
 import { 
   IAEMConnector,
   ILogger,
-  AEMConfig
+  AEMConfig,
+  PropertyDifference
 } from '../interfaces/index.js';
 import { 
   AEMOperationError,
@@ -75,12 +76,7 @@ export interface CompareVersionsResponse {
     path: string;
     version1: string;
     version2: string;
-    differences: Array<{
-      property: string;
-      type: 'added' | 'removed' | 'modified';
-      oldValue?: unknown;
-      newValue?: unknown;
-    }>;
+    differences: PropertyDifference[];
     summary: {
       added: number;
       removed: number;
@@ -105,7 +101,7 @@ export class VersionOperations {
   constructor(
     private httpClient: AxiosInstance,
     private logger: ILogger,
-    private config: AEMConfig
+    private config: () => AEMConfig
   ) {}
 
   /**
@@ -230,7 +226,7 @@ export class VersionOperations {
           label,
           comment,
           created: new Date().toISOString(),
-          createdBy: this.config.serviceUser.username
+          createdBy: this.config().serviceUser.username
         }, 'createVersion') as CreateVersionResponse;
 
       } catch (error: any) {
@@ -287,7 +283,7 @@ export class VersionOperations {
           restoredVersion: versionName,
           previousVersion: currentVersion,
           restoredAt: new Date().toISOString(),
-          restoredBy: this.config.serviceUser.username
+          restoredBy: this.config().serviceUser.username
         }, 'restoreVersion') as RestoreVersionResponse;
 
       } catch (error: any) {
@@ -328,7 +324,7 @@ export class VersionOperations {
         });
 
         // Compare the versions
-        const differences = this.compareVersionData(
+        const differences = compareVersionData(
           version1Response.data,
           version2Response.data
         );
@@ -402,7 +398,7 @@ export class VersionOperations {
           path,
           deletedVersion: versionName,
           deletedAt: new Date().toISOString(),
-          deletedBy: this.config.serviceUser.username
+          deletedBy: this.config().serviceUser.username
         }, 'deleteVersion') as DeleteVersionResponse;
 
       } catch (error: any) {
@@ -412,7 +408,8 @@ export class VersionOperations {
   }
 
   /**
-   * Update undoChanges to use version operations
+   * Version-restore fallback for undoChanges: restores jobId as a version name of path.
+   * Journaled jobs are undone by JournalOperations.
    */
   async undoChanges(request: { jobId: string; path?: string }): Promise<{
     success: boolean;
@@ -488,58 +485,48 @@ export class VersionOperations {
       },
     });
   }
+}
 
-  /**
-   * Helper method to compare version data
-   */
-  private compareVersionData(data1: any, data2: any, prefix = ''): Array<{
-    property: string;
-    type: 'added' | 'removed' | 'modified';
-    oldValue?: unknown;
-    newValue?: unknown;
-  }> {
-    const differences: Array<{
-      property: string;
-      type: 'added' | 'removed' | 'modified';
-      oldValue?: unknown;
-      newValue?: unknown;
-    }> = [];
-
-    const keys1 = new Set(Object.keys(data1 || {}));
-    const keys2 = new Set(Object.keys(data2 || {}));
-
-    // Check for added and modified properties
-    for (const key of keys2) {
-      const fullKey = prefix ? `${prefix}.${key}` : key;
-      
-      if (!keys1.has(key)) {
-        differences.push({
-          property: fullKey,
-          type: 'added',
-          newValue: data2[key]
-        });
-      } else if (JSON.stringify(data1[key]) !== JSON.stringify(data2[key])) {
-        differences.push({
-          property: fullKey,
-          type: 'modified',
-          oldValue: data1[key],
-          newValue: data2[key]
-        });
-      }
+/**
+ * Compare the top-level values of two nodes: added are only in data2, removed only in data1
+ */
+export function compareVersionData(data1: any, data2: any, prefix = ''): PropertyDifference[] {
+  const differences: PropertyDifference[] = [];
+
+  const keys1 = new Set(Object.keys(data1 || {}));
+  const keys2 = new Set(Object.keys(data2 || {}));
+
+  // Check for added and modified properties
+  for (const key of keys2) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    
+    if (!keys1.has(key)) {
+      differences.push({
+        property: fullKey,
+        type: 'added',
+        newValue: data2[key]
+      });
+    } else if (JSON.stringify(data1[key]) !== JSON.stringify(data2[key])) {
+      differences.push({
+        property: fullKey,
+        type: 'modified',
+        oldValue: data1[key],
+        newValue: data2[key]
+      });
     }
+  }
 
-    // Check for removed properties
-    for (const key of keys1) {
-      if (!keys2.has(key)) {
-        const fullKey = prefix ? `${prefix}.${key}` : key;
-        differences.push({
-          property: fullKey,
-          type: 'removed',
-          oldValue: data1[key]
-        });
-      }
+  // Check for removed properties
+  for (const key of keys1) {
+    if (!keys2.has(key)) {
+      const fullKey = prefix ? `${prefix}.${key}` : key;
+      differences.push({
+        property: fullKey,
+        type: 'removed',
+        oldValue: data1[key]
+      });
     }
-
-    return differences;
   }
+
+  return differences;
 }
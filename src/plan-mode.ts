@@ -0,0 +1,155 @@
+/**
+ * Plan Mode Module
+ * While a plan is being recorded, write requests on instrumented axios instances are captured
+ * instead of sent. Operations run unchanged, so the plan holds exactly the requests they would issue.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { PlannedRequest } from './interfaces/index.js';
+
+const WRITE_METHODS = new Set(['post', 'put', 'patch', 'delete']);
+const SERVLET_PREFIXES = ['/bin/', '/libs/', '/etc/'];
+const ASSETS_API_PREFIX = '/api/assets';
+// Selectors and extensions of the requests sent here; node names may hold dots (logo.png), so only known selectors are stripped
+const SELECTOR_SUFFIX = /(\.(\d+|infinity|tidy|createasset|initiateUpload|completeUpload))*\.(json|html)$/;
+
+export interface RecordedRequest {
+  /** Request config as issued, replayed by applyPlan */
+  config: InternalAxiosRequestConfig;
+  planned: PlannedRequest;
+}
+
+interface PlanRecording {
+  requests: RecordedRequest[];
+  writtenPaths: Set<string>;
+}
+
+const recordings = new AsyncLocalStorage<PlanRecording>();
+
+/**
+ * Run fn with writes captured rather than sent; returns the captured requests
+ */
+export async function recordPlan(fn: () => Promise<unknown>): Promise<RecordedRequest[]> {
+  const recording: PlanRecording = { requests: [], writtenPaths: new Set() };
+  await recordings.run(recording, fn);
+  return recording.requests;
+}
+
+export function isRecordingPlan(): boolean {
+  return recordings.getStore() !== undefined;
+}
+
+/**
+ * Capture writes made while a plan is recorded. Reads of nodes the plan writes are answered
+ * locally too, so verification steps do not see the old state and fall back to other writes.
+ */
+export function installPlanInterceptor(instance: AxiosInstance): AxiosInstance {
+  instance.interceptors.request.use((config) => {
+    const recording = recordings.getStore();
+    if (!recording) {
+      return config;
+    }
+
+    const method = (config.method || 'get').toLowerCase();
+    if (WRITE_METHODS.has(method)) {
+      const planned = describeRequest(config);
+      planned.affectedPaths.forEach(path => recording.writtenPaths.add(path));
+      // Copied before the adapter is swapped so applyPlan can replay it as issued
+      recording.requests.push({ config: { ...config }, planned });
+    } else if (!isPlannedRead(nodePathOf(config.url || ''), recording.writtenPaths)) {
+      return config;
+    }
+
+    config.adapter = async () => ({ data: {}, status: 200, statusText: 'OK', headers: {}, config });
+    return config;
+  });
+  return instance;
+}
+
+function isPlannedRead(path: string, writtenPaths: Set<string>): boolean {
+  return [...writtenPaths].some(written => path === written || path.startsWith(`${written}/`));
+}
+
+/**
+ * Repository path a request URL addresses, without the host, query string, selectors or extension
+ */
+export function nodePathOf(url: string): string {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+  if (path.startsWith(`${ASSETS_API_PREFIX}/`)) {
+    return `/content/dam${path.substring(ASSETS_API_PREFIX.length).replace(/\.json$/, '')}`;
+  }
+  return path.replace(SELECTOR_SUFFIX, '');
+}
+
+export function isServletPath(path: string): boolean {
+  return SERVLET_PREFIXES.some(prefix => path.startsWith(prefix));
+}
+
+/**
+ * Serialisable form of a request body; form bodies become field maps with repeated fields as lists
+ */
+export function serializeBody(data: unknown): unknown {
+  if (data instanceof URLSearchParams || (typeof FormData !== 'undefined' && data instanceof FormData)) {
+    const fields: Record<string, string | string[]> = {};
+    for (const [name, value] of (data as URLSearchParams).entries()) {
+      const text = typeof value === 'string' ? value : `<binary ${(value as Blob).size} bytes>`;
+      const existing = fields[name];
+      fields[name] = existing === undefined ? text : [...(Array.isArray(existing) ? existing : [existing]), text];
+    }
+    return fields;
+  }
+  if (Buffer.isBuffer(data)) {
+    return `<binary ${data.length} bytes>`;
+  }
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  return data;
+}
+
+export function describeRequest(config: InternalAxiosRequestConfig): PlannedRequest {
+  const body = serializeBody(config.data);
+  const url = config.url || '';
+  return {
+    method: (config.method || 'get').toUpperCase(),
+    url,
+    ...(config.params ? { params: config.params } : {}),
+    ...(body !== undefined ? { body } : {}),
+    affectedPaths: affectedPathsOf(nodePathOf(url), { ...(config.params || {}), ...(isRecord(body) ? body : {}) }),
+  };
+}
+
+/**
+ * Nodes a write touches: the addressed node for Sling POSTs, or the paths named in the
+ * parameters of servlet commands such as /bin/wcmcommand and /bin/replicate.json
+ */
+function affectedPathsOf(path: string, fields: Record<string, unknown>): string[] {
+  const values = (name: string): string[] => {
+    const value = fields[name];
+    return (Array.isArray(value) ? value : value === undefined ? [] : [value]).map(String);
+  };
+
+  const paths: string[] = [];
+  if (isServletPath(path)) {
+    paths.push(...values('path'), ...values('srcPath'), ...values('destPath'), ...values('adjust'), ...values('publish'));
+    const [destParentPath] = values('destParentPath');
+    const [destName] = values('destName');
+    if (destParentPath) {
+      paths.push(destName ? `${destParentPath}/${destName}` : destParentPath);
+    }
+  } else {
+    const [name] = values(':name');
+    paths.push(name ? `${path}/${name}` : path);
+    paths.push(...values(':dest'));
+  }
+  return [...new Set(paths.filter(p => p.startsWith('/')))];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,34 @@
+/**
+ * Progress Module
+ * Lets long-running operations report progress to the client of the tool call they run in.
+ * The MCP server installs a reporter when the client sent a progressToken; elsewhere reports
+ * are dropped.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface ProgressUpdate {
+  /** Increases with every update; bytes transferred, seconds elapsed or steps completed */
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export type ProgressReporter = (update: ProgressUpdate) => void;
+
+const reporters = new AsyncLocalStorage<ProgressReporter>();
+
+export function runWithProgress<T>(reporter: ProgressReporter, fn: () => T): T {
+  let last = -Infinity;
+  // Clients expect progress to increase, so repeated or lower values are not sent
+  return reporters.run((update) => {
+    if (update.progress > last) {
+      last = update.progress;
+      reporter(update);
+    }
+  }, fn);
+}
+
+export function reportProgress(progress: number, total?: number, message?: string): void {
+  reporters.getStore()?.({ progress, ...(total !== undefined ? { total } : {}), ...(message ? { message } : {}) });
+}
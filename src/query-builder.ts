@@ -0,0 +1,304 @@
+/**
+ * QueryBuilder Compiler Module
+ * Validates structured predicate trees, compiles them to /bin/querybuilder.json parameters
+ * and encodes the opaque cursors used to page through results
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AEM_ERROR_CODES, createAEMError } from './error-handler.js';
+import { QueryBuilderPredicate, QueryBuilderRequest } from './interfaces/index.js';
+import { ValidationIssue } from './validation.js';
+
+export const MAX_PREDICATE_DEPTH = 5;
+export const MAX_PREDICATES = 100;
+
+const PREDICATE_TYPES = ['path', 'type', 'property', 'daterange', 'relativedaterange', 'tagid', 'fulltext', 'group'];
+const RELATIVE_DURATION = /^-?\d+[smhdwMy]?$/;
+
+// Cursors carry compiled parameters, so they are signed: a client cannot send parameters the
+// compiler would refuse. Without a configured secret, cursors do not survive a restart
+const CURSOR_KEY = process.env.AEM_QUERY_CURSOR_SECRET || randomBytes(32).toString('hex');
+
+export interface CompiledQuery {
+  /** QueryBuilder parameters without p.offset */
+  params: Record<string, string>;
+  limit: number;
+}
+
+interface QueryCursor {
+  v: 1;
+  params: Record<string, string>;
+  limit: number;
+  offset: number;
+}
+
+function issue(field: string, expected: string, received: unknown, message: string): ValidationIssue {
+  return {
+    field,
+    expected,
+    received: received === undefined ? 'undefined' : JSON.stringify(received),
+    message,
+  };
+}
+
+function isBlank(value: unknown): boolean {
+  return typeof value !== 'string' || value.trim().length === 0;
+}
+
+function validatePredicate(predicate: QueryBuilderPredicate, field: string, depth: number, counter: { count: number }): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  counter.count++;
+
+  if (!predicate || typeof predicate !== 'object' || !PREDICATE_TYPES.includes((predicate as any).predicate)) {
+    return [issue(`${field}.predicate`, PREDICATE_TYPES.join(' | '), (predicate as any)?.predicate, `${field}.predicate must be one of ${PREDICATE_TYPES.join(', ')}`)];
+  }
+
+  switch (predicate.predicate) {
+    case 'path':
+      if (isBlank(predicate.path) || !predicate.path.startsWith('/')) {
+        issues.push(issue(`${field}.path`, 'absolute path', predicate.path, `${field}.path must be an absolute repository path`));
+      }
+      break;
+    case 'type':
+      if (isBlank(predicate.nodeType)) {
+        issues.push(issue(`${field}.nodeType`, 'string', predicate.nodeType, `${field}.nodeType is required`));
+      }
+      break;
+    case 'property': {
+      if (isBlank(predicate.property)) {
+        issues.push(issue(`${field}.property`, 'string', predicate.property, `${field}.property is required`));
+      }
+      const hasValue = predicate.value !== undefined || (predicate.values?.length ?? 0) > 0;
+      if (predicate.operation !== 'exists' && !hasValue) {
+        issues.push(issue(`${field}.value`, 'string | number | boolean', undefined, `${field} needs value or values unless operation is 'exists'`));
+      }
+      if (predicate.value !== undefined && predicate.values !== undefined) {
+        issues.push(issue(`${field}.values`, 'undefined', predicate.values, `${field} takes either value or values, not both`));
+      }
+      break;
+    }
+    case 'daterange':
+      if (isBlank(predicate.property)) {
+        issues.push(issue(`${field}.property`, 'string', predicate.property, `${field}.property is required`));
+      }
+      if (predicate.lowerBound === undefined && predicate.upperBound === undefined) {
+        issues.push(issue(`${field}.lowerBound`, 'ISO 8601 date', undefined, `${field} needs lowerBound or upperBound`));
+      }
+      for (const bound of ['lowerBound', 'upperBound'] as const) {
+        const value = predicate[bound];
+        if (value !== undefined && Number.isNaN(Date.parse(value))) {
+          issues.push(issue(`${field}.${bound}`, 'ISO 8601 date', value, `${field}.${bound} is not a valid date`));
+        }
+      }
+      break;
+    case 'relativedaterange':
+      if (isBlank(predicate.property)) {
+        issues.push(issue(`${field}.property`, 'string', predicate.property, `${field}.property is required`));
+      }
+      if (predicate.lowerBound === undefined && predicate.upperBound === undefined) {
+        issues.push(issue(`${field}.lowerBound`, 'duration such as -7d', undefined, `${field} needs lowerBound or upperBound`));
+      }
+      for (const bound of ['lowerBound', 'upperBound'] as const) {
+        const value = predicate[bound];
+        if (value !== undefined && !RELATIVE_DURATION.test(value)) {
+          issues.push(issue(`${field}.${bound}`, 'duration such as -7d, 2w or 3600000', value, `${field}.${bound} is not a valid relative duration`));
+        }
+      }
+      break;
+    case 'tagid':
+      if (!Array.isArray(predicate.tagIds) || predicate.tagIds.length === 0 || predicate.tagIds.some(isBlank)) {
+        issues.push(issue(`${field}.tagIds`, 'non-empty array of tag IDs', predicate.tagIds, `${field}.tagIds needs at least one tag ID`));
+      }
+      break;
+    case 'fulltext':
+      if (isBlank(predicate.text)) {
+        issues.push(issue(`${field}.text`, 'string', predicate.text, `${field}.text is required`));
+      }
+      break;
+    case 'group':
+      if (depth >= MAX_PREDICATE_DEPTH) {
+        issues.push(issue(field, `groups nested at most ${MAX_PREDICATE_DEPTH} deep`, depth + 1, `${field} is nested too deeply`));
+        break;
+      }
+      if (!Array.isArray(predicate.predicates) || predicate.predicates.length === 0) {
+        issues.push(issue(`${field}.predicates`, 'non-empty array', predicate.predicates, `${field}.predicates needs at least one predicate`));
+        break;
+      }
+      predicate.predicates.forEach((child, index) => issues.push(...validatePredicate(child, `${field}.predicates[${index}]`, depth + 1, counter)));
+      break;
+  }
+
+  return issues;
+}
+
+/**
+ * Check a predicate tree, returning every problem found rather than the first
+ */
+export function validatePredicateTree(predicates: QueryBuilderPredicate[]): ValidationIssue[] {
+  const counter = { count: 0 };
+  const issues = predicates.flatMap((predicate, index) => validatePredicate(predicate, `predicates[${index}]`, 0, counter));
+  if (counter.count > MAX_PREDICATES) {
+    issues.push(issue('predicates', `at most ${MAX_PREDICATES} predicates`, counter.count, `Query has ${counter.count} predicates; the limit is ${MAX_PREDICATES}`));
+  }
+  return issues;
+}
+
+function compilePredicate(predicate: QueryBuilderPredicate, key: string, params: Record<string, string>): void {
+  switch (predicate.predicate) {
+    case 'path':
+      params[key] = predicate.path;
+      if (predicate.exact) params[`${key}.exact`] = 'true';
+      if (predicate.flat) params[`${key}.flat`] = 'true';
+      if (predicate.self) params[`${key}.self`] = 'true';
+      break;
+    case 'type':
+      params[key] = predicate.nodeType;
+      break;
+    case 'property':
+      params[key] = predicate.property;
+      if (predicate.values?.length) {
+        predicate.values.forEach((value, index) => { params[`${key}.${index + 1}_value`] = String(value); });
+      } else if (predicate.value !== undefined) {
+        params[`${key}.value`] = String(predicate.value);
+      }
+      if (predicate.operation) params[`${key}.operation`] = predicate.operation;
+      if (predicate.and) params[`${key}.and`] = 'true';
+      if (predicate.depth !== undefined) params[`${key}.depth`] = String(predicate.depth);
+      break;
+    case 'daterange':
+      params[`${key}.property`] = predicate.property;
+      if (predicate.lowerBound !== undefined) {
+        params[`${key}.lowerBound`] = predicate.lowerBound;
+        params[`${key}.lowerOperation`] = predicate.lowerOperation || '>=';
+      }
+      if (predicate.upperBound !== undefined) {
+        params[`${key}.upperBound`] = predicate.upperBound;
+        params[`${key}.upperOperation`] = predicate.upperOperation || '<=';
+      }
+      break;
+    case 'relativedaterange':
+      params[`${key}.property`] = predicate.property;
+      if (predicate.lowerBound !== undefined) params[`${key}.lowerBound`] = predicate.lowerBound;
+      if (predicate.upperBound !== undefined) params[`${key}.upperBound`] = predicate.upperBound;
+      break;
+    case 'tagid':
+      params[`${key}.property`] = predicate.property || 'jcr:content/cq:tags';
+      if (predicate.tagIds.length === 1) {
+        params[key] = predicate.tagIds[0];
+      } else {
+        predicate.tagIds.forEach((tagId, index) => { params[`${key}.${index + 1}_value`] = tagId; });
+      }
+      if (predicate.and) params[`${key}.and`] = 'true';
+      break;
+    case 'fulltext':
+      params[key] = predicate.text;
+      if (predicate.relPath) params[`${key}.relPath`] = predicate.relPath;
+      break;
+    case 'group':
+      if (predicate.or) params[`${key}.p.or`] = 'true';
+      if (predicate.not) params[`${key}.p.not`] = 'true';
+      compileGroup(predicate.predicates, `${key}.`, params);
+      break;
+  }
+}
+
+function compileGroup(predicates: QueryBuilderPredicate[], prefix: string, params: Record<string, string>): void {
+  predicates.forEach((predicate, index) => compilePredicate(predicate, `${prefix}${index + 1}_${predicate.predicate}`, params));
+}
+
+/**
+ * Validate a request and compile it to QueryBuilder parameters; the page size is capped at maxLimit
+ */
+export function compileQueryBuilderRequest(request: QueryBuilderRequest, limits: { defaultLimit: number; maxLimit: number }): CompiledQuery {
+  const predicates = request.predicates || [];
+  const issues = validatePredicateTree(predicates);
+  if (predicates.length === 0) {
+    issues.unshift(issue('predicates', 'non-empty array', request.predicates, 'predicates needs at least one predicate'));
+  }
+  if (request.hits === 'selective' && !request.properties?.length) {
+    issues.push(issue('properties', 'non-empty array', request.properties, "properties is required when hits is 'selective'"));
+  }
+  if (issues.length > 0) {
+    throw createAEMError(
+      AEM_ERROR_CODES.INVALID_PARAMETERS,
+      `Invalid query: ${issues.map(i => i.message).join('; ')}`,
+      { method: 'queryBuilder', errors: issues }
+    );
+  }
+
+  const params: Record<string, string> = {};
+  compileGroup(predicates, '', params);
+
+  (request.orderBy || []).forEach((order, index) => {
+    const key = `${index + 1}_orderby`;
+    params[key] = order.property.startsWith('@') || order.property === 'path' || order.property === 'nodename'
+      ? order.property
+      : `@${order.property}`;
+    if (order.sort) params[`${key}.sort`] = order.sort;
+  });
+
+  const limit = Math.min(request.limit ?? limits.defaultLimit, limits.maxLimit);
+  params['p.limit'] = String(limit);
+  if (request.guessTotal !== undefined && request.guessTotal !== false) {
+    params['p.guessTotal'] = String(request.guessTotal);
+  }
+  const hits = request.hits || (request.properties?.length ? 'selective' : undefined);
+  if (hits) params['p.hits'] = hits;
+  if (hits === 'selective' && request.properties?.length) params['p.properties'] = request.properties.join(' ');
+  if (request.nodeDepth !== undefined) params['p.nodedepth'] = String(request.nodeDepth);
+
+  return { params, limit };
+}
+
+function signCursor(payload: string): Buffer {
+  return createHmac('sha256', CURSOR_KEY).update(payload).digest();
+}
+
+export function encodeQueryCursor(compiled: CompiledQuery, offset: number): string {
+  const cursor: QueryCursor = { v: 1, params: compiled.params, limit: compiled.limit, offset };
+  const payload = Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+  return `${payload}.${signCursor(payload).toString('base64url')}`;
+}
+
+export function decodeQueryCursor(cursor: string): CompiledQuery & { offset: number } {
+  try {
+    const [payload, signature = '', ...rest] = cursor.split('.');
+    const received = Buffer.from(signature, 'base64url');
+    const expected = signCursor(payload);
+    if (rest.length > 0 || received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new Error('unsigned cursor');
+    }
+    const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as QueryCursor;
+    if (decoded.v !== 1 || typeof decoded.params !== 'object' || !Number.isInteger(decoded.offset) || decoded.offset < 0
+      || !Number.isInteger(decoded.limit) || decoded.limit < 1) {
+      throw new Error('unrecognised cursor');
+    }
+    return { params: decoded.params, limit: decoded.limit, offset: decoded.offset };
+  } catch {
+    throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, 'Invalid cursor; pass the nextCursor value from a previous queryBuilder result', { cursor });
+  }
+}
+
+/**
+ * Resolve the query and offset for a request: a cursor alone continues a previous query, and a
+ * cursor sent with predicates must belong to the same query. The page size of a cursor is
+ * capped at maxLimit again, in case the limit was lowered since it was issued
+ */
+export function resolveQueryBuilderRequest(
+  request: QueryBuilderRequest,
+  limits: { defaultLimit: number; maxLimit: number }
+): CompiledQuery & { offset: number } {
+  if (!request.cursor) {
+    return { ...compileQueryBuilderRequest(request, limits), offset: 0 };
+  }
+
+  const cursor = decodeQueryCursor(request.cursor);
+  if (request.predicates?.length) {
+    const compiled = compileQueryBuilderRequest(request, limits);
+    if (JSON.stringify(compiled.params) !== JSON.stringify(cursor.params)) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, 'Cursor belongs to a different query; send the cursor alone or with the original predicates', { cursor: request.cursor });
+    }
+  }
+  const limit = Math.min(cursor.limit, limits.maxLimit);
+  return { params: { ...cursor.params, 'p.limit': String(limit) }, limit, offset: cursor.offset };
+}
@@ -0,0 +1,367 @@
+/**
+ * Query Sandbox Module
+ * Parses JCR-SQL2 and XPath statements before they reach AEM. Only read-only SELECT queries
+ * confined below the configured content roots are accepted.
+ */
+
+import { AEMConfig } from './aem-config.js';
+import { AEM_ERROR_CODES, createAEMError } from './error-handler.js';
+import { JCRQueryLanguage } from './interfaces/index.js';
+
+export const MAX_QUERY_LENGTH = 4000;
+
+export interface SandboxedQuery {
+  language: JCRQueryLanguage;
+  statement: string;
+  /** Paths the query is confined to; each lies below an allowed root */
+  scopePaths: string[];
+  /** Selected property names; empty when the statement selects every property */
+  columns: string[];
+}
+
+type Range = [number, number];
+
+const PATH_CONSTRAINT = /\b(ISDESCENDANTNODE|ISCHILDNODE|ISSAMENODE)\s*\(/gi;
+const WRITE_KEYWORDS = /\b(INSERT|UPDATE|DELETE|MERGE|DROP|CREATE|ALTER|REMOVE|EXEC|EXECUTE)\b/i;
+
+function invalidQuery(message: string, details: Record<string, unknown> = {}) {
+  return createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, message, details);
+}
+
+/**
+ * Roots a query may be scoped to, taken from contentPaths
+ */
+export function getAllowedQueryRoots(config: AEMConfig): string[] {
+  return [...new Set(Object.values(config.contentPaths))];
+}
+
+export function isWithinRoots(path: string, roots: string[]): boolean {
+  if (!path.startsWith('/') || path.split('/').some(segment => segment === '.' || segment === '..')) {
+    return false;
+  }
+  const normalized = path.replace(/\/+$/, '') || '/';
+  return roots.some(root => {
+    const base = root.replace(/\/+$/, '');
+    return normalized === base || normalized.startsWith(`${base}/`);
+  });
+}
+
+function assertWithinRoots(path: string, roots: string[]): void {
+  if (!isWithinRoots(path, roots)) {
+    throw createAEMError(
+      AEM_ERROR_CODES.INVALID_PATH,
+      `Query scope '${path}' is outside the allowed roots: ${roots.join(', ')}`,
+      { path, allowedRoots: roots }
+    );
+  }
+}
+
+/**
+ * Replace the contents of string literals with '_' so structure can be inspected without
+ * being fooled by quoted text; offsets stay aligned with the original statement
+ */
+function maskLiterals(statement: string): string {
+  let masked = '';
+  let quote: string | null = null;
+  for (let i = 0; i < statement.length; i++) {
+    const ch = statement[i];
+    if (quote) {
+      if (ch === quote && statement[i + 1] === quote) {
+        masked += '__';
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+        masked += ch;
+      } else {
+        masked += '_';
+      }
+    } else {
+      if (ch === '\'' || ch === '"') quote = ch;
+      masked += ch;
+    }
+  }
+  if (quote) {
+    throw invalidQuery('Query contains an unterminated string literal');
+  }
+  return masked;
+}
+
+/**
+ * Nesting depth of parentheses and brackets at every offset
+ */
+function depthMap(masked: string): number[] {
+  const depths: number[] = [];
+  let depth = 0;
+  for (const ch of masked) {
+    if (ch === ')' || ch === ']') depth--;
+    depths.push(depth);
+    if (ch === '(' || ch === '[') depth++;
+  }
+  if (depth !== 0) {
+    throw invalidQuery('Query has unbalanced parentheses or brackets');
+  }
+  return depths;
+}
+
+function findTopLevel(masked: string, depths: number[], pattern: RegExp, from = 0): RegExpExecArray | null {
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  regex.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(masked)) !== null) {
+    if (depths[match.index] === 0) return match;
+  }
+  return null;
+}
+
+/**
+ * Split a range on a separator that occurs outside parentheses and brackets
+ */
+function splitTopLevel(masked: string, range: Range, separator: RegExp): Range[] {
+  const [start, end] = range;
+  const segment = masked.slice(start, end);
+  const depths = depthMap(segment);
+  const parts: Range[] = [];
+  const regex = new RegExp(separator.source, 'gi');
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(segment)) !== null) {
+    if (depths[match.index] === 0) {
+      parts.push([start + last, start + match.index]);
+      last = match.index + match[0].length;
+    }
+  }
+  parts.push([start + last, end]);
+  return parts;
+}
+
+function trimRange(text: string, [start, end]: Range): Range {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return [start, end];
+}
+
+function closingParen(masked: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === '(') depth++;
+    if (masked[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function unquoteName(name: string): string {
+  const trimmed = name.trim();
+  return trimmed.startsWith('[') && trimmed.endsWith(']') ? trimmed.slice(1, -1) : trimmed;
+}
+
+function unquoteLiteral(value: string): string | null {
+  const trimmed = value.trim();
+  const quote = trimmed[0];
+  if ((quote === '\'' || quote === '"') && trimmed.endsWith(quote)) {
+    return trimmed.slice(1, -1).split(quote + quote).join(quote);
+  }
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    return trimmed.slice(1, -1);
+  }
+  return null;
+}
+
+interface PathConstraint {
+  selector: string;
+  path: string;
+  range: Range;
+}
+
+/**
+ * Every ISDESCENDANTNODE/ISCHILDNODE/ISSAMENODE call that names a path; join conditions
+ * comparing two selectors are skipped
+ */
+function findPathConstraints(statement: string, masked: string): PathConstraint[] {
+  const constraints: PathConstraint[] = [];
+  const regex = new RegExp(PATH_CONSTRAINT.source, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(masked)) !== null) {
+    const open = match.index + match[0].length - 1;
+    const close = closingParen(masked, open);
+    const argRanges = splitTopLevel(masked, [open + 1, close], /,/);
+    const args = argRanges.map(range => statement.slice(...range));
+    const path = unquoteLiteral(args[args.length - 1]);
+    if (path !== null && path.startsWith('/')) {
+      constraints.push({
+        selector: args.length > 1 ? unquoteName(args[0]) : '',
+        path,
+        range: [match.index, close + 1],
+      });
+    }
+  }
+  return constraints;
+}
+
+/**
+ * Selectors a condition is guaranteed to confine: AND confines what any operand confines,
+ * OR only what every operand confines
+ */
+function confinedSelectors(masked: string, range: Range, constraints: PathConstraint[]): Set<string> {
+  let [start, end] = trimRange(masked, range);
+  while (masked[start] === '(' && closingParen(masked, start) === end - 1) {
+    [start, end] = trimRange(masked, [start + 1, end - 1]);
+  }
+
+  const disjuncts = splitTopLevel(masked, [start, end], /\bOR\b/);
+  if (disjuncts.length > 1) {
+    const sets = disjuncts.map(part => confinedSelectors(masked, part, constraints));
+    return new Set([...sets[0]].filter(selector => sets.every(set => set.has(selector))));
+  }
+
+  const conjuncts = splitTopLevel(masked, [start, end], /\bAND\b/);
+  if (conjuncts.length > 1) {
+    const confined = new Set<string>();
+    conjuncts.forEach(part => confinedSelectors(masked, part, constraints).forEach(s => confined.add(s)));
+    return confined;
+  }
+
+  const constraint = constraints.find(c => c.range[0] === start && c.range[1] === end);
+  return new Set(constraint ? [constraint.selector] : []);
+}
+
+function parseSQL2Columns(statement: string, masked: string, range: Range): string[] {
+  const columns: string[] = [];
+  for (const part of splitTopLevel(masked, range, /,/)) {
+    const text = statement.slice(...trimRange(masked, part));
+    const match = /^(?:(?:\[[^\]]+\]|[\w:-]+)\.)?(\[[^\]]+\]|[\w:*-]+)(?:\s+AS\s+(?:\[[^\]]+\]|[\w:-]+))?$/i.exec(text);
+    if (!match) {
+      throw invalidQuery(`Unsupported column '${text}' in SELECT list`);
+    }
+    const name = unquoteName(match[1]);
+    if (name === '*') return [];
+    columns.push(name);
+  }
+  return columns;
+}
+
+function parseSQL2(statement: string, roots: string[]): SandboxedQuery {
+  const masked = maskLiterals(statement);
+  const unnamed = masked.replace(/\[[^\]]*\]/g, name => `[${'_'.repeat(name.length - 2)}]`);
+  const depths = depthMap(masked);
+
+  if (!/^\s*SELECT\s/i.test(unnamed)) {
+    throw invalidQuery('Only SELECT statements are allowed');
+  }
+  if (unnamed.includes(';')) {
+    throw invalidQuery('Multiple statements are not allowed');
+  }
+  if (findTopLevel(unnamed, depths, /\bUNION\b/i)) {
+    throw invalidQuery('UNION is not allowed');
+  }
+  const keyword = WRITE_KEYWORDS.exec(unnamed);
+  if (keyword) {
+    throw invalidQuery(`Keyword '${keyword[1]}' is not allowed in a read-only query`);
+  }
+
+  const from = findTopLevel(unnamed, depths, /\bFROM\b/i);
+  if (!from) {
+    throw invalidQuery('Query must have a FROM clause');
+  }
+  const selectStart = unnamed.search(/\bSELECT\b/i) + 'SELECT'.length;
+  const columns = parseSQL2Columns(statement, masked, [selectStart, from.index]);
+
+  const where = findTopLevel(unnamed, depths, /\bWHERE\b/i, from.index);
+  const orderBy = findTopLevel(unnamed, depths, /\bORDER\s+BY\b/i, from.index);
+  const fromEnd = where?.index ?? orderBy?.index ?? statement.length;
+
+  const selectors: string[] = [];
+  const selectorPattern = /(?:FROM|JOIN)\s+(?:\[[^\]]+\]|[\w:]+)(?:\s+AS\s+(\[[^\]]+\]|[\w:-]+))?/gi;
+  const fromClause = statement.slice(from.index, fromEnd);
+  let selector: RegExpExecArray | null;
+  while ((selector = selectorPattern.exec(fromClause)) !== null) {
+    selectors.push(selector[1] ? unquoteName(selector[1]) : '');
+  }
+
+  const constraints = findPathConstraints(statement, masked);
+  constraints.forEach(constraint => assertWithinRoots(constraint.path, roots));
+
+  if (!where) {
+    throw invalidQuery(`Query must be scoped with ISDESCENDANTNODE, ISCHILDNODE or ISSAMENODE below one of: ${roots.join(', ')}`, { allowedRoots: roots });
+  }
+  const whereEnd = orderBy && orderBy.index > where.index ? orderBy.index : statement.length;
+  const confined = confinedSelectors(masked, [where.index + where[0].length, whereEnd], constraints);
+  const unconfined = selectors.length === 1
+    ? (confined.has('') || confined.has(selectors[0]) ? [] : selectors)
+    : selectors.filter(name => !confined.has(name));
+  if (unconfined.length > 0) {
+    throw invalidQuery(
+      `Every selector must be scoped with ISDESCENDANTNODE, ISCHILDNODE or ISSAMENODE below one of: ${roots.join(', ')}`,
+      { unscopedSelectors: unconfined.map(name => name || '(default)'), allowedRoots: roots }
+    );
+  }
+
+  return {
+    language: 'JCR-SQL2',
+    statement: statement.trim(),
+    scopePaths: [...new Set(constraints.map(constraint => constraint.path))],
+    columns,
+  };
+}
+
+function decodeISO9075(name: string): string {
+  return name.replace(/_x([0-9a-fA-F]{4})_/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function parseXPathColumns(main: string): string[] {
+  const projection = /\/\(([^()]*(?:\([^()]*\)[^()]*)*)\)\s*$/.exec(main);
+  if (projection) {
+    return projection[1].split('|').map(part => part.trim()).filter(part => part.startsWith('@')).map(part => part.slice(1));
+  }
+  const single = /\/@([\w:.-]+)\s*$/.exec(main);
+  return single ? [single[1]] : [];
+}
+
+function parseXPath(statement: string, roots: string[]): SandboxedQuery {
+  const trimmed = statement.trim();
+  const masked = maskLiterals(trimmed);
+  const depths = depthMap(masked);
+
+  if (masked.includes(';')) {
+    throw invalidQuery('Multiple statements are not allowed');
+  }
+  if (masked.includes('(:')) {
+    throw invalidQuery('XPath comments are not allowed');
+  }
+  if (/\.\.|\b(parent|ancestor|ancestor-or-self)::/.test(masked)) {
+    throw invalidQuery('Parent and ancestor axes are not allowed');
+  }
+  if (findTopLevel(masked, depths, /\|/)) {
+    throw invalidQuery('Union of path expressions is not allowed');
+  }
+
+  const root = /^\/jcr:root((?:\/(?![\w:.-]*\()[\w:.-]+)*)/.exec(trimmed);
+  if (!root) {
+    throw invalidQuery(`XPath queries must start with /jcr:root followed by a path below one of: ${roots.join(', ')}`, { allowedRoots: roots });
+  }
+  const scopePath = decodeISO9075(root[1]) || '/';
+  assertWithinRoots(scopePath, roots);
+
+  const orderBy = findTopLevel(masked, depths, /\border\s+by\b/i);
+  const main = trimmed.slice(0, orderBy?.index ?? trimmed.length).trim();
+
+  return {
+    language: 'xpath',
+    statement: trimmed,
+    scopePaths: [scopePath],
+    columns: parseXPathColumns(main),
+  };
+}
+
+/**
+ * Check a statement against the sandbox rules and extract its scope and columns; violations
+ * raise INVALID_PARAMETERS, or INVALID_PATH when the scope lies outside the allowed roots
+ */
+export function parseJCRQuery(statement: string, language: JCRQueryLanguage, roots: string[]): SandboxedQuery {
+  if (!statement || statement.trim().length === 0) {
+    throw invalidQuery('Query is required and must be a non-empty string');
+  }
+  if (statement.length > MAX_QUERY_LENGTH) {
+    throw invalidQuery(`Query exceeds the maximum length of ${MAX_QUERY_LENGTH} characters`, { length: statement.length });
+  }
+  return language === 'xpath' ? parseXPath(statement, roots) : parseSQL2(statement, roots);
+}
@@ -0,0 +1,126 @@
+/**
+ * Rate Limiter Module
+ * Fixed-window budgets for tool calls, kept per caller: one for all calls, plus tighter ones
+ * for configured categories and expensive tools. The tool registry consumes them before a
+ * call runs; the gateway middleware reports the remaining quota in response headers.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import { AuthIdentity, RateLimitConfig, RateLimitStatus } from './interfaces/index.js';
+import { AEM_ERROR_CODES, createAEMError } from './error-handler.js';
+import { CallLimiter, ToolDefinition } from './tool-registry.js';
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+interface RateLimitContext {
+  /** Caller key for requests without an identity, such as the client address */
+  client?: string;
+  /** Quota after the latest call made in this request */
+  status?: RateLimitStatus;
+  report?: (status: RateLimitStatus) => void;
+}
+
+const contexts = new AsyncLocalStorage<RateLimitContext>();
+
+/**
+ * Quota left after the latest tool call of the request being handled
+ */
+export function getRateLimitStatus(): RateLimitStatus | undefined {
+  return contexts.getStore()?.status;
+}
+
+export class RateLimiter implements CallLimiter {
+  private windows = new Map<string, Window>();
+  private lastPrune = 0;
+
+  constructor(private config: RateLimitConfig) {}
+
+  /**
+   * Charge one call against every budget that covers the tool, or throw RATE_LIMITED with
+   * retryAfter when one is spent; nothing is charged for a refused call
+   */
+  consume(caller: AuthIdentity | undefined, tool: ToolDefinition, now: number = Date.now()): RateLimitStatus | undefined {
+    if (!this.config.enabled) {
+      return undefined;
+    }
+    this.prune(now);
+    const context = contexts.getStore();
+    const client = caller ? `${caller.authType}:${caller.subject}` : context?.client ?? 'anonymous';
+
+    const budgets: Array<[string, number]> = [['all', this.config.maxRequests]];
+    if (this.config.categories[tool.category]) budgets.push([`category:${tool.category}`, this.config.categories[tool.category]]);
+    if (this.config.tools[tool.name]) budgets.push([`tool:${tool.name}`, this.config.tools[tool.name]]);
+
+    const windows = budgets.map(([bucket, limit]) => {
+      const key = `${client}|${bucket}`;
+      let window = this.windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + this.config.windowMs };
+        this.windows.set(key, window);
+      }
+      return { bucket, limit, window };
+    });
+
+    const spent = windows.find(({ limit, window }) => window.count >= limit);
+    if (spent) {
+      const retryAfter = spent.window.resetAt - now;
+      throw createAEMError(
+        AEM_ERROR_CODES.RATE_LIMITED,
+        `Rate limit exceeded for ${spent.bucket === 'all' ? 'tool calls' : spent.bucket}: ${spent.limit} per ${Math.round(this.config.windowMs / 1000)}s; retry in ${Math.ceil(retryAfter / 1000)}s`,
+        { bucket: spent.bucket, limit: spent.limit, remaining: 0, resetAt: new Date(spent.window.resetAt).toISOString() },
+        true,
+        retryAfter
+      );
+    }
+
+    windows.forEach(({ window }) => window.count++);
+    // The tightest budget is the one a client has to pace itself by
+    const status = windows
+      .map(({ bucket, limit, window }) => ({ bucket, limit, remaining: limit - window.count, resetAt: window.resetAt }))
+      .reduce((tightest, candidate) => candidate.remaining < tightest.remaining ? candidate : tightest);
+    if (context) {
+      context.status = status;
+      context.report?.(status);
+    }
+    return status;
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrune < this.config.windowMs) return;
+    this.lastPrune = now;
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+/**
+ * RateLimit-* headers describing a quota
+ */
+export function rateLimitHeaders(status: RateLimitStatus, now: number = Date.now()): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(status.limit),
+    'RateLimit-Remaining': String(status.remaining),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((status.resetAt - now) / 1000))),
+    'RateLimit-Policy': status.bucket,
+  };
+}
+
+/**
+ * Express middleware that keys unauthenticated callers by address and reports the quota of
+ * each tool call in the response headers (unless the response is already streaming)
+ */
+export function createRateLimitMiddleware() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    contexts.run({
+      client: `ip:${req.ip}`,
+      report: (status) => {
+        if (!res.headersSent) res.set(rateLimitHeaders(status));
+      },
+    }, next);
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Request Context Module
+ * Carries the gateway request ID across the async calls made while handling a request, so
+ * code below the routes (tool registry, audit trail) can tie its work to the request.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+const requests = new AsyncLocalStorage<string>();
+
+/**
+ * ID of the gateway request being handled; undefined outside one (stdio MCP server)
+ */
+export function getRequestId(): string | undefined {
+  return requests.getStore();
+}
+
+export function runInRequest<T>(requestId: string, fn: () => T): T {
+  return requests.run(requestId, fn);
+}
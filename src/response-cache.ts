@@ -0,0 +1,325 @@
+/**
+ * Response Cache Module
+ * Shared cache of JSON node reads (`.json`, `.N.json`, `.infinity.json` and Assets API reads),
+ * installed on every AEM axios instance. Entries are keyed by URL, depth selector, query
+ * parameters and user, and are bounded by count and size with least-recently-used eviction.
+ * Fresh entries are served without a request; older ones are revalidated with If-None-Match or
+ * If-Modified-Since. Writes sent through any instance drop the entries of the nodes they touch,
+ * their ancestors and their descendants; Package Manager commands, which may write anywhere,
+ * drop every entry.
+ */
+
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { describeRequest, isRecordingPlan, isServletPath, nodePathOf } from './plan-mode.js';
+
+const PACKAGE_MANAGER_PREFIX = '/crx/packmgr/';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Set to false to read past the response cache, e.g. for snapshots that must be current */
+    cache?: boolean;
+    /** Answered from the response cache without contacting AEM; maintained by the cache */
+    cacheHit?: boolean;
+    /** Cache state captured when a read was issued; maintained by the cache */
+    cacheRead?: { key: string; path: string; generation: number };
+  }
+}
+
+export interface ResponseCacheOptions {
+  enabled: boolean;
+  /** How long an entry is served without revalidating it */
+  ttlMs: number;
+  maxEntries: number;
+  /** Upper bound on the summed size of cached response bodies */
+  maxBytes: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_OPTIONS: ResponseCacheOptions = {
+  enabled: process.env.AEM_CACHE_ENABLED !== 'false',
+  ttlMs: parseInt(process.env.AEM_CACHE_TTL_MS || '10000', 10),
+  maxEntries: parseInt(process.env.AEM_CACHE_MAX_ENTRIES || '500', 10),
+  maxBytes: parseInt(process.env.AEM_CACHE_MAX_BYTES || String(50 * 1024 * 1024), 10),
+};
+
+export interface ResponseCacheStats {
+  enabled: boolean;
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  /** Stale entries confirmed unchanged by a 304 */
+  revalidated: number;
+  evictions: number;
+  invalidations: number;
+  hitRate: number;
+}
+
+interface CacheEntry {
+  path: string;
+  body: string;
+  headers: Record<string, string>;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private generation = 0;
+  private counts = { hits: 0, misses: 0, revalidated: 0, evictions: 0, invalidations: 0 };
+
+  constructor(private options: ResponseCacheOptions = DEFAULT_RESPONSE_CACHE_OPTIONS) {}
+
+  /**
+   * Entry for a key, marked as most recently used
+   */
+  lookup(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  isFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+    return now - entry.storedAt < this.options.ttlMs;
+  }
+
+  /**
+   * Cache a response unless a write touched its node since the read was issued
+   */
+  store(key: string, path: string, generation: number, response: AxiosResponse, now: number = Date.now()): void {
+    if (generation !== this.generation) return;
+    const body = JSON.stringify(response.data);
+    if (body === undefined || body.length > this.options.maxBytes) return;
+
+    this.remove(key);
+    const etag = headerOf(response, 'etag');
+    const lastModified = headerOf(response, 'last-modified');
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (etag) headers.etag = etag;
+    if (lastModified) headers['last-modified'] = lastModified;
+    this.entries.set(key, { path, body, headers, etag, lastModified, storedAt: now });
+    this.bytes += body.length;
+
+    for (const [oldest] of this.entries) {
+      if (this.entries.size <= this.options.maxEntries && this.bytes <= this.options.maxBytes) break;
+      this.remove(oldest);
+      this.counts.evictions++;
+    }
+  }
+
+  /**
+   * Drop every entry for the given nodes, their ancestors and their descendants
+   */
+  invalidate(paths: string[]): void {
+    if (paths.length === 0) return;
+    this.generation++;
+    for (const [key, entry] of this.entries) {
+      if (paths.some(path => isRelated(entry.path, path))) {
+        this.remove(key);
+        this.counts.invalidations++;
+      }
+    }
+  }
+
+  clear(): void {
+    this.generation++;
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  get currentGeneration(): number {
+    return this.generation;
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  recordHit(revalidated: boolean = false): void {
+    this.counts.hits++;
+    if (revalidated) this.counts.revalidated++;
+  }
+
+  recordMiss(): void {
+    this.counts.misses++;
+  }
+
+  /**
+   * Refresh an entry AEM reported unchanged
+   */
+  touch(entry: CacheEntry, now: number = Date.now()): void {
+    entry.storedAt = now;
+  }
+
+  stats(): ResponseCacheStats {
+    const lookups = this.counts.hits + this.counts.misses;
+    return {
+      enabled: this.options.enabled,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxEntries: this.options.maxEntries,
+      maxBytes: this.options.maxBytes,
+      ...this.counts,
+      hitRate: lookups === 0 ? 0 : Math.round((this.counts.hits / lookups) * 1000) / 1000,
+    };
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.bytes -= entry.body.length;
+      this.entries.delete(key);
+    }
+  }
+}
+
+// Shared by every instance, since the connector creates a fresh axios instance per call
+export const responseCache = new ResponseCache();
+
+/**
+ * Hit/miss statistics of the shared response cache, for health checks
+ */
+export function getResponseCacheStats(): ResponseCacheStats {
+  return responseCache.stats();
+}
+
+/**
+ * Serve cacheable reads from the cache and drop cached nodes when writes are sent.
+ * Install it last, so cached reads skip the circuit breaker and plan recording is seen first.
+ */
+export function installResponseCache(instance: AxiosInstance, cache: ResponseCache = responseCache): AxiosInstance {
+  instance.interceptors.request.use((config) => {
+    // Plans send no writes and answer some reads locally, so they neither use nor change the cache
+    if (!cache.enabled || isRecordingPlan()) {
+      return config;
+    }
+    if (!isRead(config)) {
+      invalidateWrite(cache, config);
+      return config;
+    }
+    if (config.cache === false || !isCacheable(config)) {
+      return config;
+    }
+
+    const key = cacheKey(config);
+    const path = nodePathOf(config.url || '');
+    const entry = cache.lookup(key);
+    if (entry && cache.isFresh(entry)) {
+      cache.recordHit();
+      config.cacheHit = true;
+      config.adapter = async () => cachedResponse(entry, config);
+      return config;
+    }
+    if (entry?.etag) {
+      config.headers.set('If-None-Match', entry.etag);
+    } else if (entry?.lastModified) {
+      config.headers.set('If-Modified-Since', entry.lastModified);
+    }
+    config.cacheRead = { key, path, generation: cache.currentGeneration };
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      const { cacheRead } = response.config;
+      if (cacheRead) {
+        // Cleared once handled: a retried read comes back through the original request's interceptors too
+        delete response.config.cacheRead;
+        cache.recordMiss();
+        if (response.status === 200) {
+          cache.store(cacheRead.key, cacheRead.path, cacheRead.generation, response);
+        }
+      } else if (cache.enabled && !isRead(response.config) && !isRecordingPlan()) {
+        // Again on completion, in case a read repopulated an entry while the write was in flight
+        invalidateWrite(cache, response.config);
+      }
+      return response;
+    },
+    (error) => {
+      const config: InternalAxiosRequestConfig | undefined = error?.config;
+      const cacheRead = config?.cacheRead;
+      if (config && cacheRead) {
+        delete config.cacheRead;
+        const entry = error.response?.status === 304 ? cache.lookup(cacheRead.key) : undefined;
+        if (entry) {
+          cache.recordHit(true);
+          cache.touch(entry);
+          return cachedResponse(entry, config);
+        }
+        if (error.response?.status === 304) {
+          // The entry was dropped by a write while it was being revalidated
+          config.headers.delete('If-None-Match');
+          config.headers.delete('If-Modified-Since');
+          return instance.request({ ...config, cache: false });
+        }
+        cache.recordMiss();
+      } else if (config && cache.enabled && !isRead(config) && !isRecordingPlan()) {
+        invalidateWrite(cache, config);
+      }
+      throw error;
+    }
+  );
+
+  return instance;
+}
+
+function invalidateWrite(cache: ResponseCache, config: InternalAxiosRequestConfig): void {
+  if (nodePathOf(config.url || '').startsWith(PACKAGE_MANAGER_PREFIX)) {
+    cache.clear();
+  } else {
+    cache.invalidate(describeRequest(config).affectedPaths);
+  }
+}
+
+function isRead(config: InternalAxiosRequestConfig): boolean {
+  return (config.method || 'get').toLowerCase() === 'get';
+}
+
+function isCacheable(config: InternalAxiosRequestConfig): boolean {
+  const url = (config.url || '').replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+  return url.endsWith('.json')
+    && (!config.responseType || config.responseType === 'json')
+    && !isServletPath(url);
+}
+
+/**
+ * Absolute URL with sorted query parameters, plus the user the request is made as
+ */
+function cacheKey(config: InternalAxiosRequestConfig): string {
+  const url = new URL(config.url || '', config.baseURL);
+  const params = new URLSearchParams(url.search);
+  for (const [name, value] of Object.entries(config.params || {})) {
+    if (value !== undefined && value !== null) params.append(name, String(value));
+  }
+  params.sort();
+  const query = params.toString();
+  const user = config.auth?.username ?? String(config.headers?.Authorization ?? '');
+  return `${user} ${url.origin}${url.pathname}${query ? `?${query}` : ''}`;
+}
+
+function cachedResponse(entry: CacheEntry, config: InternalAxiosRequestConfig): AxiosResponse {
+  return {
+    data: JSON.parse(entry.body),
+    status: 200,
+    statusText: 'OK',
+    headers: { ...entry.headers },
+    config,
+  };
+}
+
+function headerOf(response: AxiosResponse, name: string): string | undefined {
+  const value = response.headers?.[name];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function isRelated(cachedPath: string, writtenPath: string): boolean {
+  return cachedPath === writtenPath
+    || cachedPath.startsWith(`${writtenPath}/`)
+    || writtenPath.startsWith(`${cachedPath}/`);
+}
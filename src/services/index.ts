@@ -14,7 +14,8 @@ import {
   ValidateComponentRequest,
   ValidateResponse,
   BulkUpdateComponentsRequest,
-  BulkUpdateResponse
+  BulkUpdateResponse,
+  JCRQueryParams
 } from '../interfaces/index.js';
 
 /**
@@ -571,23 +572,21 @@ export class SearchService {
   }
 
   /**
-   * Execute query with validation
+   * Execute a sandboxed JCR-SQL2/XPath query with logging
    */
-  async executeWithValidation(query: string, limit?: number) {
+  async executeWithValidation(params: JCRQueryParams) {
+    const { query } = params;
     this.logger.info('Executing query with validation', {
       query: query.substring(0, 100) + '...' // Log only first 100 chars for security
     });
 
     try {
-      // Validate query
-      this.validateQuery(query);
-
-      // Execute the query
-      const result = await this.connector.executeJCRQuery(query, limit);
+      // The connector runs the statement through the query sandbox before executing it
+      const result = await this.connector.executeJCRQuery(params);
 
       this.logger.info('Query executed successfully', {
-        resultCount: result.results.length,
-        total: result.total
+        resultCount: result.count,
+        hasMore: result.hasMore
       });
 
       return result;
@@ -599,36 +598,6 @@ export class SearchService {
       throw error;
     }
   }
-
-  /**
-   * Validate query for security
-   */
-  private validateQuery(query: string): void {
-    if (!query || query.trim().length === 0) {
-      throw new Error('Query cannot be empty');
-    }
-
-    if (query.length > 1000) {
-      throw new Error('Query is too long');
-    }
-
-    // Check for potentially dangerous patterns
-    const dangerousPatterns = [
-      /drop\s+table/i,
-      /delete\s+from/i,
-      /update\s+set/i,
-      /insert\s+into/i,
-      /exec\s*\(/i,
-      /script\s*>/i,
-      /<script/i
-    ];
-
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(query)) {
-        throw new Error('Query contains potentially dangerous patterns');
-      }
-    }
-  }
 }
 
 /**
@@ -0,0 +1,432 @@
+/**
+ * Tool Registry Module
+ * Single source of truth for tool definitions. The stdio/HTTP MCP servers, the gateway
+ * /api/methods routes, the OpenAPI spec and the dashboard are all generated from it.
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { AEM_ERROR_CODES, createAEMError } from './error-handler.js';
+import { validateToolArguments } from './validation.js';
+import { getCallerIdentity, hasScope } from './auth.js';
+import { getRequestId } from './request-context.js';
+import { AuditRecord, AuthIdentity } from './interfaces/index.js';
+
+export type ToolCategory =
+  | 'page'
+  | 'component'
+  | 'asset'
+  | 'search'
+  | 'template'
+  | 'site'
+  | 'replication'
+  | 'workflow'
+  | 'version'
+  | 'package'
+  | 'legacy'
+  | 'utility';
+
+export type ImplementationStatus = 'complete' | 'partial' | 'mock' | 'not-implemented';
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: unknown[];
+  default?: unknown;
+  [keyword: string]: unknown;
+}
+
+export interface ObjectSchema extends JsonSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+}
+
+export interface ToolExample {
+  title: string;
+  request: Record<string, unknown>;
+}
+
+/**
+ * Nodes a mutating tool touches, so its change can be journaled and undone
+ */
+export interface ToolJournalSpec<TArgs = any> {
+  /** Nodes the tool may modify or delete; snapshotted before it runs */
+  paths: (args: TArgs) => string[];
+  /** Nodes the tool created, read from its result; removed on undo */
+  created?: (args: TArgs, result: any) => string[];
+}
+
+export interface ChangeRecorder {
+  recordChange(tool: string, args: Record<string, any>, spec: ToolJournalSpec, run: () => Promise<unknown>): Promise<unknown>;
+}
+
+export interface ChangePlanner {
+  /** Run the tool with writes captured instead of sent and return the resulting plan */
+  planChange(tool: string, args: Record<string, any>, run: () => Promise<unknown>): Promise<unknown>;
+}
+
+/**
+ * Role-based access checks applied on top of the caller's scopes
+ */
+export interface AccessController {
+  /** Throw INSUFFICIENT_PERMISSIONS unless the caller may run the tool on these paths */
+  authorize(caller: AuthIdentity | undefined, tool: ToolDefinition, paths: string[]): void;
+  /** Whether the tool is listed for the caller */
+  canList(caller: AuthIdentity | undefined, tool: ToolDefinition): boolean;
+}
+
+export interface CallLimiter {
+  /** Charge a call to the caller's budgets; throws RATE_LIMITED when one is spent */
+  consume(caller: AuthIdentity | undefined, tool: ToolDefinition): unknown;
+}
+
+export interface AuditTrail {
+  /** Append an executed write; a failed append fails the call */
+  record(record: AuditRecord): Promise<unknown>;
+}
+
+export interface EnvironmentSelector {
+  /** Environments a call may name; the first is used when it names none */
+  names(): string[];
+  /** Run a call against the named environment; refuses writes to read-only environments */
+  run<T>(name: string | undefined, writes: boolean, fn: () => Promise<T>): Promise<T>;
+}
+
+const DRY_RUN_PROPERTY: JsonSchema = {
+  type: 'boolean',
+  description: 'Send no writes; return the planned requests, affected paths and property diff with a planId for applyPlan',
+};
+
+export interface ToolDefinition<TArgs = any> {
+  name: string;
+  description: string;
+  category: ToolCategory;
+  inputSchema: ObjectSchema;
+  /** Shape of the handler result; omitted when the result is not a JSON object */
+  outputSchema?: ObjectSchema;
+  implementationStatus: ImplementationStatus;
+  notes?: string;
+  examples?: ToolExample[];
+  /** Writes to the repository; such tools accept dryRun */
+  mutating?: boolean;
+  /**
+   * Writes outside the dry-run model (binary uploads, workflow, version, package and undo actions);
+   * audited and access-checked like mutating tools, but never planned
+   */
+  audited?: boolean;
+  journal?: ToolJournalSpec<TArgs>;
+  /** Nodes a call writes that its arguments do not name, e.g. those of a stored job; access-checked with them */
+  targets?: (args: TArgs) => Promise<string[]>;
+  handler: (args: TArgs) => Promise<unknown>;
+}
+
+export interface ToolSummary {
+  name: string;
+  description: string;
+  category: ToolCategory;
+  parameters: string[];
+  requiredParameters: string[];
+  inputSchema: ObjectSchema;
+  outputSchema?: ObjectSchema;
+  implementationStatus: ImplementationStatus;
+  notes?: string;
+  examples?: ToolExample[];
+  mutating: boolean;
+}
+
+/**
+ * Output schema for results built with createSuccessResponse; data is described per tool
+ */
+export function operationResultSchema(data: JsonSchema = { type: 'object' }): ObjectSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      operation: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' },
+      data,
+    },
+  };
+}
+
+export interface ToolRegistryOptions {
+  /** Journals calls to tools that declare a journal spec */
+  recorder?: ChangeRecorder;
+  /** Records dry runs of mutating tools */
+  planner?: ChangePlanner;
+  /** Plan every mutating call unless it passes dryRun: false */
+  dryRunByDefault?: boolean;
+  /** Role-based policy checked before every call */
+  access?: AccessController;
+  /** Call budgets charged once a call is permitted */
+  limiter?: CallLimiter;
+  /** Trail every executed write is appended to */
+  audit?: AuditTrail;
+  /** AEM environments calls choose between with an environment argument */
+  environments?: EnvironmentSelector;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private recorder?: ChangeRecorder;
+  private planner?: ChangePlanner;
+  private dryRunByDefault: boolean;
+  private access?: AccessController;
+  private limiter?: CallLimiter;
+  private audit?: AuditTrail;
+  private environments?: EnvironmentSelector;
+
+  constructor(options: ToolRegistryOptions = {}) {
+    this.recorder = options.recorder;
+    this.planner = options.planner;
+    this.dryRunByDefault = options.dryRunByDefault ?? false;
+    this.access = options.access;
+    this.limiter = options.limiter;
+    this.audit = options.audit;
+    this.environments = options.environments;
+  }
+
+  register(tool: ToolDefinition): this {
+    if (this.tools.has(tool.name)) {
+      throw createAEMError(AEM_ERROR_CODES.INVALID_PARAMETERS, `Tool '${tool.name}' is already registered`, { name: tool.name });
+    }
+    if (tool.mutating && this.planner) {
+      tool = { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, dryRun: DRY_RUN_PROPERTY } } };
+    }
+    if (this.environments) {
+      const names = this.environments.names();
+      const environment: JsonSchema = { type: 'string', enum: names, description: `AEM environment to run against; defaults to ${names[0]}` };
+      tool = { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, environment } } };
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  registerAll(tools: ToolDefinition[]): this {
+    tools.forEach(tool => this.register(tool));
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  getNames(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  getCategories(): ToolCategory[] {
+    return [...new Set(this.list().map(tool => tool.category))];
+  }
+
+  getImplementationStatus(): Record<string, number> {
+    return this.list().reduce((acc: Record<string, number>, tool) => {
+      acc[tool.implementationStatus] = (acc[tool.implementationStatus] || 0) + 1;
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Tools the current caller may run: within its scopes and listed by the access policy
+   */
+  listPermitted(): ToolDefinition[] {
+    const caller = getCallerIdentity();
+    return this.list().filter(tool => (!caller || hasScope(caller, tool.name, tool.category))
+      && (!this.access || this.access.canList(caller, tool)));
+  }
+
+  /**
+   * Validate arguments against the tool's input schema, then run it; unknown names raise
+   * METHOD_NOT_FOUND, bad arguments INVALID_PARAMETERS, and tools outside the authenticated
+   * caller's scopes or the access policy INSUFFICIENT_PERMISSIONS, and calls beyond the
+   * caller's budget RATE_LIMITED, all before any AEM request.
+   * Calls run against the environment they name, or the default one; writes to read-only
+   * environments are refused. Dry runs of mutating tools return a plan instead of a result.
+   * Journaled tools run through the change recorder, which adds a jobId to their result.
+   * Executed writes, successful or not, are appended to the audit trail.
+   */
+  async call(name: string, args: Record<string, any> = {}): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw createAEMError(AEM_ERROR_CODES.METHOD_NOT_FOUND, `Method '${name}' not found`, { name, availableMethods: this.getNames() });
+    }
+    validateToolArguments(name, tool.inputSchema, args);
+    const caller = getCallerIdentity();
+    if (caller && !hasScope(caller, tool.name, tool.category)) {
+      throw createAEMError(AEM_ERROR_CODES.INSUFFICIENT_PERMISSIONS, `Caller '${caller.subject}' is not permitted to run ${name}`, { method: name, scopes: caller.scopes });
+    }
+    let environment: string | undefined;
+    if (this.environments) {
+      ({ environment, ...args } = args);
+    }
+    const within = <T>(writes: boolean, fn: () => Promise<T>): Promise<T> =>
+      this.environments ? this.environments.run(environment, writes, fn) : fn();
+    // Targets read from AEM come from the environment the call runs against
+    const resolved = tool.targets ? await within(false, () => tool.targets!(args)) : [];
+    const paths = [...new Set([...targetPaths(tool, args), ...resolved])];
+    this.access?.authorize(caller, tool, paths);
+    this.limiter?.consume(caller, tool);
+    if (tool.mutating && this.planner) {
+      const { dryRun = this.dryRunByDefault, ...toolArgs } = args;
+      if (dryRun) {
+        return within(false, () => this.planner!.planChange(name, toolArgs, () => tool.handler(toolArgs)));
+      }
+      args = toolArgs;
+    }
+    const journal = this.recorder && tool.journal;
+    const writes = !!(tool.mutating || tool.audited);
+    const run = journal
+      ? () => within(writes, () => this.recorder!.recordChange(name, args, journal, () => tool.handler(args)))
+      : () => within(writes, () => tool.handler(args));
+    if (!this.audit || !writes) {
+      return run();
+    }
+
+    const record: Omit<AuditRecord, 'outcome'> = {
+      requestId: getRequestId(),
+      user: caller?.subject ?? 'anonymous',
+      authType: caller?.authType,
+      tool: name,
+      category: tool.category,
+      ...(this.environments ? { environment: environment ?? this.environments.names()[0] } : {}),
+      paths,
+      params: args,
+    };
+    let result: unknown;
+    try {
+      result = await run();
+    } catch (error: any) {
+      await this.audit.record({ ...record, outcome: 'failure', error: { code: error.code || 'UNKNOWN_ERROR', message: error.message } });
+      throw error;
+    }
+    const failed = !!result && typeof result === 'object' && (result as { success?: unknown }).success === false;
+    await this.audit.record({ ...record, outcome: failed ? 'failure' : 'success', result });
+    return result;
+  }
+
+  /**
+   * Serialisable description of the tools the current caller may run, used by /api/methods and the dashboard
+   */
+  describe(): ToolSummary[] {
+    return this.listPermitted().map(tool => this.summarize(tool));
+  }
+
+  summarize(tool: ToolDefinition): ToolSummary {
+    return {
+      name: tool.name,
+      description: tool.description,
+      category: tool.category,
+      parameters: Object.keys(tool.inputSchema.properties),
+      requiredParameters: tool.inputSchema.required || [],
+      inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema,
+      implementationStatus: tool.implementationStatus,
+      notes: tool.notes,
+      examples: tool.examples,
+      mutating: !!tool.mutating,
+    };
+  }
+
+  describeByCategory(): Record<string, ToolSummary[]> {
+    return this.describe().reduce((acc: Record<string, ToolSummary[]>, tool) => {
+      (acc[tool.category] = acc[tool.category] || []).push(tool);
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Tool list in the shape expected by tools/list
+   */
+  toMCPTools(): Tool[] {
+    return this.listPermitted().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+    }));
+  }
+
+  /**
+   * OpenAPI path items for POST /api/methods/{name}, one per tool
+   */
+  toOpenAPIPaths(): Record<string, unknown> {
+    const paths: Record<string, unknown> = {};
+    for (const tool of this.list()) {
+      paths[`/api/methods/${tool.name}`] = {
+        post: {
+          summary: tool.description,
+          description: tool.notes ? `${tool.description}\n\nStatus: ${tool.implementationStatus}. ${tool.notes}` : `${tool.description}\n\nStatus: ${tool.implementationStatus}.`,
+          operationId: tool.name,
+          tags: [tool.category],
+          deprecated: tool.implementationStatus === 'not-implemented' ? true : undefined,
+          requestBody: {
+            required: (tool.inputSchema.required || []).length > 0,
+            content: {
+              'application/json': {
+                schema: tool.inputSchema,
+                ...(tool.examples?.length ? {
+                  examples: Object.fromEntries(tool.examples.map((example, i) => [`example${i + 1}`, { summary: example.title, value: example.request }])),
+                } : {}),
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Method result',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      method: { type: 'string', example: tool.name },
+                      data: tool.outputSchema || {},
+                      timestamp: { type: 'string', format: 'date-time' },
+                    },
+                  },
+                },
+              },
+            },
+            400: { description: 'INVALID_PARAMETERS: error.details.errors lists each offending field with its expected type' },
+            401: { description: 'AUTHENTICATION_FAILED: missing or invalid credentials' },
+            403: { description: 'INSUFFICIENT_PERMISSIONS: the caller\'s scopes or roles do not allow this method on the given paths' },
+            404: { description: 'Method not found' },
+            429: { description: 'RATE_LIMITED: the caller\'s budget for this method is spent; see the Retry-After header' },
+            500: { description: 'Method execution failed' },
+          },
+        },
+      };
+    }
+    return paths;
+  }
+}
+
+/**
+ * Repository paths a call targets: absolute values of arguments named *Path or *Paths, at any
+ * depth, plus the nodes of the tool's journal spec
+ */
+function targetPaths(tool: ToolDefinition, args: Record<string, any>): string[] {
+  const paths = new Set<string>();
+  const visit = (value: unknown, key = ''): void => {
+    if (Array.isArray(value)) {
+      value.forEach(item => visit(item, key));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([name, child]) => visit(child, name));
+    } else if (typeof value === 'string' && value.startsWith('/') && /(^p|P)aths?$/.test(key)) {
+      paths.add(value);
+    }
+  };
+  visit(args);
+  tool.journal?.paths(args).forEach(path => paths.add(path));
+  return [...paths];
+}
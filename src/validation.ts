@@ -0,0 +1,136 @@
+/**
+ * Validation Module
+ * Runtime validation of tool arguments against JSON schemas derived from the request interfaces
+ */
+
+import { AEM_ERROR_CODES, createAEMError } from './error-handler.js';
+import { JsonSchema } from './tool-registry.js';
+
+export interface ValidationIssue {
+  field: string;
+  expected: string;
+  received: string;
+  message: string;
+}
+
+type RequiredKeys<T> = { [K in keyof T]-?: Record<string, never> extends Pick<T, K> ? never : K }[keyof T];
+
+/**
+ * Object schema tied to a request interface: every interface field must be described
+ * and only required interface fields may appear in `required`
+ */
+export type SchemaFor<T> = {
+  type: 'object';
+  description?: string;
+  properties: { [K in keyof T]-?: JsonSchema };
+  required?: Array<RequiredKeys<T>>;
+};
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+/**
+ * Collect every schema violation in a value; extra properties are allowed
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, field = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const label = field || 'arguments';
+  const types = Array.isArray(schema.type) ? schema.type as string[] : schema.type ? [schema.type] : [];
+
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    issues.push({
+      field: label,
+      expected: types.join(' | '),
+      received: describeType(value),
+      message: `${label} must be ${types.join(' or ')}`,
+    });
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      field: label,
+      expected: schema.enum.map(v => JSON.stringify(v)).join(' | '),
+      received: JSON.stringify(value),
+      message: `${label} must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'string' && typeof schema.minLength === 'number' && value.length < schema.minLength) {
+    issues.push({ field: label, expected: `string (min length ${schema.minLength})`, received: `string (length ${value.length})`, message: `${label} is too short` });
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ field: label, expected: `number >= ${schema.minimum}`, received: String(value), message: `${label} must be at least ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ field: label, expected: `number <= ${schema.maximum}`, received: String(value), message: `${label} must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({ field: label, expected: `array (min ${schema.minItems} items)`, received: `array (${value.length} items)`, message: `${label} needs at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateAgainstSchema(schema.items as JsonSchema, item, `${label}[${index}]`)));
+    }
+  }
+
+  if (matchesType(value, 'object') && (schema.properties || schema.required)) {
+    const record = value as Record<string, unknown>;
+    const prefix = field ? `${field}.` : '';
+
+    for (const name of schema.required || []) {
+      if (record[name] === undefined || record[name] === null) {
+        const expected = schema.properties?.[name]?.type;
+        issues.push({
+          field: `${prefix}${name}`,
+          expected: Array.isArray(expected) ? expected.join(' | ') : String(expected || 'any'),
+          received: 'undefined',
+          message: `${prefix}${name} is required`,
+        });
+      }
+    }
+
+    for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[name] !== undefined && record[name] !== null) {
+        issues.push(...validateAgainstSchema(propertySchema, record[name], `${prefix}${name}`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate tool arguments and throw INVALID_PARAMETERS listing each offending field
+ */
+export function validateToolArguments(toolName: string, schema: JsonSchema, args: unknown): void {
+  const errors = validateAgainstSchema(schema, args);
+  if (errors.length > 0) {
+    throw createAEMError(
+      AEM_ERROR_CODES.INVALID_PARAMETERS,
+      `Invalid parameters for ${toolName}: ${errors.map(e => e.message).join('; ')}`,
+      { method: toolName, errors }
+    );
+  }
+}
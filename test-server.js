@@ -3,6 +3,7 @@
 // Quick test script to verify the AEM MCP server starts correctly
 import { AEMConnector } from './dist/aem-connector.js';
 import { MCPRequestHandler } from './dist/mcp-handler.js';
+import { createToolRegistry } from './dist/mcp-tools.js';
 
 async function testServer() {
   console.log('🧪 Testing AEM MCP Server...');
@@ -15,7 +16,7 @@ async function testServer() {
     
     // Test MCP Handler initialization
     console.log('2. Initializing MCP Handler...');
-    const mcpHandler = new MCPRequestHandler(aemConnector);
+    const mcpHandler = new MCPRequestHandler(createToolRegistry(aemConnector));
     console.log('✅ MCP Handler initialized successfully');
     
     // Test available methods